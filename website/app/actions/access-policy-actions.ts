@@ -0,0 +1,70 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { deleteAccessPolicy, saveAccessPolicy } from '@/lib/db/models/access-policy'
+import { getUserById } from '@/lib/db/models/user'
+import { requirePermission } from '@/lib/auth/session'
+import type { SessionUser } from '@/lib/auth/ownership'
+import {
+  evaluateAccessPolicy,
+  parseAccessControlConfig,
+  validateWebexAccess,
+  type AccessValidationResult,
+} from '@/lib/auth/access-control'
+import { accessPolicySchema, type AccessPolicyInput } from '@/lib/validations/access-policy'
+
+/**
+ * Refuse changes that would stop the admin making them from signing in
+ */
+async function requireOwnAccess(
+  admin: SessionUser,
+  check: (email: string, orgId: string | undefined) => AccessValidationResult
+): Promise<void> {
+  const user = await getUserById(admin.id)
+  const result = check(user?.email || admin.email, user?.orgId)
+
+  if (!result.allowed) {
+    throw new Error(`This would stop you signing in. ${result.message || ''}`.trim())
+  }
+}
+
+export async function saveAccessPolicyAction(policy: AccessPolicyInput) {
+  try {
+    const admin = await requirePermission('security:manage')
+
+    // Validate input
+    const validatedPolicy = accessPolicySchema.parse(policy)
+
+    await requireOwnAccess(admin, (email, orgId) => evaluateAccessPolicy(validatedPolicy, email, orgId))
+    await saveAccessPolicy(validatedPolicy, admin)
+
+    revalidatePath('/admin/access')
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to save access policy' }
+  }
+}
+
+export async function resetAccessPolicyAction() {
+  try {
+    const admin = await requirePermission('security:manage')
+
+    await requireOwnAccess(admin, (email, orgId) =>
+      validateWebexAccess(email, orgId, parseAccessControlConfig())
+    )
+    await deleteAccessPolicy()
+
+    revalidatePath('/admin/access')
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to reset access policy' }
+  }
+}
@@ -0,0 +1,228 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import {
+  getUserCollections,
+  getCollectionById,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  addPromptToCollection,
+  removePromptFromCollection,
+  reorderCollectionPrompts,
+  addCollaborator,
+  removeCollaborator,
+} from '@/lib/db/models/collection'
+import { findPromptById } from '@/lib/db/models/prompt'
+import { requireCurrentUser, requireSessionUser } from '@/lib/auth/session'
+import {
+  canEditCollection,
+  canManageCollection,
+  canViewPrompt,
+  type SessionUser,
+} from '@/lib/auth/ownership'
+import {
+  collectionSchema,
+  collaboratorSchema,
+  CollectionFormData,
+} from '@/lib/validations/collection'
+
+/**
+ * Require the signed-in user to be able to change a collection's prompts,
+ * or its settings when `manage` is set (curators by their current role)
+ */
+async function requireCollectionAccess(
+  collectionId: string,
+  manage: boolean = false
+): Promise<SessionUser> {
+  const user = await requireCurrentUser()
+
+  const collection = await getCollectionById(collectionId)
+  if (!collection) {
+    throw new Error('Collection not found')
+  }
+
+  const allowed = manage ? canManageCollection(collection, user) : canEditCollection(collection, user)
+  if (!allowed) {
+    throw new Error('You do not have permission to change this collection')
+  }
+
+  return user
+}
+
+export async function getMyCollectionsAction(promptId: string) {
+  try {
+    const user = await requireSessionUser()
+    const collections = await getUserCollections(user.id)
+
+    // Return just what the "Add to collection" menu needs
+    return {
+      success: true,
+      collections: collections.map((collection) => ({
+        id: collection._id.toString(),
+        name: collection.name,
+        containsPrompt: collection.promptIds.some((id) => id.toString() === promptId),
+      })),
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to load collections' }
+  }
+}
+
+export async function createCollectionAction(formData: CollectionFormData) {
+  try {
+    // Validate input
+    const validatedData = collectionSchema.parse(formData)
+
+    // Create collection owned by the signed-in user
+    const user = await requireSessionUser()
+    const collectionId = await createCollection(user.id, user.name, validatedData)
+
+    revalidatePath('/library')
+    // Return success with the new collection ID
+    return { success: true, collectionId }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to create collection' }
+  }
+}
+
+export async function updateCollectionAction(collectionId: string, formData: CollectionFormData) {
+  try {
+    // Validate input
+    const validatedData = collectionSchema.parse(formData)
+
+    await requireCollectionAccess(collectionId, true)
+    await updateCollection(collectionId, validatedData)
+
+    revalidatePath('/library')
+    revalidatePath(`/collections/${collectionId}`)
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to update collection' }
+  }
+}
+
+export async function deleteCollectionAction(collectionId: string) {
+  try {
+    await requireCollectionAccess(collectionId, true)
+    await deleteCollection(collectionId)
+
+    revalidatePath('/library')
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to delete collection' }
+  }
+}
+
+export async function addPromptToCollectionAction(collectionId: string, promptId: string) {
+  try {
+    const user = await requireCollectionAccess(collectionId)
+
+    // Only prompts the user can see may be collected
+    const prompt = await findPromptById(promptId)
+    if (!prompt || !canViewPrompt(prompt, user)) {
+      throw new Error('Prompt not found')
+    }
+
+    await addPromptToCollection(collectionId, promptId)
+
+    revalidatePath('/library')
+    revalidatePath(`/collections/${collectionId}`)
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to add prompt to collection' }
+  }
+}
+
+export async function removePromptFromCollectionAction(collectionId: string, promptId: string) {
+  try {
+    await requireCollectionAccess(collectionId)
+    await removePromptFromCollection(collectionId, promptId)
+
+    revalidatePath('/library')
+    revalidatePath(`/collections/${collectionId}`)
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to remove prompt from collection' }
+  }
+}
+
+export async function reorderCollectionAction(collectionId: string, promptIds: string[]) {
+  try {
+    await requireCollectionAccess(collectionId)
+    await reorderCollectionPrompts(collectionId, promptIds)
+
+    revalidatePath(`/collections/${collectionId}`)
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to reorder collection' }
+  }
+}
+
+export async function addCollaboratorAction(collectionId: string, email: string) {
+  try {
+    // Validate input
+    const validatedData = collaboratorSchema.parse({ email })
+
+    await requireCollectionAccess(collectionId, true)
+    const collaborator = await addCollaborator(collectionId, validatedData.email)
+
+    revalidatePath(`/collections/${collectionId}`)
+    // Return the collaborator for display
+    return {
+      success: true,
+      collaborator: {
+        userId: collaborator.userId.toString(),
+        name: collaborator.name,
+        email: collaborator.email,
+      },
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to add collaborator' }
+  }
+}
+
+export async function removeCollaboratorAction(collectionId: string, userId: string) {
+  try {
+    await requireCollectionAccess(collectionId, true)
+    await removeCollaborator(collectionId, userId)
+
+    revalidatePath(`/collections/${collectionId}`)
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to remove collaborator' }
+  }
+}
@@ -0,0 +1,73 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { getLeaderboard } from '@/lib/db/models/prompt'
+import { getScoringConfig, saveScoringConfig } from '@/lib/db/models/leaderboard'
+import { requirePermission } from '@/lib/auth/session'
+import {
+  leaderboardPeriodSchema,
+  scoringConfigSchema,
+  type LeaderboardPeriod,
+  type ScoringConfig,
+} from '@/lib/validations/leaderboard'
+import type { LeaderboardPreviewEntry } from '@/types/leaderboard'
+
+// Prompts compared when previewing a scoring change
+const PREVIEW_LIMIT = 20
+
+export async function previewScoringConfigAction(config: ScoringConfig, period: LeaderboardPeriod) {
+  try {
+    await requirePermission('settings:manage')
+
+    // Validate input
+    const scoring = scoringConfigSchema.parse(config)
+    const timePeriod = leaderboardPeriodSchema.parse(period)
+
+    const [current, preview] = await Promise.all([
+      getScoringConfig().then((saved) =>
+        getLeaderboard({ timePeriod, limit: PREVIEW_LIMIT, scoring: saved })
+      ),
+      getLeaderboard({ timePeriod, limit: PREVIEW_LIMIT, scoring }),
+    ])
+
+    const previousRanks = new Map(current.map((prompt, index) => [prompt._id.toString(), index + 1]))
+    const entries: LeaderboardPreviewEntry[] = preview.map((prompt, index) => ({
+      id: prompt._id.toString(),
+      title: prompt.title,
+      authorName: prompt.authorName,
+      category: prompt.category,
+      score: prompt.score,
+      rank: index + 1,
+      previousRank: previousRanks.get(prompt._id.toString()) ?? null,
+    }))
+
+    // Return the previewed ranking
+    return { success: true, entries }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to preview scoring' }
+  }
+}
+
+export async function saveScoringConfigAction(config: ScoringConfig) {
+  try {
+    const user = await requirePermission('settings:manage')
+
+    // Validate input
+    const scoring = scoringConfigSchema.parse(config)
+
+    await saveScoringConfig(scoring, user)
+
+    revalidatePath('/leaderboard')
+    revalidatePath('/admin/leaderboard')
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to save scoring' }
+  }
+}
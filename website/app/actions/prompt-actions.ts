@@ -1,25 +1,82 @@
 'use server'
 
-import { ObjectId } from 'mongodb'
 import { revalidatePath } from 'next/cache'
-import { createPrompt, updatePrompt, deletePrompt } from '@/lib/db/models/prompt'
-import { promptSchema, PromptFormData } from '@/lib/validations/prompt'
+import {
+  createPrompt,
+  updatePrompt,
+  deletePrompt,
+  restoreDeletedPrompt,
+  findDeletedPromptById,
+  restorePromptRevision,
+  saveDraft,
+  publishDraft,
+  setPromptStatus,
+  syncFork,
+  findPromptById,
+  toggleStar,
+  forkPrompt,
+  getPublicPrompts,
+  getTagCounts,
+  findNearDuplicatePrompts,
+} from '@/lib/db/models/prompt'
+import { requireCurrentUser, requireSessionUser } from '@/lib/auth/session'
+import { canModifyPrompt, canViewPrompt, type SessionUser } from '@/lib/auth/ownership'
+import {
+  promptSchema,
+  promptDraftSchema,
+  promptStatusSchema,
+  promptListQuerySchema,
+  PromptFormData,
+  PromptDraftData,
+  PromptListQuery,
+} from '@/lib/validations/prompt'
+import { LIMITS } from '@/lib/constants'
+import { normalizeTag } from '@/lib/utils/tags'
+import { toPromptFilters } from '@/lib/utils/facets'
+import { hasConflictMarkers } from '@/lib/utils/merge'
+
+/**
+ * Require the prompt to exist and be visible to the signed-in user
+ */
+async function requireVisiblePrompt(promptId: string): Promise<SessionUser> {
+  // Curators see private prompts, so their role must still be current
+  const user = await requireCurrentUser()
+
+  const prompt = await findPromptById(promptId)
+  if (!prompt || !canViewPrompt(prompt, user)) {
+    throw new Error('Prompt not found')
+  }
+
+  return user
+}
+
+/**
+ * Require the signed-in user to own the prompt (or be a curator or admin,
+ * by their current role)
+ */
+async function requirePromptOwner(promptId: string, action: string): Promise<SessionUser> {
+  const user = await requireCurrentUser()
+
+  const prompt = await findPromptById(promptId)
+  if (!prompt) {
+    throw new Error('Prompt not found')
+  }
+
+  if (!canModifyPrompt(prompt.authorId, user)) {
+    throw new Error(`You do not have permission to ${action} this prompt`)
+  }
+
+  return user
+}
 
 export async function createPromptAction(formData: PromptFormData) {
   try {
     // Validate input
     const validatedData = promptSchema.parse(formData)
 
-    // Create prompt in database
-    // For now, using a mock author ID until we have authentication
-    const mockUserId = new ObjectId().toString()
-    const mockUserName = 'Anonymous User'
-
-    const promptId = await createPrompt(
-      mockUserId, // TODO: Replace with actual user ID from session
-      mockUserName, // TODO: Replace with actual user name from session
-      validatedData
-    )
+    // Create prompt in database, authored by the signed-in user
+    const user = await requireSessionUser()
+    const promptId = await createPrompt(user.id, user.name, validatedData)
 
     revalidatePath('/')
     // Return success with the new prompt ID
@@ -32,15 +89,92 @@ export async function createPromptAction(formData: PromptFormData) {
   }
 }
 
-export async function updatePromptAction(promptId: string, formData: PromptFormData) {
+export async function updatePromptAction(
+  promptId: string,
+  formData: PromptFormData,
+  expectedVersion: number,
+  changeNote: string = ''
+) {
+  try {
+    // Validate input
+    const validatedData = promptSchema.parse(formData)
+
+    // Update prompt in database, recording a new revision
+    const user = await requirePromptOwner(promptId, 'edit')
+    const versionNumber = await updatePrompt(
+      promptId,
+      validatedData,
+      expectedVersion,
+      { id: user.id, name: user.name },
+      changeNote.trim().slice(0, 200)
+    )
+
+    revalidatePath('/')
+    revalidatePath(`/prompts/${promptId}`)
+    // Return success with the new version number
+    return { success: true, versionNumber }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to update prompt' }
+  }
+}
+
+export async function saveDraftAction(draftId: string | null, formData: PromptDraftData) {
+  try {
+    // Validate input (drafts may be incomplete)
+    const validatedData = promptDraftSchema.parse(formData)
+
+    const user = draftId ? await requirePromptOwner(draftId, 'edit') : await requireSessionUser()
+    const promptId = await saveDraft(user.id, user.name, draftId, validatedData)
+
+    revalidatePath('/library')
+    // Return the draft ID so later autosaves update the same draft
+    return { success: true, promptId, savedAt: new Date().toISOString() }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to save draft' }
+  }
+}
+
+export async function publishDraftAction(promptId: string, formData: PromptFormData) {
   try {
     // Validate input
     const validatedData = promptSchema.parse(formData)
 
-    // Update prompt in database
-    await updatePrompt(promptId, validatedData)
+    const user = await requirePromptOwner(promptId, 'publish')
+    await publishDraft(promptId, validatedData, { id: user.id, name: user.name })
 
     revalidatePath('/')
+    revalidatePath('/library')
+    revalidatePath(`/prompts/${promptId}`)
+    // Return success with the published prompt ID
+    return { success: true, promptId }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to publish prompt' }
+  }
+}
+
+export async function setPromptStatusAction(
+  promptId: string,
+  status: 'published' | 'archived' | 'deprecated',
+  replacementPromptId: string | null = null
+) {
+  try {
+    // Validate input
+    const validatedData = promptStatusSchema.parse({ status, replacementPromptId })
+
+    await requirePromptOwner(promptId, 'change the status of')
+    await setPromptStatus(promptId, validatedData.status, validatedData.replacementPromptId)
+
+    revalidatePath('/')
+    revalidatePath('/library')
     revalidatePath(`/prompts/${promptId}`)
     // Return success
     return { success: true }
@@ -48,16 +182,18 @@ export async function updatePromptAction(promptId: string, formData: PromptFormD
     if (error instanceof Error) {
       return { success: false, error: error.message }
     }
-    return { success: false, error: 'Failed to update prompt' }
+    return { success: false, error: 'Failed to update status' }
   }
 }
 
 export async function deletePromptAction(promptId: string) {
   try {
-    // Delete prompt from database
-    await deletePrompt(promptId)
+    // Move prompt to the trash
+    const user = await requirePromptOwner(promptId, 'delete')
+    await deletePrompt(promptId, user.id)
 
     revalidatePath('/')
+    revalidatePath('/library')
     // Return success
     return { success: true }
   } catch (error) {
@@ -67,3 +203,194 @@ export async function deletePromptAction(promptId: string) {
     return { success: false, error: 'Failed to delete prompt' }
   }
 }
+
+export async function restoreDeletedPromptAction(promptId: string) {
+  try {
+    const user = await requireCurrentUser()
+
+    const prompt = await findDeletedPromptById(promptId)
+    if (!prompt) {
+      throw new Error('Prompt not found in trash')
+    }
+
+    if (!canModifyPrompt(prompt.authorId, user)) {
+      throw new Error('You do not have permission to restore this prompt')
+    }
+
+    await restoreDeletedPrompt(promptId)
+
+    revalidatePath('/')
+    revalidatePath('/library')
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to restore prompt' }
+  }
+}
+
+export async function restorePromptRevisionAction(promptId: string, versionNumber: number) {
+  try {
+    // Restore as a new revision so history is never rewritten
+    const user = await requirePromptOwner(promptId, 'restore')
+    const newVersionNumber = await restorePromptRevision(promptId, versionNumber, {
+      id: user.id,
+      name: user.name,
+    })
+
+    revalidatePath('/')
+    revalidatePath(`/prompts/${promptId}`)
+    // Return success with the new version number
+    return { success: true, versionNumber: newVersionNumber }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to restore revision' }
+  }
+}
+
+export async function syncForkAction(
+  promptId: string,
+  formData: PromptFormData,
+  upstreamVersion: number,
+  expectedVersion: number
+) {
+  try {
+    // Validate input
+    const validatedData = promptSchema.parse(formData)
+    if (hasConflictMarkers(validatedData.promptContent)) {
+      throw new Error('Resolve all merge conflicts before saving')
+    }
+
+    // Save the merge as a new revision of the fork
+    const user = await requirePromptOwner(promptId, 'sync')
+    const versionNumber = await syncFork(promptId, validatedData, upstreamVersion, expectedVersion, {
+      id: user.id,
+      name: user.name,
+    })
+
+    revalidatePath('/')
+    revalidatePath(`/prompts/${promptId}`)
+    // Return success with the new version number
+    return { success: true, versionNumber }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to sync with upstream' }
+  }
+}
+
+export async function toggleStarAction(promptId: string) {
+  try {
+    const user = await requireVisiblePrompt(promptId)
+    const { starred, starCount } = await toggleStar(promptId, user.id)
+
+    revalidatePath(`/prompts/${promptId}`)
+    revalidatePath('/library')
+    // Return the authoritative star state
+    return { success: true, starred, starCount }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to update star' }
+  }
+}
+
+export async function forkPromptAction(promptId: string) {
+  try {
+    const user = await requireVisiblePrompt(promptId)
+    const forkId = await forkPrompt(promptId, user.id, user.name)
+
+    revalidatePath(`/prompts/${promptId}`)
+    revalidatePath('/library')
+    // Return success with the new fork's ID
+    return { success: true, promptId: forkId }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to fork prompt' }
+  }
+}
+
+export async function loadMorePromptsAction(filters: PromptListQuery, cursor: string) {
+  try {
+    // Validate input
+    const query = promptListQuerySchema.parse(filters)
+
+    const page = await getPublicPrompts({
+      ...toPromptFilters(query),
+      limit: LIMITS.PROMPTS_PER_PAGE,
+      cursor,
+    })
+
+    const prompts = page.prompts.map((prompt) => ({
+      ...prompt,
+      _id: prompt._id.toString(),
+      authorId: prompt.authorId.toString(),
+      replacementPromptId: prompt.replacementPromptId?.toString() || null,
+      parentPromptId: prompt.parentPromptId?.toString() || null,
+      deletedBy: null,
+      starredBy: prompt.starredBy.map((id) => id.toString()),
+      createdAt: prompt.createdAt.toISOString(),
+      updatedAt: prompt.updatedAt.toISOString(),
+    }))
+
+    // Return the next page and where to continue from
+    return { success: true, prompts, nextCursor: page.nextCursor }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to load prompts' }
+  }
+}
+
+export async function getTagSuggestionsAction(query: string) {
+  try {
+    await requireSessionUser()
+
+    // Suggest existing tags that start with what has been typed so far
+    const prefix = normalizeTag(query.slice(0, 30))
+    const tags = prefix ? await getTagCounts(prefix, 8) : []
+
+    return { success: true, tags }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to load tag suggestions' }
+  }
+}
+
+export async function findDuplicatePromptsAction(promptContent: string, promptId: string | null) {
+  try {
+    const user = await requireSessionUser()
+
+    // Validate input
+    const content = String(promptContent).slice(0, LIMITS.MAX_PROMPT_LENGTH)
+    const excludeId = promptId && /^[a-f0-9]{24}$/i.test(promptId) ? promptId : null
+
+    const prompts = await findNearDuplicatePrompts(content, user.id, excludeId)
+    const duplicates = prompts.map((prompt) => ({
+      id: prompt._id.toString(),
+      title: prompt.title,
+      authorName: prompt.authorName,
+      isOwn: prompt.authorId.toString() === user.id,
+      similarity: prompt.similarity,
+    }))
+
+    // Return the closest matches, most similar first
+    return { success: true, duplicates }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to check for duplicates' }
+  }
+}
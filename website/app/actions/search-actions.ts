@@ -0,0 +1,85 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import {
+  addRecentSearch,
+  clearRecentSearches,
+  createSavedSearch,
+  deleteSavedSearch,
+} from '@/lib/db/models/search'
+import { requireSessionUser } from '@/lib/auth/session'
+import {
+  recentSearchSchema,
+  savedSearchSchema,
+  SavedSearchFormData,
+} from '@/lib/validations/search'
+
+export async function recordRecentSearchAction(query: string) {
+  try {
+    const user = await requireSessionUser()
+
+    // Validate input
+    const validatedQuery = recentSearchSchema.parse(query)
+
+    await addRecentSearch(user.id, validatedQuery)
+
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to remember search' }
+  }
+}
+
+export async function clearRecentSearchesAction() {
+  try {
+    const user = await requireSessionUser()
+    await clearRecentSearches(user.id)
+
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to clear recent searches' }
+  }
+}
+
+export async function saveSearchAction(formData: SavedSearchFormData) {
+  try {
+    const user = await requireSessionUser()
+
+    // Validate input
+    const { name, filters } = savedSearchSchema.parse(formData)
+
+    const savedSearchId = await createSavedSearch(user.id, name, filters)
+
+    revalidatePath('/library')
+    // Return the new saved search's ID
+    return { success: true, savedSearchId }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to save search' }
+  }
+}
+
+export async function deleteSavedSearchAction(savedSearchId: string) {
+  try {
+    const user = await requireSessionUser()
+    await deleteSavedSearch(savedSearchId, user.id)
+
+    revalidatePath('/library')
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to delete saved search' }
+  }
+}
@@ -0,0 +1,100 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { ObjectId } from 'mongodb'
+import { getDb } from '@/lib/db/mongodb'
+import { requirePermission } from '@/lib/auth/session'
+import { getCurrentRequestContext } from '@/lib/auth/audit-logger'
+import {
+  createAccessBlock,
+  removeAccessBlock,
+  resolveSecurityAlert,
+} from '@/lib/auth/security-monitor'
+import { accessBlockSchema, type AccessBlockInput } from '@/lib/validations/security'
+
+export async function resolveSecurityAlertAction(alertId: string) {
+  try {
+    const admin = await requirePermission('security:manage')
+
+    // Validate input
+    if (!/^[a-f0-9]{24}$/i.test(alertId)) {
+      throw new Error('Alert not found')
+    }
+
+    const db = await getDb()
+    const alert = await resolveSecurityAlert(db, alertId, { id: admin.id, name: admin.name })
+    if (!alert) {
+      throw new Error('Alert not found or already resolved')
+    }
+
+    revalidatePath('/admin/security')
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to resolve alert' }
+  }
+}
+
+export async function blockAccessAction(input: AccessBlockInput) {
+  try {
+    const admin = await requirePermission('security:manage')
+
+    // Validate input
+    const block = accessBlockSchema.parse(input)
+
+    // Blocking yourself would lock you out at your next sign-in
+    if (block.kind === 'email' && block.value === admin.email.toLowerCase()) {
+      throw new Error('You cannot block your own email')
+    }
+    if (block.kind === 'ip' && block.value === (await getCurrentRequestContext()).ipAddress) {
+      throw new Error('You cannot block the IP address you are using')
+    }
+
+    const db = await getDb()
+    await createAccessBlock(db, {
+      kind: block.kind,
+      value: block.value,
+      reason: block.reason,
+      createdBy: { id: admin.id, name: admin.name },
+      expiresAt: new Date(Date.now() + block.durationHours * 60 * 60 * 1000),
+      ...(block.alertId ? { alertId: new ObjectId(block.alertId) } : {}),
+    })
+
+    revalidatePath('/admin/security')
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to block access' }
+  }
+}
+
+export async function unblockAccessAction(blockId: string) {
+  try {
+    await requirePermission('security:manage')
+
+    // Validate input
+    if (!/^[a-f0-9]{24}$/i.test(blockId)) {
+      throw new Error('Block not found')
+    }
+
+    const db = await getDb()
+    if (!(await removeAccessBlock(db, blockId))) {
+      throw new Error('Block not found or already expired')
+    }
+
+    revalidatePath('/admin/security')
+    // Return success
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to remove block' }
+  }
+}
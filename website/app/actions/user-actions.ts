@@ -0,0 +1,60 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { getUserById, setUserRole } from '@/lib/db/models/user'
+import { getDb } from '@/lib/db/mongodb'
+import { requirePermission } from '@/lib/auth/session'
+import { isBootstrapAdmin, isRole, type Role } from '@/lib/auth/permissions'
+import { createAuthAuditLog, getCurrentRequestContext } from '@/lib/auth/audit-logger'
+import { userRoleChangeSchema } from '@/lib/validations/user'
+
+export async function updateUserRoleAction(userId: string, role: Role) {
+  try {
+    const admin = await requirePermission('users:manage')
+
+    // Validate input
+    const change = userRoleChangeSchema.parse({ userId, role })
+
+    if (change.userId === admin.id) {
+      throw new Error('You cannot change your own role')
+    }
+
+    const target = await getUserById(change.userId)
+    if (!target) {
+      throw new Error('User not found')
+    }
+    if (isBootstrapAdmin(target.email)) {
+      throw new Error('This admin is listed in ADMIN_EMAILS. Remove them there to change their role.')
+    }
+
+    const previousRole = isRole(target.role) ? target.role : 'member'
+    if (previousRole !== change.role) {
+      await setUserRole(change.userId, change.role, admin)
+
+      const db = await getDb()
+      await createAuthAuditLog(db, {
+        action: 'role_changed',
+        userId: change.userId,
+        email: target.email,
+        orgId: target.orgId,
+        provider: 'webex',
+        reason: `Changed by ${admin.name}`,
+        metadata: {
+          previousRole,
+          role: change.role,
+          changedBy: { id: admin.id, name: admin.name, email: admin.email },
+        },
+        ...(await getCurrentRequestContext()),
+      })
+    }
+
+    revalidatePath('/admin/users')
+    // Return the role now in effect
+    return { success: true, role: change.role }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to change role' }
+  }
+}
@@ -0,0 +1,49 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { getAccessPolicySettings } from '@/lib/db/models/access-policy'
+import { getSessionUser } from '@/lib/auth/session'
+import { hasPermission } from '@/lib/auth/permissions'
+import { parseAccessControlConfig, policyFromAccessControlConfig } from '@/lib/auth/access-control'
+import AccessPolicyForm from '@/components/admin/access-policy-form'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AccessPolicyPage() {
+  const user = await getSessionUser()
+
+  // Only admins know this page exists
+  if (!hasPermission(user, 'security:manage')) {
+    notFound()
+  }
+
+  const settings = await getAccessPolicySettings()
+
+  // Start from the environment allowlists, written as rules, until a policy is saved
+  const policy = settings?.policy ?? policyFromAccessControlConfig(parseAccessControlConfig())
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mx-auto mb-8 max-w-4xl">
+        <Link href="/admin/security" className="text-sm text-muted-foreground hover:text-foreground">
+          ← Back to security
+        </Link>
+        <h1 className="mb-2 mt-2 text-4xl font-bold">Sign-in Access</h1>
+        <p className="text-lg text-muted-foreground">
+          Who can sign in, by email address, email domain and Webex organization. Rules apply from
+          the next sign-in; people already signed in keep their session.
+        </p>
+        <p className="mt-2 text-sm text-muted-foreground">
+          {settings
+            ? `Last changed by ${settings.updatedBy.name} ${formatDistanceToNow(settings.updatedAt, { addSuffix: true })}`
+            : 'Using the ALLOWED_WEBEX_ORG_IDS and ALLOWED_EMAIL_DOMAINS allowlists, shown below as rules'}
+        </p>
+      </div>
+
+      <div className="mx-auto max-w-4xl">
+        <AccessPolicyForm defaultValues={policy} isSaved={!!settings} />
+      </div>
+    </div>
+  )
+}
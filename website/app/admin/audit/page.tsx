@@ -0,0 +1,82 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { Download } from 'lucide-react'
+import { getSessionUser } from '@/lib/auth/session'
+import { hasPermission } from '@/lib/auth/permissions'
+import { getAuditLogPage } from '@/lib/auth/audit-logger'
+import { getDb } from '@/lib/db/mongodb'
+import { auditLogQuerySchema } from '@/lib/validations/audit'
+import { getAuditHref } from '@/lib/utils/audit'
+import AuditLogFilters from '@/components/admin/audit-log-filters'
+import AuditLogTable from '@/components/admin/audit-log-table'
+
+export const dynamic = 'force-dynamic'
+
+interface AuditLogPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function AuditLogPage({ searchParams }: AuditLogPageProps) {
+  const user = await getSessionUser()
+
+  // Only admins know this page exists
+  if (!hasPermission(user, 'audit:read')) {
+    notFound()
+  }
+
+  const { cursor, ...filters } = auditLogQuerySchema.parse(await searchParams)
+
+  const db = await getDb()
+  const page = await getAuditLogPage(db, filters, cursor)
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="mb-2 text-4xl font-bold">Audit Log</h1>
+          <p className="text-lg text-muted-foreground">
+            Sign-ins, sign-outs, denied access, token refreshes and role changes
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(['csv', 'jsonl'] as const).map((format) => (
+            <a
+              key={format}
+              href={getAuditHref('/api/admin/audit/export', { ...filters, format })}
+              className="flex items-center gap-2 rounded-md border border-border px-3 py-2 text-sm font-medium hover:bg-muted"
+            >
+              <Download className="h-4 w-4" />
+              Export {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <AuditLogFilters filters={filters} />
+
+        <AuditLogTable logs={page.logs} />
+
+        {/* Pagination */}
+        <div className="flex justify-between text-sm">
+          {cursor ? (
+            <Link href={getAuditHref('/admin/audit', filters)} className="text-primary hover:underline">
+              ← Newest
+            </Link>
+          ) : (
+            <span />
+          )}
+          {page.nextCursor && (
+            <Link
+              href={getAuditHref('/admin/audit', { ...filters, cursor: page.nextCursor })}
+              className="text-primary hover:underline"
+            >
+              Older →
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
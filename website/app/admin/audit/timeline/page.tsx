@@ -0,0 +1,146 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { Download } from 'lucide-react'
+import { getSessionUser } from '@/lib/auth/session'
+import { hasPermission } from '@/lib/auth/permissions'
+import { getAuditLogPage, getAuditLogSummary, type AuthAction } from '@/lib/auth/audit-logger'
+import { getDb } from '@/lib/db/mongodb'
+import { auditLogQuerySchema } from '@/lib/validations/audit'
+import { getAuditHref } from '@/lib/utils/audit'
+import AuditActionBadge, { AUDIT_ACTION_LABELS } from '@/components/admin/audit-action-badge'
+import { formatAuditTime } from '@/components/admin/audit-log-table'
+
+export const dynamic = 'force-dynamic'
+
+interface AuditTimelinePageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function AuditTimelinePage({ searchParams }: AuditTimelinePageProps) {
+  const user = await getSessionUser()
+
+  // Only admins know this page exists
+  if (!hasPermission(user, 'audit:read')) {
+    notFound()
+  }
+
+  const { email, cursor } = auditLogQuerySchema.parse(await searchParams)
+  if (!email) {
+    notFound()
+  }
+
+  const db = await getDb()
+  const [summary, page] = await Promise.all([
+    getAuditLogSummary(db, email),
+    getAuditLogPage(db, { email }, cursor),
+  ])
+
+  // Group the page by UTC day
+  const days = new Map<string, typeof page.logs>()
+  for (const log of page.logs) {
+    const day = log.timestamp.toISOString().slice(0, 10)
+    days.set(day, [...(days.get(day) || []), log])
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mx-auto mb-8 max-w-4xl">
+        <Link href="/admin/audit" className="text-sm text-muted-foreground hover:text-foreground">
+          ← Back to audit log
+        </Link>
+        <div className="mt-2 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="mb-2 text-4xl font-bold">{email}</h1>
+            <p className="text-lg text-muted-foreground">Authentication timeline</p>
+          </div>
+          <a
+            href={getAuditHref('/api/admin/audit/export', { email, format: 'csv' })}
+            className="flex items-center gap-2 rounded-md border border-border px-3 py-2 text-sm font-medium hover:bg-muted"
+          >
+            <Download className="h-4 w-4" />
+            Export CSV
+          </a>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-4xl space-y-6">
+        {/* Summary */}
+        {summary ? (
+          <div className="grid gap-4 rounded-lg border bg-card p-6 text-sm sm:grid-cols-2">
+            <div>
+              <p className="text-muted-foreground">First seen</p>
+              <p className="font-medium">{formatAuditTime(summary.firstSeen)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Last seen</p>
+              <p className="font-medium">{formatAuditTime(summary.lastSeen)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Events ({summary.total})</p>
+              <ul className="mt-1 space-y-0.5">
+                {Object.entries(summary.actions).map(([action, count]) => (
+                  <li key={action}>
+                    {AUDIT_ACTION_LABELS[action as AuthAction] || action}: {count}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <p className="text-muted-foreground">IP addresses ({summary.ipAddresses.length})</p>
+              <ul className="mt-1 space-y-0.5">
+                {summary.ipAddresses.map((ip) => (
+                  <li key={ip}>
+                    <Link
+                      href={getAuditHref('/admin/audit', { ipAddress: ip })}
+                      className="hover:underline"
+                    >
+                      {ip}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        ) : (
+          <div className="rounded-lg border bg-card py-12 text-center text-sm text-muted-foreground">
+            No audit logs for this user
+          </div>
+        )}
+
+        {/* Timeline */}
+        {[...days.entries()].map(([day, logs]) => (
+          <section key={day}>
+            <h2 className="mb-3 text-sm font-semibold text-muted-foreground">{day}</h2>
+            <ol className="space-y-3 border-l border-border pl-4">
+              {logs.map((log) => (
+                <li key={log._id.toString()} className="text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-muted-foreground">{formatAuditTime(log.timestamp).slice(11)}</span>
+                    <AuditActionBadge action={log.action} />
+                    <span className="text-muted-foreground">from {log.ipAddress}</span>
+                  </div>
+                  {log.reason && <p className="mt-1 text-foreground">{log.reason}</p>}
+                  <p className="mt-1 truncate text-muted-foreground" title={log.userAgent}>
+                    {log.userAgent}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          </section>
+        ))}
+
+        {page.nextCursor && (
+          <div className="text-right text-sm">
+            <Link
+              href={getAuditHref('/admin/audit/timeline', { email, cursor: page.nextCursor })}
+              className="text-primary hover:underline"
+            >
+              Older →
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
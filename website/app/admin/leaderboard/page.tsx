@@ -0,0 +1,45 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { getScoringConfig, getScoringSettings } from '@/lib/db/models/leaderboard'
+import { getSessionUser } from '@/lib/auth/session'
+import { hasPermission } from '@/lib/auth/permissions'
+import ScoringConfigForm from '@/components/admin/scoring-config-form'
+
+export const dynamic = 'force-dynamic'
+
+export default async function LeaderboardScoringPage() {
+  const user = await getSessionUser()
+
+  // Only admins know this page exists
+  if (!hasPermission(user, 'settings:manage')) {
+    notFound()
+  }
+
+  const [config, settings] = await Promise.all([getScoringConfig(), getScoringSettings()])
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mx-auto mb-8 max-w-4xl">
+        <Link href="/leaderboard" className="text-sm text-muted-foreground hover:text-foreground">
+          ← Back to leaderboard
+        </Link>
+        <h1 className="mb-2 mt-2 text-4xl font-bold">Leaderboard Scoring</h1>
+        <p className="text-lg text-muted-foreground">
+          How prompts are ranked on the leaderboard. Trending browse order picks up changes on the
+          next trending refresh.
+        </p>
+        <p className="mt-2 text-sm text-muted-foreground">
+          {settings
+            ? `Last changed by ${settings.updatedBy.name} ${formatDistanceToNow(settings.updatedAt, { addSuffix: true })}`
+            : 'Using the default formula'}
+        </p>
+      </div>
+
+      <div className="mx-auto max-w-4xl">
+        <ScoringConfigForm defaultValues={config} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { getSessionUser } from '@/lib/auth/session'
+import { hasPermission } from '@/lib/auth/permissions'
+import {
+  SECURITY_THRESHOLDS,
+  countOpenSecurityAlerts,
+  listActiveAccessBlocks,
+  listSecurityAlerts,
+} from '@/lib/auth/security-monitor'
+import { getDb } from '@/lib/db/mongodb'
+import { securityAlertStatusSchema } from '@/lib/validations/security'
+import SecurityAlertList from '@/components/admin/security-alert-list'
+import AccessBlockList from '@/components/admin/access-block-list'
+import AccessBlockForm from '@/components/admin/access-block-form'
+
+export const dynamic = 'force-dynamic'
+
+interface SecurityPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+const STATUSES = [
+  { value: 'open', label: 'Open' },
+  { value: 'resolved', label: 'Resolved' },
+] as const
+
+export default async function SecurityPage({ searchParams }: SecurityPageProps) {
+  const user = await getSessionUser()
+
+  // Only admins know this page exists
+  if (!hasPermission(user, 'security:manage')) {
+    notFound()
+  }
+
+  const status = securityAlertStatusSchema.parse((await searchParams).status)
+
+  const db = await getDb()
+  const [alerts, openCounts, blocks] = await Promise.all([
+    listSecurityAlerts(db, status),
+    countOpenSecurityAlerts(db),
+    listActiveAccessBlocks(db),
+  ])
+
+  const { failureBurst, refreshLoop, knownDeviceDays } = SECURITY_THRESHOLDS
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="mb-2 text-4xl font-bold">Security</h1>
+        <p className="text-lg text-muted-foreground">
+          Suspicious sign-in activity detected in the{' '}
+          <Link href="/admin/audit" className="text-primary hover:underline">
+            audit log
+          </Link>
+          , and temporary sign-in blocks. Who can sign in at all is set in{' '}
+          <Link href="/admin/access" className="text-primary hover:underline">
+            sign-in access
+          </Link>
+          .
+        </p>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Alerts are raised for {failureBurst.count}+ failed or denied sign-ins from one IP address or
+          for one email within {failureBurst.windowMinutes} minutes, {refreshLoop.count}+ failed
+          token refreshes for one user within {refreshLoop.windowMinutes} minutes, and sign-ins from
+          an IP address or browser not seen for that user in {knownDeviceDays} days.
+        </p>
+      </div>
+
+      <div className="space-y-8">
+        {/* Summary */}
+        <div className="grid gap-4 sm:grid-cols-4">
+          {(['high', 'medium', 'low'] as const).map((severity) => (
+            <div key={severity} className="rounded-lg border bg-card p-4">
+              <p className="text-sm capitalize text-muted-foreground">Open {severity}</p>
+              <p className="text-2xl font-bold">{openCounts[severity]}</p>
+            </div>
+          ))}
+          <div className="rounded-lg border bg-card p-4">
+            <p className="text-sm text-muted-foreground">Active blocks</p>
+            <p className="text-2xl font-bold">{blocks.length}</p>
+          </div>
+        </div>
+
+        {/* Alerts */}
+        <section>
+          <div className="mb-3 flex items-center justify-between gap-4">
+            <h2 className="text-xl font-semibold">Alerts</h2>
+            <div className="flex gap-1 rounded-md border p-1">
+              {STATUSES.map((option) => (
+                <Link
+                  key={option.value}
+                  href={option.value === 'open' ? '/admin/security' : `/admin/security?status=${option.value}`}
+                  className={`rounded px-3 py-1 text-sm font-medium ${
+                    status === option.value
+                      ? 'bg-primary text-primary-foreground'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {option.label}
+                </Link>
+              ))}
+            </div>
+          </div>
+          <SecurityAlertList
+            alerts={alerts.map(({ _id, ...alert }) => ({ ...alert, id: _id.toString() }))}
+          />
+        </section>
+
+        {/* Blocks */}
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Sign-in blocks</h2>
+          <AccessBlockForm />
+          <AccessBlockList
+            blocks={blocks.map(({ _id, alertId, ...block }) => ({
+              ...block,
+              id: _id.toString(),
+              alertId: alertId?.toString(),
+            }))}
+          />
+        </section>
+      </div>
+    </div>
+  )
+}
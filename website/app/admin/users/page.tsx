@@ -0,0 +1,195 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { Check } from 'lucide-react'
+import { getSessionUser } from '@/lib/auth/session'
+import {
+  PERMISSION_DESCRIPTIONS,
+  ROLE_PERMISSIONS,
+  ROLES,
+  getEffectiveRole,
+  hasPermission,
+  isBootstrapAdmin,
+  type Permission,
+} from '@/lib/auth/permissions'
+import { USER_LIST_LIMIT, listUsers } from '@/lib/db/models/user'
+import { userListFiltersSchema } from '@/lib/validations/user'
+import { getAuditTimelineHref } from '@/lib/utils/audit'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import UserRoleSelect, { ROLE_LABELS } from '@/components/admin/user-role-select'
+
+export const dynamic = 'force-dynamic'
+
+interface UsersPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+const PERMISSIONS = Object.keys(PERMISSION_DESCRIPTIONS) as Permission[]
+
+export default async function UsersPage({ searchParams }: UsersPageProps) {
+  const user = await getSessionUser()
+
+  // Only admins know this page exists
+  if (!user || !hasPermission(user, 'users:manage')) {
+    notFound()
+  }
+
+  const filters = userListFiltersSchema.parse(await searchParams)
+  const users = await listUsers(filters)
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="mb-2 text-4xl font-bold">Users &amp; Roles</h1>
+        <p className="text-lg text-muted-foreground">
+          Grant and revoke roles. Every change is recorded in the{' '}
+          <Link href="/admin/audit?action=role_changed" className="text-primary hover:underline">
+            audit log
+          </Link>
+          .
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {/* Permission matrix */}
+        <div className="overflow-x-auto rounded-lg border bg-card">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="px-4 py-2 font-medium">Permission</th>
+                {ROLES.map((role) => (
+                  <th key={role} className="px-4 py-2 text-center font-medium">
+                    {ROLE_LABELS[role]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {PERMISSIONS.map((permission) => (
+                <tr key={permission} className="border-b last:border-0">
+                  <td className="px-4 py-2">{PERMISSION_DESCRIPTIONS[permission]}</td>
+                  {ROLES.map((role) => (
+                    <td key={role} className="px-4 py-2">
+                      {ROLE_PERMISSIONS[role].includes(permission) && (
+                        <Check className="mx-auto h-4 w-4 text-green-600" aria-label="Granted" />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Filters: a plain GET form, like the audit log */}
+        <form method="get" action="/admin/users" className="rounded-lg border bg-card p-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="users-search">Name or email</Label>
+              <Input
+                id="users-search"
+                name="search"
+                defaultValue={filters.search || ''}
+                className="mt-1.5"
+              />
+            </div>
+            <div>
+              <Label htmlFor="users-role">Role</Label>
+              <select
+                id="users-role"
+                name="role"
+                defaultValue={filters.role || ''}
+                className="mt-1.5 h-10 w-full rounded-md border border-border bg-white px-3 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">All roles</option>
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="mt-4 flex justify-end gap-3">
+            <Button type="button" variant="outline" asChild>
+              <Link href="/admin/users">Clear</Link>
+            </Button>
+            <Button type="submit">Apply filters</Button>
+          </div>
+        </form>
+
+        {/* Users */}
+        {users.length === 0 ? (
+          <div className="rounded-lg border bg-card py-12 text-center text-sm text-muted-foreground">
+            No users match these filters
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border bg-card">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="px-4 py-2 font-medium">User</th>
+                  <th className="px-4 py-2 font-medium">Role</th>
+                  <th className="px-4 py-2 font-medium">Last changed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((account) => {
+                  const id = account._id.toString()
+                  const lockedReason =
+                    id === user.id
+                      ? 'You cannot change your own role'
+                      : isBootstrapAdmin(account.email)
+                        ? 'Listed in ADMIN_EMAILS'
+                        : undefined
+
+                  return (
+                    <tr key={id} className="border-b align-top last:border-0">
+                      <td className="px-4 py-2">
+                        <p className="font-medium text-foreground">{account.name}</p>
+                        <Link
+                          href={getAuditTimelineHref(account.email)}
+                          className="text-muted-foreground hover:text-foreground hover:underline"
+                        >
+                          {account.email}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-2">
+                        <UserRoleSelect
+                          userId={id}
+                          userName={account.name}
+                          role={getEffectiveRole(account) ?? 'member'}
+                          lockedReason={lockedReason}
+                        />
+                        {lockedReason && (
+                          <p className="mt-1 text-xs text-muted-foreground">{lockedReason}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-muted-foreground">
+                        {account.roleUpdatedAt
+                          ? `${formatDistanceToNow(account.roleUpdatedAt, { addSuffix: true })} by ${
+                              account.roleUpdatedBy?.name ?? 'ADMIN_EMAILS'
+                            }`
+                          : '—'}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {users.length === USER_LIST_LIMIT && (
+          <p className="text-sm text-muted-foreground">
+            Showing the first {USER_LIST_LIMIT} users. Search to narrow the list.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+/**
+ * Audit Log Export API Route
+ *
+ * GET /api/admin/audit/export?format=csv|jsonl&action=...&email=...&orgId=...&ipAddress=...&from=...&to=...
+ *
+ * Streams every audit log matching the filters (newest first) as a file
+ * download, for compliance requests. Needs the audit:read permission.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, requirePermission } from '@/lib/auth/session';
+import { findAuditLogs } from '@/lib/auth/audit-logger';
+import { createAuditExportStream } from '@/lib/auth/audit-export';
+import { auditExportFormatSchema, auditLogFiltersSchema } from '@/lib/validations/audit';
+import { getDb } from '@/lib/db/mongodb';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+};
+
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in to do that' }, { status: 401 });
+  }
+  // Checked against the role in the database, not the one cached in the session
+  try {
+    await requirePermission('audit:read');
+  } catch {
+    return NextResponse.json({ error: 'You do not have permission to export audit logs' }, { status: 403 });
+  }
+
+  const params = Object.fromEntries(request.nextUrl.searchParams);
+  const format = auditExportFormatSchema.parse(params.format);
+  // Exports always contain every match, whatever page the viewer was on
+  const filters = auditLogFiltersSchema.parse(params);
+
+  try {
+    const db = await getDb();
+    const stream = createAuditExportStream(findAuditLogs(db, filters), format);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="audit-logs-${date}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export audit logs:', error);
+    return NextResponse.json({ error: 'Failed to export audit logs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Search Suggestions API Route
+ *
+ * GET /api/search/suggestions?q=... - Suggestions for the search box dropdown
+ *
+ * With an empty query, returns the user's recent and saved searches. While
+ * typing, returns matching prompt titles (opened directly), tags, authors and
+ * categories (which complete the word being typed as a filter), plus recent
+ * searches containing the query.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { getAuthorCounts, getTagCounts, getTitleSuggestions } from '@/lib/db/models/prompt';
+import { getRecentSearches, getSavedSearches } from '@/lib/db/models/search';
+import { CATEGORIES } from '@/lib/constants';
+import { getBrowseHref } from '@/lib/utils/facets';
+import { normalizeTag } from '@/lib/utils/tags';
+import {
+  applySuggestion,
+  formatFilter,
+  getActiveToken,
+  getFreeText,
+} from '@/lib/search/suggestions';
+import type { SearchSuggestion } from '@/types/search';
+
+// Suggestions shown per kind
+const MAX_PER_TYPE = 5;
+
+async function getEmptyQuerySuggestions(userId: string): Promise<SearchSuggestion[]> {
+  const [recent, saved] = await Promise.all([getRecentSearches(userId), getSavedSearches(userId)]);
+
+  return [
+    ...recent.slice(0, MAX_PER_TYPE).map((query): SearchSuggestion => ({ type: 'recent', label: query, query })),
+    ...saved.slice(0, MAX_PER_TYPE).map(
+      (search): SearchSuggestion => ({ type: 'saved', label: search.name, href: getBrowseHref(search.filters) })
+    ),
+  ];
+}
+
+async function getTypingSuggestions(input: string, userId: string): Promise<SearchSuggestion[]> {
+  const token = getActiveToken(input);
+  const value = token.value.trim();
+  const wants = (field: 'tag' | 'author' | 'category') =>
+    value.length > 0 && (token.field === null || token.field === field);
+  const complete = (field: 'tag' | 'author' | 'category', fieldValue: string) =>
+    applySuggestion(input, token, formatFilter(field, fieldValue));
+
+  const freeText = token.field === null ? getFreeText(input) : '';
+  const tagPrefix = wants('tag') ? normalizeTag(value) : '';
+
+  const [recent, titles, tags, authors] = await Promise.all([
+    getRecentSearches(userId),
+    freeText.length >= 2 ? getTitleSuggestions(freeText, MAX_PER_TYPE) : [],
+    tagPrefix ? getTagCounts(tagPrefix, MAX_PER_TYPE) : [],
+    wants('author') ? getAuthorCounts(value, 3) : [],
+  ]);
+
+  const categories = wants('category')
+    ? CATEGORIES.filter((category) => category.toLowerCase().startsWith(value.toLowerCase()))
+    : [];
+  const lowerInput = input.trim().toLowerCase();
+
+  return [
+    ...recent
+      .filter((query) => query.toLowerCase() !== lowerInput && query.toLowerCase().includes(lowerInput))
+      .slice(0, 3)
+      .map((query): SearchSuggestion => ({ type: 'recent', label: query, query })),
+    ...titles.map(
+      (prompt): SearchSuggestion => ({ type: 'title', label: prompt.title, href: `/prompts/${prompt._id}` })
+    ),
+    ...tags.map(
+      ({ tag, count }): SearchSuggestion => ({ type: 'tag', label: tag, query: complete('tag', tag), count })
+    ),
+    ...authors.map(
+      ({ authorName, count }): SearchSuggestion => ({
+        type: 'author',
+        label: authorName,
+        query: complete('author', authorName),
+        count,
+      })
+    ),
+    ...categories.map(
+      (category): SearchSuggestion => ({ type: 'category', label: category, query: complete('category', category) })
+    ),
+  ];
+}
+
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in to do that' }, { status: 401 });
+  }
+
+  const input = (request.nextUrl.searchParams.get('q') || '').slice(0, 200);
+
+  try {
+    const suggestions = input.trim()
+      ? await getTypingSuggestions(input, user.id)
+      : await getEmptyQuerySuggestions(user.id);
+
+    return NextResponse.json({ suggestions });
+  } catch (error) {
+    console.error('Failed to load search suggestions:', error);
+    return NextResponse.json({ error: 'Failed to load suggestions' }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { notFound, redirect } from 'next/navigation'
+import { ObjectId } from 'mongodb'
+import { getCollectionById, getCollectionPrompts } from '@/lib/db/models/collection'
+import { getSessionUser } from '@/lib/auth/session'
+import {
+  canEditCollection,
+  canManageCollection,
+  canViewPrompt,
+  canViewCollection,
+} from '@/lib/auth/ownership'
+import CollectionView from '@/components/collections/collection-view'
+
+interface CollectionPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function CollectionPage({ params }: CollectionPageProps) {
+  const { id } = await params
+
+  // Validate ObjectId format
+  if (!ObjectId.isValid(id)) {
+    notFound()
+  }
+
+  const collection = await getCollectionById(id)
+
+  if (!collection) {
+    notFound()
+  }
+
+  // Public collections are open to everyone; others need the right session
+  const user = await getSessionUser()
+  if (!canViewCollection(collection, user)) {
+    if (!user) {
+      redirect(`/login?callbackUrl=${encodeURIComponent(`/collections/${id}`)}`)
+    }
+    notFound()
+  }
+
+  // Private prompts stay hidden from people who could not open them directly
+  const prompts = await getCollectionPrompts(collection)
+  const visiblePrompts = prompts.filter(
+    (prompt) => canViewPrompt(prompt, user)
+  )
+
+  // Serialize ObjectIds to strings for Client Component
+  const serializedCollection = {
+    _id: collection._id.toString(),
+    name: collection.name,
+    description: collection.description,
+    visibility: collection.visibility,
+    ownerName: collection.ownerName,
+    collaborators: collection.collaborators.map((collaborator) => ({
+      userId: collaborator.userId.toString(),
+      name: collaborator.name,
+      email: collaborator.email,
+    })),
+    createdAt: collection.createdAt.toISOString(),
+    updatedAt: collection.updatedAt.toISOString(),
+  }
+
+  const serializedPrompts = visiblePrompts.map((prompt) => ({
+    ...prompt,
+    _id: prompt._id.toString(),
+    authorId: prompt.authorId.toString(),
+    replacementPromptId: prompt.replacementPromptId?.toString() || null,
+    parentPromptId: prompt.parentPromptId?.toString() || null,
+    starredBy: prompt.starredBy.map((id) => id.toString()),
+    createdAt: prompt.createdAt.toISOString(),
+    updatedAt: prompt.updatedAt.toISOString(),
+  }))
+
+  return (
+    <CollectionView
+      collection={serializedCollection}
+      prompts={serializedPrompts}
+      hiddenCount={prompts.length - visiblePrompts.length}
+      canEdit={canEditCollection(collection, user)}
+      canManage={canManageCollection(collection, user)}
+      isSignedIn={!!user}
+    />
+  )
+}
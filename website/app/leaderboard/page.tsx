@@ -1,5 +1,17 @@
+import Link from 'next/link'
+import { SlidersHorizontal } from 'lucide-react'
 import { getLeaderboard } from '@/lib/db/models/prompt'
+import { getScoringConfig } from '@/lib/db/models/leaderboard'
+import { getSessionUser } from '@/lib/auth/session'
+import { hasPermission } from '@/lib/auth/permissions'
 import LeaderboardView from '@/components/leaderboard/leaderboard-view'
+import { leaderboardPeriodSchema } from '@/lib/validations/leaderboard'
+import { describeScoringFormula } from '@/lib/utils/scoring'
+import {
+  ENGAGEMENT_PERIODS,
+  TRENDING_HALF_LIFE_HOURS,
+  TRENDING_WINDOW_DAYS,
+} from '@/lib/utils/trending'
 
 export const dynamic = 'force-dynamic'
 
@@ -9,9 +21,12 @@ interface LeaderboardPageProps {
 
 export default async function LeaderboardPage({ searchParams }: LeaderboardPageProps) {
   const params = await searchParams
-  const timePeriod = (params.period as 'all' | 'month' | 'week') || 'all'
+  const timePeriod = leaderboardPeriodSchema.catch('all').parse(params.period)
 
-  const leaderboard = await getLeaderboard({ timePeriod, limit: 50 })
+  const scoring = await getScoringConfig()
+  const leaderboard = await getLeaderboard({ timePeriod, limit: 50, scoring })
+  const { formula, notes } = describeScoringFormula(scoring)
+  const user = await getSessionUser()
 
   // Serialize prompts for client component
   const serializedLeaderboard = leaderboard.map((prompt) => ({
@@ -28,13 +43,34 @@ export default async function LeaderboardPage({ searchParams }: LeaderboardPageP
     <div className="container mx-auto px-4 py-8">
       {/* Header */}
       <div className="mb-8">
-        <h1 className="mb-2 text-4xl font-bold">Leaderboard</h1>
+        <div className="mb-2 flex items-center justify-between gap-4">
+          <h1 className="text-4xl font-bold">Leaderboard</h1>
+          {hasPermission(user, 'settings:manage') && (
+            <Link
+              href="/admin/leaderboard"
+              className="flex items-center gap-2 text-sm font-medium text-muted-foreground hover:text-foreground"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+              Edit scoring
+            </Link>
+          )}
+        </div>
         <p className="text-lg text-muted-foreground">
           Top performing prompts ranked by engagement score
         </p>
-        <p className="mt-2 text-sm text-muted-foreground">
-          Score = (Stars × 10) + (Forks × 5) + (Views × 0.1)
-        </p>
+        <p className="mt-2 text-sm text-muted-foreground">{formula}</p>
+        {notes.map((note) => (
+          <p key={note} className="mt-1 text-sm text-muted-foreground">
+            {note}
+          </p>
+        ))}
+        {timePeriod !== 'all' && (
+          <p className="mt-1 text-sm text-muted-foreground">
+            {timePeriod === 'trending'
+              ? `Trending counts engagement from the last ${TRENDING_WINDOW_DAYS} days, halving its weight every ${TRENDING_HALF_LIFE_HOURS} hours.`
+              : `Only stars, forks and views from the last ${ENGAGEMENT_PERIODS[timePeriod]} days count.`}
+          </p>
+        )}
       </div>
 
       <LeaderboardView prompts={serializedLeaderboard} currentPeriod={timePeriod} />
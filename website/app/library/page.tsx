@@ -1,23 +1,34 @@
 import Link from 'next/link'
+import { redirect } from 'next/navigation'
 import { Plus } from 'lucide-react'
-import { ObjectId } from 'mongodb'
 import { Button } from '@/components/ui/button'
-import { getUserPrompts, getStarredPrompts } from '@/lib/db/models/prompt'
+import { getUserPrompts, getStarredPrompts, getDeletedPrompts } from '@/lib/db/models/prompt'
+import { getUserCollections } from '@/lib/db/models/collection'
+import { getSavedSearches } from '@/lib/db/models/search'
+import { getSessionUser } from '@/lib/auth/session'
+import { getPurgeDate, getTrashRetentionDays } from '@/lib/utils/trash'
 import LibraryTabs from '@/components/library/library-tabs'
 
 export default async function LibraryPage() {
-  // TODO: Get actual user ID from session
-  // For now, we'll get all prompts by Anonymous User
-  const mockUserId = new ObjectId().toString()
+  const user = await getSessionUser()
 
-  const myPrompts = await getUserPrompts(mockUserId)
-  const starredPrompts = await getStarredPrompts(mockUserId)
+  if (!user) {
+    redirect('/login')
+  }
+
+  const myPrompts = await getUserPrompts(user.id)
+  const starredPrompts = await getStarredPrompts(user.id)
+  const collections = await getUserCollections(user.id)
+  const deletedPrompts = await getDeletedPrompts(user.id)
+  const savedSearches = await getSavedSearches(user.id)
+  const retentionDays = getTrashRetentionDays()
 
   // Serialize prompts for client component
   const serializedMyPrompts = myPrompts.map((prompt) => ({
     ...prompt,
     _id: prompt._id.toString(),
     authorId: prompt.authorId.toString(),
+    replacementPromptId: prompt.replacementPromptId?.toString() || null,
     parentPromptId: prompt.parentPromptId?.toString() || null,
     starredBy: prompt.starredBy.map((id) => id.toString()),
     createdAt: prompt.createdAt.toISOString(),
@@ -28,12 +39,41 @@ export default async function LibraryPage() {
     ...prompt,
     _id: prompt._id.toString(),
     authorId: prompt.authorId.toString(),
+    replacementPromptId: prompt.replacementPromptId?.toString() || null,
     parentPromptId: prompt.parentPromptId?.toString() || null,
     starredBy: prompt.starredBy.map((id) => id.toString()),
     createdAt: prompt.createdAt.toISOString(),
     updatedAt: prompt.updatedAt.toISOString(),
   }))
 
+  const serializedCollections = collections.map((collection) => ({
+    _id: collection._id.toString(),
+    name: collection.name,
+    description: collection.description,
+    visibility: collection.visibility,
+    ownerName: collection.ownerName,
+    isOwner: collection.ownerId.toString() === user.id,
+    promptCount: collection.promptIds.length,
+    collaboratorCount: collection.collaborators.length,
+    updatedAt: collection.updatedAt.toISOString(),
+  }))
+
+  const serializedSavedSearches = savedSearches.map((search) => ({
+    _id: search._id.toString(),
+    name: search.name,
+    filters: search.filters,
+    createdAt: search.createdAt.toISOString(),
+  }))
+
+  const serializedTrashedPrompts = deletedPrompts.map((prompt) => ({
+    _id: prompt._id.toString(),
+    title: prompt.title,
+    description: prompt.description,
+    category: prompt.category,
+    deletedAt: prompt.deletedAt!.toISOString(),
+    purgeAt: getPurgeDate(prompt.deletedAt!, retentionDays).toISOString(),
+  }))
+
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Header */}
@@ -41,7 +81,7 @@ export default async function LibraryPage() {
         <div>
           <h1 className="mb-2 text-4xl font-bold">My Library</h1>
           <p className="text-lg text-muted-foreground">
-            Manage your prompts and starred favorites
+            Manage your prompts, starred favorites, collections, saved searches and trash
           </p>
         </div>
         <Link href="/prompts/new">
@@ -56,6 +96,10 @@ export default async function LibraryPage() {
       <LibraryTabs
         myPrompts={serializedMyPrompts}
         starredPrompts={serializedStarredPrompts}
+        collections={serializedCollections}
+        savedSearches={serializedSavedSearches}
+        trashedPrompts={serializedTrashedPrompts}
+        retentionDays={retentionDays}
       />
     </div>
   )
@@ -2,15 +2,31 @@ import { Suspense } from 'react'
 import SearchBar from '@/components/filters/search-bar'
 import CategoryFilter from '@/components/filters/category-filter'
 import SortDropdown from '@/components/filters/sort-dropdown'
+import SearchModeToggle from '@/components/filters/search-mode-toggle'
+import SaveSearchButton from '@/components/filters/save-search-button'
 import PromptGrid from '@/components/prompts/prompt-grid'
+import TagFilter from '@/components/filters/tag-filter'
+import FacetSidebar from '@/components/filters/facet-sidebar'
+import { LIMITS } from '@/lib/constants'
+import { parseTagsParam } from '@/lib/utils/tags'
+import { promptListQuerySchema } from '@/lib/validations/prompt'
+import { parseSearchQuery, QuerySyntaxError } from '@/lib/search/query-parser'
 
 // Mark as dynamic since we use searchParams
 export const dynamic = 'force-dynamic'
 
 interface SearchParams {
   q?: string
+  mode?: string
   category?: string
   sort?: string
+  tags?: string
+  tagMode?: string
+  format?: string
+  author?: string
+  created?: string
+  page?: string
+  cursor?: string
 }
 
 export default async function HomePage({
@@ -20,6 +36,43 @@ export default async function HomePage({
 }) {
   const params = await searchParams
 
+  // Unknown filter values are dropped by the schema
+  const query = promptListQuerySchema.parse({
+    search: params.q,
+    mode: params.mode,
+    category: params.category,
+    tags: parseTagsParam(params.tags),
+    tagMode: params.tagMode,
+    outputFormat: params.format,
+    authorId: params.author,
+    created: params.created,
+    sort: params.sort,
+  })
+
+  // Malformed search syntax is reported under the search bar instead of running the query
+  let searchError: string | null = null
+  try {
+    parseSearchQuery(query.search || '')
+  } catch (error) {
+    if (!(error instanceof QuerySyntaxError)) throw error
+    searchError = error.message
+  }
+
+  // Only narrowed-down views are worth saving
+  const isFiltered =
+    !!query.search ||
+    !!query.category ||
+    query.tags.length > 0 ||
+    !!query.outputFormat ||
+    !!query.authorId ||
+    !!query.created
+
+  // Pages loaded by infinite scroll, capped so a crafted URL cannot load everything
+  const page = Math.min(
+    Math.max(Number.parseInt(params.page || '1', 10) || 1, 1),
+    LIMITS.MAX_RESTORED_PAGES
+  )
+
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Header */}
@@ -32,30 +85,66 @@ export default async function HomePage({
 
       {/* Filters */}
       <div className="mb-8 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
-        <div className="flex-1 md:max-w-md">
-          <SearchBar defaultValue={params.q} />
+        <div className="flex flex-1 items-start gap-2 md:max-w-lg">
+          <div className="flex-1">
+            <SearchBar defaultValue={params.q} error={searchError} />
+          </div>
+          <SearchModeToggle mode={query.mode} />
         </div>
         <div className="flex gap-4">
-          <CategoryFilter selectedCategory={params.category} />
-          <SortDropdown selectedSort={params.sort} />
+          <CategoryFilter selectedCategory={query.category} />
+          <SortDropdown selectedSort={query.sort} />
+          {isFiltered && !searchError && <SaveSearchButton filters={query} />}
         </div>
       </div>
+      {query.tags.length > 0 && <TagFilter tags={query.tags} tagMode={query.tagMode} />}
+
+      {searchError ? (
+        <div className="flex min-h-[400px] items-center justify-center">
+          <div className="text-center">
+            <p className="text-lg text-muted-foreground">Fix the search query to see results</p>
+            <p className="text-sm text-muted-foreground">{searchError}</p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-8 lg:flex-row">
+          {/* Facets */}
+          <aside className="shrink-0 lg:w-64">
+            <Suspense fallback={<FacetSidebarSkeleton />}>
+              <FacetSidebar query={query} />
+            </Suspense>
+          </aside>
 
-      {/* Prompt Grid */}
-      <Suspense fallback={<PromptGridSkeleton />}>
-        <PromptGrid
-          search={params.q}
-          category={params.category}
-          sort={params.sort}
-        />
-      </Suspense>
+          {/* Prompt Grid */}
+          <div className="min-w-0 flex-1">
+            <Suspense fallback={<PromptGridSkeleton />}>
+              <PromptGrid query={query} page={page} cursor={params.cursor} />
+            </Suspense>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function FacetSidebarSkeleton() {
+  return (
+    <div className="animate-pulse space-y-6">
+      {Array.from({ length: 3 }).map((_, i) => (
+        <div key={i} className="space-y-2">
+          <div className="h-4 w-24 rounded bg-muted" />
+          <div className="h-4 w-full rounded bg-muted" />
+          <div className="h-4 w-5/6 rounded bg-muted" />
+          <div className="h-4 w-4/6 rounded bg-muted" />
+        </div>
+      ))}
     </div>
   )
 }
 
 function PromptGridSkeleton() {
   return (
-    <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+    <div className="grid grid-cols-1 gap-6 md:grid-cols-2 xl:grid-cols-3">
       {Array.from({ length: 6 }).map((_, i) => (
         <div key={i} className="animate-pulse rounded-lg border border-border bg-white p-6">
           <div className="mb-3">
@@ -0,0 +1,130 @@
+import { notFound } from 'next/navigation'
+import { ObjectId } from 'mongodb'
+import { findPromptById } from '@/lib/db/models/prompt'
+import { getPromptRevisions, toRevisionSnapshot } from '@/lib/db/models/prompt-revision'
+import { getSessionUser } from '@/lib/auth/session'
+import { canViewPrompt } from '@/lib/auth/ownership'
+import PromptDiffView, { type ComparedSide } from '@/components/prompts/prompt-diff-view'
+import type { Prompt, PromptRevision } from '@/types/prompt'
+
+interface ComparePageProps {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ from?: string; to?: string }>
+}
+
+/**
+ * Resolve a compare ref to a snapshot.
+ * Refs are either a version number of this prompt or `parent` for the
+ * current version of the prompt this one was forked from.
+ */
+function resolveSide(
+  ref: string,
+  prompt: Prompt,
+  revisions: PromptRevision[],
+  parent: Prompt | null
+): ComparedSide | null {
+  if (ref === 'parent') {
+    if (!parent) return null
+    return {
+      ref,
+      label: `Original: ${parent.title} (v${parent.versionNumber} by ${parent.authorName})`,
+      snapshot: toRevisionSnapshot(parent),
+    }
+  }
+
+  const versionNumber = Number(ref)
+  const revision = revisions.find((r) => r.versionNumber === versionNumber)
+  if (revision) {
+    return {
+      ref,
+      label: `Version ${versionNumber} by ${revision.editorName}`,
+      snapshot: toRevisionSnapshot(revision),
+    }
+  }
+
+  // Prompts created before revision tracking only have their current version
+  if (versionNumber === prompt.versionNumber) {
+    return {
+      ref,
+      label: `Version ${versionNumber} (current)`,
+      snapshot: toRevisionSnapshot(prompt),
+    }
+  }
+
+  return null
+}
+
+export default async function ComparePromptPage({ params, searchParams }: ComparePageProps) {
+  const { id } = await params
+  const query = await searchParams
+
+  // Validate ObjectId format
+  if (!ObjectId.isValid(id)) {
+    notFound()
+  }
+
+  const prompt = await findPromptById(id)
+
+  if (!prompt) {
+    notFound()
+  }
+
+  // Private prompts and drafts are only visible to people who can edit them
+  const user = await getSessionUser()
+  if (!canViewPrompt(prompt, user)) {
+    notFound()
+  }
+
+  const revisions = await getPromptRevisions(id)
+  const parentPrompt = prompt.parentPromptId
+    ? await findPromptById(prompt.parentPromptId.toString())
+    : null
+  const parent =
+    parentPrompt && canViewPrompt(parentPrompt, user)
+      ? parentPrompt
+      : null
+
+  // Default to the latest change, or the fork's divergence from its original
+  const currentRef = String(prompt.versionNumber)
+  const defaultFrom =
+    prompt.versionNumber > 1
+      ? String(prompt.versionNumber - 1)
+      : parent
+        ? 'parent'
+        : currentRef
+
+  const from = resolveSide(query.from || defaultFrom, prompt, revisions, parent)
+  const to = resolveSide(query.to || currentRef, prompt, revisions, parent)
+
+  if (!from || !to) {
+    notFound()
+  }
+
+  const versionNumbers = new Set([
+    prompt.versionNumber,
+    ...revisions.map((revision) => revision.versionNumber),
+  ])
+  const options = [...versionNumbers]
+    .sort((a, b) => b - a)
+    .map((versionNumber) => ({
+      value: String(versionNumber),
+      label:
+        versionNumber === prompt.versionNumber
+          ? `Version ${versionNumber} (current)`
+          : `Version ${versionNumber}`,
+    }))
+
+  if (parent) {
+    options.push({ value: 'parent', label: 'Original (forked from)' })
+  }
+
+  return (
+    <PromptDiffView
+      promptId={id}
+      promptTitle={prompt.title}
+      from={from}
+      to={to}
+      options={options}
+    />
+  )
+}
@@ -1,7 +1,10 @@
-import { notFound } from 'next/navigation'
+import { notFound, redirect } from 'next/navigation'
 import { ObjectId } from 'mongodb'
-import { getPromptById } from '@/lib/db/models/prompt'
+import { findPromptById } from '@/lib/db/models/prompt'
+import { getSessionUser } from '@/lib/auth/session'
+import { canModifyPrompt } from '@/lib/auth/ownership'
 import PromptForm from '@/components/prompts/prompt-form'
+import { syncVariables } from '@/lib/utils/template-variables'
 
 interface EditPromptPageProps {
   params: Promise<{ id: string }>
@@ -15,22 +18,34 @@ export default async function EditPromptPage({ params }: EditPromptPageProps) {
     notFound()
   }
 
-  const prompt = await getPromptById(id)
+  const prompt = await findPromptById(id)
 
   if (!prompt) {
     notFound()
   }
 
+  // Only the author (or an admin) can edit
+  const user = await getSessionUser()
+  if (!canModifyPrompt(prompt.authorId, user)) {
+    redirect(`/prompts/${id}`)
+  }
+
+  const isDraft = prompt.status === 'draft'
+
   return (
     <div className="container mx-auto max-w-3xl px-4 py-8">
       <div className="mb-6">
-        <h1 className="mb-2 text-3xl font-bold">Edit Prompt</h1>
+        <h1 className="mb-2 text-3xl font-bold">{isDraft ? 'Continue Draft' : 'Edit Prompt'}</h1>
         <p className="text-muted-foreground">
-          Update your prompt details
+          {isDraft
+            ? 'Your changes are saved automatically until you publish'
+            : 'Update your prompt details'}
         </p>
       </div>
       <PromptForm
         promptId={id}
+        versionNumber={prompt.versionNumber}
+        status={prompt.status}
         defaultValues={{
           title: prompt.title,
           description: prompt.description,
@@ -38,6 +53,7 @@ export default async function EditPromptPage({ params }: EditPromptPageProps) {
           category: prompt.category,
           tags: prompt.tags,
           outputFormat: prompt.outputFormat,
+          variables: prompt.variables ?? syncVariables(prompt.promptContent),
           isPublic: prompt.isPublic,
         }}
       />
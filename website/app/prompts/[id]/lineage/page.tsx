@@ -0,0 +1,70 @@
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { ObjectId } from 'mongodb'
+import { getPromptLineage } from '@/lib/db/models/prompt'
+import { getSessionUser } from '@/lib/auth/session'
+import { canViewPrompt } from '@/lib/auth/ownership'
+import { buildLineage, countDescendants } from '@/lib/utils/lineage'
+import LineageTree from '@/components/prompts/lineage-tree'
+import type { LineagePrompt } from '@/types/prompt'
+
+interface LineagePageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function PromptLineagePage({ params }: LineagePageProps) {
+  const { id } = await params
+
+  // Validate ObjectId format
+  if (!ObjectId.isValid(id)) {
+    notFound()
+  }
+
+  const result = await getPromptLineage(id)
+
+  if (!result) {
+    notFound()
+  }
+
+  // Private prompts and drafts are only visible to people who can edit them,
+  // and prompts in the trash are hidden from everyone
+  const user = await getSessionUser()
+  const canView = (prompt: LineagePrompt) => !prompt.deletedAt && canViewPrompt(prompt, user)
+
+  if (!canView(result.prompt)) {
+    notFound()
+  }
+
+  const { ancestors, tree } = buildLineage(
+    result.prompt,
+    result.ancestors,
+    result.descendants,
+    canView
+  )
+  const forkTotal = countDescendants(tree)
+
+  return (
+    <div className="container mx-auto max-w-4xl px-4 py-8">
+      {/* Back button */}
+      <div className="mb-6">
+        <Link
+          href={`/prompts/${id}`}
+          className="text-sm text-muted-foreground hover:text-foreground"
+        >
+          ← Back to prompt
+        </Link>
+      </div>
+
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="mb-2 text-3xl font-bold text-foreground">Lineage</h1>
+        <p className="text-muted-foreground">
+          {tree.title} • {ancestors.length} {ancestors.length === 1 ? 'ancestor' : 'ancestors'} •{' '}
+          {forkTotal} {forkTotal === 1 ? 'fork' : 'forks'}
+        </p>
+      </div>
+
+      <LineageTree ancestors={ancestors} tree={tree} />
+    </div>
+  )
+}
@@ -1,7 +1,19 @@
 import { notFound } from 'next/navigation'
 import { ObjectId } from 'mongodb'
-import { getPromptById } from '@/lib/db/models/prompt'
-import PromptDetailView from '@/components/prompts/prompt-detail-view'
+import {
+  findPromptById,
+  getPromptById,
+  getSimilarPrompts,
+  recordPromptView,
+} from '@/lib/db/models/prompt'
+import { getPromptRevisions } from '@/lib/db/models/prompt-revision'
+import { getSessionUser } from '@/lib/auth/session'
+import { canModifyPrompt, canViewPrompt } from '@/lib/auth/ownership'
+import { getTrashRetentionDays } from '@/lib/utils/trash'
+import PromptDetailView, {
+  type ForkSource,
+  type PromptReplacement,
+} from '@/components/prompts/prompt-detail-view'
 
 interface PromptPageProps {
   params: Promise<{ id: string }>
@@ -21,16 +33,88 @@ export default async function PromptPage({ params }: PromptPageProps) {
     notFound()
   }
 
+  const user = await getSessionUser()
+  const canEdit = canModifyPrompt(prompt.authorId, user)
+
+  // Private prompts and drafts are only visible to people who can edit them
+  if (!canViewPrompt(prompt, user)) {
+    notFound()
+  }
+
+  // Only count views of prompts the viewer may see
+  await recordPromptView(id)
+
   // Serialize ObjectIds to strings for Client Component
   const serializedPrompt = {
     ...prompt,
     _id: prompt._id.toString(),
     authorId: prompt.authorId.toString(),
+    replacementPromptId: prompt.replacementPromptId?.toString() || null,
     parentPromptId: prompt.parentPromptId?.toString() || null,
+    parentPurgedAt: prompt.parentPurgedAt?.toISOString() || null,
+    deletedAt: null,
+    deletedBy: null,
     starredBy: prompt.starredBy.map((id) => id.toString()),
     createdAt: prompt.createdAt.toISOString(),
     updatedAt: prompt.updatedAt.toISOString(),
   }
 
-  return <PromptDetailView prompt={serializedPrompt} />
+  // Attribute forks to their original without leaking private titles
+  const parent = prompt.parentPromptId
+    ? await findPromptById(prompt.parentPromptId.toString())
+    : null
+  const parentVisible = !!parent && canViewPrompt(parent, user)
+  const forkedFrom: ForkSource | null = parent
+    ? {
+        id: parent._id.toString(),
+        title: parentVisible ? parent.title : null,
+        authorName: parentVisible ? parent.authorName : null,
+        redacted: !parentVisible,
+        updatesAvailable: parentVisible
+          ? Math.max(parent.versionNumber - (prompt.forkedFromVersion ?? 1), 0)
+          : 0,
+      }
+    : null
+
+  // Point archived and deprecated prompts to their replacement
+  const replacementPrompt =
+    prompt.status !== 'published' && prompt.replacementPromptId
+      ? await findPromptById(prompt.replacementPromptId.toString())
+      : null
+  const replacement: PromptReplacement | null =
+    replacementPrompt && canViewPrompt(replacementPrompt, user)
+      ? { id: replacementPrompt._id.toString(), title: replacementPrompt.title }
+      : null
+
+  const revisions = await getPromptRevisions(id)
+
+  const serializedRevisions = revisions.map((revision) => ({
+    ...revision,
+    _id: revision._id.toString(),
+    promptId: revision.promptId.toString(),
+    editorId: revision.editorId?.toString() || null,
+    createdAt: revision.createdAt.toISOString(),
+  }))
+
+  // Other listed prompts that do the same kind of thing
+  const similarPrompts = (await getSimilarPrompts(id)).map((similar) => ({
+    id: similar._id.toString(),
+    title: similar.title,
+    description: similar.description,
+    category: similar.category,
+    authorName: similar.authorName,
+  }))
+
+  return (
+    <PromptDetailView
+      prompt={serializedPrompt}
+      forkedFrom={forkedFrom}
+      replacement={replacement}
+      revisions={serializedRevisions}
+      canEdit={canEdit}
+      currentUserId={user?.id || null}
+      trashRetentionDays={getTrashRetentionDays()}
+      similarPrompts={similarPrompts}
+    />
+  )
 }
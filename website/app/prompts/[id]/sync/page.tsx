@@ -0,0 +1,94 @@
+import { notFound, redirect } from 'next/navigation'
+import Link from 'next/link'
+import { ObjectId } from 'mongodb'
+import { findPromptById, getForkBaseContent } from '@/lib/db/models/prompt'
+import { getSessionUser } from '@/lib/auth/session'
+import { canModifyPrompt, canViewPrompt } from '@/lib/auth/ownership'
+import PromptForm from '@/components/prompts/prompt-form'
+import { syncVariables } from '@/lib/utils/template-variables'
+import { mergeThreeWay } from '@/lib/utils/merge'
+
+interface SyncPromptPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function SyncPromptPage({ params }: SyncPromptPageProps) {
+  const { id } = await params
+
+  // Validate ObjectId format
+  if (!ObjectId.isValid(id)) {
+    notFound()
+  }
+
+  const prompt = await findPromptById(id)
+
+  if (!prompt || !prompt.parentPromptId) {
+    notFound()
+  }
+
+  // Only the author (or an admin) can sync
+  const user = await getSessionUser()
+  if (!canModifyPrompt(prompt.authorId, user)) {
+    redirect(`/prompts/${id}`)
+  }
+
+  // Nothing to pull if the parent is gone, hidden or unchanged
+  const parent = await findPromptById(prompt.parentPromptId.toString())
+  const baseVersion = prompt.forkedFromVersion ?? 1
+  if (
+    !parent ||
+    !canViewPrompt(parent, user) ||
+    parent.versionNumber <= baseVersion
+  ) {
+    redirect(`/prompts/${id}`)
+  }
+
+  // base = version the fork was taken from, ours = fork, theirs = parent head
+  const base = await getForkBaseContent(prompt)
+  const merged = mergeThreeWay(base, prompt.promptContent, parent.promptContent)
+
+  return (
+    <div className="container mx-auto max-w-3xl px-4 py-8">
+      <div className="mb-6">
+        <h1 className="mb-2 text-3xl font-bold">Sync with Upstream</h1>
+        <p className="text-muted-foreground">
+          Merging version {baseVersion} → {parent.versionNumber} of{' '}
+          <Link href={`/prompts/${parent._id.toString()}`} className="font-medium hover:underline">
+            {parent.title}
+          </Link>{' '}
+          into your fork.
+        </p>
+        <p className="mt-2 text-sm">
+          {merged.conflicts === 0 ? (
+            <span className="text-green-700">
+              All changes merged cleanly. Review the result and save.
+            </span>
+          ) : (
+            <span className="text-amber-600">
+              {merged.conflicts} {merged.conflicts === 1 ? 'conflict needs' : 'conflicts need'}{' '}
+              resolving in the prompt content below.
+            </span>
+          )}
+        </p>
+      </div>
+      <PromptForm
+        promptId={id}
+        versionNumber={prompt.versionNumber}
+        upstreamVersion={parent.versionNumber}
+        defaultValues={{
+          title: prompt.title,
+          description: prompt.description,
+          promptContent: merged.content,
+          category: prompt.category,
+          tags: prompt.tags,
+          outputFormat: prompt.outputFormat,
+          variables: syncVariables(merged.content, [
+            ...(prompt.variables ?? []),
+            ...(parent.variables ?? []),
+          ]),
+          isPublic: prompt.isPublic,
+        }}
+      />
+    </div>
+  )
+}
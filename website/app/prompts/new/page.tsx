@@ -6,7 +6,7 @@ export default function NewPromptPage() {
       <div className="mb-6">
         <h1 className="mb-2 text-3xl font-bold">Create New Prompt</h1>
         <p className="text-muted-foreground">
-          Share a reusable AI prompt with your team
+          Share a reusable AI prompt with your team. Your work is saved as a draft until you publish.
         </p>
       </div>
       <PromptForm />
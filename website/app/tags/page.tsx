@@ -0,0 +1,53 @@
+import Link from 'next/link'
+import { Tag } from 'lucide-react'
+import { getTagCounts } from '@/lib/db/models/prompt'
+
+export const dynamic = 'force-dynamic'
+
+export default async function TagsPage() {
+  const tagCounts = await getTagCounts()
+  const maxCount = tagCounts[0]?.count || 1
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="mb-2 text-4xl font-bold">Tags</h1>
+        <p className="text-lg text-muted-foreground">
+          Browse prompts by topic. Click a tag to see every prompt using it.
+        </p>
+      </div>
+
+      {tagCounts.length === 0 ? (
+        <div className="py-12 text-center">
+          <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+            <Tag className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="mb-2 text-lg font-semibold text-foreground">No tags yet</h3>
+          <p className="text-sm text-muted-foreground">Tags appear here once prompts are published</p>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-3">
+          {tagCounts.map(({ tag, count }) => {
+            // Scale the most used tags up to make the index scannable
+            const weight = count / maxCount
+            const size = weight > 0.66 ? 'text-lg' : weight > 0.33 ? 'text-base' : 'text-sm'
+
+            return (
+              <Link
+                key={tag}
+                href={`/?tags=${encodeURIComponent(tag)}`}
+                className={`inline-flex items-center gap-2 rounded-md border border-border bg-white px-3 py-1.5 font-medium text-foreground transition-colors hover:border-primary hover:text-primary ${size}`}
+              >
+                #{tag}
+                <span className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                  {count}
+                </span>
+              </Link>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
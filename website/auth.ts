@@ -2,10 +2,12 @@
  * NextAuth.js v5 Configuration for Webex OAuth
  *
  * This file configures NextAuth.js with Webex OAuth provider, including:
- * - Access control validation (organization ID + email domain)
+ * - Access control validation (admin-edited rules, or organization ID + email domain)
  * - Automatic token refresh with 5-minute buffer
  * - User profile synchronization with MongoDB
- * - Audit logging for authentication events
+ * - User roles in the session, re-read every few minutes
+ * - Audit logging for authentication events, with suspicious activity detection
+ * - Temporary sign-in blocks for IP addresses and emails
  *
  * Usage:
  * ```typescript
@@ -25,12 +27,14 @@
 import NextAuth from 'next-auth';
 import Webex from 'next-auth/providers/webex';
 import type { NextAuthConfig } from 'next-auth';
+import type { JWT } from 'next-auth/jwt';
 import { MongoDBAdapter } from '@auth/mongodb-adapter';
 import { MongoClient } from 'mongodb';
 import { validateAuthEnv } from './lib/auth/env-validation';
 import {
   parseAccessControlConfig,
   validateWebexAccess,
+  evaluateAccessPolicy,
   logAccessControl,
 } from './lib/auth/access-control';
 import {
@@ -38,6 +42,19 @@ import {
   refreshWebexAccessToken,
   calculateTokenExpiry,
 } from './lib/auth/token-refresh';
+import {
+  createAuthAuditLog,
+  getCurrentRequestContext,
+  type AuthAuditLog,
+} from './lib/auth/audit-logger';
+import { isBootstrapAdmin } from './lib/auth/permissions';
+import {
+  detectSuspiciousActivity,
+  findActiveAccessBlock,
+} from './lib/auth/security-monitor';
+import { getDb } from './lib/db/mongodb';
+import { getUserRole, setUserRole } from './lib/db/models/user';
+import { getAccessPolicy } from './lib/db/models/access-policy';
 
 // Validate environment variables on startup
 validateAuthEnv();
@@ -46,6 +63,66 @@ validateAuthEnv();
 const client = new MongoClient(process.env.MONGODB_URI!);
 const clientPromise = client.connect();
 
+/**
+ * Writes an authentication event to the audit log with the current request's
+ * IP address and user agent, then checks it for suspicious activity. Never
+ * throws: a failed audit write must not block signing in.
+ */
+async function recordAuthEvent(
+  data: Omit<AuthAuditLog, 'timestamp' | 'ipAddress' | 'userAgent'>
+): Promise<void> {
+  try {
+    const context = await getCurrentRequestContext();
+    const db = await getDb();
+    const log: AuthAuditLog = { ...data, ...context, timestamp: new Date() };
+    const result = await createAuthAuditLog(db, log);
+    if (result.success) {
+      await detectSuspiciousActivity(db, log);
+    }
+  } catch (error) {
+    console.error('[AUDIT LOG ERROR]', error);
+  }
+}
+
+/**
+ * How often a signed-in user's role is re-read from the database, so grants
+ * and revocations reach existing sessions
+ */
+const ROLE_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Stores the user's current role on the token. ADMIN_EMAILS users who are
+ * not admins yet are promoted (and the promotion audited). On a database
+ * error the token keeps its previous role, or member.
+ */
+async function checkRole(token: JWT): Promise<void> {
+  token.roleCheckedAt = Date.now();
+
+  try {
+    const role = await getUserRole(token.userId);
+
+    if (role === 'admin' || !isBootstrapAdmin(token.email)) {
+      token.role = role;
+      return;
+    }
+
+    await setUserRole(token.userId, 'admin', null);
+    await recordAuthEvent({
+      action: 'role_changed',
+      userId: token.userId,
+      email: token.email || undefined,
+      orgId: token.orgId,
+      provider: 'webex',
+      reason: 'Listed in ADMIN_EMAILS',
+      metadata: { previousRole: role, role: 'admin', changedBy: null },
+    });
+    token.role = 'admin';
+  } catch (error) {
+    console.error('Failed to load user role:', error);
+    token.role = token.role || 'member';
+  }
+}
+
 /**
  * NextAuth.js v5 Configuration
  */
@@ -86,7 +163,10 @@ export const config: NextAuthConfig = {
      * signIn Callback - Access Control Validation
      *
      * Called after successful OAuth authentication with Webex.
-     * Validates user's organization ID and email domain against whitelists.
+     * Refuses IP addresses and emails blocked from /admin/security, then
+     * validates the user against the access policy rules (/admin/access), or
+     * their organization ID and email domain against whitelists until a
+     * policy is saved.
      *
      * @returns true to allow sign-in, false to deny
      */
@@ -101,11 +181,32 @@ export const config: NextAuthConfig = {
       const email = user.email || webexProfile?.emails?.[0];
       const orgId = webexProfile?.orgId;
 
-      // Parse access control configuration
-      const accessConfig = parseAccessControlConfig();
+      // Refuse IP addresses and emails an admin has blocked
+      try {
+        const { ipAddress } = await getCurrentRequestContext();
+        const block = await findActiveAccessBlock(await getDb(), { email, ipAddress });
+        if (block) {
+          console.warn(`Blocked sign-in for ${email} from ${ipAddress}: ${block.reason}`);
+          await recordAuthEvent({
+            action: 'access_denied',
+            email,
+            orgId,
+            provider: 'webex',
+            reason: `Blocked ${block.kind === 'ip' ? 'IP address' : 'email'} until ${block.expiresAt.toISOString()}: ${block.reason}`,
+          });
+          return false;
+        }
+      } catch (error) {
+        // Blocks are a safety net: fail open rather than lock everyone out
+        console.error('Failed to check access blocks:', error);
+      }
 
-      // Validate access
-      const result = validateWebexAccess(email, orgId, accessConfig);
+      // Validate access against the saved access policy (re-read on every
+      // sign-in), or the environment allowlists until one is saved
+      const policy = await getAccessPolicy();
+      const result = policy
+        ? evaluateAccessPolicy(policy, email, orgId)
+        : { ...validateWebexAccess(email, orgId, parseAccessControlConfig()), ruleIndex: null };
 
       // Log the validation result
       logAccessControl(email, orgId, result);
@@ -115,6 +216,16 @@ export const config: NextAuthConfig = {
         console.warn(
           `Access denied for ${email} (${orgId}): ${result.reason}`
         );
+        await recordAuthEvent({
+          action: 'access_denied',
+          email,
+          orgId,
+          provider: 'webex',
+          reason: result.reason,
+          ...(result.ruleIndex !== null
+            ? { metadata: { rule: result.ruleIndex + 1 } }
+            : {}),
+        });
         return false;
       }
 
@@ -126,7 +237,8 @@ export const config: NextAuthConfig = {
      * jwt Callback - Token Storage and Refresh
      *
      * Called whenever a JWT is created or updated.
-     * Stores OAuth tokens and triggers automatic refresh when needed.
+     * Stores OAuth tokens and the user's role, and triggers automatic
+     * refresh when needed.
      *
      * @returns Updated JWT token
      */
@@ -142,10 +254,17 @@ export const config: NextAuthConfig = {
         token.userId = user?.id || '';
         token.orgId = webexProfile.orgId;
         token.webexId = webexProfile.id;
+        await checkRole(token);
 
         return token;
       }
 
+      // Pick up role changes made since the role was last read (tokens issued
+      // before roles existed have never read it)
+      if (token.userId && (token.roleCheckedAt ?? 0) + ROLE_CHECK_INTERVAL_MS <= Date.now()) {
+        await checkRole(token);
+      }
+
       // Check if token needs refresh
       if (isTokenExpiringSoon(token.expiresAt as number)) {
         console.log('Access token expiring soon, refreshing...');
@@ -156,16 +275,34 @@ export const config: NextAuthConfig = {
           process.env.AUTH_WEBEX_SECRET!
         );
 
+        const auditData = {
+          userId: (token.userId as string) || undefined,
+          email: token.email || undefined,
+          orgId: token.orgId as string | undefined,
+          provider: 'webex' as const,
+        };
+
         if (result.success) {
           console.log('Token refresh successful');
           token.accessToken = result.accessToken!;
           token.refreshToken = result.refreshToken!;
           token.expiresAt = calculateTokenExpiry(result.expiresIn!);
           token.error = undefined; // Clear any previous errors
+          await recordAuthEvent({ action: 'token_refresh_success', ...auditData });
           return token;
         } else {
           console.error('Token refresh failed:', result.message);
           token.error = result.error;
+          await recordAuthEvent({
+            action: 'token_refresh_failed',
+            ...auditData,
+            reason: result.message,
+          });
+
+          // The access token is already unusable, so the user has to sign in again
+          if (Date.now() >= (token.expiresAt as number)) {
+            await recordAuthEvent({ action: 'session_expired', ...auditData });
+          }
           return token;
         }
       }
@@ -192,6 +329,7 @@ export const config: NextAuthConfig = {
           provider: token.provider as 'webex',
           orgId: token.orgId as string,
           webexId: token.webexId as string,
+          role: token.role || 'member',
         },
         accessToken: token.accessToken as string,
         error: token.error as 'RefreshTokenError' | undefined,
@@ -204,44 +342,45 @@ export const config: NextAuthConfig = {
     /**
      * signIn Event - Log Successful Sign-In
      */
-    async signIn({ user, account, profile }) {
+    async signIn({ user, account, profile, isNewUser }) {
       const webexProfile = profile as any;
-      console.log(
-        `[AUTH ${new Date().toISOString()}] ✅ SIGN-IN: ${user.email} (${
-          webexProfile?.orgId || 'N/A'
-        })`
-      );
-
-      // TODO: Write to audit_logs collection in MongoDB
-      // await createAuthAuditLog({
-      //   action: 'sign_in',
-      //   userId: user.id,
-      //   email: user.email,
-      //   orgId: webexProfile?.orgId,
-      //   provider: account?.provider,
-      //   timestamp: new Date(),
-      // });
+
+      await recordAuthEvent({
+        action: 'sign_in_success',
+        userId: user.id,
+        email: user.email || undefined,
+        orgId: webexProfile?.orgId,
+        provider: account?.provider === 'webex' ? 'webex' : undefined,
+        metadata: { isNewUser: !!isNewUser },
+      });
     },
 
     /**
      * signOut Event - Log Sign-Out
      */
     async signOut(message) {
-      const email = (message as any)?.token?.email || 'Unknown';
-      console.log(`[AUTH ${new Date().toISOString()}] 🚪 SIGN-OUT: ${email}`);
+      // JWT sessions pass the token, database sessions the session
+      const token = 'token' in message ? message.token : null;
 
-      // TODO: Write to audit_logs collection
+      await recordAuthEvent({
+        action: 'sign_out',
+        userId: (token?.userId as string) || undefined,
+        email: token?.email || undefined,
+        orgId: token?.orgId as string | undefined,
+        provider: 'webex',
+      });
     },
 
     /**
      * createUser Event - Log New User Creation
      */
     async createUser({ user }) {
-      console.log(
-        `[AUTH ${new Date().toISOString()}] 👤 NEW USER: ${user.email}`
-      );
-
-      // TODO: Write to audit_logs collection
+      await recordAuthEvent({
+        action: 'user_created',
+        userId: user.id,
+        email: user.email || undefined,
+        provider: 'webex',
+      });
     },
   },
 };
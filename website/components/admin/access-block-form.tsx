@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  BLOCK_DURATIONS,
+  accessBlockSchema,
+  type AccessBlockInput,
+} from '@/lib/validations/security'
+import { blockAccessAction } from '@/app/actions/security-actions'
+
+const SELECT_CLASS =
+  'mt-1.5 h-10 w-full rounded-md border border-border bg-white px-3 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary'
+
+export default function AccessBlockForm() {
+  const router = useRouter()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<AccessBlockInput>({
+    resolver: zodResolver(accessBlockSchema),
+    defaultValues: { kind: 'ip', value: '', durationHours: 24, reason: '' },
+  })
+
+  const onSubmit = async (data: AccessBlockInput) => {
+    setIsSubmitting(true)
+    try {
+      const result = await blockAccessAction(data)
+
+      if (result.success) {
+        toast.success(`${data.value} blocked`)
+        reset()
+        router.refresh()
+      } else if (result.error) {
+        toast.error(result.error)
+      }
+    } catch {
+      toast.error('Failed to block access')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="rounded-lg border bg-card p-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <Label htmlFor="block-kind">Block</Label>
+          <select id="block-kind" {...register('kind')} className={SELECT_CLASS}>
+            <option value="ip">IP address</option>
+            <option value="email">Email</option>
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="block-value">IP address or email</Label>
+          <Input id="block-value" {...register('value')} className="mt-1.5" />
+          {errors.value && <p className="mt-1 text-sm text-red-500">{errors.value.message}</p>}
+        </div>
+        <div>
+          <Label htmlFor="block-duration">For</Label>
+          <select
+            id="block-duration"
+            {...register('durationHours', { valueAsNumber: true })}
+            className={SELECT_CLASS}
+          >
+            {BLOCK_DURATIONS.map((duration) => (
+              <option key={duration.hours} value={duration.hours}>
+                {duration.label}
+              </option>
+            ))}
+          </select>
+          {errors.durationHours && (
+            <p className="mt-1 text-sm text-red-500">{errors.durationHours.message}</p>
+          )}
+        </div>
+        <div>
+          <Label htmlFor="block-reason">Reason</Label>
+          <Input id="block-reason" {...register('reason')} className="mt-1.5" />
+          {errors.reason && <p className="mt-1 text-sm text-red-500">{errors.reason.message}</p>}
+        </div>
+      </div>
+
+      <div className="mt-4 flex justify-end">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Blocking...' : 'Block sign-ins'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import type { AccessBlock } from '@/lib/auth/security-monitor'
+import { unblockAccessAction } from '@/app/actions/security-actions'
+
+/** Access block with its ID as a string, for client components */
+export type AccessBlockRow = Omit<AccessBlock, 'alertId'> & { id: string; alertId?: string }
+
+interface AccessBlockListProps {
+  blocks: AccessBlockRow[]
+}
+
+export default function AccessBlockList({ blocks }: AccessBlockListProps) {
+  const router = useRouter()
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  if (blocks.length === 0) {
+    return (
+      <div className="rounded-lg border bg-card py-8 text-center text-sm text-muted-foreground">
+        Nothing is blocked
+      </div>
+    )
+  }
+
+  const unblock = async (block: AccessBlockRow) => {
+    if (!window.confirm(`Allow sign-ins ${block.kind === 'ip' ? 'from' : 'for'} ${block.value} again?`)) return
+
+    setBusyId(block.id)
+    const result = await unblockAccessAction(block.id)
+
+    if (result.success) {
+      toast.success(`${block.value} unblocked`)
+      router.refresh()
+    } else {
+      toast.error(result.error || 'Failed to remove block')
+    }
+    setBusyId(null)
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border bg-card">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="px-4 py-2 font-medium">Blocked</th>
+            <th className="px-4 py-2 font-medium">Reason</th>
+            <th className="px-4 py-2 font-medium">Expires</th>
+            <th className="px-4 py-2 text-right font-medium">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {blocks.map((block) => (
+            <tr key={block.id} className="border-b align-top last:border-0">
+              <td className="px-4 py-2">
+                <p className="font-medium text-foreground">{block.value}</p>
+                <p className="text-xs text-muted-foreground">
+                  {block.kind === 'ip' ? 'IP address' : 'Email'} · by {block.createdBy.name}
+                </p>
+              </td>
+              <td className="px-4 py-2 text-muted-foreground">{block.reason}</td>
+              <td className="whitespace-nowrap px-4 py-2 text-muted-foreground">
+                {formatDistanceToNow(block.expiresAt, { addSuffix: true })}
+              </td>
+              <td className="px-4 py-2">
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busyId === block.id}
+                    onClick={() => unblock(block)}
+                  >
+                    Unblock
+                  </Button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
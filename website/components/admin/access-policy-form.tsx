@@ -0,0 +1,349 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Controller, useFieldArray, useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  accessPolicySchema,
+  type AccessPolicy,
+  type AccessPolicyInput,
+} from '@/lib/validations/access-policy'
+import {
+  describeAccessRule,
+  evaluateAccessPolicy,
+  type AccessRuleOutcome,
+} from '@/lib/auth/access-control'
+import { resetAccessPolicyAction, saveAccessPolicyAction } from '@/app/actions/access-policy-actions'
+
+interface AccessPolicyFormProps {
+  defaultValues: AccessPolicy
+  /** Whether a policy is saved (otherwise the environment allowlists apply) */
+  isSaved: boolean
+}
+
+const SELECT_CLASS =
+  'h-10 w-full rounded-md border border-border bg-white px-3 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary'
+
+const OUTCOME_LABELS: Record<AccessRuleOutcome, string> = {
+  matched: 'Matched',
+  no_match: 'No match',
+  expired: 'Expired, skipped',
+}
+
+const EMPTY_RULE = {
+  effect: 'allow',
+  email: '',
+  domain: '',
+  orgId: '',
+  expiresAt: null,
+  note: '',
+} as const
+
+/**
+ * Date as the local-time value of a datetime-local input
+ */
+function toDateTimeLocal(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000)
+  return local.toISOString().slice(0, 16)
+}
+
+function AccessPolicyTester({ policy }: { policy: AccessPolicy | null }) {
+  const [email, setEmail] = useState('')
+  const [orgId, setOrgId] = useState('')
+
+  const result = policy && email.trim() ? evaluateAccessPolicy(policy, email, orgId.trim() || undefined) : null
+
+  return (
+    <div className="rounded-lg border bg-card p-6">
+      <h2 className="mb-1 text-xl font-semibold">Test an identity</h2>
+      <p className="mb-4 text-sm text-muted-foreground">
+        Check who the rules above would let in, before saving them
+      </p>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="test-email">Email</Label>
+          <Input
+            id="test-email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="guest@partner.example.com"
+            className="mt-1.5"
+          />
+        </div>
+        <div>
+          <Label htmlFor="test-org">Organization ID</Label>
+          <Input
+            id="test-org"
+            value={orgId}
+            onChange={(e) => setOrgId(e.target.value)}
+            placeholder="Optional"
+            className="mt-1.5"
+          />
+        </div>
+      </div>
+
+      {!policy && <p className="mt-4 text-sm text-muted-foreground">Fix the errors above to test the rules</p>}
+      {policy && result && (
+        <div className="mt-4 space-y-3 text-sm">
+          <p className={result.allowed ? 'font-medium text-green-700' : 'font-medium text-red-700'}>
+            {result.allowed ? 'Allowed' : 'Denied'}
+            {result.ruleIndex !== null
+              ? ` by rule ${result.ruleIndex + 1} (${describeAccessRule(policy.rules[result.ruleIndex])})`
+              : result.reason === 'NoEmail'
+                ? ': an email address is required'
+                : ' by the default'}
+          </p>
+          {result.trace.length > 0 && (
+            <ol className="space-y-1 text-muted-foreground">
+              {result.trace.map((outcome, index) => (
+                <li key={index}>
+                  Rule {index + 1}: {policy.rules[index].effect} {describeAccessRule(policy.rules[index])} —{' '}
+                  <span className={outcome === 'matched' ? 'font-medium text-foreground' : undefined}>
+                    {OUTCOME_LABELS[outcome]}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function AccessPolicyForm({ defaultValues, isSaved }: AccessPolicyFormProps) {
+  const router = useRouter()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isResetting, setIsResetting] = useState(false)
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors },
+    watch,
+  } = useForm<AccessPolicyInput>({
+    resolver: zodResolver(accessPolicySchema),
+    defaultValues,
+  })
+  const { fields, append, remove, move } = useFieldArray({ control, name: 'rules' })
+
+  // Test identities against the rules as they are edited, once they are valid
+  const parsed = accessPolicySchema.safeParse(watch())
+
+  const onSubmit = async (data: AccessPolicyInput) => {
+    setIsSubmitting(true)
+    try {
+      const result = await saveAccessPolicyAction(data)
+
+      if (result.success) {
+        toast.success('Access policy saved')
+        router.refresh()
+      } else if (result.error) {
+        toast.error(result.error)
+      }
+    } catch {
+      toast.error('Failed to save access policy')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const onReset = async () => {
+    if (!window.confirm('Delete the saved rules and go back to the environment allowlists?')) return
+
+    setIsResetting(true)
+    const result = await resetAccessPolicyAction()
+
+    if (result.success) {
+      toast.success('Using the environment allowlists')
+      router.refresh()
+    } else {
+      toast.error(result.error || 'Failed to reset access policy')
+    }
+    setIsResetting(false)
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      {/* Rules */}
+      <div className="rounded-lg border bg-card p-6">
+        <h2 className="mb-1 text-xl font-semibold">Rules</h2>
+        <p className="mb-4 text-sm text-muted-foreground">
+          Checked from top to bottom; the first matching rule decides. A rule matches when every
+          field it sets matches. Use *.example.com for any subdomain of example.com.
+        </p>
+
+        {fields.length === 0 && (
+          <p className="mb-4 text-sm text-muted-foreground">No rules: the default below applies to everyone</p>
+        )}
+
+        <div className="space-y-4">
+          {fields.map((field, index) => {
+            const ruleErrors = errors.rules?.[index]
+
+            return (
+              <div key={field.id} className="rounded-md border p-4">
+                <div className="mb-3 flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-foreground">Rule {index + 1}</span>
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Move rule ${index + 1} up`}
+                      disabled={index === 0}
+                      onClick={() => move(index, index - 1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Move rule ${index + 1} down`}
+                      disabled={index === fields.length - 1}
+                      onClick={() => move(index, index + 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Remove rule ${index + 1}`}
+                      onClick={() => remove(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  <div>
+                    <Label htmlFor={`rule-${index}-effect`}>Effect</Label>
+                    <select
+                      id={`rule-${index}-effect`}
+                      {...register(`rules.${index}.effect`)}
+                      className={`mt-1.5 ${SELECT_CLASS}`}
+                    >
+                      <option value="allow">Allow</option>
+                      <option value="deny">Deny</option>
+                    </select>
+                  </div>
+                  <div>
+                    <Label htmlFor={`rule-${index}-email`}>Email</Label>
+                    <Input
+                      id={`rule-${index}-email`}
+                      {...register(`rules.${index}.email`)}
+                      placeholder="Any"
+                      className="mt-1.5"
+                    />
+                    {ruleErrors?.email && (
+                      <p className="mt-1 text-sm text-red-500">{ruleErrors.email.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor={`rule-${index}-domain`}>Domain</Label>
+                    <Input
+                      id={`rule-${index}-domain`}
+                      {...register(`rules.${index}.domain`)}
+                      placeholder="Any"
+                      className="mt-1.5"
+                    />
+                    {ruleErrors?.domain && (
+                      <p className="mt-1 text-sm text-red-500">{ruleErrors.domain.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor={`rule-${index}-org`}>Organization ID</Label>
+                    <Input
+                      id={`rule-${index}-org`}
+                      {...register(`rules.${index}.orgId`)}
+                      placeholder="Any"
+                      className="mt-1.5"
+                    />
+                    {ruleErrors?.orgId && (
+                      <p className="mt-1 text-sm text-red-500">{ruleErrors.orgId.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor={`rule-${index}-expires`}>Expires</Label>
+                    <Controller
+                      control={control}
+                      name={`rules.${index}.expiresAt`}
+                      render={({ field: { value, onChange, onBlur } }) => (
+                        <Input
+                          id={`rule-${index}-expires`}
+                          type="datetime-local"
+                          value={value ? toDateTimeLocal(value) : ''}
+                          onChange={(e) => onChange(e.target.value ? new Date(e.target.value) : null)}
+                          onBlur={onBlur}
+                          className="mt-1.5"
+                        />
+                      )}
+                    />
+                    {ruleErrors?.expiresAt && (
+                      <p className="mt-1 text-sm text-red-500">{ruleErrors.expiresAt.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor={`rule-${index}-note`}>Note</Label>
+                    <Input
+                      id={`rule-${index}-note`}
+                      {...register(`rules.${index}.note`)}
+                      placeholder="e.g. Contractor access for Q3 project"
+                      className="mt-1.5"
+                    />
+                    {ruleErrors?.note && (
+                      <p className="mt-1 text-sm text-red-500">{ruleErrors.note.message}</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        {errors.rules?.message && <p className="mt-2 text-sm text-red-500">{errors.rules.message}</p>}
+
+        <Button type="button" variant="outline" className="mt-4" onClick={() => append({ ...EMPTY_RULE })}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add rule
+        </Button>
+
+        <div className="mt-6">
+          <Label htmlFor="default-effect">When no rule matches</Label>
+          <select
+            id="default-effect"
+            {...register('defaultEffect')}
+            className={`mt-1.5 sm:w-64 ${SELECT_CLASS}`}
+          >
+            <option value="deny">Deny</option>
+            <option value="allow">Allow</option>
+          </select>
+        </div>
+      </div>
+
+      <AccessPolicyTester policy={parsed.success ? parsed.data : null} />
+
+      <div className="flex justify-end gap-3">
+        {isSaved && (
+          <Button type="button" variant="outline" onClick={onReset} disabled={isResetting}>
+            {isResetting ? 'Resetting...' : 'Use environment allowlists'}
+          </Button>
+        )}
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Save rules'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,37 @@
+import type { AuthAction } from '@/lib/auth/audit-logger'
+
+export const AUDIT_ACTION_LABELS: Record<AuthAction, string> = {
+  sign_in_success: 'Signed in',
+  sign_in_failed: 'Sign-in failed',
+  sign_out: 'Signed out',
+  access_denied: 'Access denied',
+  token_refresh_success: 'Token refreshed',
+  token_refresh_failed: 'Token refresh failed',
+  session_expired: 'Session expired',
+  user_created: 'User created',
+  role_changed: 'Role changed',
+}
+
+const ACTION_STYLES: Record<AuthAction, string> = {
+  sign_in_success: 'bg-green-100 text-green-800',
+  sign_in_failed: 'bg-red-100 text-red-800',
+  sign_out: 'bg-muted text-muted-foreground',
+  access_denied: 'bg-red-100 text-red-800',
+  token_refresh_success: 'bg-blue-100 text-blue-800',
+  token_refresh_failed: 'bg-amber-100 text-amber-800',
+  session_expired: 'bg-amber-100 text-amber-800',
+  user_created: 'bg-purple-100 text-purple-800',
+  role_changed: 'bg-purple-100 text-purple-800',
+}
+
+export default function AuditActionBadge({ action }: { action: AuthAction }) {
+  return (
+    <span
+      className={`inline-block whitespace-nowrap rounded-full px-2 py-0.5 text-xs font-medium ${
+        ACTION_STYLES[action] || 'bg-muted text-muted-foreground'
+      }`}
+    >
+      {AUDIT_ACTION_LABELS[action] || action}
+    </span>
+  )
+}
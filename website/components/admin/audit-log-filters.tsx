@@ -0,0 +1,76 @@
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AUTH_ACTIONS, type AuditLogQuery } from '@/lib/validations/audit'
+import { AUDIT_ACTION_LABELS } from './audit-action-badge'
+
+interface AuditLogFiltersProps {
+  filters: AuditLogQuery
+}
+
+// A plain GET form: filtering starts again from the newest log and works without JavaScript
+export default function AuditLogFilters({ filters }: AuditLogFiltersProps) {
+  return (
+    <form method="get" action="/admin/audit" className="rounded-lg border bg-card p-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        <div>
+          <Label htmlFor="audit-action">Action</Label>
+          <select
+            id="audit-action"
+            name="action"
+            defaultValue={filters.action || ''}
+            className="mt-1.5 h-10 w-full rounded-md border border-border bg-white px-3 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">All actions</option>
+            {AUTH_ACTIONS.map((action) => (
+              <option key={action} value={action}>
+                {AUDIT_ACTION_LABELS[action]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="audit-email">Email</Label>
+          <Input
+            id="audit-email"
+            name="email"
+            type="email"
+            defaultValue={filters.email || ''}
+            placeholder="user@example.com"
+            className="mt-1.5"
+          />
+        </div>
+        <div>
+          <Label htmlFor="audit-org">Organization ID</Label>
+          <Input id="audit-org" name="orgId" defaultValue={filters.orgId || ''} className="mt-1.5" />
+        </div>
+        <div>
+          <Label htmlFor="audit-ip">IP address</Label>
+          <Input
+            id="audit-ip"
+            name="ipAddress"
+            defaultValue={filters.ipAddress || ''}
+            placeholder="203.0.113.7"
+            className="mt-1.5"
+          />
+        </div>
+        <div>
+          <Label htmlFor="audit-from">From</Label>
+          <Input id="audit-from" name="from" type="date" defaultValue={filters.from || ''} className="mt-1.5" />
+        </div>
+        <div>
+          <Label htmlFor="audit-to">To</Label>
+          <Input id="audit-to" name="to" type="date" defaultValue={filters.to || ''} className="mt-1.5" />
+        </div>
+      </div>
+
+      <div className="mt-4 flex justify-end gap-3">
+        <Button type="button" variant="outline" asChild>
+          <Link href="/admin/audit">Clear</Link>
+        </Button>
+        <Button type="submit">Apply filters</Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,84 @@
+import Link from 'next/link'
+import type { WithId } from 'mongodb'
+import type { AuthAuditLog } from '@/lib/auth/audit-logger'
+import { getAuditHref, getAuditTimelineHref } from '@/lib/utils/audit'
+import AuditActionBadge from './audit-action-badge'
+
+interface AuditLogTableProps {
+  logs: WithId<AuthAuditLog>[]
+}
+
+/**
+ * Timestamp in UTC, to the second
+ */
+export function formatAuditTime(timestamp: Date): string {
+  return `${timestamp.toISOString().slice(0, 19).replace('T', ' ')} UTC`
+}
+
+export default function AuditLogTable({ logs }: AuditLogTableProps) {
+  if (logs.length === 0) {
+    return (
+      <div className="rounded-lg border bg-card py-12 text-center text-sm text-muted-foreground">
+        No audit logs match these filters
+      </div>
+    )
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border bg-card">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="px-4 py-2 font-medium">Time</th>
+            <th className="px-4 py-2 font-medium">Action</th>
+            <th className="px-4 py-2 font-medium">Email</th>
+            <th className="px-4 py-2 font-medium">Organization</th>
+            <th className="px-4 py-2 font-medium">IP address</th>
+            <th className="px-4 py-2 font-medium">Details</th>
+          </tr>
+        </thead>
+        <tbody>
+          {logs.map((log) => (
+            <tr key={log._id.toString()} className="border-b align-top last:border-0">
+              <td className="whitespace-nowrap px-4 py-2 text-muted-foreground">
+                {formatAuditTime(log.timestamp)}
+              </td>
+              <td className="px-4 py-2">
+                <AuditActionBadge action={log.action} />
+              </td>
+              <td className="px-4 py-2">
+                {log.email ? (
+                  <Link href={getAuditTimelineHref(log.email)} className="text-primary hover:underline">
+                    {log.email}
+                  </Link>
+                ) : (
+                  <span className="text-muted-foreground">—</span>
+                )}
+              </td>
+              <td className="px-4 py-2 text-muted-foreground">{log.orgId || '—'}</td>
+              <td className="whitespace-nowrap px-4 py-2">
+                <Link
+                  href={getAuditHref('/admin/audit', { ipAddress: log.ipAddress })}
+                  className="text-muted-foreground hover:text-foreground hover:underline"
+                >
+                  {log.ipAddress}
+                </Link>
+              </td>
+              <td className="max-w-xs px-4 py-2 text-muted-foreground">
+                {log.action === 'role_changed' && (
+                  <p className="text-foreground">
+                    {log.metadata?.previousRole} → {log.metadata?.role}
+                  </p>
+                )}
+                {log.reason && <p className="text-foreground">{log.reason}</p>}
+                <p className="truncate" title={log.userAgent}>
+                  {log.userAgent}
+                </p>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,300 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { ArrowDown, ArrowUp } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  scoringConfigSchema,
+  type LeaderboardPeriod,
+  type ScoringConfig,
+} from '@/lib/validations/leaderboard'
+import { describeScoringFormula } from '@/lib/utils/scoring'
+import {
+  previewScoringConfigAction,
+  saveScoringConfigAction,
+} from '@/app/actions/leaderboard-actions'
+import type { LeaderboardPreviewEntry } from '@/types/leaderboard'
+import { toast } from 'sonner'
+
+interface ScoringConfigFormProps {
+  defaultValues: ScoringConfig
+}
+
+const COUNTERS = [
+  { key: 'stars', label: 'Stars' },
+  { key: 'forks', label: 'Forks' },
+  { key: 'views', label: 'Views' },
+] as const
+
+const PERIODS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: 'all', label: 'All Time' },
+  { value: 'month', label: 'This Month' },
+  { value: 'week', label: 'This Week' },
+  { value: 'trending', label: 'Trending' },
+]
+
+function RankChange({ entry }: { entry: LeaderboardPreviewEntry }) {
+  if (entry.previousRank === null) {
+    return <span className="text-xs font-medium text-primary">New</span>
+  }
+
+  const change = entry.previousRank - entry.rank
+  if (change > 0) {
+    return (
+      <span className="flex items-center gap-0.5 text-xs font-medium text-green-600">
+        <ArrowUp className="h-3 w-3" />
+        {change}
+      </span>
+    )
+  }
+  if (change < 0) {
+    return (
+      <span className="flex items-center gap-0.5 text-xs font-medium text-red-600">
+        <ArrowDown className="h-3 w-3" />
+        {-change}
+      </span>
+    )
+  }
+  return <span className="text-xs text-muted-foreground">–</span>
+}
+
+export default function ScoringConfigForm({ defaultValues }: ScoringConfigFormProps) {
+  const router = useRouter()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [previewPeriod, setPreviewPeriod] = useState<LeaderboardPeriod>('all')
+  const [preview, setPreview] = useState<LeaderboardPreviewEntry[] | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    watch,
+  } = useForm<ScoringConfig>({
+    resolver: zodResolver(scoringConfigSchema),
+    defaultValues,
+  })
+
+  // Explain the formula as it is edited, once the values are valid
+  const parsed = scoringConfigSchema.safeParse(watch())
+  const explanation = parsed.success ? describeScoringFormula(parsed.data) : null
+
+  const onPreview = async (data: ScoringConfig) => {
+    setIsPreviewing(true)
+    try {
+      const result = await previewScoringConfigAction(data, previewPeriod)
+
+      if (result.success && result.entries) {
+        setPreview(result.entries)
+      } else if (result.error) {
+        toast.error(result.error)
+      }
+    } catch {
+      toast.error('Failed to preview scoring')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const onSubmit = async (data: ScoringConfig) => {
+    setIsSubmitting(true)
+    try {
+      const result = await saveScoringConfigAction(data)
+
+      if (result.success) {
+        toast.success('Scoring saved')
+        setPreview(null)
+        router.refresh()
+      } else if (result.error) {
+        toast.error(result.error)
+      }
+    } catch {
+      toast.error('Failed to save scoring')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      {/* Weights */}
+      <div className="rounded-lg border bg-card p-6">
+        <h2 className="mb-1 text-xl font-semibold">Weights</h2>
+        <p className="mb-4 text-sm text-muted-foreground">Points for each star, fork and view</p>
+        <div className="grid gap-4 sm:grid-cols-3">
+          {COUNTERS.map((counter) => (
+            <div key={counter.key}>
+              <Label htmlFor={`weight-${counter.key}`}>{counter.label}</Label>
+              <Input
+                id={`weight-${counter.key}`}
+                type="number"
+                step="any"
+                min={0}
+                {...register(`weights.${counter.key}`, { valueAsNumber: true })}
+                className="mt-1.5"
+              />
+              {errors.weights?.[counter.key] && (
+                <p className="mt-1 text-sm text-red-500">{errors.weights[counter.key]?.message}</p>
+              )}
+            </div>
+          ))}
+        </div>
+        {errors.weights?.message && (
+          <p className="mt-2 text-sm text-red-500">{errors.weights.message}</p>
+        )}
+
+        <div className="mt-4">
+          <Label htmlFor="view-scaling">View scaling</Label>
+          <select
+            id="view-scaling"
+            {...register('viewScaling')}
+            className="mt-1.5 w-full rounded-md border border-border bg-white px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 sm:w-64"
+          >
+            <option value="linear">Linear (every view counts the same)</option>
+            <option value="log">Logarithmic (ln(1 + views))</option>
+          </select>
+          {errors.viewScaling && (
+            <p className="mt-1 text-sm text-red-500">{errors.viewScaling.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Minimums */}
+      <div className="rounded-lg border bg-card p-6">
+        <h2 className="mb-1 text-xl font-semibold">Minimum thresholds</h2>
+        <p className="mb-4 text-sm text-muted-foreground">
+          Prompts below any minimum are left off the leaderboard (0 for no minimum)
+        </p>
+        <div className="grid gap-4 sm:grid-cols-3">
+          {COUNTERS.map((counter) => (
+            <div key={counter.key}>
+              <Label htmlFor={`minimum-${counter.key}`}>{counter.label}</Label>
+              <Input
+                id={`minimum-${counter.key}`}
+                type="number"
+                step={1}
+                min={0}
+                {...register(`minimums.${counter.key}`, { valueAsNumber: true })}
+                className="mt-1.5"
+              />
+              {errors.minimums?.[counter.key] && (
+                <p className="mt-1 text-sm text-red-500">{errors.minimums[counter.key]?.message}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <label className="mt-4 flex cursor-pointer items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            {...register('normalizeByCategory')}
+            className="mt-0.5 h-4 w-4 text-primary focus:ring-2 focus:ring-primary"
+          />
+          <span>
+            <span className="font-medium text-foreground">Normalize per category</span>
+            <span className="ml-2 text-muted-foreground">
+              Rank prompts against their own category&apos;s average
+            </span>
+          </span>
+        </label>
+      </div>
+
+      {/* Explanation shown on the leaderboard */}
+      <div className="rounded-lg border bg-muted/50 p-4 text-sm">
+        <p className="mb-1 font-medium text-foreground">Shown on the leaderboard</p>
+        {explanation ? (
+          <>
+            <p className="text-muted-foreground">{explanation.formula}</p>
+            {explanation.notes.map((note) => (
+              <p key={note} className="text-muted-foreground">
+                {note}
+              </p>
+            ))}
+          </>
+        ) : (
+          <p className="text-muted-foreground">Fix the errors above to see the formula</p>
+        )}
+      </div>
+
+      {/* Preview */}
+      <div className="rounded-lg border bg-card p-6">
+        <div className="mb-4 flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h2 className="mb-1 text-xl font-semibold">Preview</h2>
+            <p className="text-sm text-muted-foreground">
+              Top prompts with these settings, compared with the saved ones
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <select
+              aria-label="Preview period"
+              value={previewPeriod}
+              onChange={(e) => setPreviewPeriod(e.target.value as LeaderboardPeriod)}
+              className="rounded-md border border-border bg-white px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {PERIODS.map((period) => (
+                <option key={period.value} value={period.value}>
+                  {period.label}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleSubmit(onPreview)}
+              disabled={isPreviewing}
+            >
+              {isPreviewing ? 'Previewing...' : 'Preview ranking'}
+            </Button>
+          </div>
+        </div>
+
+        {preview && preview.length === 0 && (
+          <p className="text-sm text-muted-foreground">No prompts would be ranked with these settings</p>
+        )}
+        {preview && preview.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-2 font-medium">#</th>
+                <th className="py-2 pr-2 font-medium">Prompt</th>
+                <th className="py-2 pr-2 font-medium">Category</th>
+                <th className="py-2 pr-2 text-right font-medium">Score</th>
+                <th className="py-2 text-right font-medium">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map((entry) => (
+                <tr key={entry.id} className="border-b last:border-0">
+                  <td className="py-2 pr-2 text-muted-foreground">{entry.rank}</td>
+                  <td className="py-2 pr-2">
+                    <span className="font-medium text-foreground">{entry.title}</span>
+                    <span className="ml-2 text-muted-foreground">by {entry.authorName}</span>
+                  </td>
+                  <td className="py-2 pr-2 text-muted-foreground">{entry.category}</td>
+                  <td className="py-2 pr-2 text-right">{Math.round(entry.score)}</td>
+                  <td className="py-2">
+                    <div className="flex justify-end">
+                      <RankChange entry={entry} />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Save scoring'}
+        </Button>
+      </div>
+    </form>
+  )
+}
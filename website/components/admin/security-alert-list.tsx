@@ -0,0 +1,179 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import type {
+  AccessBlockKind,
+  SecurityAlert,
+  SecurityAlertSeverity,
+  SecurityAlertType,
+} from '@/lib/auth/security-monitor'
+import { getAuditHref, getAuditTimelineHref } from '@/lib/utils/audit'
+import { blockAccessAction, resolveSecurityAlertAction } from '@/app/actions/security-actions'
+import { formatAuditTime } from './audit-log-table'
+
+/** Security alert with its ID as a string, for client components */
+export type SecurityAlertRow = SecurityAlert & { id: string }
+
+interface SecurityAlertListProps {
+  alerts: SecurityAlertRow[]
+}
+
+export const ALERT_TYPE_LABELS: Record<SecurityAlertType, string> = {
+  failure_burst: 'Failure burst',
+  new_device: 'New device',
+  refresh_loop: 'Refresh loop',
+}
+
+const SEVERITY_STYLES: Record<SecurityAlertSeverity, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-amber-100 text-amber-800',
+  low: 'bg-blue-100 text-blue-800',
+}
+
+// Quick blocks from an alert; longer or custom blocks use the form
+const QUICK_BLOCK_HOURS = 24
+
+export default function SecurityAlertList({ alerts }: SecurityAlertListProps) {
+  const router = useRouter()
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  if (alerts.length === 0) {
+    return (
+      <div className="rounded-lg border bg-card py-12 text-center text-sm text-muted-foreground">
+        No alerts
+      </div>
+    )
+  }
+
+  const resolve = async (alert: SecurityAlertRow) => {
+    setBusyId(alert.id)
+    const result = await resolveSecurityAlertAction(alert.id)
+
+    if (result.success) {
+      toast.success('Alert resolved')
+      router.refresh()
+    } else {
+      toast.error(result.error || 'Failed to resolve alert')
+    }
+    setBusyId(null)
+  }
+
+  const block = async (alert: SecurityAlertRow, kind: AccessBlockKind, value: string) => {
+    if (!window.confirm(`Block sign-ins ${kind === 'ip' ? 'from' : 'for'} ${value} for ${QUICK_BLOCK_HOURS} hours?`)) return
+
+    setBusyId(alert.id)
+    const result = await blockAccessAction({
+      kind,
+      value,
+      durationHours: QUICK_BLOCK_HOURS,
+      reason: alert.message,
+      alertId: alert.id,
+    })
+
+    if (result.success) {
+      toast.success(`${value} blocked`)
+      router.refresh()
+    } else {
+      toast.error(result.error || 'Failed to block access')
+    }
+    setBusyId(null)
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border bg-card">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="px-4 py-2 font-medium">Alert</th>
+            <th className="px-4 py-2 font-medium">Events</th>
+            <th className="px-4 py-2 font-medium">Seen</th>
+            <th className="px-4 py-2 font-medium">Links</th>
+            <th className="px-4 py-2 text-right font-medium">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {alerts.map((alert) => (
+            <tr key={alert.id} className="border-b align-top last:border-0">
+              <td className="px-4 py-2">
+                <div className="mb-1 flex flex-wrap items-center gap-2">
+                  <span
+                    className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium ${SEVERITY_STYLES[alert.severity]}`}
+                  >
+                    {alert.severity}
+                  </span>
+                  <span className="text-xs font-medium text-muted-foreground">
+                    {ALERT_TYPE_LABELS[alert.type]}
+                  </span>
+                </div>
+                <p className="text-foreground">{alert.message}</p>
+                {alert.userAgent && (
+                  <p className="max-w-xs truncate text-muted-foreground" title={alert.userAgent}>
+                    {alert.userAgent}
+                  </p>
+                )}
+                {alert.resolvedBy && alert.resolvedAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Resolved by {alert.resolvedBy.name}, {formatAuditTime(alert.resolvedAt)}
+                  </p>
+                )}
+              </td>
+              <td className="px-4 py-2 text-muted-foreground">{alert.count}</td>
+              <td className="whitespace-nowrap px-4 py-2 text-muted-foreground">
+                <p>First {formatAuditTime(alert.firstSeenAt)}</p>
+                <p>Last {formatAuditTime(alert.lastSeenAt)}</p>
+              </td>
+              <td className="space-y-1 px-4 py-2">
+                {alert.ipAddress && alert.ipAddress !== 'unknown' && (
+                  <Link
+                    href={getAuditHref('/admin/audit', { ipAddress: alert.ipAddress })}
+                    className="block text-primary hover:underline"
+                  >
+                    {alert.ipAddress}
+                  </Link>
+                )}
+                {alert.email && (
+                  <Link href={getAuditTimelineHref(alert.email)} className="block text-primary hover:underline">
+                    {alert.email}
+                  </Link>
+                )}
+              </td>
+              <td className="px-4 py-2">
+                {alert.status === 'open' && (
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {alert.ipAddress && alert.ipAddress !== 'unknown' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === alert.id}
+                        onClick={() => block(alert, 'ip', alert.ipAddress!)}
+                      >
+                        Block IP
+                      </Button>
+                    )}
+                    {alert.email && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === alert.id}
+                        onClick={() => block(alert, 'email', alert.email!)}
+                      >
+                        Block email
+                      </Button>
+                    )}
+                    <Button size="sm" disabled={busyId === alert.id} onClick={() => resolve(alert)}>
+                      Resolve
+                    </Button>
+                  </div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
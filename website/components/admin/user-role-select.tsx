@@ -0,0 +1,63 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { ROLES, type Role } from '@/lib/auth/permissions'
+import { updateUserRoleAction } from '@/app/actions/user-actions'
+
+export const ROLE_LABELS: Record<Role, string> = {
+  member: 'Member',
+  curator: 'Curator',
+  admin: 'Admin',
+}
+
+interface UserRoleSelectProps {
+  userId: string
+  userName: string
+  role: Role
+  /** Why the role cannot be changed here, if it cannot */
+  lockedReason?: string
+}
+
+export default function UserRoleSelect({ userId, userName, role, lockedReason }: UserRoleSelectProps) {
+  const router = useRouter()
+  const [value, setValue] = useState<Role>(role)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const changeRole = async (next: Role) => {
+    if (!window.confirm(`Change ${userName}'s role to ${ROLE_LABELS[next]}?`)) return
+
+    const previous = value
+    setValue(next)
+    setIsSaving(true)
+
+    const result = await updateUserRoleAction(userId, next)
+
+    if (result.success) {
+      toast.success(`${userName} is now ${ROLE_LABELS[next]}`)
+      router.refresh()
+    } else {
+      setValue(previous)
+      toast.error(result.error || 'Failed to change role')
+    }
+    setIsSaving(false)
+  }
+
+  return (
+    <select
+      aria-label={`Role for ${userName}`}
+      value={value}
+      onChange={(e) => changeRole(e.target.value as Role)}
+      disabled={!!lockedReason || isSaving}
+      title={lockedReason}
+      className="rounded-md border border-border bg-white px-3 py-1.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary disabled:cursor-not-allowed disabled:opacity-60"
+    >
+      {ROLES.map((option) => (
+        <option key={option} value={option}>
+          {ROLE_LABELS[option]}
+        </option>
+      ))}
+    </select>
+  )
+}
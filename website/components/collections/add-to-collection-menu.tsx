@@ -0,0 +1,145 @@
+'use client'
+
+import { useState } from 'react'
+import { createPortal } from 'react-dom'
+import { FolderPlus, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  getMyCollectionsAction,
+  addPromptToCollectionAction,
+  removePromptFromCollectionAction,
+} from '@/app/actions/collection-actions'
+import { toast } from 'sonner'
+import CollectionFormDialog from './collection-form-dialog'
+
+interface CollectionOption {
+  id: string
+  name: string
+  containsPrompt: boolean
+}
+
+interface AddToCollectionMenuProps {
+  promptId: string
+  /** Icon-only trigger for compact layouts such as cards */
+  compact?: boolean
+}
+
+export default function AddToCollectionMenu({ promptId, compact = false }: AddToCollectionMenuProps) {
+  const [collections, setCollections] = useState<CollectionOption[] | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+
+  // Collections are loaded when the menu opens so lists of cards stay cheap
+  const loadCollections = async () => {
+    const result = await getMyCollectionsAction(promptId)
+
+    if (result.success && result.collections) {
+      setCollections(result.collections)
+    } else if (result.error) {
+      toast.error(result.error)
+    }
+  }
+
+  const toggleCollection = async (option: CollectionOption) => {
+    const previous = collections
+    setCollections(
+      (collections || []).map((c) =>
+        c.id === option.id ? { ...c, containsPrompt: !option.containsPrompt } : c
+      )
+    )
+
+    const result = option.containsPrompt
+      ? await removePromptFromCollectionAction(option.id, promptId)
+      : await addPromptToCollectionAction(option.id, promptId)
+
+    if (result.success) {
+      toast.success(
+        option.containsPrompt ? `Removed from ${option.name}` : `Added to ${option.name}`
+      )
+    } else {
+      setCollections(previous)
+      toast.error(result.error || 'Failed to update collection')
+    }
+  }
+
+  const handleCreated = async (collectionId: string) => {
+    setIsCreating(false)
+    const result = await addPromptToCollectionAction(collectionId, promptId)
+
+    if (result.success) {
+      toast.success('Added to new collection')
+      setCollections(null)
+    } else if (result.error) {
+      toast.error(result.error)
+    }
+  }
+
+  return (
+    <>
+      {/* Keep clicks inside the menu from reaching a surrounding card link */}
+      <span
+        onClick={(e) => {
+          e.preventDefault()
+          e.stopPropagation()
+        }}
+      >
+        <DropdownMenu onOpenChange={(open) => open && loadCollections()}>
+          <DropdownMenuTrigger asChild>
+            {compact ? (
+              <Button variant="ghost" size="icon" aria-label="Add to collection">
+                <FolderPlus className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button variant="outline" className="gap-2">
+                <FolderPlus className="h-4 w-4" />
+                Save to collection
+              </Button>
+            )}
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuLabel>Add to collection</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {collections === null ? (
+              <DropdownMenuItem disabled>Loading...</DropdownMenuItem>
+            ) : collections.length === 0 ? (
+              <DropdownMenuItem disabled>No collections yet</DropdownMenuItem>
+            ) : (
+              collections.map((option) => (
+                <DropdownMenuCheckboxItem
+                  key={option.id}
+                  checked={option.containsPrompt}
+                  onSelect={(e) => e.preventDefault()}
+                  onCheckedChange={() => toggleCollection(option)}
+                >
+                  {option.name}
+                </DropdownMenuCheckboxItem>
+              ))
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => setIsCreating(true)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New collection
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </span>
+
+      {/* Rendered outside any card link so the form behaves normally */}
+      {isCreating &&
+        createPortal(
+          <div onClick={(e) => e.stopPropagation()}>
+            <CollectionFormDialog onClose={() => setIsCreating(false)} onSaved={handleCreated} />
+          </div>,
+          document.body
+        )}
+    </>
+  )
+}
@@ -0,0 +1,72 @@
+import Link from 'next/link'
+import { Lock, Building2, Globe, Users } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import type { CollectionVisibility } from '@/types/collection'
+import { cn } from '@/lib/utils/cn'
+
+// Serialized collection summary for client components
+export interface SerializedCollectionSummary {
+  _id: string
+  name: string
+  description: string
+  visibility: CollectionVisibility
+  ownerName: string
+  /** Whether the viewer owns the collection (otherwise they collaborate on it) */
+  isOwner: boolean
+  promptCount: number
+  collaboratorCount: number
+  updatedAt: string
+}
+
+export const VISIBILITY_ICONS = {
+  private: Lock,
+  org: Building2,
+  public: Globe,
+} as const
+
+interface CollectionCardProps {
+  collection: SerializedCollectionSummary
+  className?: string
+}
+
+export default function CollectionCard({ collection, className }: CollectionCardProps) {
+  const VisibilityIcon = VISIBILITY_ICONS[collection.visibility]
+
+  return (
+    <Link
+      href={`/collections/${collection._id}`}
+      className={cn(
+        'group block rounded-lg border border-border bg-white p-6 transition-all duration-200 hover:scale-[1.02] hover:shadow-lg',
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="mb-3 flex items-start justify-between gap-2">
+        <h3 className="line-clamp-2 text-xl font-semibold text-foreground group-hover:text-primary">
+          {collection.name}
+        </h3>
+        <VisibilityIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+      </div>
+
+      {/* Description */}
+      {collection.description && (
+        <p className="mb-4 line-clamp-3 text-sm text-muted-foreground">{collection.description}</p>
+      )}
+
+      {/* Footer */}
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        <span>
+          {collection.promptCount} {collection.promptCount === 1 ? 'prompt' : 'prompts'}
+        </span>
+        {collection.collaboratorCount > 0 && (
+          <span className="flex items-center gap-1">
+            <Users className="h-3 w-3" />
+            {collection.collaboratorCount}
+          </span>
+        )}
+        {!collection.isOwner && <span>Shared by {collection.ownerName}</span>}
+        <span>Updated {formatDistanceToNow(new Date(collection.updatedAt), { addSuffix: true })}</span>
+      </div>
+    </Link>
+  )
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { collectionSchema, CollectionFormData } from '@/lib/validations/collection'
+import { createCollectionAction, updateCollectionAction } from '@/app/actions/collection-actions'
+import { toast } from 'sonner'
+
+interface CollectionFormDialogProps {
+  /** Collection being edited; omit to create a new one */
+  collectionId?: string
+  defaultValues?: CollectionFormData
+  onClose: () => void
+  onSaved: (collectionId: string) => void
+}
+
+export const VISIBILITY_OPTIONS = [
+  { value: 'private', label: 'Private', description: 'Only you and collaborators' },
+  { value: 'org', label: 'Organization', description: 'Anyone signed in' },
+  { value: 'public', label: 'Public', description: 'Anyone with the link' },
+] as const
+
+export default function CollectionFormDialog({
+  collectionId,
+  defaultValues,
+  onClose,
+  onSaved,
+}: CollectionFormDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isEditMode = !!collectionId
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<CollectionFormData>({
+    resolver: zodResolver(collectionSchema),
+    defaultValues: defaultValues || {
+      name: '',
+      description: '',
+      visibility: 'private',
+    },
+  })
+
+  const onSubmit = async (data: CollectionFormData) => {
+    setIsSubmitting(true)
+    try {
+      if (isEditMode && collectionId) {
+        const result = await updateCollectionAction(collectionId, data)
+
+        if (result.success) {
+          toast.success('Collection updated')
+          onSaved(collectionId)
+        } else if (result.error) {
+          toast.error(result.error)
+        }
+      } else {
+        const result = await createCollectionAction(data)
+
+        if (result.success && result.collectionId) {
+          toast.success('Collection created')
+          onSaved(result.collectionId)
+        } else if (result.error) {
+          toast.error(result.error)
+        }
+      }
+    } catch {
+      toast.error(isEditMode ? 'Failed to update collection' : 'Failed to create collection')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <form
+        onSubmit={handleSubmit(onSubmit)}
+        className="w-full max-w-md space-y-4 rounded-lg bg-white p-6 shadow-lg"
+      >
+        <h2 className="text-xl font-semibold text-foreground">
+          {isEditMode ? 'Edit Collection' : 'New Collection'}
+        </h2>
+
+        {/* Name */}
+        <div>
+          <Label htmlFor="collection-name">
+            Name <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id="collection-name"
+            {...register('name')}
+            placeholder="e.g., Onboarding prompts"
+            className="mt-1.5"
+            autoFocus
+          />
+          {errors.name && <p className="mt-1 text-sm text-red-500">{errors.name.message}</p>}
+        </div>
+
+        {/* Description */}
+        <div>
+          <Label htmlFor="collection-description">Description</Label>
+          <Textarea
+            id="collection-description"
+            {...register('description')}
+            placeholder="What is this collection for?"
+            className="mt-1.5"
+            rows={3}
+          />
+          {errors.description && (
+            <p className="mt-1 text-sm text-red-500">{errors.description.message}</p>
+          )}
+        </div>
+
+        {/* Visibility */}
+        <div>
+          <Label>Visibility</Label>
+          <div className="mt-1.5 space-y-2">
+            {VISIBILITY_OPTIONS.map((option) => (
+              <label key={option.value} className="flex cursor-pointer items-start gap-2 text-sm">
+                <input
+                  type="radio"
+                  value={option.value}
+                  {...register('visibility')}
+                  className="mt-0.5 h-4 w-4 text-primary focus:ring-2 focus:ring-primary"
+                />
+                <span>
+                  <span className="font-medium text-foreground">{option.label}</span>
+                  <span className="ml-2 text-muted-foreground">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          {errors.visibility && (
+            <p className="mt-1 text-sm text-red-500">{errors.visibility.message}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Saving...' : isEditMode ? 'Save' : 'Create'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,354 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { formatDistanceToNow } from 'date-fns'
+import { ArrowUp, ArrowDown, X, Edit, Trash2, Link2, UserPlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import PromptCard from '@/components/prompts/prompt-card'
+import {
+  reorderCollectionAction,
+  removePromptFromCollectionAction,
+  deleteCollectionAction,
+  addCollaboratorAction,
+  removeCollaboratorAction,
+} from '@/app/actions/collection-actions'
+import { Category } from '@/lib/constants'
+import type { CollectionVisibility } from '@/types/collection'
+import { toast } from 'sonner'
+import CollectionFormDialog, { VISIBILITY_OPTIONS } from './collection-form-dialog'
+import { VISIBILITY_ICONS } from './collection-card'
+
+// Serialized versions for Client Component
+interface SerializedCollaborator {
+  userId: string
+  name: string
+  email: string
+}
+
+interface SerializedCollection {
+  _id: string
+  name: string
+  description: string
+  visibility: CollectionVisibility
+  ownerName: string
+  collaborators: SerializedCollaborator[]
+  createdAt: string
+  updatedAt: string
+}
+
+interface SerializedPrompt {
+  _id: string
+  title: string
+  description: string
+  promptContent: string
+  category: Category
+  tags: string[]
+  outputFormat: 'markdown' | 'json'
+  authorId: string
+  authorName: string
+  isPublic: boolean
+  parentPromptId: string | null
+  forkCount: number
+  viewCount: number
+  starCount: number
+  starredBy: string[]
+  versionNumber: number
+  createdAt: string
+  updatedAt: string
+}
+
+interface CollectionViewProps {
+  collection: SerializedCollection
+  prompts: SerializedPrompt[]
+  /** Prompts in the collection the viewer is not allowed to see */
+  hiddenCount: number
+  /** Whether the viewer may add, remove and reorder prompts */
+  canEdit: boolean
+  /** Whether the viewer may change settings and collaborators */
+  canManage: boolean
+  isSignedIn: boolean
+}
+
+export default function CollectionView({
+  collection,
+  prompts: initialPrompts,
+  hiddenCount,
+  canEdit,
+  canManage,
+  isSignedIn,
+}: CollectionViewProps) {
+  const router = useRouter()
+  const [prompts, setPrompts] = useState(initialPrompts)
+  const [collaborators, setCollaborators] = useState(collection.collaborators)
+  const [collaboratorEmail, setCollaboratorEmail] = useState('')
+  const [isEditing, setIsEditing] = useState(false)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const visibility = VISIBILITY_OPTIONS.find((option) => option.value === collection.visibility)!
+  const VisibilityIcon = VISIBILITY_ICONS[collection.visibility]
+  // Reordering sends the full list, which is impossible with hidden prompts
+  const canReorder = hiddenCount === 0
+
+  const movePrompt = async (index: number, offset: -1 | 1) => {
+    const previous = prompts
+    const reordered = [...prompts]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(index + offset, 0, moved)
+    setPrompts(reordered)
+
+    const result = await reorderCollectionAction(
+      collection._id,
+      reordered.map((prompt) => prompt._id)
+    )
+    if (!result.success) {
+      setPrompts(previous)
+      toast.error(result.error || 'Failed to reorder collection')
+    }
+  }
+
+  const removePrompt = async (promptId: string) => {
+    const previous = prompts
+    setPrompts(prompts.filter((prompt) => prompt._id !== promptId))
+
+    const result = await removePromptFromCollectionAction(collection._id, promptId)
+    if (!result.success) {
+      setPrompts(previous)
+      toast.error(result.error || 'Failed to remove prompt')
+    }
+  }
+
+  const addCollaborator = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!collaboratorEmail.trim()) return
+
+    setIsBusy(true)
+    const result = await addCollaboratorAction(collection._id, collaboratorEmail)
+    setIsBusy(false)
+
+    if (result.success && result.collaborator) {
+      const added = result.collaborator
+      setCollaborators((current) =>
+        current.some((c) => c.userId === added.userId) ? current : [...current, added]
+      )
+      setCollaboratorEmail('')
+      toast.success(`${added.name} can now edit this collection`)
+    } else if (result.error) {
+      toast.error(result.error)
+    }
+  }
+
+  const removeCollaborator = async (userId: string) => {
+    const previous = collaborators
+    setCollaborators(collaborators.filter((c) => c.userId !== userId))
+
+    const result = await removeCollaboratorAction(collection._id, userId)
+    if (!result.success) {
+      setCollaborators(previous)
+      toast.error(result.error || 'Failed to remove collaborator')
+    }
+  }
+
+  const deleteCollection = async () => {
+    if (!window.confirm(`Delete "${collection.name}"? The prompts in it are not deleted.`)) return
+
+    setIsBusy(true)
+    const result = await deleteCollectionAction(collection._id)
+
+    if (result.success) {
+      toast.success('Collection deleted')
+      router.push('/library')
+    } else {
+      setIsBusy(false)
+      toast.error(result.error || 'Failed to delete collection')
+    }
+  }
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast.success('Link copied')
+    } catch {
+      toast.error('Failed to copy')
+    }
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Back link and Actions */}
+      <div className="mb-6 flex items-center justify-between">
+        {isSignedIn ? (
+          <Link href="/library" className="text-sm text-muted-foreground hover:text-foreground">
+            ← Back to library
+          </Link>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          <Button variant="outline" className="gap-2" onClick={copyLink}>
+            <Link2 className="h-4 w-4" />
+            Copy link
+          </Button>
+          {canManage && (
+            <>
+              <Button variant="outline" className="gap-2" onClick={() => setIsEditing(true)}>
+                <Edit className="h-4 w-4" />
+                Edit
+              </Button>
+              <Button
+                variant="outline"
+                className="gap-2 text-red-600 hover:bg-red-50 hover:text-red-700"
+                onClick={deleteCollection}
+                disabled={isBusy}
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="mb-2 text-4xl font-bold">{collection.name}</h1>
+        {collection.description && (
+          <p className="mb-3 text-lg text-muted-foreground">{collection.description}</p>
+        )}
+        <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <VisibilityIcon className="h-4 w-4" />
+            {visibility.label}
+          </span>
+          <span>•</span>
+          <span>Curated by {collection.ownerName}</span>
+          <span>•</span>
+          <span>
+            Updated {formatDistanceToNow(new Date(collection.updatedAt), { addSuffix: true })}
+          </span>
+        </div>
+      </div>
+
+      {/* Collaborators */}
+      {canEdit && (
+        <div className="mb-8 rounded-lg border border-border bg-white p-4">
+          <h2 className="mb-3 text-lg font-semibold">Collaborators</h2>
+          {collaborators.length === 0 ? (
+            <p className="mb-3 text-sm text-muted-foreground">
+              Only {collection.ownerName} can change this collection.
+            </p>
+          ) : (
+            <ul className="mb-3 space-y-2">
+              {collaborators.map((collaborator) => (
+                <li key={collaborator.userId} className="flex items-center justify-between text-sm">
+                  <span>
+                    {collaborator.name}
+                    <span className="ml-2 text-muted-foreground">{collaborator.email}</span>
+                  </span>
+                  {canManage && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeCollaborator(collaborator.userId)}
+                      aria-label={`Remove ${collaborator.name}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {canManage && (
+            <form onSubmit={addCollaborator} className="flex gap-2">
+              <Input
+                type="email"
+                value={collaboratorEmail}
+                onChange={(e) => setCollaboratorEmail(e.target.value)}
+                placeholder="colleague@example.com"
+              />
+              <Button type="submit" variant="outline" className="gap-2" disabled={isBusy}>
+                <UserPlus className="h-4 w-4" />
+                Add
+              </Button>
+            </form>
+          )}
+        </div>
+      )}
+
+      {/* Prompts */}
+      {prompts.length === 0 ? (
+        <div className="py-12 text-center">
+          <h3 className="mb-2 text-lg font-semibold text-foreground">No prompts yet</h3>
+          <p className="text-sm text-muted-foreground">
+            {canEdit
+              ? 'Use "Save to collection" on any prompt to add it here'
+              : 'This collection is empty'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {prompts.map((prompt, index) => (
+            <div key={prompt._id} className="flex flex-col gap-2">
+              <PromptCard prompt={prompt} showCollectionMenu={isSignedIn} className="flex-1" />
+              {canEdit && (
+                <div className="flex justify-end gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => movePrompt(index, -1)}
+                    disabled={!canReorder || index === 0}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => movePrompt(index, 1)}
+                    disabled={!canReorder || index === prompts.length - 1}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removePrompt(prompt._id)}
+                    aria-label="Remove from collection"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hiddenCount > 0 && (
+        <p className="mt-6 text-sm text-muted-foreground">
+          {hiddenCount} private {hiddenCount === 1 ? 'prompt is' : 'prompts are'} not shown.
+        </p>
+      )}
+
+      {isEditing && (
+        <CollectionFormDialog
+          collectionId={collection._id}
+          defaultValues={{
+            name: collection.name,
+            description: collection.description,
+            visibility: collection.visibility,
+          }}
+          onClose={() => setIsEditing(false)}
+          onSaved={() => {
+            setIsEditing(false)
+            router.refresh()
+          }}
+        />
+      )}
+    </div>
+  )
+}
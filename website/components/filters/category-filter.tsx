@@ -22,6 +22,9 @@ export default function CategoryFilter({ selectedCategory }: CategoryFilterProps
       params.delete('category')
     }
 
+    // New filters start again from the first page
+    params.delete('page')
+    params.delete('cursor')
     router.push(`/?${params.toString()}`)
   }
 
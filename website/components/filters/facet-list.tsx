@@ -0,0 +1,140 @@
+'use client'
+
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Check } from 'lucide-react'
+import { clearFacetParams, toggleFacetParam, type FacetParam } from '@/lib/utils/facets'
+import type { FacetCount, PromptFacets } from '@/types/prompt'
+
+interface FacetListProps {
+  facets: PromptFacets
+  /** Facet values currently in the URL */
+  selected: {
+    category?: string
+    tags: string[]
+    format?: string
+    author?: string
+    created?: string
+  }
+}
+
+const FORMAT_LABELS: Record<string, string> = {
+  markdown: 'Markdown',
+  json: 'JSON',
+}
+
+export default function FacetList({ facets, selected }: FacetListProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const hasSelection =
+    !!selected.category ||
+    selected.tags.length > 0 ||
+    !!selected.format ||
+    !!selected.author ||
+    !!selected.created
+
+  const toggle = (param: FacetParam, value: string) => {
+    router.push(`/?${toggleFacetParam(searchParams, param, value)}`)
+  }
+
+  const groups: {
+    title: string
+    param: FacetParam
+    counts: FacetCount[]
+    isSelected: (value: string) => boolean
+    format?: (count: FacetCount) => string
+  }[] = [
+    {
+      title: 'Category',
+      param: 'category',
+      counts: facets.categories,
+      isSelected: (value) => selected.category === value,
+    },
+    {
+      title: 'Tags',
+      param: 'tags',
+      counts: facets.tags,
+      isSelected: (value) => selected.tags.includes(value),
+      format: (count) => `#${count.value}`,
+    },
+    {
+      title: 'Output format',
+      param: 'format',
+      counts: facets.outputFormats,
+      isSelected: (value) => selected.format === value,
+      format: (count) => FORMAT_LABELS[count.value] || count.value,
+    },
+    {
+      title: 'Author',
+      param: 'author',
+      counts: facets.authors,
+      isSelected: (value) => selected.author === value,
+    },
+    {
+      title: 'Created',
+      param: 'created',
+      counts: facets.dateBuckets,
+      isSelected: (value) => selected.created === value,
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-foreground">Filter results</h2>
+        {hasSelection && (
+          <button
+            type="button"
+            onClick={() => router.push(`/?${clearFacetParams(searchParams)}`)}
+            className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {groups.map((group) => (
+        <div key={group.param}>
+          <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            {group.title}
+          </h3>
+          {group.counts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No matches</p>
+          ) : (
+            <ul className="space-y-1">
+              {group.counts.map((count) => {
+                const isSelected = group.isSelected(count.value)
+                // Empty buckets can't narrow the results, but a selected one can still be cleared
+                const isDisabled = count.count === 0 && !isSelected
+
+                return (
+                  <li key={count.value}>
+                    <button
+                      type="button"
+                      onClick={() => toggle(group.param, count.value)}
+                      disabled={isDisabled}
+                      aria-pressed={isSelected}
+                      className={`flex w-full items-center justify-between gap-2 rounded-md px-2 py-1 text-left text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                        isSelected
+                          ? 'bg-primary/10 font-medium text-primary'
+                          : 'text-foreground hover:bg-muted'
+                      }`}
+                    >
+                      <span className="flex min-w-0 items-center gap-2">
+                        {isSelected && <Check className="h-3 w-3 shrink-0" />}
+                        <span className="truncate">
+                          {group.format ? group.format(count) : count.label || count.value}
+                        </span>
+                      </span>
+                      <span className="shrink-0 text-xs text-muted-foreground">{count.count}</span>
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
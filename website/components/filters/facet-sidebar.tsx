@@ -0,0 +1,25 @@
+import FacetList from './facet-list'
+import { getPromptFacets } from '@/lib/db/models/prompt'
+import { toPromptFilters } from '@/lib/utils/facets'
+import type { PromptListFilters } from '@/lib/validations/prompt'
+
+interface FacetSidebarProps {
+  query: PromptListFilters
+}
+
+export default async function FacetSidebar({ query }: FacetSidebarProps) {
+  const facets = await getPromptFacets(toPromptFilters(query))
+
+  return (
+    <FacetList
+      facets={facets}
+      selected={{
+        category: query.category,
+        tags: query.tags,
+        format: query.outputFormat,
+        author: query.authorId,
+        created: query.created,
+      }}
+    />
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { useState } from 'react'
+import { Bookmark } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { saveSearchAction } from '@/app/actions/search-actions'
+import type { PromptListFilters } from '@/lib/validations/prompt'
+import { toast } from 'sonner'
+
+interface SaveSearchButtonProps {
+  /** Current browse query: search text, filters and sort */
+  filters: PromptListFilters
+}
+
+export default function SaveSearchButton({ filters }: SaveSearchButtonProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const open = () => {
+    setName(filters.search || filters.category || filters.tags.join(', ') || '')
+    setIsOpen(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    try {
+      const result = await saveSearchAction({ name, filters })
+
+      if (result.success) {
+        toast.success('Search saved to your library')
+        setIsOpen(false)
+      } else if (result.error) {
+        toast.error(result.error)
+      }
+    } catch {
+      toast.error('Failed to save search')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <Button type="button" variant="outline" className="gap-2" onClick={open}>
+        <Bookmark className="h-4 w-4" />
+        Save search
+      </Button>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <form
+            onSubmit={handleSubmit}
+            className="w-full max-w-md space-y-4 rounded-lg bg-white p-6 shadow-lg"
+          >
+            <h2 className="text-xl font-semibold text-foreground">Save Search</h2>
+            <p className="text-sm text-muted-foreground">
+              Keeps the search text, filters and sort so you can run it again from your library.
+            </p>
+
+            <div>
+              <Label htmlFor="saved-search-name">
+                Name <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Popular SQL prompts"
+                maxLength={60}
+                className="mt-1.5"
+                autoFocus
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !name.trim()}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  )
+}
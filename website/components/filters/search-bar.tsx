@@ -3,19 +3,67 @@
 import { useEffect, useState } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useDebouncedCallback } from 'use-debounce'
-import { Search } from 'lucide-react'
+import {
+  AlertCircle,
+  Bookmark,
+  FileText,
+  History,
+  LayoutGrid,
+  Search,
+  Tag,
+  User,
+  type LucideIcon,
+} from 'lucide-react'
 import { Input } from '@/components/ui/input'
+import { parseSearchQuery, QuerySyntaxError } from '@/lib/search/query-parser'
+import { clearRecentSearchesAction, recordRecentSearchAction } from '@/app/actions/search-actions'
+import type { SearchSuggestion, SearchSuggestionType } from '@/types/search'
+
+const SUGGESTION_ICONS: Record<SearchSuggestionType, LucideIcon> = {
+  title: FileText,
+  tag: Tag,
+  author: User,
+  category: LayoutGrid,
+  recent: History,
+  saved: Bookmark,
+}
 
 interface SearchBarProps {
   defaultValue?: string
+  /** Syntax error in the query from the URL, reported by the server */
+  error?: string | null
+}
+
+/**
+ * Returns the syntax error in a query, or null if it parses
+ */
+function getSyntaxError(query: string): string | null {
+  try {
+    parseSearchQuery(query)
+    return null
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return error.message
+    }
+    throw error
+  }
 }
 
-export default function SearchBar({ defaultValue = '' }: SearchBarProps) {
+export default function SearchBar({ defaultValue = '', error = null }: SearchBarProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
   const [value, setValue] = useState(defaultValue)
+  const [syntaxError, setSyntaxError] = useState(error)
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(-1)
 
   const handleSearch = useDebouncedCallback((searchValue: string) => {
+    // Keep the current results until the query can be run
+    const queryError = getSyntaxError(searchValue)
+    setSyntaxError(queryError)
+    if (queryError) return
+
     const params = new URLSearchParams(searchParams.toString())
 
     if (searchValue) {
@@ -24,26 +72,167 @@ export default function SearchBar({ defaultValue = '' }: SearchBarProps) {
       params.delete('q')
     }
 
+    // New filters start again from the first page
+    params.delete('page')
+    params.delete('cursor')
     router.push(`/?${params.toString()}`)
   }, 300)
 
+  const fetchSuggestions = useDebouncedCallback(async (query: string) => {
+    try {
+      const response = await fetch(`/api/search/suggestions?q=${encodeURIComponent(query)}`)
+      if (!response.ok) return
+
+      const data: { suggestions: SearchSuggestion[] } = await response.json()
+      setSuggestions(data.suggestions)
+      setHighlighted(-1)
+    } catch {
+      // Suggestions are optional; searching still works without them
+      setSuggestions([])
+    }
+  }, 150)
+
+  // Run a search right away and remember it in the user's recent searches
+  const submitSearch = (searchValue: string) => {
+    handleSearch(searchValue)
+    handleSearch.flush()
+    setIsOpen(false)
+
+    const query = searchValue.trim()
+    if (query && !getSyntaxError(query)) {
+      recordRecentSearchAction(query).catch(() => {})
+    }
+  }
+
+  const chooseSuggestion = (suggestion: SearchSuggestion) => {
+    if (suggestion.href) {
+      setIsOpen(false)
+      router.push(suggestion.href)
+    } else if (suggestion.query !== undefined) {
+      setValue(suggestion.query)
+      submitSearch(suggestion.query)
+    }
+  }
+
+  const clearRecent = async () => {
+    const result = await clearRecentSearchesAction()
+    if (result.success) {
+      setSuggestions((current) => current.filter((suggestion) => suggestion.type !== 'recent'))
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const hasSuggestions = isOpen && suggestions.length > 0
+
+    if (e.key === 'ArrowDown' && hasSuggestions) {
+      e.preventDefault()
+      setHighlighted((index) => (index + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp' && hasSuggestions) {
+      e.preventDefault()
+      setHighlighted((index) => (index <= 0 ? suggestions.length - 1 : index - 1))
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      if (hasSuggestions && highlighted >= 0) {
+        chooseSuggestion(suggestions[highlighted])
+      } else {
+        submitSearch(value)
+      }
+    } else if (e.key === 'Escape') {
+      setIsOpen(false)
+    }
+  }
+
+  const showSuggestions = isOpen && suggestions.length > 0
+  const hasRecent = suggestions.some((suggestion) => suggestion.type === 'recent')
+
   useEffect(() => {
     setValue(defaultValue)
   }, [defaultValue])
 
+  useEffect(() => {
+    setSyntaxError(error)
+  }, [error])
+
   return (
-    <div className="relative">
-      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-      <Input
-        type="search"
-        placeholder="Search prompts..."
-        value={value}
-        onChange={(e) => {
-          setValue(e.target.value)
-          handleSearch(e.target.value)
-        }}
-        className="pl-10"
-      />
+    <div>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          placeholder='Search prompts... (try tag:sql stars:>10 "exact phrase")'
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value)
+            handleSearch(e.target.value)
+            setIsOpen(true)
+            fetchSuggestions(e.target.value)
+          }}
+          onFocus={() => {
+            setIsOpen(true)
+            fetchSuggestions(value)
+          }}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          className={`pl-10 ${syntaxError ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-controls="search-suggestions"
+          aria-activedescendant={highlighted >= 0 ? `search-suggestion-${highlighted}` : undefined}
+          aria-invalid={!!syntaxError}
+          aria-describedby={syntaxError ? 'search-error' : undefined}
+        />
+        {showSuggestions && (
+          <div className="absolute left-0 top-full z-20 mt-1 w-full rounded-md border border-border bg-white py-1 shadow-lg">
+            <ul id="search-suggestions" role="listbox">
+              {suggestions.map((suggestion, index) => {
+                const Icon = SUGGESTION_ICONS[suggestion.type]
+
+                return (
+                  <li
+                    key={`${suggestion.type}-${suggestion.label}`}
+                    id={`search-suggestion-${index}`}
+                    role="option"
+                    aria-selected={index === highlighted}
+                    // Keep focus in the input so the click registers before blur closes the list
+                    onMouseDown={(e) => {
+                      e.preventDefault()
+                      chooseSuggestion(suggestion)
+                    }}
+                    className={`flex cursor-pointer items-center gap-2 px-3 py-1.5 text-sm ${
+                      index === highlighted ? 'bg-primary/10 text-primary' : 'text-foreground hover:bg-muted'
+                    }`}
+                  >
+                    <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{suggestion.label}</span>
+                    {suggestion.count !== undefined && (
+                      <span className="ml-auto text-xs text-muted-foreground">{suggestion.count}</span>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+            {hasRecent && (
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  clearRecent()
+                }}
+                className="w-full border-t border-border px-3 pt-1.5 text-left text-xs text-muted-foreground hover:text-foreground"
+              >
+                Clear recent searches
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {syntaxError && (
+        <p id="search-error" className="mt-1 flex items-center gap-1 text-sm text-red-500">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          {syntaxError}
+        </p>
+      )}
     </div>
   )
 }
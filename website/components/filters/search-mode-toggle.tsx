@@ -0,0 +1,53 @@
+'use client'
+
+import { useRouter, useSearchParams } from 'next/navigation'
+
+interface SearchModeToggleProps {
+  mode: 'keyword' | 'semantic'
+}
+
+const MODES = [
+  { value: 'keyword', label: 'Keyword', title: 'Match the words you typed' },
+  { value: 'semantic', label: 'Semantic', title: 'Also find prompts that describe the same task in other words' },
+] as const
+
+export default function SearchModeToggle({ mode }: SearchModeToggleProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const handleModeChange = (nextMode: 'keyword' | 'semantic') => {
+    const params = new URLSearchParams(searchParams.toString())
+
+    if (nextMode === 'semantic') {
+      params.set('mode', 'semantic')
+    } else {
+      params.delete('mode')
+    }
+
+    // New ranking starts again from the first page
+    params.delete('page')
+    params.delete('cursor')
+    router.push(`/?${params.toString()}`)
+  }
+
+  return (
+    <div className="flex h-10 shrink-0 overflow-hidden rounded-md border border-border" role="group" aria-label="Search mode">
+      {MODES.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          title={option.title}
+          aria-pressed={mode === option.value}
+          onClick={() => handleModeChange(option.value)}
+          className={`px-3 text-sm font-medium transition-colors ${
+            mode === option.value
+              ? 'bg-primary text-primary-foreground'
+              : 'bg-background text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
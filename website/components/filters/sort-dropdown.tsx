@@ -15,6 +15,9 @@ export default function SortDropdown({ selectedSort = 'newest' }: SortDropdownPr
   const handleSortChange = (sort: string) => {
     const params = new URLSearchParams(searchParams.toString())
     params.set('sort', sort)
+    // New filters start again from the first page
+    params.delete('page')
+    params.delete('cursor')
     router.push(`/?${params.toString()}`)
   }
 
@@ -0,0 +1,82 @@
+'use client'
+
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Tag, X } from 'lucide-react'
+
+interface TagFilterProps {
+  tags: string[]
+  tagMode: 'any' | 'all'
+}
+
+export default function TagFilter({ tags, tagMode }: TagFilterProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const updateParams = (nextTags: string[], nextMode: 'any' | 'all') => {
+    const params = new URLSearchParams(searchParams.toString())
+
+    if (nextTags.length > 0) {
+      params.set('tags', nextTags.join(','))
+    } else {
+      params.delete('tags')
+    }
+
+    if (nextMode === 'all') {
+      params.set('tagMode', 'all')
+    } else {
+      params.delete('tagMode')
+    }
+
+    // New filters start again from the first page
+    params.delete('page')
+    params.delete('cursor')
+    router.push(`/?${params.toString()}`)
+  }
+
+  return (
+    <div className="-mt-4 mb-8 flex flex-wrap items-center gap-2 text-sm">
+      <Tag className="h-4 w-4 text-muted-foreground" />
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 rounded-md bg-primary/10 px-2 py-1 font-medium text-primary"
+        >
+          #{tag}
+          <button
+            type="button"
+            onClick={() => updateParams(tags.filter((t) => t !== tag), tagMode)}
+            className="hover:text-primary/70"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      {tags.length > 1 && (
+        <div className="ml-2 flex overflow-hidden rounded-md border border-border">
+          {(['any', 'all'] as const).map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => updateParams(tags, mode)}
+              className={`px-2 py-1 text-xs font-medium transition-colors ${
+                tagMode === mode
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-background text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {mode === 'any' ? 'Any tag' : 'All tags'}
+            </button>
+          ))}
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() => updateParams([], 'any')}
+        className="ml-2 text-muted-foreground hover:text-foreground hover:underline"
+      >
+        Clear
+      </button>
+    </div>
+  )
+}
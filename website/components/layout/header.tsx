@@ -1,7 +1,7 @@
 'use client';
 
 import Link from 'next/link'
-import { Library, Home, Trophy, Plus } from 'lucide-react'
+import { Library, Home, Tags, Trophy, Plus } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { UserMenu } from './user-menu'
 
@@ -26,6 +26,13 @@ export default function Header() {
             <Home className="h-4 w-4" />
             Browse
           </Link>
+          <Link
+            href="/tags"
+            className="flex items-center gap-2 text-sm font-medium text-muted-foreground transition-colors hover:text-foreground"
+          >
+            <Tags className="h-4 w-4" />
+            Tags
+          </Link>
           <Link
             href="/leaderboard"
             className="flex items-center gap-2 text-sm font-medium text-muted-foreground transition-colors hover:text-foreground"
@@ -5,6 +5,7 @@ import Link from 'next/link'
 import { Trophy, Star, GitFork, Eye, Medal, Award } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import { Category } from '@/lib/constants'
+import type { LeaderboardPeriod } from '@/lib/validations/leaderboard'
 
 interface LeaderboardPrompt {
   _id: string
@@ -29,7 +30,7 @@ interface LeaderboardPrompt {
 
 interface LeaderboardViewProps {
   prompts: LeaderboardPrompt[]
-  currentPeriod: 'all' | 'month' | 'week'
+  currentPeriod: LeaderboardPeriod
 }
 
 export default function LeaderboardView({ prompts, currentPeriod }: LeaderboardViewProps) {
@@ -40,6 +41,7 @@ export default function LeaderboardView({ prompts, currentPeriod }: LeaderboardV
     { value: 'all', label: 'All Time' },
     { value: 'month', label: 'This Month' },
     { value: 'week', label: 'This Week' },
+    { value: 'trending', label: 'Trending' },
   ]
 
   const handlePeriodChange = (period: string) => {
@@ -1,9 +1,18 @@
 'use client'
 
 import { useState } from 'react'
-import { FileText, Star, FileEdit } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { FileText, Star, FileEdit, Folder, Plus, Trash2, Bookmark } from 'lucide-react'
+import { Button } from '@/components/ui/button'
 import PromptCard from '@/components/prompts/prompt-card'
+import CollectionCard, {
+  type SerializedCollectionSummary,
+} from '@/components/collections/collection-card'
+import CollectionFormDialog from '@/components/collections/collection-form-dialog'
+import TrashList, { type SerializedTrashedPrompt } from './trash-list'
+import SavedSearchList, { type SerializedSavedSearch } from './saved-search-list'
 import { Category } from '@/lib/constants'
+import type { PromptStatus } from '@/types/prompt'
 
 interface SerializedPrompt {
   _id: string
@@ -16,6 +25,7 @@ interface SerializedPrompt {
   authorId: string
   authorName: string
   isPublic: boolean
+  status?: PromptStatus
   parentPromptId: string | null
   forkCount: number
   viewCount: number
@@ -29,20 +39,38 @@ interface SerializedPrompt {
 interface LibraryTabsProps {
   myPrompts: SerializedPrompt[]
   starredPrompts: SerializedPrompt[]
+  collections: SerializedCollectionSummary[]
+  savedSearches: SerializedSavedSearch[]
+  trashedPrompts: SerializedTrashedPrompt[]
+  /** Days a deleted prompt stays in the trash */
+  retentionDays: number
 }
 
-type TabType = 'my-prompts' | 'starred' | 'drafts'
+type TabType = 'my-prompts' | 'starred' | 'drafts' | 'collections' | 'saved-searches' | 'trash'
 
-export default function LibraryTabs({ myPrompts, starredPrompts }: LibraryTabsProps) {
+export default function LibraryTabs({
+  myPrompts,
+  starredPrompts,
+  collections,
+  savedSearches,
+  trashedPrompts,
+  retentionDays,
+}: LibraryTabsProps) {
+  const router = useRouter()
   const [activeTab, setActiveTab] = useState<TabType>('my-prompts')
+  const [isCreatingCollection, setIsCreatingCollection] = useState(false)
+
+  // Drafts are unfinished work, separate from private (but published) prompts
+  const drafts = myPrompts.filter((p) => p.status === 'draft')
+  const authoredPrompts = myPrompts.filter((p) => p.status !== 'draft')
 
   const tabs = [
     {
       id: 'my-prompts' as TabType,
       label: 'My Prompts',
       icon: FileText,
-      count: myPrompts.length,
-      prompts: myPrompts,
+      count: authoredPrompts.length,
+      prompts: authoredPrompts,
     },
     {
       id: 'starred' as TabType,
@@ -55,8 +83,29 @@ export default function LibraryTabs({ myPrompts, starredPrompts }: LibraryTabsPr
       id: 'drafts' as TabType,
       label: 'Drafts',
       icon: FileEdit,
-      count: myPrompts.filter((p) => !p.isPublic).length,
-      prompts: myPrompts.filter((p) => !p.isPublic),
+      count: drafts.length,
+      prompts: drafts,
+    },
+    {
+      id: 'collections' as TabType,
+      label: 'Collections',
+      icon: Folder,
+      count: collections.length,
+      prompts: [],
+    },
+    {
+      id: 'saved-searches' as TabType,
+      label: 'Saved Searches',
+      icon: Bookmark,
+      count: savedSearches.length,
+      prompts: [],
+    },
+    {
+      id: 'trash' as TabType,
+      label: 'Trash',
+      icon: Trash2,
+      count: trashedPrompts.length,
+      prompts: [],
     },
   ]
 
@@ -98,7 +147,72 @@ export default function LibraryTabs({ myPrompts, starredPrompts }: LibraryTabsPr
 
       {/* Tab Content */}
       <div>
-        {currentTab.prompts.length === 0 ? (
+        {activeTab === 'collections' ? (
+          <div>
+            <div className="mb-6 flex justify-end">
+              <Button variant="outline" className="gap-2" onClick={() => setIsCreatingCollection(true)}>
+                <Plus className="h-4 w-4" />
+                New Collection
+              </Button>
+            </div>
+            {collections.length === 0 ? (
+              <div className="py-12 text-center">
+                <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+                  <Folder className="h-8 w-8 text-muted-foreground" />
+                </div>
+                <h3 className="mb-2 text-lg font-semibold text-foreground">No collections yet</h3>
+                <p className="text-sm text-muted-foreground">
+                  Group prompts into named collections to share them with your team
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {collections.map((collection) => (
+                  <CollectionCard key={collection._id} collection={collection} />
+                ))}
+              </div>
+            )}
+            {isCreatingCollection && (
+              <CollectionFormDialog
+                onClose={() => setIsCreatingCollection(false)}
+                onSaved={(collectionId) => router.push(`/collections/${collectionId}`)}
+              />
+            )}
+          </div>
+        ) : activeTab === 'saved-searches' ? (
+          savedSearches.length === 0 ? (
+            <div className="py-12 text-center">
+              <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+                <Bookmark className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="mb-2 text-lg font-semibold text-foreground">No saved searches yet</h3>
+              <p className="text-sm text-muted-foreground">
+                Search or filter prompts, then use Save search to run it again from here
+              </p>
+            </div>
+          ) : (
+            <SavedSearchList searches={savedSearches} />
+          )
+        ) : activeTab === 'trash' ? (
+          trashedPrompts.length === 0 ? (
+            <div className="py-12 text-center">
+              <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+                <Trash2 className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="mb-2 text-lg font-semibold text-foreground">Trash is empty</h3>
+              <p className="text-sm text-muted-foreground">
+                Deleted prompts stay here for {retentionDays} days before they are removed for good
+              </p>
+            </div>
+          ) : (
+            <div>
+              <p className="mb-4 text-sm text-muted-foreground">
+                Prompts in the trash are permanently deleted after {retentionDays} days
+              </p>
+              <TrashList prompts={trashedPrompts} />
+            </div>
+          )
+        ) : currentTab.prompts.length === 0 ? (
           <div className="py-12 text-center">
             <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
               <currentTab.icon className="h-8 w-8 text-muted-foreground" />
@@ -109,7 +223,7 @@ export default function LibraryTabs({ myPrompts, starredPrompts }: LibraryTabsPr
             <p className="text-sm text-muted-foreground">
               {activeTab === 'my-prompts' && 'Create your first prompt to get started'}
               {activeTab === 'starred' && 'Star prompts to save them here'}
-              {activeTab === 'drafts' && 'Private prompts will appear here'}
+              {activeTab === 'drafts' && 'Prompts you start but have not published will appear here'}
             </p>
           </div>
         ) : (
@@ -0,0 +1,96 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { Play, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { deleteSavedSearchAction } from '@/app/actions/search-actions'
+import { DATE_BUCKETS, getBrowseHref } from '@/lib/utils/facets'
+import { SORT_OPTIONS } from '@/lib/constants'
+import type { PromptListFilters } from '@/lib/validations/prompt'
+import { toast } from 'sonner'
+
+// Saved search as shown in the Saved Searches tab
+export interface SerializedSavedSearch {
+  _id: string
+  name: string
+  filters: PromptListFilters
+  createdAt: string
+}
+
+interface SavedSearchListProps {
+  searches: SerializedSavedSearch[]
+}
+
+/**
+ * Short description of what a saved search looks for
+ */
+function describeFilters(filters: PromptListFilters): string {
+  const parts: string[] = []
+  if (filters.search) parts.push(`"${filters.search}"${filters.mode === 'semantic' ? ' (semantic)' : ''}`)
+  if (filters.category) parts.push(filters.category)
+  if (filters.tags.length > 0) {
+    parts.push(filters.tags.map((tag) => `#${tag}`).join(filters.tagMode === 'all' ? ' + ' : ' or '))
+  }
+  if (filters.outputFormat) parts.push(filters.outputFormat.toUpperCase())
+  if (filters.created) parts.push(DATE_BUCKETS.find((bucket) => bucket.value === filters.created)!.label)
+  parts.push(SORT_OPTIONS.find((option) => option.value === filters.sort)?.label || 'Newest')
+  return parts.join(' · ')
+}
+
+export default function SavedSearchList({ searches }: SavedSearchListProps) {
+  const router = useRouter()
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const handleDelete = async (savedSearchId: string) => {
+    setDeletingId(savedSearchId)
+    try {
+      const result = await deleteSavedSearchAction(savedSearchId)
+
+      if (result.success) {
+        toast.success('Saved search deleted')
+        router.refresh()
+      } else if (result.error) {
+        toast.error(result.error)
+      }
+    } catch {
+      toast.error('Failed to delete saved search')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <ul className="divide-y divide-border rounded-lg border border-border bg-white">
+      {searches.map((search) => (
+        <li key={search._id} className="flex items-center justify-between gap-4 p-4">
+          <div className="min-w-0">
+            <h3 className="mb-1 truncate font-semibold text-foreground">{search.name}</h3>
+            <p className="mb-1 truncate text-sm text-muted-foreground">{describeFilters(search.filters)}</p>
+            <p className="text-xs text-muted-foreground">
+              Saved {formatDistanceToNow(new Date(search.createdAt), { addSuffix: true })}
+            </p>
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <Link href={getBrowseHref(search.filters)}>
+              <Button variant="outline" className="gap-2">
+                <Play className="h-4 w-4" />
+                Run
+              </Button>
+            </Link>
+            <Button
+              variant="outline"
+              onClick={() => handleDelete(search._id)}
+              disabled={deletingId !== null}
+              aria-label={`Delete saved search ${search.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
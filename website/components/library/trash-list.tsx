@@ -0,0 +1,78 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { restoreDeletedPromptAction } from '@/app/actions/prompt-actions'
+import { toast } from 'sonner'
+
+// Deleted prompt as shown in the Trash tab
+export interface SerializedTrashedPrompt {
+  _id: string
+  title: string
+  description: string
+  category: string
+  deletedAt: string
+  /** When the purge job will remove the prompt for good */
+  purgeAt: string
+}
+
+interface TrashListProps {
+  prompts: SerializedTrashedPrompt[]
+}
+
+export default function TrashList({ prompts }: TrashListProps) {
+  const router = useRouter()
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const handleRestore = async (promptId: string) => {
+    setRestoringId(promptId)
+    try {
+      const result = await restoreDeletedPromptAction(promptId)
+
+      if (result.success) {
+        toast.success('Prompt restored')
+        router.refresh()
+      } else if (result.error) {
+        toast.error(result.error)
+      }
+    } catch {
+      toast.error('Failed to restore prompt')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <ul className="divide-y divide-border rounded-lg border border-border bg-white">
+      {prompts.map((prompt) => (
+        <li key={prompt._id} className="flex items-center justify-between gap-4 p-4">
+          <div className="min-w-0">
+            <div className="mb-1 flex items-center gap-2">
+              <h3 className="truncate font-semibold text-foreground">{prompt.title}</h3>
+              <span className="shrink-0 rounded-full bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary">
+                {prompt.category}
+              </span>
+            </div>
+            <p className="mb-1 line-clamp-1 text-sm text-muted-foreground">{prompt.description}</p>
+            <p className="text-xs text-muted-foreground">
+              Deleted {formatDistanceToNow(new Date(prompt.deletedAt), { addSuffix: true })} ·
+              permanently deleted on {new Date(prompt.purgeAt).toLocaleDateString()}
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            className="shrink-0 gap-2"
+            onClick={() => handleRestore(prompt._id)}
+            disabled={restoringId !== null}
+          >
+            <RotateCcw className="h-4 w-4" />
+            {restoringId === prompt._id ? 'Restoring...' : 'Restore'}
+          </Button>
+        </li>
+      ))}
+    </ul>
+  )
+}
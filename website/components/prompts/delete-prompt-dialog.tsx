@@ -9,11 +9,14 @@ import { toast } from 'sonner'
 interface DeletePromptDialogProps {
   promptId: string
   promptTitle: string
+  /** Days the prompt can be restored from the trash */
+  retentionDays: number
 }
 
 export default function DeletePromptDialog({
   promptId,
   promptTitle,
+  retentionDays,
 }: DeletePromptDialogProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
@@ -24,9 +27,9 @@ export default function DeletePromptDialog({
       const result = await deletePromptAction(promptId)
 
       if (result.success) {
-        toast.success('Prompt deleted successfully')
-        // Redirect to home page
-        window.location.href = '/'
+        toast.success('Prompt moved to trash')
+        // Redirect to the library, where it can be restored from the trash
+        window.location.href = '/library'
       } else if (result.error) {
         toast.error(result.error)
         setIsDeleting(false)
@@ -54,12 +57,12 @@ export default function DeletePromptDialog({
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
       <div className="w-full max-w-md rounded-lg bg-white p-6 shadow-lg">
         <h2 className="mb-2 text-xl font-semibold text-foreground">
-          Delete Prompt?
+          Move to Trash?
         </h2>
         <p className="mb-4 text-sm text-muted-foreground">
           Are you sure you want to delete{' '}
           <span className="font-medium text-foreground">&quot;{promptTitle}&quot;</span>?
-          This action cannot be undone.
+          You can restore it from the Trash tab in your library for {retentionDays} days.
         </p>
         <div className="flex justify-end gap-3">
           <Button
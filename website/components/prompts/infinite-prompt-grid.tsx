@@ -0,0 +1,114 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import PromptCard from './prompt-card'
+import { loadMorePromptsAction } from '@/app/actions/prompt-actions'
+import { getBrowseHref } from '@/lib/utils/facets'
+import type { PromptListFilters } from '@/lib/validations/prompt'
+import { toast } from 'sonner'
+
+type SerializedPrompt = React.ComponentProps<typeof PromptCard>['prompt'] & { _id: string }
+
+interface InfinitePromptGridProps {
+  /** Prompts rendered on the server (one page per `initialPage`) */
+  initialPrompts: SerializedPrompt[]
+  initialCursor: string | null
+  initialPage: number
+  /** Prompts matching the filters across all pages */
+  total: number
+  filters: PromptListFilters
+  /** Cursor the listing started from, if it was opened mid-way */
+  startCursor?: string
+}
+
+export default function InfinitePromptGrid({
+  initialPrompts,
+  initialCursor,
+  initialPage,
+  total,
+  filters,
+  startCursor,
+}: InfinitePromptGridProps) {
+  const [prompts, setPrompts] = useState(initialPrompts)
+  const [cursor, setCursor] = useState(initialCursor)
+  const [page, setPage] = useState(initialPage)
+  const [isLoading, setIsLoading] = useState(false)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  const loadMore = useCallback(async () => {
+    if (!cursor || isLoading) return
+
+    setIsLoading(true)
+    try {
+      const result = await loadMorePromptsAction(filters, cursor)
+
+      if (result.success && result.prompts) {
+        const nextPage = page + 1
+        setPrompts((current) => [...current, ...result.prompts])
+        setCursor(result.nextCursor ?? null)
+        setPage(nextPage)
+
+        // Record progress in the URL so back-navigation renders the same pages
+        const params = new URLSearchParams(window.location.search)
+        params.set('page', String(nextPage))
+        window.history.replaceState(null, '', `?${params.toString()}`)
+      } else if (result.error) {
+        toast.error(result.error)
+      }
+    } catch {
+      toast.error('Failed to load more prompts')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [cursor, filters, isLoading, page])
+
+  // Load the next page as the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !cursor) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          loadMore()
+        }
+      },
+      { rootMargin: '400px' }
+    )
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [cursor, loadMore])
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2 xl:grid-cols-3">
+        {prompts.map((prompt) => (
+          <PromptCard key={prompt._id} prompt={prompt} />
+        ))}
+      </div>
+
+      <div ref={sentinelRef} className="mt-8 flex flex-col items-center gap-3 text-sm text-muted-foreground">
+        <span>
+          {startCursor
+            ? `Showing ${prompts.length} more of ${total} prompts`
+            : `Showing ${prompts.length} of ${total} prompts`}
+        </span>
+        {cursor && (
+          <Button variant="outline" className="gap-2" onClick={loadMore} disabled={isLoading}>
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+            {isLoading ? 'Loading...' : 'Load more'}
+          </Button>
+        )}
+        {startCursor && (
+          <Link href={getBrowseHref(filters)} className="font-medium text-foreground hover:underline">
+            Back to the start
+          </Link>
+        )}
+      </div>
+    </div>
+  )
+}
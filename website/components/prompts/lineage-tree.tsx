@@ -0,0 +1,109 @@
+import Link from 'next/link'
+import { Star, GitFork, Lock } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { cn } from '@/lib/utils/cn'
+import type { PromptLineageNode } from '@/types/prompt'
+
+interface LineageNodeCardProps {
+  node: PromptLineageNode
+  isCurrent?: boolean
+}
+
+function LineageNodeCard({ node, isCurrent = false }: LineageNodeCardProps) {
+  if (node.redacted) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border border-dashed border-border bg-muted/40 px-4 py-3 text-sm text-muted-foreground">
+        <Lock className="h-4 w-4" />
+        <span>Private prompt</span>
+        <span>•</span>
+        <span>{formatDistanceToNow(new Date(node.createdAt), { addSuffix: true })}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border bg-white px-4 py-3',
+        isCurrent ? 'border-primary ring-1 ring-primary' : 'border-border'
+      )}
+    >
+      {isCurrent ? (
+        <span className="font-semibold text-foreground">{node.title}</span>
+      ) : (
+        <Link
+          href={`/prompts/${node.id}`}
+          className="font-semibold text-foreground hover:text-primary hover:underline"
+        >
+          {node.title}
+        </Link>
+      )}
+      <div className="mt-1 flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+        <span>By {node.authorName}</span>
+        <span>•</span>
+        <span>{formatDistanceToNow(new Date(node.createdAt), { addSuffix: true })}</span>
+        <span className="flex items-center gap-1">
+          <Star className="h-4 w-4" />
+          {node.starCount}
+        </span>
+        <span className="flex items-center gap-1">
+          <GitFork className="h-4 w-4" />
+          {node.forkCount}
+        </span>
+      </div>
+    </div>
+  )
+}
+
+function LineageBranch({ node, isCurrent = false }: LineageNodeCardProps) {
+  return (
+    <li>
+      <LineageNodeCard node={node} isCurrent={isCurrent} />
+      {node.children.length > 0 && (
+        <ul className="ml-4 mt-2 space-y-2 border-l border-border pl-4">
+          {node.children.map((child) => (
+            <LineageBranch key={child.id} node={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+interface LineageTreeProps {
+  ancestors: PromptLineageNode[]
+  tree: PromptLineageNode
+}
+
+export default function LineageTree({ ancestors, tree }: LineageTreeProps) {
+  return (
+    <div className="space-y-8">
+      {/* Ancestors */}
+      <section>
+        <h2 className="mb-3 text-lg font-semibold">Derived from</h2>
+        {ancestors.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This is an original prompt.</p>
+        ) : (
+          <ol className="space-y-2">
+            {ancestors.map((ancestor, index) => (
+              <li key={ancestor.id} style={{ marginLeft: `${index}rem` }}>
+                <LineageNodeCard node={ancestor} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
+      {/* Descendants */}
+      <section>
+        <h2 className="mb-3 text-lg font-semibold">Forks</h2>
+        <ul>
+          <LineageBranch node={tree} isCurrent />
+        </ul>
+        {tree.children.length === 0 && (
+          <p className="mt-3 text-sm text-muted-foreground">No one has forked this prompt yet.</p>
+        )}
+      </section>
+    </div>
+  )
+}
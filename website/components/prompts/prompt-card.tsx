@@ -5,25 +5,32 @@ import type { Prompt } from '@/types/prompt'
 import type { Category } from '@/lib/constants'
 
 // Serialized version for client components
-type SerializedPrompt = Omit<Prompt, '_id' | 'authorId' | 'parentPromptId' | 'starredBy' | 'createdAt' | 'updatedAt'> & {
+type SerializedPrompt = Omit<Prompt, '_id' | 'authorId' | 'replacementPromptId' | 'parentPromptId' | 'starredBy' | 'createdAt' | 'updatedAt'> & {
   _id: string
   authorId: string
+  replacementPromptId?: string | null
   parentPromptId: string | null
   starredBy: string[]
   createdAt: string
   updatedAt: string
 }
 import { cn } from '@/lib/utils/cn'
+import AddToCollectionMenu from '@/components/collections/add-to-collection-menu'
+import TagChip from './tag-chip'
 
 interface PromptCardProps {
   prompt: Prompt | SerializedPrompt
   className?: string
+  /** Show the "Add to collection" menu (hidden for signed-out visitors) */
+  showCollectionMenu?: boolean
 }
 
-export default function PromptCard({ prompt, className }: PromptCardProps) {
+export default function PromptCard({ prompt, className, showCollectionMenu = true }: PromptCardProps) {
+  const promptId = typeof prompt._id === 'string' ? prompt._id : prompt._id.toString()
+
   return (
     <Link
-      href={`/prompts/${typeof prompt._id === 'string' ? prompt._id : prompt._id.toString()}`}
+      href={`/prompts/${promptId}`}
       className={cn(
         'group block rounded-lg border border-border bg-white p-6 transition-all duration-200 hover:scale-[1.02] hover:shadow-lg',
         className
@@ -31,9 +38,12 @@ export default function PromptCard({ prompt, className }: PromptCardProps) {
     >
       {/* Header */}
       <div className="mb-3">
-        <h3 className="mb-2 line-clamp-2 text-xl font-semibold text-foreground group-hover:text-primary">
-          {prompt.title}
-        </h3>
+        <div className="mb-2 flex items-start justify-between gap-2">
+          <h3 className="line-clamp-2 text-xl font-semibold text-foreground group-hover:text-primary">
+            {prompt.title}
+          </h3>
+          {showCollectionMenu && <AddToCollectionMenu promptId={promptId} compact />}
+        </div>
         <div className="flex items-center gap-4 text-sm text-muted-foreground">
           <span className="flex items-center gap-1">
             <Star className="h-4 w-4" />
@@ -57,10 +67,24 @@ export default function PromptCard({ prompt, className }: PromptCardProps) {
 
       {/* Footer */}
       <div className="flex items-center justify-between">
-        {/* Category */}
-        <span className="inline-flex items-center rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary">
-          {prompt.category}
-        </span>
+        {/* Category & Status */}
+        <div className="flex items-center gap-2">
+          <span className="inline-flex items-center rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary">
+            {prompt.category}
+          </span>
+          {prompt.status && prompt.status !== 'published' && (
+            <span
+              className={cn(
+                'inline-flex items-center rounded-full px-2 py-1 text-xs font-medium capitalize',
+                prompt.status === 'draft'
+                  ? 'bg-muted text-muted-foreground'
+                  : 'bg-amber-50 text-amber-700'
+              )}
+            >
+              {prompt.status}
+            </span>
+          )}
+        </div>
 
         {/* Author & Date */}
         <div className="text-xs text-muted-foreground">
@@ -74,12 +98,7 @@ export default function PromptCard({ prompt, className }: PromptCardProps) {
       {prompt.tags.length > 0 && (
         <div className="mt-3 flex flex-wrap gap-2">
           {prompt.tags.slice(0, 3).map((tag) => (
-            <span
-              key={tag}
-              className="rounded-md bg-muted px-2 py-1 text-xs text-muted-foreground"
-            >
-              {tag}
-            </span>
+            <TagChip key={tag} tag={tag} />
           ))}
           {prompt.tags.length > 3 && (
             <span className="rounded-md bg-muted px-2 py-1 text-xs text-muted-foreground">
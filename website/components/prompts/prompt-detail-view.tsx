@@ -1,15 +1,29 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Category } from '@/lib/constants'
 import { formatDistanceToNow } from 'date-fns'
-import { Copy, Star, GitFork, Eye, ExternalLink, Check, Edit } from 'lucide-react'
+import { Copy, Star, GitFork, Eye, ExternalLink, Check, Edit, FileText, History, GitCompare, Network, AlertTriangle, FileEdit } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { LLM_PLATFORMS } from '@/lib/constants'
 import { toast } from 'sonner'
+import { cn } from '@/lib/utils/cn'
+import { toggleStarAction, forkPromptAction } from '@/app/actions/prompt-actions'
 import DeletePromptDialog from './delete-prompt-dialog'
+import PromptStatusDialog from './prompt-status-dialog'
+import AddToCollectionMenu from '@/components/collections/add-to-collection-menu'
+import {
+  getInitialValues,
+  getMissingRequired,
+  renderTemplate,
+  syncVariables,
+} from '@/lib/utils/template-variables'
+import type { PromptStatus, PromptVariable } from '@/types/prompt'
+import PromptHistory, { type SerializedPromptRevision } from './prompt-history'
+import VariableFillForm from './variable-fill-form'
+import SimilarPrompts, { type SimilarPromptSummary } from './similar-prompts'
 
 // Serialized version of Prompt for Client Component
 interface SerializedPrompt {
@@ -20,10 +34,14 @@ interface SerializedPrompt {
   category: Category
   tags: string[]
   outputFormat: 'markdown' | 'json'
+  variables?: PromptVariable[]
   authorId: string
   authorName: string
   isPublic: boolean
+  status?: PromptStatus
+  replacementPromptId?: string | null
   parentPromptId: string | null
+  parentPurgedAt?: string | null
   forkCount: number
   viewCount: number
   starCount: number
@@ -33,17 +51,135 @@ interface SerializedPrompt {
   updatedAt: string
 }
 
+// Recommended alternative for an archived or deprecated prompt
+export interface PromptReplacement {
+  id: string
+  title: string
+}
+
+// The prompt this one was forked from, redacted if the viewer cannot see it
+export interface ForkSource {
+  id: string
+  title: string | null
+  authorName: string | null
+  redacted: boolean
+  /** Parent versions published since the fork was taken or last synced */
+  updatesAvailable: number
+}
+
 interface PromptDetailViewProps {
   prompt: SerializedPrompt
+  /** Original prompt for forks, null if it no longer exists */
+  forkedFrom: ForkSource | null
+  /** Replacement for archived or deprecated prompts, if set and visible */
+  replacement: PromptReplacement | null
+  revisions: SerializedPromptRevision[]
+  /** Whether the viewer owns the prompt (or is an admin) */
+  canEdit: boolean
+  /** Signed-in user's ID, used to derive the starred state */
+  currentUserId: string | null
+  /** Days a deleted prompt stays in the trash before it is purged */
+  trashRetentionDays: number
+  /** Listed prompts closest in meaning, most similar first */
+  similarPrompts: SimilarPromptSummary[]
 }
 
-export default function PromptDetailView({ prompt }: PromptDetailViewProps) {
+type TabType = 'prompt' | 'history'
+
+export default function PromptDetailView({
+  prompt,
+  forkedFrom,
+  replacement,
+  revisions,
+  canEdit,
+  currentUserId,
+  trashRetentionDays,
+  similarPrompts,
+}: PromptDetailViewProps) {
   const router = useRouter()
   const [copied, setCopied] = useState(false)
+  const [activeTab, setActiveTab] = useState<TabType>('prompt')
+  const [star, setStar] = useState({
+    starred: !!currentUserId && prompt.starredBy.includes(currentUserId),
+    count: prompt.starCount,
+  })
+  const [isStarring, setIsStarring] = useState(false)
+  const [isForking, setIsForking] = useState(false)
+
+  const handleStar = async () => {
+    const previous = star
+    // Optimistic update, rolled back if the server rejects it
+    setStar({
+      starred: !previous.starred,
+      count: previous.count + (previous.starred ? -1 : 1),
+    })
+    setIsStarring(true)
+
+    try {
+      const result = await toggleStarAction(prompt._id)
+
+      if (result.success && result.starred !== undefined && result.starCount !== undefined) {
+        setStar({ starred: result.starred, count: result.starCount })
+      } else {
+        setStar(previous)
+        toast.error(result.error || 'Failed to update star')
+      }
+    } catch {
+      setStar(previous)
+      toast.error('Failed to update star')
+    } finally {
+      setIsStarring(false)
+    }
+  }
+
+  const handleFork = async () => {
+    setIsForking(true)
+    try {
+      const result = await forkPromptAction(prompt._id)
+
+      if (result.success && result.promptId) {
+        toast.success('Prompt forked! Make it your own.')
+        // Open the new fork in the editor
+        router.push(`/prompts/${result.promptId}/edit`)
+      } else if (result.error) {
+        toast.error(result.error)
+        setIsForking(false)
+      }
+    } catch {
+      toast.error('Failed to fork prompt')
+      setIsForking(false)
+    }
+  }
+
+  const tabs = [
+    { id: 'prompt' as TabType, label: 'Prompt', icon: FileText },
+    { id: 'history' as TabType, label: 'History', icon: History, count: revisions.length },
+  ]
+
+  // Prompts saved before variables existed get their placeholders detected on the fly
+  const variables = useMemo(
+    () => prompt.variables ?? syncVariables(prompt.promptContent),
+    [prompt.variables, prompt.promptContent]
+  )
+  const [variableValues, setVariableValues] = useState(() => getInitialValues(variables))
+  const renderedContent = renderTemplate(prompt.promptContent, variableValues)
+
+  // Rendered prompt, or null (with a toast) while required variables are empty
+  const getPromptToCopy = (): string | null => {
+    const missing = getMissingRequired(variables, variableValues)
+    if (missing.length > 0) {
+      toast.error(`Fill in ${missing.map((name) => `{{${name}}}`).join(', ')} first`)
+      return null
+    }
+    return renderedContent
+  }
 
   const copyToClipboard = async () => {
+    const text = getPromptToCopy()
+    if (text === null) return
+
     try {
-      await navigator.clipboard.writeText(prompt.promptContent)
+      await navigator.clipboard.writeText(text)
       setCopied(true)
       toast.success('Copied to clipboard!')
       setTimeout(() => setCopied(false), 2000)
@@ -53,8 +189,11 @@ export default function PromptDetailView({ prompt }: PromptDetailViewProps) {
   }
 
   const openInPlatform = (platformUrl: string) => {
+    const text = getPromptToCopy()
+    if (text === null) return
+
     // Copy to clipboard first
-    navigator.clipboard.writeText(prompt.promptContent)
+    navigator.clipboard.writeText(text)
     toast.success('Copied! Opening platform...')
 
     // Open platform in new tab
@@ -72,18 +211,129 @@ export default function PromptDetailView({ prompt }: PromptDetailViewProps) {
           ← Back to prompts
         </Link>
         <div className="flex gap-2">
-          <Link href={`/prompts/${prompt._id}/edit`}>
-            <Button variant="outline" className="gap-2">
-              <Edit className="h-4 w-4" />
-              Edit
-            </Button>
-          </Link>
-          <DeletePromptDialog promptId={prompt._id} promptTitle={prompt.title} />
+          <AddToCollectionMenu promptId={prompt._id} />
+          {(prompt.parentPromptId || prompt.forkCount > 0) && (
+            <Link href={`/prompts/${prompt._id}/lineage`}>
+              <Button variant="outline" className="gap-2">
+                <Network className="h-4 w-4" />
+                Lineage
+              </Button>
+            </Link>
+          )}
+          {prompt.parentPromptId && (
+            <Link href={`/prompts/${prompt._id}/compare?from=parent&to=${prompt.versionNumber}`}>
+              <Button variant="outline" className="gap-2">
+                <GitCompare className="h-4 w-4" />
+                Compare with original
+              </Button>
+            </Link>
+          )}
+          {canEdit && (
+            <>
+              <Link href={`/prompts/${prompt._id}/edit`}>
+                <Button variant="outline" className="gap-2">
+                  <Edit className="h-4 w-4" />
+                  Edit
+                </Button>
+              </Link>
+              {prompt.status !== 'draft' && (
+                <PromptStatusDialog
+                  promptId={prompt._id}
+                  status={prompt.status || 'published'}
+                  replacementPromptId={prompt.replacementPromptId || null}
+                />
+              )}
+              <DeletePromptDialog
+                promptId={prompt._id}
+                promptTitle={prompt.title}
+                retentionDays={trashRetentionDays}
+              />
+            </>
+          )}
         </div>
       </div>
 
       {/* Header */}
       <div className="mb-6">
+        {prompt.status === 'draft' && (
+          <div className="mb-4 flex items-center gap-2 rounded-lg border border-border bg-muted/40 px-4 py-2 text-sm text-muted-foreground">
+            <FileEdit className="h-4 w-4 shrink-0" />
+            <span>This is an unpublished draft. Only you can see it.</span>
+            {canEdit && (
+              <Link
+                href={`/prompts/${prompt._id}/edit`}
+                className="ml-auto font-medium text-foreground hover:underline"
+              >
+                Continue editing
+              </Link>
+            )}
+          </div>
+        )}
+        {(prompt.status === 'archived' || prompt.status === 'deprecated') && (
+          <div className="mb-4 flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span>
+              This prompt is {prompt.status === 'archived' ? 'archived' : 'deprecated'}
+              {replacement ? (
+                <>
+                  . Use{' '}
+                  <Link href={`/prompts/${replacement.id}`} className="font-medium underline">
+                    {replacement.title}
+                  </Link>{' '}
+                  instead.
+                </>
+              ) : (
+                ' and may be out of date.'
+              )}
+            </span>
+          </div>
+        )}
+        {prompt.parentPromptId && (
+          <div className="mb-4 flex items-center gap-2 rounded-lg border border-border bg-muted/40 px-4 py-2 text-sm text-muted-foreground">
+            <GitFork className="h-4 w-4 shrink-0" />
+            {forkedFrom && !forkedFrom.redacted ? (
+              <span>
+                Forked from{' '}
+                <Link
+                  href={`/prompts/${forkedFrom.id}`}
+                  className="font-medium text-foreground hover:underline"
+                >
+                  {forkedFrom.title}
+                </Link>{' '}
+                by {forkedFrom.authorName}
+              </span>
+            ) : (
+              <span>
+                Forked from {forkedFrom ? 'a private prompt' : 'a prompt that no longer exists'}
+              </span>
+            )}
+            {forkedFrom && forkedFrom.updatesAvailable > 0 && (
+              <span className="ml-auto flex shrink-0 items-center gap-3">
+                <span className="font-medium text-primary">
+                  {forkedFrom.updatesAvailable}{' '}
+                  {forkedFrom.updatesAvailable === 1 ? 'update' : 'updates'} upstream
+                </span>
+                {canEdit && (
+                  <Link
+                    href={`/prompts/${prompt._id}/sync`}
+                    className="font-medium text-foreground hover:underline"
+                  >
+                    Sync
+                  </Link>
+                )}
+              </span>
+            )}
+          </div>
+        )}
+        {!prompt.parentPromptId && prompt.parentPurgedAt && (
+          <div className="mb-4 flex items-center gap-2 rounded-lg border border-border bg-muted/40 px-4 py-2 text-sm text-muted-foreground">
+            <GitFork className="h-4 w-4 shrink-0" />
+            <span>
+              Forked from a prompt that was permanently deleted on{' '}
+              {new Date(prompt.parentPurgedAt).toLocaleDateString()}
+            </span>
+          </div>
+        )}
         <div className="mb-3 flex items-start justify-between gap-4">
           <h1 className="text-3xl font-bold text-foreground">{prompt.title}</h1>
           <span className="inline-flex shrink-0 items-center rounded-full bg-primary/10 px-3 py-1 text-sm font-medium text-primary">
@@ -97,9 +347,11 @@ export default function PromptDetailView({ prompt }: PromptDetailViewProps) {
           <span>•</span>
           <span>{formatDistanceToNow(new Date(prompt.createdAt), { addSuffix: true })}</span>
           <span>•</span>
+          <span>v{prompt.versionNumber}</span>
+          <span>•</span>
           <span className="flex items-center gap-1">
             <Star className="h-4 w-4" />
-            {prompt.starCount}
+            {star.count}
           </span>
           <span className="flex items-center gap-1">
             <GitFork className="h-4 w-4" />
@@ -115,87 +367,164 @@ export default function PromptDetailView({ prompt }: PromptDetailViewProps) {
         {prompt.tags.length > 0 && (
           <div className="mt-4 flex flex-wrap gap-2">
             {prompt.tags.map((tag) => (
-              <span
+              <Link
                 key={tag}
-                className="rounded-md bg-muted px-2 py-1 text-xs text-muted-foreground"
+                href={`/?tags=${encodeURIComponent(tag)}`}
+                className="rounded-md bg-muted px-2 py-1 text-xs text-muted-foreground transition-colors hover:bg-primary/10 hover:text-primary"
               >
                 {tag}
-              </span>
+              </Link>
             ))}
           </div>
         )}
       </div>
 
-      {/* Description */}
-      {prompt.description && (
-        <div className="mb-6">
-          <h2 className="mb-2 text-lg font-semibold">Description</h2>
-          <p className="text-muted-foreground">{prompt.description}</p>
+      {/* Tab Headers */}
+      <div className="mb-6 flex gap-4 border-b border-border">
+        {tabs.map((tab) => {
+          const Icon = tab.icon
+          const isActive = activeTab === tab.id
+
+          return (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`flex items-center gap-2 border-b-2 px-4 py-3 text-sm font-medium transition-colors ${
+                isActive
+                  ? 'border-primary text-primary'
+                  : 'border-transparent text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              <Icon className="h-4 w-4" />
+              {tab.label}
+              {tab.count !== undefined && (
+                <span
+                  className={`rounded-full px-2 py-0.5 text-xs ${
+                    isActive
+                      ? 'bg-primary/10 text-primary'
+                      : 'bg-muted text-muted-foreground'
+                  }`}
+                >
+                  {tab.count}
+                </span>
+              )}
+            </button>
+          )
+        })}
+      </div>
+
+      {activeTab === 'history' && (
+        <div className="mb-8">
+          <PromptHistory
+            promptId={prompt._id}
+            currentVersion={prompt.versionNumber}
+            revisions={revisions}
+            canRestore={canEdit}
+          />
         </div>
       )}
 
-      {/* Prompt Content */}
-      <div className="mb-6">
-        <div className="mb-3 flex items-center justify-between">
-          <h2 className="text-lg font-semibold">Prompt</h2>
-          <Button
-            onClick={copyToClipboard}
-            variant="outline"
-            size="sm"
-            className="gap-2"
-          >
-            {copied ? (
-              <>
-                <Check className="h-4 w-4" />
-                Copied!
-              </>
-            ) : (
-              <>
-                <Copy className="h-4 w-4" />
-                Copy
-              </>
-            )}
-          </Button>
-        </div>
-        <div className="rounded-lg border border-border bg-muted/30 p-6">
-          <pre className="prompt-content overflow-x-auto whitespace-pre-wrap font-mono text-sm leading-relaxed text-foreground">
-            {prompt.promptContent}
-          </pre>
-        </div>
-      </div>
+      {activeTab === 'prompt' && (
+        <>
+        {/* Description */}
+        {prompt.description && (
+          <div className="mb-6">
+            <h2 className="mb-2 text-lg font-semibold">Description</h2>
+            <p className="text-muted-foreground">{prompt.description}</p>
+          </div>
+        )}
 
-      {/* Copy & Go Actions */}
-      <div className="mb-8">
-        <h2 className="mb-3 text-lg font-semibold">Copy & Go</h2>
-        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
-          {LLM_PLATFORMS.map((platform) => (
+        {/* Prompt Content */}
+        <div className="mb-6">
+          <div className="mb-3 flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Prompt</h2>
             <Button
-              key={platform.id}
-              onClick={() => openInPlatform(platform.url)}
-              className="gap-2"
+              onClick={copyToClipboard}
               variant="outline"
+              size="sm"
+              className="gap-2"
             >
-              <ExternalLink className="h-4 w-4" />
-              Open in {platform.name}
+              {copied ? (
+                <>
+                  <Check className="h-4 w-4" />
+                  Copied!
+                </>
+              ) : (
+                <>
+                  <Copy className="h-4 w-4" />
+                  Copy
+                </>
+              )}
             </Button>
-          ))}
+          </div>
+          <div className="rounded-lg border border-border bg-muted/30 p-6">
+            <pre className="prompt-content overflow-x-auto whitespace-pre-wrap font-mono text-sm leading-relaxed text-foreground">
+              {renderedContent}
+            </pre>
+          </div>
         </div>
-        <p className="mt-2 text-xs text-muted-foreground">
-          Click to copy the prompt and open your preferred AI platform
-        </p>
-      </div>
+
+        {/* Template Variables */}
+        {variables.length > 0 && (
+          <div className="mb-6">
+            <h2 className="mb-3 text-lg font-semibold">Fill in variables</h2>
+            <VariableFillForm
+              variables={variables}
+              values={variableValues}
+              onChange={(name, value) =>
+                setVariableValues((current) => ({ ...current, [name]: value }))
+              }
+            />
+          </div>
+        )}
+
+        {/* Copy & Go Actions */}
+        <div className="mb-8">
+          <h2 className="mb-3 text-lg font-semibold">Copy & Go</h2>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            {LLM_PLATFORMS.map((platform) => (
+              <Button
+                key={platform.id}
+                onClick={() => openInPlatform(platform.url)}
+                className="gap-2"
+                variant="outline"
+              >
+                <ExternalLink className="h-4 w-4" />
+                Open in {platform.name}
+              </Button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Click to copy the prompt and open your preferred AI platform
+          </p>
+        </div>
+        </>
+      )}
 
       {/* Engagement Actions */}
       <div className="flex gap-3 border-t border-border pt-6">
-        <Button variant="outline" className="gap-2">
-          <Star className="h-4 w-4" />
-          Star ({prompt.starCount})
+        <Button
+          variant="outline"
+          className={cn('gap-2', star.starred && 'border-yellow-300 bg-yellow-50 hover:bg-yellow-100')}
+          onClick={handleStar}
+          disabled={isStarring || !currentUserId}
+          aria-pressed={star.starred}
+        >
+          <Star className={cn('h-4 w-4', star.starred && 'fill-yellow-400 text-yellow-500')} />
+          {star.starred ? 'Starred' : 'Star'} ({star.count})
         </Button>
-        <Button variant="outline" className="gap-2">
+        <Button
+          variant="outline"
+          className="gap-2"
+          onClick={handleFork}
+          disabled={isForking || !currentUserId}
+        >
           <GitFork className="h-4 w-4" />
-          Fork ({prompt.forkCount})
+          {isForking ? 'Forking...' : 'Fork'} ({prompt.forkCount})
         </Button>
       </div>
+
+      <SimilarPrompts prompts={similarPrompts} />
     </div>
   )
 }
@@ -0,0 +1,320 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Columns2, Rows3, ArrowLeftRight } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  buildDiffRows,
+  diffTags,
+  diffWords,
+  type DiffLine,
+  type DiffOp,
+  type DiffRow,
+} from '@/lib/utils/diff'
+import { cn } from '@/lib/utils/cn'
+import type { RevisionSnapshot } from '@/types/prompt'
+
+// One side of a comparison, resolved on the server
+export interface ComparedSide {
+  ref: string
+  label: string
+  snapshot: RevisionSnapshot
+}
+
+interface PromptDiffViewProps {
+  promptId: string
+  promptTitle: string
+  from: ComparedSide
+  to: ComparedSide
+  options: { value: string; label: string }[]
+}
+
+type ViewMode = 'side-by-side' | 'inline'
+
+const selectClassName =
+  'h-10 rounded-md border border-border bg-white px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2'
+
+function Segments({ segments }: { segments: DiffOp[] }) {
+  return (
+    <>
+      {segments.map((segment, index) => (
+        <span
+          key={index}
+          className={cn(
+            segment.type === 'insert' && 'rounded-sm bg-green-200 text-green-900',
+            segment.type === 'delete' && 'rounded-sm bg-red-200 text-red-900 line-through'
+          )}
+        >
+          {segment.value}
+        </span>
+      ))}
+    </>
+  )
+}
+
+function LineCell({ line, tone }: { line?: DiffLine; tone: 'equal' | 'insert' | 'delete' }) {
+  if (!line) {
+    return <div className="col-span-2 bg-muted/40" />
+  }
+
+  return (
+    <>
+      <div className="select-none px-2 text-right text-xs text-muted-foreground">
+        {line.lineNumber}
+      </div>
+      <div
+        className={cn(
+          'whitespace-pre-wrap break-words px-2',
+          tone === 'insert' && 'bg-green-50',
+          tone === 'delete' && 'bg-red-50'
+        )}
+      >
+        {line.segments ? <Segments segments={line.segments} /> : line.text || ' '}
+      </div>
+    </>
+  )
+}
+
+function SideBySideRows({ rows }: { rows: DiffRow[] }) {
+  return (
+    <div className="grid grid-cols-[3rem_1fr_3rem_1fr] font-mono text-sm leading-relaxed">
+      {rows.map((row, index) => (
+        <div key={index} className="contents">
+          <LineCell line={row.left} tone={row.type === 'equal' ? 'equal' : 'delete'} />
+          <LineCell line={row.right} tone={row.type === 'equal' ? 'equal' : 'insert'} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface InlineLine {
+  marker: ' ' | '-' | '+'
+  tone: 'equal' | 'insert' | 'delete'
+  line: DiffLine
+}
+
+function InlineRows({ rows }: { rows: DiffRow[] }) {
+  const lines = rows.flatMap((row): InlineLine[] => {
+    if (row.type === 'equal') {
+      return [{ marker: ' ', tone: 'equal', line: row.right! }]
+    }
+
+    const changed: InlineLine[] = []
+    if (row.left) changed.push({ marker: '-', tone: 'delete', line: row.left })
+    if (row.right) changed.push({ marker: '+', tone: 'insert', line: row.right })
+    return changed
+  })
+
+  return (
+    <div className="grid grid-cols-[1.5rem_3rem_1fr] font-mono text-sm leading-relaxed">
+      {lines.map(({ marker, tone, line }, index) => (
+        <div key={index} className="contents">
+          <div
+            className={cn(
+              'select-none text-center',
+              tone === 'insert' && 'bg-green-50 text-green-700',
+              tone === 'delete' && 'bg-red-50 text-red-700'
+            )}
+          >
+            {marker}
+          </div>
+          <LineCell line={line} tone={tone} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function FieldRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="grid grid-cols-[8rem_1fr] gap-4 py-3">
+      <dt className="text-sm font-medium text-muted-foreground">{label}</dt>
+      <dd className="text-sm text-foreground">{children}</dd>
+    </div>
+  )
+}
+
+function ValueChange({ before, after }: { before: string; after: string }) {
+  if (before === after) {
+    return <span>{after}</span>
+  }
+
+  return (
+    <span className="flex flex-wrap items-center gap-2">
+      <span className="rounded-md bg-red-50 px-2 py-0.5 text-red-700 line-through">{before}</span>
+      <span className="text-muted-foreground">→</span>
+      <span className="rounded-md bg-green-50 px-2 py-0.5 text-green-700">{after}</span>
+    </span>
+  )
+}
+
+export default function PromptDiffView({
+  promptId,
+  promptTitle,
+  from,
+  to,
+  options,
+}: PromptDiffViewProps) {
+  const router = useRouter()
+  const [viewMode, setViewMode] = useState<ViewMode>('side-by-side')
+
+  const before = from.snapshot
+  const after = to.snapshot
+
+  const contentRows = useMemo(
+    () => buildDiffRows(before.promptContent, after.promptContent),
+    [before.promptContent, after.promptContent]
+  )
+  const tagDiff = useMemo(() => diffTags(before.tags, after.tags), [before.tags, after.tags])
+  const contentChanged = contentRows.some((row) => row.type !== 'equal')
+
+  const navigate = (fromRef: string, toRef: string) => {
+    const params = new URLSearchParams({ from: fromRef, to: toRef })
+    router.push(`/prompts/${promptId}/compare?${params.toString()}`)
+  }
+
+  return (
+    <div className="container mx-auto max-w-6xl px-4 py-8">
+      {/* Back button */}
+      <div className="mb-6">
+        <Link
+          href={`/prompts/${promptId}`}
+          className="text-sm text-muted-foreground hover:text-foreground"
+        >
+          ← Back to prompt
+        </Link>
+      </div>
+
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="mb-2 text-3xl font-bold text-foreground">Compare changes</h1>
+        <p className="text-muted-foreground">{promptTitle}</p>
+      </div>
+
+      {/* Controls */}
+      <div className="mb-6 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-sm font-medium">
+          From
+          <select
+            value={from.ref}
+            onChange={(e) => navigate(e.target.value, to.ref)}
+            className={selectClassName}
+          >
+            {options.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate(to.ref, from.ref)}
+          aria-label="Swap sides"
+        >
+          <ArrowLeftRight className="h-4 w-4" />
+        </Button>
+        <label className="flex flex-col gap-1 text-sm font-medium">
+          To
+          <select
+            value={to.ref}
+            onChange={(e) => navigate(from.ref, e.target.value)}
+            className={selectClassName}
+          >
+            {options.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="ml-auto flex gap-2">
+          <Button
+            variant={viewMode === 'side-by-side' ? 'default' : 'outline'}
+            size="sm"
+            className="gap-2"
+            onClick={() => setViewMode('side-by-side')}
+          >
+            <Columns2 className="h-4 w-4" />
+            Side by side
+          </Button>
+          <Button
+            variant={viewMode === 'inline' ? 'default' : 'outline'}
+            size="sm"
+            className="gap-2"
+            onClick={() => setViewMode('inline')}
+          >
+            <Rows3 className="h-4 w-4" />
+            Inline
+          </Button>
+        </div>
+      </div>
+
+      {/* Field Changes */}
+      <div className="mb-6">
+        <h2 className="mb-2 text-lg font-semibold">Details</h2>
+        <dl className="divide-y divide-border rounded-lg border border-border bg-white px-4">
+          <FieldRow label="Title">
+            <Segments segments={diffWords(before.title, after.title)} />
+          </FieldRow>
+          <FieldRow label="Description">
+            <Segments segments={diffWords(before.description, after.description)} />
+          </FieldRow>
+          <FieldRow label="Category">
+            <ValueChange before={before.category} after={after.category} />
+          </FieldRow>
+          <FieldRow label="Output Format">
+            <ValueChange before={before.outputFormat} after={after.outputFormat} />
+          </FieldRow>
+          <FieldRow label="Tags">
+            <span className="flex flex-wrap gap-2">
+              {tagDiff.unchanged.map((tag) => (
+                <span key={tag} className="rounded-md bg-muted px-2 py-1 text-xs text-muted-foreground">
+                  {tag}
+                </span>
+              ))}
+              {tagDiff.added.map((tag) => (
+                <span key={tag} className="rounded-md bg-green-50 px-2 py-1 text-xs text-green-700">
+                  + {tag}
+                </span>
+              ))}
+              {tagDiff.removed.map((tag) => (
+                <span
+                  key={tag}
+                  className="rounded-md bg-red-50 px-2 py-1 text-xs text-red-700 line-through"
+                >
+                  {tag}
+                </span>
+              ))}
+            </span>
+          </FieldRow>
+        </dl>
+      </div>
+
+      {/* Prompt Content */}
+      <div className="mb-6">
+        <h2 className="mb-3 text-lg font-semibold">Prompt</h2>
+        {viewMode === 'side-by-side' && (
+          <div className="mb-2 grid grid-cols-2 gap-4 text-sm text-muted-foreground">
+            <span>{from.label}</span>
+            <span>{to.label}</span>
+          </div>
+        )}
+        <div className="prompt-content overflow-x-auto rounded-lg border border-border bg-muted/30 py-4">
+          {!contentChanged && (
+            <p className="px-4 pb-2 text-sm text-muted-foreground">Prompt content is unchanged</p>
+          )}
+          {viewMode === 'side-by-side' ? (
+            <SideBySideRows rows={contentRows} />
+          ) : (
+            <InlineRows rows={contentRows} />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
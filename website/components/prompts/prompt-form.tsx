@@ -1,34 +1,85 @@
 'use client'
 
-import { useState } from 'react'
-import { useForm } from 'react-hook-form'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useForm, type FieldError } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { X, Plus } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { promptSchema, PromptFormData } from '@/lib/validations/prompt'
-import { createPromptAction, updatePromptAction } from '@/app/actions/prompt-actions'
+import {
+  createPromptAction,
+  updatePromptAction,
+  syncForkAction,
+  saveDraftAction,
+  publishDraftAction,
+  findDuplicatePromptsAction,
+  forkPromptAction,
+} from '@/app/actions/prompt-actions'
 import { CATEGORIES } from '@/lib/constants'
+import { syncVariables } from '@/lib/utils/template-variables'
+import { hasConflictMarkers } from '@/lib/utils/merge'
 import { toast } from 'sonner'
+import { AlertTriangle, GitFork } from 'lucide-react'
+import type { PromptStatus } from '@/types/prompt'
+import VariableEditor from './variable-editor'
+import TagInput from './tag-input'
+
+// How often unsaved draft changes are written to the database
+const AUTOSAVE_INTERVAL_MS = 5000
+
+// Existing prompt with nearly the same content as the one being saved
+interface DuplicatePrompt {
+  id: string
+  title: string
+  authorName: string
+  isOwn: boolean
+  similarity: number
+}
 
 interface PromptFormProps {
   promptId?: string
+  /** Version of the prompt as loaded; saving fails if someone else saved a newer one */
+  versionNumber?: number
   defaultValues?: PromptFormData
+  /** Parent version being merged in; switches the form to saving an upstream sync */
+  upstreamVersion?: number
+  /** Status of the prompt being edited; drafts are autosaved */
+  status?: PromptStatus
 }
 
-export default function PromptForm({ promptId, defaultValues }: PromptFormProps) {
+export default function PromptForm({
+  promptId,
+  versionNumber,
+  defaultValues,
+  upstreamVersion,
+  status,
+}: PromptFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [tagInput, setTagInput] = useState('')
+  const [changeNote, setChangeNote] = useState('')
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null)
   const isEditMode = !!promptId
+  const isSyncMode = isEditMode && upstreamVersion !== undefined
+  // New prompts and existing drafts autosave until they are published
+  const isDraft = !isEditMode || status === 'draft'
+  const draftId = useRef<string | null>(isEditMode && status === 'draft' ? promptId : null)
+  const hasUnsavedChanges = useRef(false)
+  const isSavingDraft = useRef(false)
+  const [duplicates, setDuplicates] = useState<DuplicatePrompt[]>([])
+  const [forkingId, setForkingId] = useState<string | null>(null)
+  // Content the author chose to save despite the duplicate warning (unchanged published content is not re-checked)
+  const acknowledgedContent = useRef<string | null>(isDraft ? null : defaultValues?.promptContent ?? null)
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     watch,
+    getValues,
     setValue,
+    setError,
   } = useForm<PromptFormData>({
     resolver: zodResolver(promptSchema),
     defaultValues: defaultValues || {
@@ -38,34 +89,129 @@ export default function PromptForm({ promptId, defaultValues }: PromptFormProps)
       category: 'MetaPrompting',
       tags: [],
       outputFormat: 'markdown',
+      variables: [],
       isPublic: true,
     },
   })
 
   const tags = watch('tags')
   const promptContent = watch('promptContent')
+  const variables = watch('variables')
+  const hasConflicts = isSyncMode && hasConflictMarkers(promptContent || '')
 
-  const addTag = () => {
-    const trimmedTag = tagInput.trim()
-    if (trimmedTag && !tags.includes(trimmedTag) && tags.length < 10) {
-      setValue('tags', [...tags, trimmedTag])
-      setTagInput('')
+  // Keep declared variables in step with the placeholders in the content
+  useEffect(() => {
+    const synced = syncVariables(promptContent || '', variables)
+    const namesOf = (list: typeof variables) => list.map((variable) => variable.name).join('\n')
+
+    if (namesOf(synced) !== namesOf(variables)) {
+      setValue('variables', synced)
     }
-  }
+  }, [promptContent, variables, setValue])
 
-  const removeTag = (tagToRemove: string) => {
-    setValue(
-      'tags',
-      tags.filter((tag) => tag !== tagToRemove)
-    )
-  }
+  // Track edits so autosave only writes when something changed
+  useEffect(() => {
+    if (!isDraft) return
+
+    const subscription = watch(() => {
+      hasUnsavedChanges.current = true
+    })
+    return () => subscription.unsubscribe()
+  }, [isDraft, watch])
+
+  const saveDraft = useCallback(async () => {
+    if (!hasUnsavedChanges.current || isSavingDraft.current || isSubmitting) return
+
+    // Don't create drafts for forms nobody has started filling in
+    const values = getValues()
+    if (!values.title.trim() && !values.promptContent.trim()) return
+
+    isSavingDraft.current = true
+    hasUnsavedChanges.current = false
+    try {
+      const result = await saveDraftAction(draftId.current, values)
+
+      if (result.success && result.promptId) {
+        if (!draftId.current) {
+          // Reloading the page resumes the draft instead of starting over
+          window.history.replaceState(null, '', `/prompts/${result.promptId}/edit`)
+        }
+        draftId.current = result.promptId
+        setDraftSavedAt(new Date())
+      } else {
+        hasUnsavedChanges.current = true
+      }
+    } catch {
+      hasUnsavedChanges.current = true
+    } finally {
+      isSavingDraft.current = false
+    }
+  }, [getValues, isSubmitting])
+
+  // Autosave drafts every few seconds
+  useEffect(() => {
+    if (!isDraft) return
+
+    const timer = setInterval(saveDraft, AUTOSAVE_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [isDraft, saveDraft])
+
+  // Surface the first problem with the variables (list-level or per-variable)
+  const variablesError =
+    errors.variables?.message ||
+    errors.variables?.root?.message ||
+    (Array.isArray(errors.variables)
+      ? errors.variables
+          .flatMap((itemErrors) => Object.values(itemErrors || {}) as FieldError[])
+          .find((fieldError) => fieldError?.message)?.message
+      : undefined)
 
   const onSubmit = async (data: PromptFormData) => {
+    // Merged content can only be saved once every conflict is resolved
+    if (isSyncMode && hasConflictMarkers(data.promptContent)) {
+      setError('promptContent', { message: 'Resolve all merge conflicts before saving' })
+      return
+    }
+
     setIsSubmitting(true)
     try {
-      if (isEditMode && promptId) {
-        // Update existing prompt
-        const result = await updatePromptAction(promptId, data)
+      // Point to near-identical prompts before another copy is saved (merges are expected to match)
+      if (!isSyncMode && data.promptContent !== acknowledgedContent.current) {
+        const check = await findDuplicatePromptsAction(data.promptContent, draftId.current || promptId || null)
+
+        if (check.success && check.duplicates && check.duplicates.length > 0) {
+          setDuplicates(check.duplicates)
+          setIsSubmitting(false)
+          return
+        }
+      }
+      setDuplicates([])
+
+      if (isSyncMode && promptId && upstreamVersion !== undefined && versionNumber !== undefined) {
+        // Save the merge with upstream
+        const result = await syncForkAction(promptId, data, upstreamVersion, versionNumber)
+
+        if (result.success) {
+          toast.success('Synced with upstream!')
+          window.location.href = `/prompts/${promptId}`
+        } else if (result.error) {
+          toast.error(result.error)
+          setIsSubmitting(false)
+        }
+      } else if (draftId.current) {
+        // Publish the autosaved draft
+        const result = await publishDraftAction(draftId.current, data)
+
+        if (result.success && result.promptId) {
+          toast.success('Prompt published!')
+          window.location.href = `/prompts/${result.promptId}`
+        } else if (result.error) {
+          toast.error(result.error)
+          setIsSubmitting(false)
+        }
+      } else if (isEditMode && promptId && versionNumber !== undefined) {
+        // Update existing prompt, unless someone else saved since it was loaded
+        const result = await updatePromptAction(promptId, data, versionNumber, changeNote)
 
         if (result.success) {
           toast.success('Prompt updated successfully!')
@@ -75,7 +221,7 @@ export default function PromptForm({ promptId, defaultValues }: PromptFormProps)
           toast.error(result.error)
           setIsSubmitting(false)
         }
-      } else {
+      } else if (!isEditMode) {
         // Create new prompt
         const result = await createPromptAction(data)
 
@@ -94,6 +240,29 @@ export default function PromptForm({ promptId, defaultValues }: PromptFormProps)
     }
   }
 
+  const saveAnyway = () => {
+    acknowledgedContent.current = getValues('promptContent')
+    handleSubmit(onSubmit)()
+  }
+
+  const forkInstead = async (duplicateId: string) => {
+    setForkingId(duplicateId)
+    try {
+      const result = await forkPromptAction(duplicateId)
+
+      if (result.success && result.promptId) {
+        toast.success('Prompt forked! Make it your own.')
+        window.location.href = `/prompts/${result.promptId}/edit`
+      } else if (result.error) {
+        toast.error(result.error)
+        setForkingId(null)
+      }
+    } catch {
+      toast.error('Failed to fork prompt')
+      setForkingId(null)
+    }
+  }
+
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
       {/* Title */}
@@ -178,48 +347,11 @@ export default function PromptForm({ promptId, defaultValues }: PromptFormProps)
             ({tags.length}/10)
           </span>
         </Label>
-        <div className="mt-1.5 flex gap-2">
-          <Input
-            id="tags"
-            value={tagInput}
-            onChange={(e) => setTagInput(e.target.value)}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') {
-                e.preventDefault()
-                addTag()
-              }
-            }}
-            placeholder="Add a tag (press Enter)"
-            disabled={tags.length >= 10}
-          />
-          <Button
-            type="button"
-            onClick={addTag}
-            variant="outline"
-            disabled={tags.length >= 10 || !tagInput.trim()}
-          >
-            <Plus className="h-4 w-4" />
-          </Button>
-        </div>
-        {tags.length > 0 && (
-          <div className="mt-2 flex flex-wrap gap-2">
-            {tags.map((tag) => (
-              <span
-                key={tag}
-                className="inline-flex items-center gap-1 rounded-md bg-primary/10 px-2 py-1 text-sm text-primary"
-              >
-                {tag}
-                <button
-                  type="button"
-                  onClick={() => removeTag(tag)}
-                  className="hover:text-primary-dark"
-                >
-                  <X className="h-3 w-3" />
-                </button>
-              </span>
-            ))}
-          </div>
-        )}
+        <TagInput
+          id="tags"
+          tags={tags}
+          onChange={(nextTags) => setValue('tags', nextTags)}
+        />
         {errors.tags && (
           <p className="mt-1 text-sm text-red-500">{errors.tags.message}</p>
         )}
@@ -240,6 +372,13 @@ export default function PromptForm({ promptId, defaultValues }: PromptFormProps)
           className="prompt-content mt-1.5"
           rows={15}
         />
+        {hasConflicts && !errors.promptContent && (
+          <p className="mt-1 text-sm text-amber-600">
+            Resolve each conflict by keeping the lines you want and deleting the{' '}
+            <code>&lt;&lt;&lt;&lt;&lt;&lt;&lt; yours</code>, <code>=======</code> and{' '}
+            <code>&gt;&gt;&gt;&gt;&gt;&gt;&gt; upstream</code> markers.
+          </p>
+        )}
         {errors.promptContent && (
           <p className="mt-1 text-sm text-red-500">
             {errors.promptContent.message}
@@ -247,6 +386,13 @@ export default function PromptForm({ promptId, defaultValues }: PromptFormProps)
         )}
       </div>
 
+      {/* Variables */}
+      <VariableEditor
+        variables={variables}
+        onChange={(updated) => setValue('variables', updated, { shouldValidate: true })}
+        error={variablesError}
+      />
+
       {/* Public/Private Toggle */}
       <div className="flex items-center gap-2">
         <input
@@ -260,20 +406,107 @@ export default function PromptForm({ promptId, defaultValues }: PromptFormProps)
         </Label>
       </div>
 
+      {/* Change Note (edit mode only) */}
+      {isEditMode && !isSyncMode && (
+        <div>
+          <Label htmlFor="changeNote">
+            Change Note
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              (optional, shown in version history)
+            </span>
+          </Label>
+          <Input
+            id="changeNote"
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            placeholder="e.g., Tightened the output format instructions"
+            maxLength={200}
+            className="mt-1.5"
+          />
+        </div>
+      )}
+
+      {/* Near-duplicate warning */}
+      {duplicates.length > 0 && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          <p className="mb-3 flex items-center gap-2 font-medium">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            This prompt is nearly identical to {duplicates.length === 1 ? 'an existing prompt' : 'existing prompts'}
+          </p>
+          <ul className="mb-3 space-y-2">
+            {duplicates.map((duplicate) => (
+              <li key={duplicate.id} className="flex items-center justify-between gap-3">
+                <span>
+                  <Link
+                    href={`/prompts/${duplicate.id}`}
+                    target="_blank"
+                    className="font-medium underline"
+                  >
+                    {duplicate.title}
+                  </Link>{' '}
+                  by {duplicate.isOwn ? 'you' : duplicate.authorName} ({Math.round(duplicate.similarity * 100)}% similar)
+                </span>
+                {!duplicate.isOwn && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="shrink-0 gap-2"
+                    onClick={() => forkInstead(duplicate.id)}
+                    disabled={forkingId !== null}
+                  >
+                    <GitFork className="h-4 w-4" />
+                    {forkingId === duplicate.id ? 'Forking...' : 'Fork instead'}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <p className="mb-3">
+            Forking keeps a link to the original, so you can pull in its improvements later.
+          </p>
+          <Button type="button" variant="outline" size="sm" onClick={saveAnyway} disabled={isSubmitting}>
+            Save anyway
+          </Button>
+        </div>
+      )}
+
       {/* Submit Button */}
       <div className="flex gap-3 border-t border-border pt-6">
-        <Button type="submit" disabled={isSubmitting} className="min-w-[120px]">
+        <Button type="submit" disabled={isSubmitting || hasConflicts} className="min-w-[120px]">
           {isSubmitting
-            ? isEditMode
-              ? 'Updating...'
-              : 'Creating...'
-            : isEditMode
-              ? 'Update Prompt'
-              : 'Create Prompt'}
+            ? isSyncMode
+              ? 'Saving...'
+              : isEditMode && !isDraft
+                ? 'Updating...'
+                : 'Publishing...'
+            : isSyncMode
+              ? 'Save Merge'
+              : isEditMode && !isDraft
+                ? 'Update Prompt'
+                : 'Publish Prompt'}
         </Button>
+        {isDraft && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              hasUnsavedChanges.current = true
+              saveDraft()
+            }}
+            disabled={isSubmitting}
+          >
+            Save Draft
+          </Button>
+        )}
         <Button type="button" variant="outline" onClick={() => window.history.back()}>
           Cancel
         </Button>
+        {isDraft && draftSavedAt && (
+          <span className="self-center text-sm text-muted-foreground">
+            Draft saved at {draftSavedAt.toLocaleTimeString()}
+          </span>
+        )}
       </div>
     </form>
   )
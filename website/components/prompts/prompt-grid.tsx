@@ -1,22 +1,23 @@
-import PromptCard from './prompt-card'
+import InfinitePromptGrid from './infinite-prompt-grid'
 import { getPublicPrompts } from '@/lib/db/models/prompt'
-import type { PromptFilters } from '@/types/prompt'
+import { LIMITS } from '@/lib/constants'
+import { toPromptFilters } from '@/lib/utils/facets'
+import type { PromptListFilters } from '@/lib/validations/prompt'
 
 interface PromptGridProps {
-  search?: string
-  category?: string
-  sort?: string
+  query: PromptListFilters
+  /** Pages already scrolled through, re-rendered when navigating back */
+  page?: number
+  /** Start the listing after this cursor instead of from the top */
+  cursor?: string
 }
 
-export default async function PromptGrid({ search, category, sort }: PromptGridProps) {
-  const filters: PromptFilters = {
-    search,
-    category: category as any,
-    sort: (sort as any) || 'newest',
-    limit: 20,
-  }
-
-  const prompts = await getPublicPrompts(filters)
+export default async function PromptGrid({ query, page = 1, cursor }: PromptGridProps) {
+  const { prompts, nextCursor, total } = await getPublicPrompts({
+    ...toPromptFilters(query),
+    limit: LIMITS.PROMPTS_PER_PAGE * page,
+    cursor,
+  })
 
   if (prompts.length === 0) {
     return (
@@ -29,11 +30,29 @@ export default async function PromptGrid({ search, category, sort }: PromptGridP
     )
   }
 
+  // Serialize ObjectIds and Dates for the client grid
+  const serializedPrompts = prompts.map((prompt) => ({
+    ...prompt,
+    _id: prompt._id.toString(),
+    authorId: prompt.authorId.toString(),
+    replacementPromptId: prompt.replacementPromptId?.toString() || null,
+    parentPromptId: prompt.parentPromptId?.toString() || null,
+    deletedBy: null,
+    starredBy: prompt.starredBy.map((id) => id.toString()),
+    createdAt: prompt.createdAt.toISOString(),
+    updatedAt: prompt.updatedAt.toISOString(),
+  }))
+
   return (
-    <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
-      {prompts.map((prompt) => (
-        <PromptCard key={prompt._id.toString()} prompt={prompt} />
-      ))}
-    </div>
+    <InfinitePromptGrid
+      // Remount when the filters change so scrolled pages are dropped
+      key={`${JSON.stringify(query)}|${cursor}`}
+      initialPrompts={serializedPrompts}
+      initialCursor={nextCursor}
+      initialPage={page}
+      total={total}
+      filters={query}
+      startCursor={cursor}
+    />
   )
 }
@@ -0,0 +1,186 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { formatDistanceToNow } from 'date-fns'
+import { History, RotateCcw, ChevronDown, ChevronUp, GitCompare } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { restorePromptRevisionAction } from '@/app/actions/prompt-actions'
+import { Category } from '@/lib/constants'
+import { toast } from 'sonner'
+
+// Serialized version of PromptRevision for Client Component
+export interface SerializedPromptRevision {
+  _id: string
+  promptId: string
+  versionNumber: number
+  title: string
+  description: string
+  promptContent: string
+  category: Category
+  tags: string[]
+  outputFormat: 'markdown' | 'json'
+  editorId: string | null
+  editorName: string
+  changeNote: string
+  restoredFromVersion: number | null
+  createdAt: string
+}
+
+interface PromptHistoryProps {
+  promptId: string
+  currentVersion: number
+  revisions: SerializedPromptRevision[]
+  canRestore: boolean
+}
+
+export default function PromptHistory({
+  promptId,
+  currentVersion,
+  revisions,
+  canRestore,
+}: PromptHistoryProps) {
+  const router = useRouter()
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null)
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null)
+
+  const handleRestore = async (versionNumber: number) => {
+    setRestoringVersion(versionNumber)
+    try {
+      const result = await restorePromptRevisionAction(promptId, versionNumber)
+
+      if (result.success) {
+        toast.success(`Restored version ${versionNumber} as version ${result.versionNumber}`)
+        router.refresh()
+      } else if (result.error) {
+        toast.error(result.error)
+      }
+    } catch {
+      toast.error('Failed to restore revision')
+    } finally {
+      setRestoringVersion(null)
+    }
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="py-12 text-center">
+        <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+          <History className="h-8 w-8 text-muted-foreground" />
+        </div>
+        <h3 className="mb-2 text-lg font-semibold text-foreground">No history yet</h3>
+        <p className="text-sm text-muted-foreground">
+          Earlier versions will appear here once this prompt is edited
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <ol className="space-y-3">
+      {revisions.map((revision) => {
+        const isCurrent = revision.versionNumber === currentVersion
+        const isExpanded = expandedVersion === revision.versionNumber
+
+        return (
+          <li
+            key={revision._id}
+            className="rounded-lg border border-border bg-white p-4"
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-foreground">
+                    Version {revision.versionNumber}
+                  </span>
+                  {isCurrent && (
+                    <span className="rounded-full bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary">
+                      Current
+                    </span>
+                  )}
+                </div>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  {revision.editorName} •{' '}
+                  {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                </p>
+                <p className="mt-2 text-sm text-foreground">
+                  {revision.changeNote || (
+                    <span className="italic text-muted-foreground">No change note</span>
+                  )}
+                </p>
+                {revision.restoredFromVersion !== null && (
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Restored from version {revision.restoredFromVersion}
+                  </p>
+                )}
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1"
+                  onClick={() =>
+                    setExpandedVersion(isExpanded ? null : revision.versionNumber)
+                  }
+                >
+                  {isExpanded ? (
+                    <ChevronUp className="h-4 w-4" />
+                  ) : (
+                    <ChevronDown className="h-4 w-4" />
+                  )}
+                  View
+                </Button>
+                {revision.versionNumber > 1 && (
+                  <Link
+                    href={`/prompts/${promptId}/compare?from=${revision.versionNumber - 1}&to=${revision.versionNumber}`}
+                  >
+                    <Button variant="ghost" size="sm" className="gap-1">
+                      <GitCompare className="h-4 w-4" />
+                      Changes
+                    </Button>
+                  </Link>
+                )}
+                {!isCurrent && canRestore && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    disabled={restoringVersion !== null}
+                    onClick={() => handleRestore(revision.versionNumber)}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    {restoringVersion === revision.versionNumber ? 'Restoring...' : 'Restore'}
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {isExpanded && (
+              <div className="mt-4 space-y-2 border-t border-border pt-4">
+                <p className="font-medium text-foreground">{revision.title}</p>
+                <p className="text-sm text-muted-foreground">{revision.description}</p>
+                <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                  <span className="rounded-full bg-primary/10 px-2 py-0.5 font-medium text-primary">
+                    {revision.category}
+                  </span>
+                  <span className="rounded-md bg-muted px-2 py-0.5">{revision.outputFormat}</span>
+                  {revision.tags.map((tag) => (
+                    <span key={tag} className="rounded-md bg-muted px-2 py-0.5">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+                <div className="rounded-lg border border-border bg-muted/30 p-4">
+                  <pre className="prompt-content overflow-x-auto whitespace-pre-wrap font-mono text-sm leading-relaxed text-foreground">
+                    {revision.promptContent}
+                  </pre>
+                </div>
+              </div>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
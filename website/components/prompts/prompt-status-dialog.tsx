@@ -0,0 +1,134 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Archive } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { setPromptStatusAction } from '@/app/actions/prompt-actions'
+import { toast } from 'sonner'
+
+type LifecycleStatus = 'published' | 'archived' | 'deprecated'
+
+interface PromptStatusDialogProps {
+  promptId: string
+  status: LifecycleStatus
+  replacementPromptId: string | null
+}
+
+const STATUS_OPTIONS: { value: LifecycleStatus; label: string; description: string }[] = [
+  { value: 'published', label: 'Published', description: 'Listed and recommended as usual' },
+  { value: 'deprecated', label: 'Deprecated', description: 'Still listed, but flagged as outdated' },
+  { value: 'archived', label: 'Archived', description: 'Kept for reference, no longer maintained' },
+]
+
+/**
+ * Accepts a prompt URL or a bare ID and returns the ID
+ */
+function parsePromptReference(value: string): string | null {
+  const match = value.trim().match(/([a-f0-9]{24})\/?$/i)
+  return match ? match[1] : null
+}
+
+export default function PromptStatusDialog({
+  promptId,
+  status: currentStatus,
+  replacementPromptId,
+}: PromptStatusDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [status, setStatus] = useState<LifecycleStatus>(currentStatus)
+  const [replacement, setReplacement] = useState(replacementPromptId || '')
+
+  const handleSave = async () => {
+    const replacementId = replacement.trim() ? parsePromptReference(replacement) : null
+    if (status !== 'published' && replacement.trim() && !replacementId) {
+      toast.error('Enter a prompt link or ID for the replacement')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const result = await setPromptStatusAction(
+        promptId,
+        status,
+        status === 'published' ? null : replacementId
+      )
+
+      if (result.success) {
+        toast.success('Status updated')
+        setIsOpen(false)
+        router.refresh()
+      } else if (result.error) {
+        toast.error(result.error)
+      }
+    } catch {
+      toast.error('Failed to update status')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!isOpen) {
+    return (
+      <Button onClick={() => setIsOpen(true)} variant="outline" className="gap-2">
+        <Archive className="h-4 w-4" />
+        Status
+      </Button>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="w-full max-w-md space-y-4 rounded-lg bg-white p-6 shadow-lg">
+        <h2 className="text-xl font-semibold text-foreground">Prompt Status</h2>
+
+        <div className="space-y-2">
+          {STATUS_OPTIONS.map((option) => (
+            <label key={option.value} className="flex cursor-pointer items-start gap-2 text-sm">
+              <input
+                type="radio"
+                name="status"
+                value={option.value}
+                checked={status === option.value}
+                onChange={() => setStatus(option.value)}
+                className="mt-0.5 h-4 w-4 text-primary focus:ring-2 focus:ring-primary"
+              />
+              <span>
+                <span className="font-medium text-foreground">{option.label}</span>
+                <span className="ml-2 text-muted-foreground">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {status !== 'published' && (
+          <div>
+            <Label htmlFor="replacement">
+              Recommended replacement
+              <span className="ml-2 text-xs font-normal text-muted-foreground">(optional)</span>
+            </Label>
+            <Input
+              id="replacement"
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              placeholder="Paste a prompt link or ID"
+              className="mt-1.5"
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+import Link from 'next/link'
+import { Sparkles } from 'lucide-react'
+import type { Category } from '@/lib/constants'
+
+// Serialized similar prompt for the detail page
+export interface SimilarPromptSummary {
+  id: string
+  title: string
+  description: string
+  category: Category
+  authorName: string
+}
+
+interface SimilarPromptsProps {
+  prompts: SimilarPromptSummary[]
+}
+
+export default function SimilarPrompts({ prompts }: SimilarPromptsProps) {
+  if (prompts.length === 0) return null
+
+  return (
+    <section className="mt-8 border-t border-border pt-6">
+      <h2 className="mb-3 flex items-center gap-2 text-lg font-semibold">
+        <Sparkles className="h-4 w-4 text-primary" />
+        Similar prompts
+      </h2>
+      <ul className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        {prompts.map((prompt) => (
+          <li key={prompt.id}>
+            <Link
+              href={`/prompts/${prompt.id}`}
+              className="block h-full rounded-lg border border-border p-4 transition-colors hover:border-primary/50 hover:bg-muted/30"
+            >
+              <div className="mb-1 flex items-start justify-between gap-2">
+                <span className="font-medium text-foreground">{prompt.title}</span>
+                <span className="shrink-0 rounded-full bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary">
+                  {prompt.category}
+                </span>
+              </div>
+              <p className="mb-2 line-clamp-2 text-sm text-muted-foreground">{prompt.description}</p>
+              <p className="text-xs text-muted-foreground">By {prompt.authorName}</p>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
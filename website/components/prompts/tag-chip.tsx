@@ -0,0 +1,30 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+
+interface TagChipProps {
+  tag: string
+}
+
+/**
+ * Tag that filters the browse page when clicked.
+ * Rendered as a button because cards are already links.
+ */
+export default function TagChip({ tag }: TagChipProps) {
+  const router = useRouter()
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        // Don't open the card's prompt
+        e.preventDefault()
+        e.stopPropagation()
+        router.push(`/?tags=${encodeURIComponent(tag)}`)
+      }}
+      className="rounded-md bg-muted px-2 py-1 text-xs text-muted-foreground transition-colors hover:bg-primary/10 hover:text-primary"
+    >
+      {tag}
+    </button>
+  )
+}
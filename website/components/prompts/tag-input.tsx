@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import { useDebouncedCallback } from 'use-debounce'
+import { X, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { getTagSuggestionsAction } from '@/app/actions/prompt-actions'
+import { normalizeTag } from '@/lib/utils/tags'
+import type { TagCount } from '@/types/prompt'
+
+interface TagInputProps {
+  id?: string
+  tags: string[]
+  onChange: (tags: string[]) => void
+  maxTags?: number
+}
+
+/**
+ * Tag editor that normalizes tags as they are added and suggests
+ * existing tags (most used first) while typing.
+ */
+export default function TagInput({ id, tags, onChange, maxTags = 10 }: TagInputProps) {
+  const [value, setValue] = useState('')
+  const [suggestions, setSuggestions] = useState<TagCount[]>([])
+  const [highlighted, setHighlighted] = useState(-1)
+  const isFull = tags.length >= maxTags
+
+  const fetchSuggestions = useDebouncedCallback(async (query: string) => {
+    if (!normalizeTag(query)) {
+      setSuggestions([])
+      return
+    }
+
+    try {
+      const result = await getTagSuggestionsAction(query)
+      if (result.success && result.tags) {
+        setSuggestions(result.tags.filter((suggestion) => !tags.includes(suggestion.tag)))
+        setHighlighted(-1)
+      }
+    } catch {
+      // Suggestions are optional; typing a tag still works without them
+      setSuggestions([])
+    }
+  }, 200)
+
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag)
+    if (normalized && !tags.includes(normalized) && !isFull) {
+      onChange([...tags, normalized])
+    }
+    setValue('')
+    setSuggestions([])
+    setHighlighted(-1)
+  }
+
+  const removeTag = (tagToRemove: string) => {
+    onChange(tags.filter((tag) => tag !== tagToRemove))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault()
+      setHighlighted((index) => (index + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault()
+      setHighlighted((index) => (index <= 0 ? suggestions.length - 1 : index - 1))
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      addTag(highlighted >= 0 ? suggestions[highlighted].tag : value)
+    } else if (e.key === 'Escape') {
+      setSuggestions([])
+    }
+  }
+
+  return (
+    <div>
+      <div className="relative mt-1.5 flex gap-2">
+        <Input
+          id={id}
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value)
+            fetchSuggestions(e.target.value)
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setSuggestions([])}
+          placeholder="Add a tag (press Enter)"
+          disabled={isFull}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={suggestions.length > 0}
+          aria-controls={id ? `${id}-suggestions` : undefined}
+        />
+        <Button
+          type="button"
+          onClick={() => addTag(value)}
+          variant="outline"
+          disabled={isFull || !value.trim()}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+        {suggestions.length > 0 && (
+          <ul
+            id={id ? `${id}-suggestions` : undefined}
+            role="listbox"
+            className="absolute left-0 top-full z-10 mt-1 w-full rounded-md border border-border bg-white py-1 shadow-lg"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.tag}
+                role="option"
+                aria-selected={index === highlighted}
+                // Keep focus in the input so the click registers before blur clears the list
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  addTag(suggestion.tag)
+                }}
+                className={`flex cursor-pointer items-center justify-between px-3 py-1.5 text-sm ${
+                  index === highlighted ? 'bg-primary/10 text-primary' : 'text-foreground hover:bg-muted'
+                }`}
+              >
+                {suggestion.tag}
+                <span className="text-xs text-muted-foreground">{suggestion.count}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {tags.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 rounded-md bg-primary/10 px-2 py-1 text-sm text-primary"
+            >
+              {tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="hover:text-primary-dark"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
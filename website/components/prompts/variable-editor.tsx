@@ -0,0 +1,143 @@
+'use client'
+
+import { Braces } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { PromptVariable, PromptVariableType } from '@/types/prompt'
+
+interface VariableEditorProps {
+  variables: PromptVariable[]
+  onChange: (variables: PromptVariable[]) => void
+  error?: string
+}
+
+const selectClassName =
+  'mt-1 w-full rounded-md border border-border bg-white px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2'
+
+export default function VariableEditor({ variables, onChange, error }: VariableEditorProps) {
+  const updateVariable = (index: number, changes: Partial<PromptVariable>) => {
+    onChange(
+      variables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable))
+    )
+  }
+
+  return (
+    <div>
+      <Label>
+        Variables
+        <span className="ml-2 text-xs font-normal text-muted-foreground">
+          (detected from {'{{PLACEHOLDERS}}'} in the prompt content)
+        </span>
+      </Label>
+
+      {variables.length === 0 ? (
+        <p className="mt-1.5 flex items-center gap-2 text-sm text-muted-foreground">
+          <Braces className="h-4 w-4" />
+          Add placeholders like {'{{TOPIC}}'} to the prompt to let people fill them in before copying.
+        </p>
+      ) : (
+        <div className="mt-1.5 space-y-3">
+          {variables.map((variable, index) => (
+            <div key={variable.name} className="rounded-md border border-border p-4">
+              <div className="mb-3 flex items-center justify-between">
+                <code className="rounded bg-primary/10 px-2 py-0.5 text-sm text-primary">
+                  {`{{${variable.name}}}`}
+                </code>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={variable.required}
+                    onChange={(e) => updateVariable(index, { required: e.target.checked })}
+                    className="h-4 w-4 rounded border-border text-primary focus:ring-2 focus:ring-primary focus:ring-offset-2"
+                  />
+                  Required
+                </label>
+              </div>
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                <div>
+                  <Label htmlFor={`variable-${variable.name}-type`} className="text-xs">
+                    Type
+                  </Label>
+                  <select
+                    id={`variable-${variable.name}-type`}
+                    value={variable.type}
+                    onChange={(e) =>
+                      updateVariable(index, { type: e.target.value as PromptVariableType })
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="text">Text</option>
+                    <option value="multiline">Multi-line text</option>
+                    <option value="enum">Choice</option>
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor={`variable-${variable.name}-default`} className="text-xs">
+                    Default value
+                  </Label>
+                  {variable.type === 'enum' ? (
+                    <select
+                      id={`variable-${variable.name}-default`}
+                      value={variable.defaultValue}
+                      onChange={(e) => updateVariable(index, { defaultValue: e.target.value })}
+                      className={selectClassName}
+                    >
+                      <option value="">No default</option>
+                      {variable.options.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <Input
+                      id={`variable-${variable.name}-default`}
+                      value={variable.defaultValue}
+                      onChange={(e) => updateVariable(index, { defaultValue: e.target.value })}
+                      className="mt-1"
+                    />
+                  )}
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor={`variable-${variable.name}-description`} className="text-xs">
+                    Description
+                  </Label>
+                  <Input
+                    id={`variable-${variable.name}-description`}
+                    value={variable.description}
+                    onChange={(e) => updateVariable(index, { description: e.target.value })}
+                    placeholder="Shown as a hint when filling in the prompt"
+                    className="mt-1"
+                  />
+                </div>
+                {variable.type === 'enum' && (
+                  <div className="md:col-span-2">
+                    <Label htmlFor={`variable-${variable.name}-options`} className="text-xs">
+                      Options (comma-separated)
+                    </Label>
+                    <Input
+                      id={`variable-${variable.name}-options`}
+                      defaultValue={variable.options.join(', ')}
+                      onBlur={(e) =>
+                        updateVariable(index, {
+                          options: e.target.value
+                            .split(',')
+                            .map((option) => option.trim())
+                            .filter((option) => option.length > 0),
+                        })
+                      }
+                      placeholder="e.g., formal, casual, playful"
+                      className="mt-1"
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
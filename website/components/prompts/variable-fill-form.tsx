@@ -0,0 +1,70 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import type { PromptVariable } from '@/types/prompt'
+
+interface VariableFillFormProps {
+  variables: PromptVariable[]
+  values: Record<string, string>
+  onChange: (name: string, value: string) => void
+}
+
+export default function VariableFillForm({ variables, values, onChange }: VariableFillFormProps) {
+  return (
+    <div className="grid grid-cols-1 gap-4 rounded-lg border border-border bg-white p-4 md:grid-cols-2">
+      {variables.map((variable) => {
+        const id = `fill-${variable.name}`
+        const value = values[variable.name] ?? ''
+
+        return (
+          <div
+            key={variable.name}
+            className={variable.type === 'multiline' ? 'md:col-span-2' : undefined}
+          >
+            <Label htmlFor={id}>
+              <code className="text-sm">{variable.name}</code>
+              {variable.required && <span className="text-red-500"> *</span>}
+            </Label>
+            {variable.type === 'multiline' && (
+              <Textarea
+                id={id}
+                value={value}
+                onChange={(e) => onChange(variable.name, e.target.value)}
+                rows={4}
+                className="mt-1.5"
+              />
+            )}
+            {variable.type === 'enum' && (
+              <select
+                id={id}
+                value={value}
+                onChange={(e) => onChange(variable.name, e.target.value)}
+                className="mt-1.5 w-full rounded-md border border-border bg-white px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+              >
+                <option value="">Select...</option>
+                {variable.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            )}
+            {variable.type === 'text' && (
+              <Input
+                id={id}
+                value={value}
+                onChange={(e) => onChange(variable.name, e.target.value)}
+                className="mt-1.5"
+              />
+            )}
+            {variable.description && (
+              <p className="mt-1 text-xs text-muted-foreground">{variable.description}</p>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+/**
+ * Next.js instrumentation hook, run once when the server starts.
+ *
+ * Ensures the declared MongoDB indexes exist (search depends on the text
+ * index) and logs any drift. Set ENSURE_INDEXES_ON_STARTUP=false to skip,
+ * e.g. when indexes are managed with `npm run db:indexes` during deploys.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.ENSURE_INDEXES_ON_STARTUP === 'false') {
+    return
+  }
+
+  const { hasDrift } = await import('@/lib/db/indexes')
+
+  // The client module throws on import when MONGODB_URI is missing: log it
+  // like any other index failure rather than crash startup
+  let mongodb: typeof import('@/lib/db/mongodb')
+  try {
+    mongodb = await import('@/lib/db/mongodb')
+  } catch (error) {
+    console.error('[DB] Failed to ensure indexes:', error)
+    return
+  }
+
+  try {
+    await mongodb.ensureIndexes()
+  } catch (error) {
+    console.error('[DB] Failed to ensure indexes:', error)
+  }
+
+  try {
+    const drift = await mongodb.getIndexDrift()
+    for (const [collection, report] of Object.entries(drift)) {
+      if (hasDrift(report)) {
+        console.warn(`[DB] Index drift on ${collection}:`, JSON.stringify(report))
+      }
+    }
+  } catch (error) {
+    console.error('[DB] Failed to check index drift:', error)
+  }
+}
@@ -2,12 +2,18 @@
  * Access Control Validation Tests
  *
  * Tests for validateWebexAccess() function that implements dual-layer
- * access control with organization ID and email domain validation.
+ * access control with organization ID and email domain validation, and for
+ * evaluateAccessPolicy() rule-based access policies.
  *
  * Following TDD: Tests written BEFORE implementation.
  */
 
-import { AccessControlConfig, AccessValidationResult } from '../access-control';
+import {
+  AccessControlConfig,
+  AccessPolicyResult,
+  AccessValidationResult,
+} from '../access-control';
+import type { AccessPolicy, AccessRule } from '@/lib/validations/access-policy';
 
 describe('validateWebexAccess', () => {
   describe('Email validation', () => {
@@ -444,6 +450,162 @@ describe('validateWebexAccess', () => {
   });
 });
 
+describe('evaluateAccessPolicy', () => {
+  const rule = (overrides: Partial<AccessRule>): AccessRule => ({
+    effect: 'allow',
+    email: undefined,
+    domain: undefined,
+    orgId: undefined,
+    expiresAt: null,
+    note: undefined,
+    ...overrides,
+  });
+
+  it('should deny access when email is missing', () => {
+    const { evaluateAccessPolicy } = require('../access-control');
+    const result: AccessPolicyResult = evaluateAccessPolicy(
+      { rules: [], defaultEffect: 'allow' },
+      undefined,
+      'org-123'
+    );
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe('NoEmail');
+  });
+
+  it('should apply the first matching rule', () => {
+    const policy: AccessPolicy = {
+      rules: [
+        rule({ effect: 'deny', email: 'intern@example.com' }),
+        rule({ domain: 'example.com' }),
+      ],
+      defaultEffect: 'deny',
+    };
+
+    const { evaluateAccessPolicy } = require('../access-control');
+    const denied: AccessPolicyResult = evaluateAccessPolicy(policy, 'Intern@Example.com', undefined);
+    const allowed: AccessPolicyResult = evaluateAccessPolicy(policy, 'user@example.com', undefined);
+
+    expect(denied.allowed).toBe(false);
+    expect(denied.reason).toBe('DeniedByRule');
+    expect(denied.ruleIndex).toBe(0);
+    expect(denied.trace).toEqual(['matched']);
+    expect(allowed.allowed).toBe(true);
+    expect(allowed.ruleIndex).toBe(1);
+    expect(allowed.trace).toEqual(['no_match', 'matched']);
+  });
+
+  it('should require every condition of a rule to match', () => {
+    const policy: AccessPolicy = {
+      rules: [rule({ domain: 'example.com', orgId: 'org-123' })],
+      defaultEffect: 'deny',
+    };
+
+    const { evaluateAccessPolicy } = require('../access-control');
+
+    expect(evaluateAccessPolicy(policy, 'user@example.com', 'org-123').allowed).toBe(true);
+    expect(evaluateAccessPolicy(policy, 'user@example.com', 'org-999').allowed).toBe(false);
+    expect(evaluateAccessPolicy(policy, 'user@other.com', 'org-123').allowed).toBe(false);
+  });
+
+  it('should apply the default effect when no rule matches', () => {
+    const { evaluateAccessPolicy } = require('../access-control');
+    const rules = [rule({ effect: 'deny', domain: 'competitor.com' })];
+
+    const denied: AccessPolicyResult = evaluateAccessPolicy(
+      { rules, defaultEffect: 'deny' },
+      'user@example.com',
+      undefined
+    );
+    const allowed: AccessPolicyResult = evaluateAccessPolicy(
+      { rules, defaultEffect: 'allow' },
+      'user@example.com',
+      undefined
+    );
+
+    expect(denied.allowed).toBe(false);
+    expect(denied.reason).toBe('NoMatchingRule');
+    expect(denied.ruleIndex).toBeNull();
+    expect(allowed.allowed).toBe(true);
+    expect(allowed.ruleIndex).toBeNull();
+  });
+
+  it('should skip expired rules', () => {
+    const now = new Date('2026-06-01T00:00:00Z');
+    const policy: AccessPolicy = {
+      rules: [
+        rule({ email: 'guest@partner.com', expiresAt: new Date('2026-05-31T00:00:00Z') }),
+        rule({ email: 'contractor@partner.com', expiresAt: new Date('2026-07-01T00:00:00Z') }),
+      ],
+      defaultEffect: 'deny',
+    };
+
+    const { evaluateAccessPolicy } = require('../access-control');
+    const expired: AccessPolicyResult = evaluateAccessPolicy(policy, 'guest@partner.com', undefined, now);
+    const active: AccessPolicyResult = evaluateAccessPolicy(policy, 'contractor@partner.com', undefined, now);
+
+    expect(expired.allowed).toBe(false);
+    expect(expired.trace).toEqual(['expired', 'no_match']);
+    expect(active.allowed).toBe(true);
+    expect(active.trace).toEqual(['expired', 'matched']);
+  });
+});
+
+describe('matchesDomain', () => {
+  it('should match exact domains', () => {
+    const { matchesDomain } = require('../access-control');
+
+    expect(matchesDomain('example.com', 'example.com')).toBe(true);
+    expect(matchesDomain('example.com', 'sub.example.com')).toBe(false);
+  });
+
+  it('should match subdomains, but not the domain itself, with a wildcard', () => {
+    const { matchesDomain } = require('../access-control');
+
+    expect(matchesDomain('*.example.com', 'eu.example.com')).toBe(true);
+    expect(matchesDomain('*.example.com', 'a.b.example.com')).toBe(true);
+    expect(matchesDomain('*.example.com', 'example.com')).toBe(false);
+    expect(matchesDomain('*.example.com', 'badexample.com')).toBe(false);
+  });
+});
+
+describe('policyFromAccessControlConfig', () => {
+  it('should allow everyone when no allowlist is configured', () => {
+    const { policyFromAccessControlConfig } = require('../access-control');
+
+    expect(
+      policyFromAccessControlConfig({ allowedOrgIds: [], allowedDomains: [], mode: 'AND' })
+    ).toEqual({ rules: [], defaultEffect: 'allow' });
+  });
+
+  it('should admit the same users as the allowlists in both modes', () => {
+    const { policyFromAccessControlConfig, evaluateAccessPolicy, validateWebexAccess } =
+      require('../access-control');
+    const identities: [string, string | undefined][] = [
+      ['user@example.com', 'org-1'],
+      ['user@example.com', 'org-3'],
+      ['user@company.com', 'org-2'],
+      ['user@other.com', 'org-1'],
+      ['user@other.com', undefined],
+    ];
+
+    for (const mode of ['AND', 'OR'] as const) {
+      const config: AccessControlConfig = {
+        allowedOrgIds: ['org-1', 'org-2'],
+        allowedDomains: ['example.com', 'company.com'],
+        mode,
+      };
+      const policy: AccessPolicy = policyFromAccessControlConfig(config);
+
+      for (const [email, orgId] of identities) {
+        expect(evaluateAccessPolicy(policy, email, orgId).allowed).toBe(
+          validateWebexAccess(email, orgId, config).allowed
+        );
+      }
+    }
+  });
+});
+
 describe('parseAccessControlConfig', () => {
   it('should parse comma-separated organization IDs', () => {
     process.env.ALLOWED_WEBEX_ORG_IDS = 'org-1,org-2,org-3';
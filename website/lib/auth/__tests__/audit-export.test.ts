@@ -0,0 +1,115 @@
+/**
+ * Audit Log Export Tests
+ *
+ * Tests for formatting audit logs as CSV and JSON Lines and streaming exports
+ *
+ * @jest-environment node
+ */
+
+import {
+  AUDIT_CSV_COLUMNS,
+  createAuditExportStream,
+  escapeCsvValue,
+  toCsvRow,
+  toJsonLine,
+} from '../audit-export';
+import type { AuthAuditLog } from '../audit-logger';
+
+const log: AuthAuditLog = {
+  action: 'access_denied',
+  email: 'external@gmail.com',
+  orgId: 'org-123',
+  provider: 'webex',
+  reason: 'UnauthorizedDomain',
+  ipAddress: '203.0.113.195',
+  userAgent: 'Mozilla/5.0 (X11; Linux x86_64)',
+  timestamp: new Date('2025-01-01T12:00:00Z'),
+};
+
+async function* iterate(logs: AuthAuditLog[]) {
+  yield* logs;
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return await new Response(stream).text();
+}
+
+describe('escapeCsvValue', () => {
+  it('should leave plain values unquoted', () => {
+    expect(escapeCsvValue('sign_in_success')).toBe('sign_in_success');
+    expect(escapeCsvValue(42)).toBe('42');
+  });
+
+  it('should quote separators, quotes and line breaks', () => {
+    expect(escapeCsvValue('a,b')).toBe('"a,b"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('line\nbreak')).toBe('"line\nbreak"');
+  });
+
+  it('should write empty cells for missing values and ISO dates', () => {
+    expect(escapeCsvValue(undefined)).toBe('');
+    expect(escapeCsvValue(null)).toBe('');
+    expect(escapeCsvValue(new Date('2025-01-01T12:00:00Z'))).toBe('2025-01-01T12:00:00.000Z');
+  });
+
+  it('should neutralize spreadsheet formulas', () => {
+    expect(escapeCsvValue('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"');
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)");
+  });
+});
+
+describe('toCsvRow', () => {
+  it('should write the columns in order', () => {
+    expect(toCsvRow(log)).toBe(
+      '2025-01-01T12:00:00.000Z,access_denied,,external@gmail.com,org-123,webex,UnauthorizedDomain,203.0.113.195,Mozilla/5.0 (X11; Linux x86_64),'
+    );
+  });
+
+  it('should write metadata as JSON', () => {
+    expect(toCsvRow({ ...log, metadata: { isNewUser: true } })).toMatch(/,"\{""isNewUser"":true\}"$/);
+  });
+});
+
+describe('toJsonLine', () => {
+  it('should write one line of JSON with the id as a string', () => {
+    const line = toJsonLine({ ...log, _id: { toString: () => 'abc123' } });
+
+    expect(line).not.toContain('\n');
+    expect(JSON.parse(line)).toMatchObject({
+      _id: 'abc123',
+      action: 'access_denied',
+      timestamp: '2025-01-01T12:00:00.000Z',
+    });
+  });
+});
+
+describe('createAuditExportStream', () => {
+  it('should stream CSV with a header row', async () => {
+    const text = await readAll(createAuditExportStream(iterate([log, log]), 'csv'));
+    const lines = text.trimEnd().split('\n');
+
+    expect(lines[0]).toBe(AUDIT_CSV_COLUMNS.join(','));
+    expect(lines).toHaveLength(3);
+  });
+
+  it('should stream JSON Lines without a header', async () => {
+    const text = await readAll(createAuditExportStream(iterate([log]), 'jsonl'));
+
+    expect(text.endsWith('\n')).toBe(true);
+    expect(JSON.parse(text).email).toBe('external@gmail.com');
+  });
+
+  it('should write only the header when nothing matches', async () => {
+    expect(await readAll(createAuditExportStream(iterate([]), 'csv'))).toBe(
+      `${AUDIT_CSV_COLUMNS.join(',')}\n`
+    );
+  });
+
+  it('should close the source when the download is cancelled', async () => {
+    const source = Object.assign(iterate([log]), { close: jest.fn().mockResolvedValue(undefined) });
+
+    await createAuditExportStream(source, 'csv').cancel();
+
+    expect(source.close).toHaveBeenCalled();
+  });
+});
@@ -5,8 +5,11 @@
  * to MongoDB for compliance and security monitoring.
  *
  * Following TDD: Tests written BEFORE implementation.
+ *
+ * @jest-environment node
  */
 
+import { ObjectId, type Db } from 'mongodb';
 import { AuthAuditLog, AuthAction } from '../audit-logger';
 
 describe('getRequestContext', () => {
@@ -118,6 +121,49 @@ describe('getRequestContext', () => {
   });
 });
 
+describe('getCurrentRequestContext', () => {
+  afterEach(() => {
+    jest.dontMock('next/headers');
+  });
+
+  it('should read the context from the request being handled', async () => {
+    jest.doMock('next/headers', () => ({
+      headers: async () => ({
+        get: (name: string) =>
+          ({ 'x-real-ip': '198.51.100.7', 'user-agent': 'Mozilla/5.0' } as Record<string, string>)[name] ??
+          null,
+      }),
+    }));
+
+    // A fresh copy of the module picks up the mocked headers
+    await jest.isolateModulesAsync(async () => {
+      const { getCurrentRequestContext } = await import('../audit-logger');
+
+      await expect(getCurrentRequestContext()).resolves.toEqual({
+        ipAddress: '198.51.100.7',
+        userAgent: 'Mozilla/5.0',
+      });
+    });
+  });
+
+  it('should return unknown values outside a request', async () => {
+    jest.doMock('next/headers', () => ({
+      headers: async () => {
+        throw new Error('`headers` was called outside a request scope');
+      },
+    }));
+
+    await jest.isolateModulesAsync(async () => {
+      const { getCurrentRequestContext } = await import('../audit-logger');
+
+      await expect(getCurrentRequestContext()).resolves.toEqual({
+        ipAddress: 'unknown',
+        userAgent: 'unknown',
+      });
+    });
+  });
+});
+
 describe('createAuthAuditLog', () => {
   let mockDb: any;
   let mockInsertOne: jest.Mock;
@@ -176,6 +222,19 @@ describe('createAuthAuditLog', () => {
     expect(insertCall.userId).toBeUndefined();
   });
 
+  it('should store the email lowercased', async () => {
+    const { createAuthAuditLog } = require('../audit-logger');
+
+    await createAuthAuditLog(mockDb, {
+      action: 'sign_in_failed',
+      email: ' User@Example.COM ',
+      ipAddress: '203.0.113.195',
+      userAgent: 'Mozilla/5.0',
+    });
+
+    expect(mockInsertOne.mock.calls[0][0].email).toBe('user@example.com');
+  });
+
   it('should create audit log for sign-out', async () => {
     const { createAuthAuditLog } = require('../audit-logger');
 
@@ -322,6 +381,84 @@ describe('createAuthAuditLog', () => {
   });
 });
 
+describe('buildAuditLogQuery', () => {
+  it('should match only the given filters', async () => {
+    const { buildAuditLogQuery } = await import('../audit-logger');
+
+    expect(buildAuditLogQuery({})).toEqual({});
+    expect(
+      buildAuditLogQuery({ action: 'access_denied', email: 'user@example.com', ipAddress: '203.0.113.7' })
+    ).toEqual({ action: 'access_denied', email: 'user@example.com', ipAddress: '203.0.113.7' });
+  });
+
+  it('should cover whole UTC days in the date range', async () => {
+    const { buildAuditLogQuery } = await import('../audit-logger');
+
+    expect(buildAuditLogQuery({ from: '2025-01-01', to: '2025-01-31' })).toEqual({
+      timestamp: {
+        $gte: new Date('2025-01-01T00:00:00Z'),
+        $lt: new Date('2025-02-01T00:00:00Z'),
+      },
+    });
+  });
+});
+
+describe('getAuditLogPage', () => {
+  const logs = [3, 2, 1].map((day) => ({
+    _id: new ObjectId(),
+    action: 'sign_in_success',
+    ipAddress: '203.0.113.7',
+    userAgent: 'Mozilla/5.0',
+    timestamp: new Date(`2025-01-0${day}T12:00:00Z`),
+  }));
+
+  function mockDb(results: typeof logs) {
+    const cursor = {
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      toArray: jest.fn().mockResolvedValue(results),
+    };
+    const find = jest.fn().mockReturnValue(cursor);
+    return { db: { collection: jest.fn().mockReturnValue({ find }) } as unknown as Db, find, cursor };
+  }
+
+  it('should return a cursor when there are older logs', async () => {
+    const { getAuditLogPage } = await import('../audit-logger');
+    const { db, cursor } = mockDb(logs);
+
+    const page = await getAuditLogPage(db, {}, undefined, 2);
+
+    expect(cursor.sort).toHaveBeenCalledWith({ timestamp: -1, _id: -1 });
+    expect(cursor.limit).toHaveBeenCalledWith(3);
+    expect(page.logs).toHaveLength(2);
+    expect(page.nextCursor).not.toBeNull();
+  });
+
+  it('should continue after the cursor', async () => {
+    const { getAuditLogPage } = await import('../audit-logger');
+    const first = await getAuditLogPage(mockDb(logs).db, {}, undefined, 2);
+    const { db, find } = mockDb(logs.slice(2));
+
+    const page = await getAuditLogPage(db, { action: 'sign_in_success' }, first.nextCursor!, 2);
+
+    const query = find.mock.calls[0][0];
+    expect(query.action).toBe('sign_in_success');
+    expect(query.$and[0].$or[0]).toEqual({ timestamp: { $lt: logs[1].timestamp } });
+    expect(query.$and[0].$or[1].timestamp).toEqual(logs[1].timestamp);
+    expect(query.$and[0].$or[1]._id.$lt.equals(logs[1]._id)).toBe(true);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('should start from the newest log when the cursor is malformed', async () => {
+    const { getAuditLogPage } = await import('../audit-logger');
+    const { db, find } = mockDb([]);
+
+    await getAuditLogPage(db, {}, 'not-a-cursor');
+
+    expect(find).toHaveBeenCalledWith({});
+  });
+});
+
 describe('AuthAction types', () => {
   it('should have all expected action types defined in TypeScript', () => {
     // AuthAction is a TypeScript type, not a runtime value
@@ -0,0 +1,188 @@
+/**
+ * Prompt Ownership Tests
+ *
+ * Tests for admin detection and the ownership checks used by prompt
+ * and collection server actions and pages.
+ */
+
+import {
+  parseAdminEmails,
+  isAdmin,
+  canModifyPrompt,
+  canViewPrompt,
+  canViewCollection,
+  canEditCollection,
+  canManageCollection,
+  CollectionAccess,
+  SessionUser,
+} from '../ownership';
+
+describe('parseAdminEmails', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should parse, trim and lowercase admin emails', () => {
+    process.env.ADMIN_EMAILS = ' Alice@Example.com, ,bob@example.com ';
+
+    expect(parseAdminEmails()).toEqual(['alice@example.com', 'bob@example.com']);
+  });
+
+  it('should return an empty list when unset', () => {
+    delete process.env.ADMIN_EMAILS;
+
+    expect(parseAdminEmails()).toEqual([]);
+  });
+});
+
+describe('isAdmin', () => {
+  it('should match emails case-insensitively', () => {
+    expect(isAdmin({ email: 'ALICE@example.com' }, ['alice@example.com'])).toBe(true);
+  });
+
+  it('should return false for users without an email or not on the list', () => {
+    expect(isAdmin({ email: '' }, ['alice@example.com'])).toBe(false);
+    expect(isAdmin({ email: 'eve@example.com' }, ['alice@example.com'])).toBe(false);
+    expect(isAdmin(null, ['alice@example.com'])).toBe(false);
+  });
+});
+
+describe('canModifyPrompt', () => {
+  const author: SessionUser = {
+    id: '507f1f77bcf86cd799439011',
+    name: 'Author',
+    email: 'author@example.com',
+  };
+  const other: SessionUser = {
+    id: '507f1f77bcf86cd799439012',
+    name: 'Other',
+    email: 'other@example.com',
+  };
+
+  beforeEach(() => {
+    process.env.ADMIN_EMAILS = 'admin@example.com';
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_EMAILS;
+  });
+
+  it('should allow the author', () => {
+    expect(canModifyPrompt(author.id, author)).toBe(true);
+  });
+
+  it('should compare ObjectId-like author IDs by string value', () => {
+    expect(canModifyPrompt({ toString: () => author.id }, author)).toBe(true);
+  });
+
+  it('should deny other users', () => {
+    expect(canModifyPrompt(author.id, other)).toBe(false);
+  });
+
+  it('should allow admins', () => {
+    expect(canModifyPrompt(author.id, { ...other, email: 'admin@example.com' })).toBe(true);
+    expect(canModifyPrompt(author.id, { ...other, role: 'admin' })).toBe(true);
+  });
+
+  it('should allow curators but not members', () => {
+    expect(canModifyPrompt(author.id, { ...other, role: 'curator' })).toBe(true);
+    expect(canModifyPrompt(author.id, { ...other, role: 'member' })).toBe(false);
+  });
+
+  it('should deny unauthenticated requests', () => {
+    expect(canModifyPrompt(author.id, null)).toBe(false);
+  });
+});
+
+describe('canViewPrompt', () => {
+  const author: SessionUser = {
+    id: '507f1f77bcf86cd799439011',
+    name: 'Author',
+    email: 'author@example.com',
+  };
+  const other: SessionUser = {
+    id: '507f1f77bcf86cd799439012',
+    name: 'Other',
+    email: 'other@example.com',
+  };
+
+  it('should show published public prompts to everyone', () => {
+    expect(canViewPrompt({ authorId: author.id, isPublic: true, status: 'published' }, other)).toBe(true);
+    expect(canViewPrompt({ authorId: author.id, isPublic: true }, null)).toBe(true);
+  });
+
+  it('should show archived and deprecated public prompts', () => {
+    expect(canViewPrompt({ authorId: author.id, isPublic: true, status: 'archived' }, other)).toBe(true);
+    expect(canViewPrompt({ authorId: author.id, isPublic: true, status: 'deprecated' }, other)).toBe(true);
+  });
+
+  it('should hide private prompts and drafts from other users', () => {
+    expect(canViewPrompt({ authorId: author.id, isPublic: false }, other)).toBe(false);
+    expect(canViewPrompt({ authorId: author.id, isPublic: true, status: 'draft' }, other)).toBe(false);
+  });
+
+  it('should show drafts to their author', () => {
+    expect(canViewPrompt({ authorId: author.id, isPublic: true, status: 'draft' }, author)).toBe(true);
+  });
+});
+
+describe('collection access', () => {
+  const owner: SessionUser = {
+    id: '507f1f77bcf86cd799439011',
+    name: 'Owner',
+    email: 'owner@example.com',
+  };
+  const collaborator: SessionUser = {
+    id: '507f1f77bcf86cd799439013',
+    name: 'Collaborator',
+    email: 'collaborator@example.com',
+  };
+  const other: SessionUser = {
+    id: '507f1f77bcf86cd799439012',
+    name: 'Other',
+    email: 'other@example.com',
+  };
+
+  const collection = (visibility: CollectionAccess['visibility']): CollectionAccess => ({
+    ownerId: owner.id,
+    visibility,
+    collaborators: [{ userId: collaborator.id }],
+  });
+
+  it('should show public collections to everyone', () => {
+    expect(canViewCollection(collection('public'), null)).toBe(true);
+  });
+
+  it('should show org collections to signed-in users only', () => {
+    expect(canViewCollection(collection('org'), other)).toBe(true);
+    expect(canViewCollection(collection('org'), null)).toBe(false);
+  });
+
+  it('should show private collections to the owner and collaborators only', () => {
+    expect(canViewCollection(collection('private'), owner)).toBe(true);
+    expect(canViewCollection(collection('private'), collaborator)).toBe(true);
+    expect(canViewCollection(collection('private'), other)).toBe(false);
+  });
+
+  it('should let collaborators edit but not manage', () => {
+    expect(canEditCollection(collection('private'), collaborator)).toBe(true);
+    expect(canManageCollection(collection('private'), collaborator)).toBe(false);
+    expect(canManageCollection(collection('private'), owner)).toBe(true);
+  });
+
+  it('should deny editing to other users and anonymous visitors', () => {
+    expect(canEditCollection(collection('public'), other)).toBe(false);
+    expect(canEditCollection(collection('public'), null)).toBe(false);
+  });
+
+  it('should let curators manage any collection', () => {
+    expect(canManageCollection(collection('private'), { ...other, role: 'curator' })).toBe(true);
+    expect(canEditCollection(collection('private'), { ...other, role: 'curator' })).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Roles and Permissions Tests
+ *
+ * Tests for the role permission matrix, bootstrap admins from
+ * ADMIN_EMAILS and the route permissions enforced by the proxy.
+ */
+
+import {
+  ROLES,
+  ROLE_PERMISSIONS,
+  getEffectiveRole,
+  getRoutePermission,
+  hasPermission,
+  isAdmin,
+  isBootstrapAdmin,
+  isRole,
+} from '../permissions';
+
+describe('isRole', () => {
+  it('should accept known roles only', () => {
+    for (const role of ROLES) {
+      expect(isRole(role)).toBe(true);
+    }
+    expect(isRole('owner')).toBe(false);
+    expect(isRole(undefined)).toBe(false);
+  });
+});
+
+describe('getEffectiveRole', () => {
+  const admins = ['root@example.com'];
+
+  it('should treat users without a role as members', () => {
+    expect(getEffectiveRole({ email: 'alice@example.com' }, admins)).toBe('member');
+  });
+
+  it('should use the stored role', () => {
+    expect(getEffectiveRole({ email: 'alice@example.com', role: 'curator' }, admins)).toBe('curator');
+  });
+
+  it('should make bootstrap admins admins whatever their stored role', () => {
+    expect(getEffectiveRole({ email: 'Root@Example.com', role: 'member' }, admins)).toBe('admin');
+    expect(isBootstrapAdmin('ROOT@example.com', admins)).toBe(true);
+    expect(isBootstrapAdmin(undefined, admins)).toBe(false);
+  });
+
+  it('should return null when unauthenticated', () => {
+    expect(getEffectiveRole(null, admins)).toBeNull();
+  });
+});
+
+describe('hasPermission', () => {
+  const user = (role: 'member' | 'curator' | 'admin') => ({ email: `${role}@example.com`, role });
+
+  it('should grant members no elevated permissions', () => {
+    expect(ROLE_PERMISSIONS.member).toEqual([]);
+    expect(hasPermission(user('member'), 'prompts:moderate', [])).toBe(false);
+  });
+
+  it('should let curators moderate content but not administer', () => {
+    expect(hasPermission(user('curator'), 'prompts:moderate', [])).toBe(true);
+    expect(hasPermission(user('curator'), 'collections:moderate', [])).toBe(true);
+    expect(hasPermission(user('curator'), 'settings:manage', [])).toBe(false);
+    expect(hasPermission(user('curator'), 'audit:read', [])).toBe(false);
+    expect(hasPermission(user('curator'), 'security:manage', [])).toBe(false);
+    expect(hasPermission(user('curator'), 'users:manage', [])).toBe(false);
+  });
+
+  it('should grant admins every permission', () => {
+    const granted = new Set(ROLE_PERMISSIONS.admin);
+
+    for (const role of ROLES) {
+      for (const permission of ROLE_PERMISSIONS[role]) {
+        expect(granted.has(permission)).toBe(true);
+      }
+    }
+    expect(isAdmin(user('admin'), [])).toBe(true);
+  });
+
+  it('should deny unauthenticated requests', () => {
+    expect(hasPermission(null, 'prompts:moderate', [])).toBe(false);
+  });
+});
+
+describe('getRoutePermission', () => {
+  it('should match the most specific route', () => {
+    expect(getRoutePermission('/admin/audit')).toBe('audit:read');
+    expect(getRoutePermission('/admin/audit/timeline')).toBe('audit:read');
+    expect(getRoutePermission('/api/admin/audit/export')).toBe('audit:read');
+    expect(getRoutePermission('/admin/users')).toBe('users:manage');
+    expect(getRoutePermission('/admin/security')).toBe('security:manage');
+    expect(getRoutePermission('/admin/access')).toBe('security:manage');
+    expect(getRoutePermission('/admin/leaderboard')).toBe('settings:manage');
+  });
+
+  it('should match whole path segments only', () => {
+    expect(getRoutePermission('/administration')).toBeNull();
+    expect(getRoutePermission('/admin/auditing')).toBe('settings:manage');
+  });
+
+  it('should leave other routes to any signed-in user', () => {
+    expect(getRoutePermission('/')).toBeNull();
+    expect(getRoutePermission('/prompts/new')).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Security Monitor Tests
+ *
+ * Tests for suspicious sign-in detection over the audit log and the
+ * sign-in blocks checked by the NextAuth signIn callback.
+ *
+ * @jest-environment node
+ */
+
+import type { Db } from 'mongodb';
+import type { AuthAuditLog } from '../audit-logger';
+import {
+  SECURITY_THRESHOLDS,
+  describeNewDevice,
+  detectSuspiciousActivity,
+  findActiveAccessBlock,
+  getFailureBurstSeverity,
+} from '../security-monitor';
+
+/**
+ * Database mock whose audit log counts come from `count(filter)`
+ */
+function mockDb(count: (filter: Record<string, unknown>) => number = () => 0) {
+  const countDocuments = jest.fn(async (filter: Record<string, unknown>) => count(filter));
+  const updateOne = jest.fn().mockResolvedValue({});
+  const findOne = jest.fn().mockResolvedValue(null);
+  const collection = jest.fn(() => ({ countDocuments, updateOne, findOne }));
+
+  return { db: { collection } as unknown as Db, countDocuments, updateOne, findOne };
+}
+
+function log(overrides: Partial<AuthAuditLog>): AuthAuditLog {
+  return {
+    action: 'access_denied',
+    email: 'Eve@Example.com',
+    ipAddress: '203.0.113.7',
+    userAgent: 'Mozilla/5.0',
+    timestamp: new Date('2025-01-01T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('getFailureBurstSeverity', () => {
+  it('should escalate to high at twice the threshold', () => {
+    const { count } = SECURITY_THRESHOLDS.failureBurst;
+
+    expect(getFailureBurstSeverity(count)).toBe('medium');
+    expect(getFailureBurstSeverity(count * 2)).toBe('high');
+  });
+});
+
+describe('describeNewDevice', () => {
+  it('should describe which part of the device is new', () => {
+    expect(describeNewDevice(true, true)).toBe('a new IP address and browser');
+    expect(describeNewDevice(true, false)).toBe('a new IP address');
+    expect(describeNewDevice(false, true)).toBe('a new browser');
+    expect(describeNewDevice(false, false)).toBeNull();
+  });
+});
+
+describe('detectSuspiciousActivity', () => {
+  const { count: burst } = SECURITY_THRESHOLDS.failureBurst;
+
+  it('should not raise an alert below the failure threshold', async () => {
+    const { db, updateOne } = mockDb(() => burst - 1);
+
+    expect(await detectSuspiciousActivity(db, log({}))).toEqual([]);
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should raise failure bursts for the IP address and the email', async () => {
+    const { db, updateOne, countDocuments } = mockDb(() => burst);
+
+    const raised = await detectSuspiciousActivity(db, log({ action: 'sign_in_failed' }));
+
+    expect(raised).toEqual(['failure_burst', 'failure_burst']);
+    expect(countDocuments.mock.calls[0][0]).toMatchObject({
+      ipAddress: '203.0.113.7',
+      action: { $in: ['access_denied', 'sign_in_failed'] },
+    });
+    expect(updateOne.mock.calls.map(([filter]) => filter.key)).toEqual([
+      'failure_burst:ip:203.0.113.7',
+      'failure_burst:email:eve@example.com',
+    ]);
+    const [filter, update, options] = updateOne.mock.calls[0];
+    expect(filter.status).toBe('open');
+    expect(update.$setOnInsert.severity).toBe('medium');
+    expect(update.$max).toEqual({ count: burst });
+    expect(options).toEqual({ upsert: true });
+  });
+
+  it('should count failures for an email however it was typed', async () => {
+    // Stored logs are lowercased, so only the lowercased address matches them
+    const { db, updateOne } = mockDb((filter) => (filter.email === 'eve@example.com' ? burst : 0));
+
+    await detectSuspiciousActivity(db, log({ email: ' EVE@example.com', ipAddress: 'unknown' }));
+
+    expect(updateOne).toHaveBeenCalledTimes(1);
+    const [filter, update] = updateOne.mock.calls[0];
+    expect(filter.key).toBe('failure_burst:email:eve@example.com');
+    expect(update.$max).toEqual({ count: burst });
+  });
+
+  it('should escalate an open alert without lowering it later', async () => {
+    const { db, updateOne } = mockDb(() => burst * 2);
+
+    await detectSuspiciousActivity(db, log({ email: undefined }));
+
+    const [, update] = updateOne.mock.calls[0];
+    expect(update.$set.severity).toBe('high');
+    expect(update.$setOnInsert.severity).toBeUndefined();
+    expect(update.$setOnInsert).not.toHaveProperty('email');
+  });
+
+  it('should skip unknown IP addresses', async () => {
+    const { db, updateOne } = mockDb(() => burst);
+
+    await detectSuspiciousActivity(db, log({ ipAddress: 'unknown' }));
+
+    expect(updateOne).toHaveBeenCalledTimes(1);
+    expect(updateOne.mock.calls[0][0].key).toBe('failure_burst:email:eve@example.com');
+  });
+
+  it('should ignore a user\'s first sign-in', async () => {
+    const { db, updateOne } = mockDb(() => 0);
+
+    const raised = await detectSuspiciousActivity(
+      db,
+      log({ action: 'sign_in_success', userId: 'user-1' })
+    );
+
+    expect(raised).toEqual([]);
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should flag sign-ins from a new browser', async () => {
+    // Known IP address, unknown user agent
+    const { db, updateOne } = mockDb((filter) => ('userAgent' in filter ? 0 : 1));
+
+    const raised = await detectSuspiciousActivity(
+      db,
+      log({ action: 'sign_in_success', userId: 'user-1' })
+    );
+
+    expect(raised).toEqual(['new_device']);
+    const [filter, update] = updateOne.mock.calls[0];
+    expect(filter.key).toBe('new_device:user-1:203.0.113.7:Mozilla/5.0');
+    expect(update.$setOnInsert.message).toBe('Eve@Example.com signed in from a new browser');
+    expect(update.$setOnInsert.severity).toBe('low');
+  });
+
+  it('should not flag sign-ins from a known device', async () => {
+    const { db, updateOne } = mockDb(() => 1);
+
+    await detectSuspiciousActivity(db, log({ action: 'sign_in_success', userId: 'user-1' }));
+
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should raise refresh loops per user', async () => {
+    const { db, updateOne } = mockDb(() => SECURITY_THRESHOLDS.refreshLoop.count);
+
+    const raised = await detectSuspiciousActivity(
+      db,
+      log({ action: 'token_refresh_failed', userId: 'user-1' })
+    );
+
+    expect(raised).toEqual(['refresh_loop']);
+    expect(updateOne.mock.calls[0][0].key).toBe('refresh_loop:user-1');
+  });
+
+  it('should ignore other actions', async () => {
+    const { db, countDocuments } = mockDb(() => 100);
+
+    expect(await detectSuspiciousActivity(db, log({ action: 'sign_out' }))).toEqual([]);
+    expect(countDocuments).not.toHaveBeenCalled();
+  });
+});
+
+describe('findActiveAccessBlock', () => {
+  it('should match the IP address or lowercased email among unexpired blocks', async () => {
+    const { db, findOne } = mockDb();
+    const now = new Date('2025-01-01T12:00:00Z');
+
+    await findActiveAccessBlock(db, { email: ' Eve@Example.com', ipAddress: '203.0.113.7' }, now);
+
+    expect(findOne).toHaveBeenCalledWith({
+      $or: [
+        { kind: 'ip', value: '203.0.113.7' },
+        { kind: 'email', value: 'eve@example.com' },
+      ],
+      expiresAt: { $gt: now },
+    });
+  });
+
+  it('should not query when there is nothing to match', async () => {
+    const { db, findOne } = mockDb();
+
+    expect(await findActiveAccessBlock(db, { ipAddress: 'unknown' })).toBeNull();
+    expect(findOne).not.toHaveBeenCalled();
+  });
+});
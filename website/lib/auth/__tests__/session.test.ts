@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Session Helper Tests
+ *
+ * Tests that actions relying on a role get the role stored in the database,
+ * not the one cached in the session.
+ */
+
+import { auth } from '@/auth';
+import { getUserRole } from '@/lib/db/models/user';
+import { requireCurrentUser, requirePermission, requireSessionUser } from '../session';
+
+jest.mock('@/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/db/models/user', () => ({ getUserRole: jest.fn() }));
+
+const mockAuth = auth as unknown as jest.Mock;
+const mockGetUserRole = getUserRole as jest.Mock;
+
+const curatorSession = {
+  user: { id: 'user-1', name: 'Ada', email: 'ada@example.com', role: 'curator' },
+};
+
+describe('session helpers', () => {
+  beforeEach(() => {
+    mockAuth.mockReset();
+    mockGetUserRole.mockReset();
+  });
+
+  it('should keep the session role for plain session lookups', async () => {
+    mockAuth.mockResolvedValue(curatorSession);
+
+    await expect(requireSessionUser()).resolves.toMatchObject({ id: 'user-1', role: 'curator' });
+    expect(mockGetUserRole).not.toHaveBeenCalled();
+  });
+
+  it('should re-read the role of the current user', async () => {
+    mockAuth.mockResolvedValue(curatorSession);
+    mockGetUserRole.mockResolvedValue('member');
+
+    await expect(requireCurrentUser()).resolves.toEqual({
+      id: 'user-1',
+      name: 'Ada',
+      email: 'ada@example.com',
+      role: 'member',
+    });
+    expect(mockGetUserRole).toHaveBeenCalledWith('user-1');
+  });
+
+  it('should reject a current user without a session', async () => {
+    mockAuth.mockResolvedValue(null);
+
+    await expect(requireCurrentUser()).rejects.toThrow('You must be signed in to do that');
+    expect(mockGetUserRole).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a permission revoked since sign-in', async () => {
+    mockAuth.mockResolvedValue(curatorSession);
+    mockGetUserRole.mockResolvedValue('member');
+
+    await expect(requirePermission('prompts:moderate')).rejects.toThrow(
+      'You do not have permission to do that'
+    );
+  });
+
+  it('should grant a permission from the stored role', async () => {
+    mockAuth.mockResolvedValue(curatorSession);
+    mockGetUserRole.mockResolvedValue('curator');
+
+    await expect(requirePermission('prompts:moderate')).resolves.toMatchObject({ role: 'curator' });
+  });
+});
@@ -6,6 +6,13 @@
  * - AND mode: Both organization ID and email domain must match (most secure)
  * - OR mode: Either organization ID or email domain can match (more flexible)
  *
+ * Once an admin saves an access policy (/admin/access), it replaces the
+ * environment allowlists: an ordered list of allow/deny rules evaluated with
+ * first-match semantics. A rule matches when every condition it sets
+ * matches (exact email, domain or `*.domain` wildcard, organization ID);
+ * rules past their expiry date are skipped, for time-bound guest access.
+ * When no rule matches, the policy's default effect applies.
+ *
  * Usage:
  * ```typescript
  * const config = parseAccessControlConfig()
@@ -15,9 +22,13 @@
  *   console.error(result.message)
  *   // Deny access with result.reason
  * }
+ *
+ * const { allowed, ruleIndex } = evaluateAccessPolicy(policy, email, orgId)
  * ```
  */
 
+import type { AccessPolicy, AccessRule } from '@/lib/validations/access-policy';
+
 /**
  * Access control configuration parsed from environment variables
  */
@@ -37,7 +48,13 @@ export interface AccessValidationResult {
   /** Whether access is allowed */
   allowed: boolean;
   /** Reason code if access denied */
-  reason?: 'NoEmail' | 'UnauthorizedOrganization' | 'UnauthorizedDomain' | 'AccessDenied';
+  reason?:
+    | 'NoEmail'
+    | 'UnauthorizedOrganization'
+    | 'UnauthorizedDomain'
+    | 'AccessDenied'
+    | 'DeniedByRule'
+    | 'NoMatchingRule';
   /** Human-readable message explaining the result */
   message?: string;
 }
@@ -138,6 +155,159 @@ export function validateWebexAccess(
   }
 }
 
+/**
+ * How each access policy rule was evaluated
+ */
+export type AccessRuleOutcome = 'matched' | 'no_match' | 'expired';
+
+/**
+ * Result of evaluating an access policy
+ */
+export interface AccessPolicyResult extends AccessValidationResult {
+  /** Index of the rule that decided, or null when the default effect applied */
+  ruleIndex: number | null;
+  /** Outcome of each rule up to and including the deciding one */
+  trace: AccessRuleOutcome[];
+}
+
+/**
+ * Checks whether an email domain matches a rule's domain.
+ *
+ * @param pattern - Exact domain, or `*.domain` for any subdomain (not the domain itself)
+ * @param domain - Lowercased email domain
+ * @returns true if the domain matches
+ */
+export function matchesDomain(pattern: string, domain: string): boolean {
+  if (pattern.startsWith('*.')) {
+    return domain.endsWith(pattern.slice(1));
+  }
+
+  return domain === pattern;
+}
+
+/**
+ * Describes a rule's conditions for admins.
+ *
+ * @param rule - Access policy rule
+ * @returns e.g. "domain *.example.com and org abc123"
+ */
+export function describeAccessRule(rule: AccessRule): string {
+  const conditions = [
+    rule.email && `email ${rule.email}`,
+    rule.domain && `domain ${rule.domain}`,
+    rule.orgId && `org ${rule.orgId}`,
+  ].filter(Boolean);
+
+  return conditions.length > 0 ? conditions.join(' and ') : 'everyone';
+}
+
+/**
+ * Evaluates an access policy for a user, first matching rule wins.
+ *
+ * @param policy - Ordered rules and the default effect
+ * @param email - User's email address from Webex
+ * @param orgId - User's Webex organization ID
+ * @param now - Current time, for rule expiry
+ * @returns Validation result with the deciding rule and the evaluation trace
+ */
+export function evaluateAccessPolicy(
+  policy: AccessPolicy,
+  email: string | undefined,
+  orgId: string | undefined,
+  now: Date = new Date()
+): AccessPolicyResult {
+  if (!email || email.trim() === '') {
+    return {
+      allowed: false,
+      reason: 'NoEmail',
+      message: 'Email address is required for access validation',
+      ruleIndex: null,
+      trace: [],
+    };
+  }
+
+  const normalizedEmail = email.trim().toLowerCase();
+  const emailDomain = normalizedEmail.split('@').pop() || '';
+  const trace: AccessRuleOutcome[] = [];
+
+  for (const [index, rule] of policy.rules.entries()) {
+    if (rule.expiresAt && rule.expiresAt.getTime() <= now.getTime()) {
+      trace.push('expired');
+      continue;
+    }
+
+    const matched =
+      (!rule.email || rule.email === normalizedEmail) &&
+      (!rule.domain || matchesDomain(rule.domain, emailDomain)) &&
+      (!rule.orgId || rule.orgId === orgId);
+    if (!matched) {
+      trace.push('no_match');
+      continue;
+    }
+
+    trace.push('matched');
+    if (rule.effect === 'allow') {
+      return { allowed: true, ruleIndex: index, trace };
+    }
+    return {
+      allowed: false,
+      reason: 'DeniedByRule',
+      message: `Access denied by rule ${index + 1} (${describeAccessRule(rule)})${
+        rule.note ? `: ${rule.note}` : ''
+      }`,
+      ruleIndex: index,
+      trace,
+    };
+  }
+
+  if (policy.defaultEffect === 'allow') {
+    return { allowed: true, ruleIndex: null, trace };
+  }
+  return {
+    allowed: false,
+    reason: 'NoMatchingRule',
+    message: `Access denied: no access rule matches ${normalizedEmail} (org ${orgId || 'N/A'})`,
+    ruleIndex: null,
+    trace,
+  };
+}
+
+/**
+ * Builds the access policy equivalent to an environment allowlist
+ * configuration, as a starting point for admins.
+ *
+ * @param config - Access control configuration
+ * @returns Allow rules (one per org ID and domain in OR mode, one per
+ *   combination in AND mode) denying everyone else, or allow-all when no
+ *   allowlist is configured
+ */
+export function policyFromAccessControlConfig(config: AccessControlConfig): AccessPolicy {
+  const orgIds: (string | undefined)[] = config.allowedOrgIds;
+  const domains: (string | undefined)[] = config.allowedDomains;
+
+  if (orgIds.length === 0 && domains.length === 0) {
+    return { rules: [], defaultEffect: 'allow' };
+  }
+
+  const rule = (orgId?: string, domain?: string): AccessRule => ({
+    effect: 'allow',
+    email: undefined,
+    domain,
+    orgId,
+    expiresAt: null,
+    note: undefined,
+  });
+
+  const rules =
+    config.mode === 'OR'
+      ? [...orgIds.map((orgId) => rule(orgId)), ...domains.map((domain) => rule(undefined, domain))]
+      : (orgIds.length > 0 ? orgIds : [undefined]).flatMap((orgId) =>
+          (domains.length > 0 ? domains : [undefined]).map((domain) => rule(orgId, domain))
+        );
+
+  return { rules, defaultEffect: 'deny' };
+}
+
 /**
  * Parses access control configuration from environment variables.
  *
@@ -24,7 +24,14 @@
  * ```
  */
 
-import { Db } from 'mongodb';
+import { Db, type Filter, type FindCursor, type WithId } from 'mongodb';
+import { headers } from 'next/headers';
+import {
+  buildCursorFilter,
+  decodeCursor,
+  encodeCursor,
+  type CursorValue,
+} from '@/lib/utils/cursor';
 
 /**
  * Authentication action types for audit logging
@@ -37,7 +44,8 @@ export type AuthAction =
   | 'token_refresh_success'
   | 'token_refresh_failed'
   | 'session_expired'
-  | 'user_created';
+  | 'user_created'
+  | 'role_changed';
 
 /**
  * Audit log document structure
@@ -49,7 +57,7 @@ export interface AuthAuditLog {
   /** User ID (if authenticated) */
   userId?: string;
 
-  /** User email */
+  /** User email (stored lowercased) */
   email?: string;
 
   /** Webex organization ID */
@@ -74,6 +82,43 @@ export interface AuthAuditLog {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Filters for browsing and exporting audit logs
+ */
+export interface AuditLogFilters {
+  action?: AuthAction;
+  /** Exact email address (lowercased, as stored) */
+  email?: string;
+  orgId?: string;
+  ipAddress?: string;
+  /** First day included (YYYY-MM-DD, UTC) */
+  from?: string;
+  /** Last day included (YYYY-MM-DD, UTC) */
+  to?: string;
+}
+
+/**
+ * One page of audit logs, newest first
+ */
+export interface AuditLogPage {
+  logs: WithId<AuthAuditLog>[];
+  /** Cursor for the next (older) page, null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Activity of one user across the audit log
+ */
+export interface AuditLogSummary {
+  total: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  /** Number of logs per action */
+  actions: Partial<Record<AuthAction, number>>;
+  /** Distinct IP addresses the user was seen from */
+  ipAddresses: string[];
+}
+
 /**
  * Request context extracted from HTTP request
  */
@@ -136,6 +181,20 @@ export function getRequestContext(request: any): RequestContext {
   };
 }
 
+/**
+ * Extracts request context from the request being handled, for code such as
+ * NextAuth callbacks that has no request object of its own.
+ *
+ * @returns Request context, or unknown values outside a request
+ */
+export async function getCurrentRequestContext(): Promise<RequestContext> {
+  try {
+    return getRequestContext({ headers: await headers() });
+  } catch {
+    return getRequestContext(null);
+  }
+}
+
 /**
  * Creates an authentication audit log entry in MongoDB.
  * Logs all authentication events with full context for compliance and security.
@@ -157,9 +216,11 @@ export async function createAuthAuditLog(
       };
     }
 
-    // Create audit log document
+    // Create audit log document. Emails are lowercased so filters and
+    // failure counts match however the address was typed.
     const auditLog: AuthAuditLog = {
       ...data,
+      ...(data.email ? { email: data.email.trim().toLowerCase() } : {}),
       timestamp: data.timestamp || new Date(),
     };
 
@@ -220,6 +281,9 @@ export function formatAuditLogMessage(log: AuthAuditLog): string {
     case 'user_created':
       return `[AUTH ${timestamp}] 👤 USER CREATED: ${email} | Org: ${orgId} | IP: ${ip}`;
 
+    case 'role_changed':
+      return `[AUTH ${timestamp}] 🛡️ ROLE CHANGED: ${email} | ${log.metadata?.previousRole ?? '?'} → ${log.metadata?.role ?? '?'} | IP: ${ip}`;
+
     default:
       return `[AUTH ${timestamp}] ${log.action}: ${email} | IP: ${ip}`;
   }
@@ -285,3 +349,141 @@ export async function getRecentAuditLogs(
     .limit(limit)
     .toArray();
 }
+
+// Newest first; `_id` breaks ties between events logged in the same millisecond
+const AUDIT_SORT_KEYS = ['timestamp', '_id'];
+const AUDIT_SORT = { timestamp: -1, _id: -1 } as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds the MongoDB query for audit log filters. Date filters cover whole
+ * UTC days, so `to` includes the logs of that day.
+ *
+ * @param filters - Audit log filters
+ * @returns Query for the auth_audit_logs collection
+ */
+export function buildAuditLogQuery(filters: AuditLogFilters): Filter<AuthAuditLog> {
+  const query: Filter<AuthAuditLog> = {};
+
+  if (filters.action) query.action = filters.action;
+  if (filters.email) query.email = filters.email;
+  if (filters.orgId) query.orgId = filters.orgId;
+  if (filters.ipAddress) query.ipAddress = filters.ipAddress;
+
+  if (filters.from || filters.to) {
+    const timestamp: { $gte?: Date; $lt?: Date } = {};
+    if (filters.from) {
+      timestamp.$gte = new Date(`${filters.from}T00:00:00Z`);
+    }
+    if (filters.to) {
+      timestamp.$lt = new Date(new Date(`${filters.to}T00:00:00Z`).getTime() + DAY_MS);
+    }
+    query.timestamp = timestamp;
+  }
+
+  return query;
+}
+
+/**
+ * Queries one page of audit logs matching the filters
+ *
+ * @param db - MongoDB database instance
+ * @param filters - Audit log filters
+ * @param cursor - Cursor from the previous page (a malformed cursor starts from the newest log)
+ * @param limit - Logs per page (default: 50)
+ * @returns Logs and the cursor for the next page
+ */
+export async function getAuditLogPage(
+  db: Db,
+  filters: AuditLogFilters,
+  cursor?: string,
+  limit: number = 50
+): Promise<AuditLogPage> {
+  const query = buildAuditLogQuery(filters);
+
+  const cursorValues = cursor ? decodeCursor(cursor) : null;
+  if (cursorValues && cursorValues.length === AUDIT_SORT_KEYS.length) {
+    Object.assign(query, { $and: [buildCursorFilter(AUDIT_SORT_KEYS, cursorValues)] });
+  }
+
+  // One extra log tells whether there is a next page
+  const logs = await db
+    .collection<AuthAuditLog>('auth_audit_logs')
+    .find(query)
+    .sort(AUDIT_SORT)
+    .limit(limit + 1)
+    .toArray();
+
+  const hasMore = logs.length > limit;
+  const page = logs.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    logs: page,
+    nextCursor:
+      hasMore && last
+        ? encodeCursor(AUDIT_SORT_KEYS.map((key) => last[key as keyof typeof last] as CursorValue))
+        : null,
+  };
+}
+
+/**
+ * Finds all audit logs matching the filters, newest first, for streaming exports
+ *
+ * @param db - MongoDB database instance
+ * @param filters - Audit log filters
+ * @returns Cursor over the matching logs
+ */
+export function findAuditLogs(db: Db, filters: AuditLogFilters): FindCursor<WithId<AuthAuditLog>> {
+  return db
+    .collection<AuthAuditLog>('auth_audit_logs')
+    .find(buildAuditLogQuery(filters))
+    .sort(AUDIT_SORT);
+}
+
+/**
+ * Summarizes one user's activity for the audit timeline
+ *
+ * @param db - MongoDB database instance
+ * @param email - Email address of the user
+ * @returns Summary, or null if the user has no audit logs
+ */
+export async function getAuditLogSummary(
+  db: Db,
+  email: string
+): Promise<AuditLogSummary | null> {
+  const groups = await db
+    .collection<AuthAuditLog>('auth_audit_logs')
+    .aggregate<{
+      _id: AuthAction;
+      count: number;
+      firstSeen: Date;
+      lastSeen: Date;
+      ipAddresses: string[];
+    }>([
+      { $match: { email } },
+      {
+        $group: {
+          _id: '$action',
+          count: { $sum: 1 },
+          firstSeen: { $min: '$timestamp' },
+          lastSeen: { $max: '$timestamp' },
+          ipAddresses: { $addToSet: '$ipAddress' },
+        },
+      },
+    ])
+    .toArray();
+
+  if (groups.length === 0) {
+    return null;
+  }
+
+  return {
+    total: groups.reduce((sum, group) => sum + group.count, 0),
+    firstSeen: new Date(Math.min(...groups.map((group) => group.firstSeen.getTime()))),
+    lastSeen: new Date(Math.max(...groups.map((group) => group.lastSeen.getTime()))),
+    actions: Object.fromEntries(groups.map((group) => [group._id, group.count])),
+    ipAddresses: [...new Set(groups.flatMap((group) => group.ipAddresses))].sort(),
+  };
+}
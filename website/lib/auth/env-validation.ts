@@ -15,6 +15,9 @@
  * - ALLOWED_WEBEX_ORG_IDS: Comma-separated list of allowed Webex organization IDs
  * - ALLOWED_EMAIL_DOMAINS: Comma-separated list of allowed email domains
  * - ACCESS_CONTROL_MODE: 'AND' | 'OR' (default: 'AND')
+ *
+ * Optional Variables (Administration):
+ * - ADMIN_EMAILS: Comma-separated list of bootstrap admin email addresses (always admins)
  */
 
 export interface AuthEnvConfig {
@@ -0,0 +1,142 @@
+/**
+ * Prompt Ownership Module
+ *
+ * Decides whether a signed-in user may modify a prompt or collection. Authors
+ * can always modify their own prompts; curators and admins can moderate any
+ * (see ./permissions). Collections also grant editing to their collaborators.
+ *
+ * Usage:
+ * ```typescript
+ * const user = await requireCurrentUser()
+ *
+ * if (!canModifyPrompt(prompt.authorId, user)) {
+ *   throw new Error('You do not have permission to edit this prompt')
+ * }
+ * ```
+ */
+
+import { hasPermission, type Role } from './permissions';
+
+export { isAdmin, parseAdminEmails } from './permissions';
+
+/**
+ * Identity of the signed-in user, as used by server actions and pages
+ */
+export interface SessionUser {
+  /** Database user ID (MongoDB ObjectId as string) */
+  id: string;
+  /** Display name (falls back to email) */
+  name: string;
+  /** Primary email address */
+  email: string;
+  /** Role from the session, or from the database via requireCurrentUser (missing means member) */
+  role?: Role;
+}
+
+/**
+ * Checks whether a user may edit, delete or restore a prompt.
+ *
+ * @param authorId - Prompt author ID (ObjectId or string)
+ * @param user - Signed-in user (or null)
+ * @returns true for the prompt's author and for curators and admins
+ */
+export function canModifyPrompt(
+  authorId: { toString(): string } | string,
+  user: SessionUser | null
+): boolean {
+  if (!user) {
+    return false;
+  }
+
+  return authorId.toString() === user.id || hasPermission(user, 'prompts:moderate');
+}
+
+/**
+ * Checks whether a user may view a prompt.
+ *
+ * @param prompt - Prompt author, visibility and status
+ * @param user - Signed-in user (or null)
+ * @returns true for published public prompts, and for anyone who can modify
+ *   the prompt (private prompts and drafts)
+ */
+export function canViewPrompt(
+  prompt: { authorId: { toString(): string } | string; isPublic: boolean; status?: string },
+  user: SessionUser | null
+): boolean {
+  if (prompt.isPublic && prompt.status !== 'draft') {
+    return true;
+  }
+
+  return canModifyPrompt(prompt.authorId, user);
+}
+
+/**
+ * Collection fields needed for access checks
+ */
+export interface CollectionAccess {
+  ownerId: { toString(): string } | string;
+  visibility: 'private' | 'org' | 'public';
+  collaborators: { userId: { toString(): string } | string }[];
+}
+
+/**
+ * Checks whether a user may view a collection.
+ *
+ * @param collection - Collection owner, visibility and collaborators
+ * @param user - Signed-in user (or null for anonymous visitors)
+ * @returns true for public collections, for any signed-in user on org
+ *   collections, and for editors of private ones
+ */
+export function canViewCollection(
+  collection: CollectionAccess,
+  user: SessionUser | null
+): boolean {
+  if (collection.visibility === 'public') {
+    return true;
+  }
+
+  if (collection.visibility === 'org') {
+    return !!user;
+  }
+
+  return canEditCollection(collection, user);
+}
+
+/**
+ * Checks whether a user may add, remove or reorder prompts in a collection.
+ *
+ * @param collection - Collection owner and collaborators
+ * @param user - Signed-in user (or null)
+ * @returns true for the owner, collaborators, curators and admins
+ */
+export function canEditCollection(
+  collection: Pick<CollectionAccess, 'ownerId' | 'collaborators'>,
+  user: SessionUser | null
+): boolean {
+  if (!user) {
+    return false;
+  }
+
+  return (
+    canManageCollection(collection, user) ||
+    collection.collaborators.some((collaborator) => collaborator.userId.toString() === user.id)
+  );
+}
+
+/**
+ * Checks whether a user may rename, share or delete a collection.
+ *
+ * @param collection - Collection owner
+ * @param user - Signed-in user (or null)
+ * @returns true for the owner, curators and admins
+ */
+export function canManageCollection(
+  collection: Pick<CollectionAccess, 'ownerId'>,
+  user: SessionUser | null
+): boolean {
+  if (!user) {
+    return false;
+  }
+
+  return collection.ownerId.toString() === user.id || hasPermission(user, 'collections:moderate');
+}
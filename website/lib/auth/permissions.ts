@@ -0,0 +1,191 @@
+/**
+ * Roles and Permissions
+ *
+ * Every user has a role stored on their `users` document (missing means
+ * `member`). Each role grants a fixed set of permissions:
+ *
+ * - member: create prompts and collections, and modify their own
+ * - curator: also moderate anyone's prompts and collections
+ * - admin: everything, including app settings, the audit log, security
+ *   alerts and sign-in blocks, and roles
+ *
+ * Admins listed in ADMIN_EMAILS are bootstrap admins: they are promoted when
+ * they sign in and are always admins, so the app can never be left without
+ * one. Remove an address from ADMIN_EMAILS to revoke it.
+ *
+ * Usage:
+ * ```typescript
+ * if (!hasPermission(user, 'audit:read')) {
+ *   notFound()
+ * }
+ *
+ * const permission = getRoutePermission(request.nextUrl.pathname)
+ * ```
+ */
+
+export const ROLES = ['member', 'curator', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | 'prompts:moderate'
+  | 'collections:moderate'
+  | 'settings:manage'
+  | 'audit:read'
+  | 'security:manage'
+  | 'users:manage';
+
+/**
+ * What each permission allows, for the admin permission matrix
+ */
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'prompts:moderate': "Edit, archive, delete and restore anyone's prompts",
+  'collections:moderate': "Rename, share and delete anyone's collections",
+  'settings:manage': 'Change app settings such as leaderboard scoring',
+  'audit:read': 'View and export the authentication audit log',
+  'security:manage': 'Review security alerts, block IP addresses and emails, and edit who can sign in',
+  'users:manage': 'Grant and revoke roles',
+};
+
+/**
+ * Permissions granted by each role
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  member: [],
+  curator: ['prompts:moderate', 'collections:moderate'],
+  admin: [
+    'prompts:moderate',
+    'collections:moderate',
+    'settings:manage',
+    'audit:read',
+    'security:manage',
+    'users:manage',
+  ],
+};
+
+/**
+ * The parts of a user (or session user) that decide their role
+ */
+export interface RoleHolder {
+  email?: string | null;
+  role?: Role;
+}
+
+/**
+ * Permission needed per protected route, most specific first. A prefix
+ * matches the path itself and everything below it.
+ */
+export const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: '/admin/audit', permission: 'audit:read' },
+  { prefix: '/api/admin/audit', permission: 'audit:read' },
+  { prefix: '/admin/access', permission: 'security:manage' },
+  { prefix: '/admin/security', permission: 'security:manage' },
+  { prefix: '/admin/users', permission: 'users:manage' },
+  { prefix: '/admin', permission: 'settings:manage' },
+  { prefix: '/api/admin', permission: 'settings:manage' },
+];
+
+/**
+ * Checks whether a value is a known role.
+ *
+ * @param value - Value read from the database or a request
+ * @returns true for member, curator and admin
+ */
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Parses admin email addresses from the ADMIN_EMAILS environment variable.
+ *
+ * @returns Lowercased admin email addresses
+ */
+export function parseAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter((email) => email.length > 0);
+}
+
+/**
+ * Checks whether an email address is a bootstrap admin.
+ *
+ * @param email - Email address (compared case-insensitively)
+ * @param adminEmails - Admin allowlist (defaults to ADMIN_EMAILS)
+ * @returns true if the address is listed in ADMIN_EMAILS
+ */
+export function isBootstrapAdmin(
+  email: string | null | undefined,
+  adminEmails: string[] = parseAdminEmails()
+): boolean {
+  return !!email && adminEmails.includes(email.trim().toLowerCase());
+}
+
+/**
+ * Gets the role a user acts with.
+ *
+ * @param user - Signed-in user (or null)
+ * @param adminEmails - Admin allowlist (defaults to ADMIN_EMAILS)
+ * @returns admin for bootstrap admins, otherwise the stored role (member when unset),
+ *   or null when unauthenticated
+ */
+export function getEffectiveRole(
+  user: RoleHolder | null,
+  adminEmails: string[] = parseAdminEmails()
+): Role | null {
+  if (!user) {
+    return null;
+  }
+
+  if (isBootstrapAdmin(user.email, adminEmails)) {
+    return 'admin';
+  }
+
+  return isRole(user.role) ? user.role : 'member';
+}
+
+/**
+ * Checks whether a user's role grants a permission.
+ *
+ * @param user - Signed-in user (or null)
+ * @param permission - Permission to check
+ * @param adminEmails - Admin allowlist (defaults to ADMIN_EMAILS)
+ * @returns true if the user's effective role grants the permission
+ */
+export function hasPermission(
+  user: RoleHolder | null,
+  permission: Permission,
+  adminEmails: string[] = parseAdminEmails()
+): boolean {
+  const role = getEffectiveRole(user, adminEmails);
+
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Checks whether a user is an administrator.
+ *
+ * @param user - Signed-in user (or null)
+ * @param adminEmails - Admin allowlist (defaults to ADMIN_EMAILS)
+ * @returns true for users with the admin role and bootstrap admins
+ */
+export function isAdmin(
+  user: RoleHolder | null,
+  adminEmails: string[] = parseAdminEmails()
+): boolean {
+  return getEffectiveRole(user, adminEmails) === 'admin';
+}
+
+/**
+ * Gets the permission a route requires.
+ *
+ * @param pathname - Request path
+ * @returns Permission of the most specific matching route, or null if any signed-in user may visit
+ */
+export function getRoutePermission(pathname: string): Permission | null {
+  const route = ROUTE_PERMISSIONS.find(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+
+  return route?.permission ?? null;
+}
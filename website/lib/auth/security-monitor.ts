@@ -0,0 +1,469 @@
+/**
+ * Suspicious Sign-In Detection
+ *
+ * Watches authentication audit logs as they are written and raises security
+ * alerts (stored in `security_alerts`) for:
+ *
+ * - Failure bursts: many `access_denied` / `sign_in_failed` events from one
+ *   IP address or for one email within a short window
+ * - New devices: an existing user signing in from an IP address or user
+ *   agent not seen in their recent sign-ins
+ * - Refresh loops: repeated `token_refresh_failed` events for one user
+ *
+ * While an alert is open, further matching events update it instead of
+ * raising a new one. Alerts are deleted 90 days after their last event.
+ *
+ * Admins review alerts on /admin/security and can block an IP address or
+ * email for a while (stored in `access_blocks`, removed by a TTL index when
+ * the block expires); the NextAuth signIn callback refuses blocked sign-ins.
+ *
+ * Usage:
+ * ```typescript
+ * import { detectSuspiciousActivity, findActiveAccessBlock } from '@/lib/auth/security-monitor'
+ *
+ * await createAuthAuditLog(db, log)
+ * await detectSuspiciousActivity(db, log)
+ *
+ * const block = await findActiveAccessBlock(db, { email, ipAddress })
+ * ```
+ */
+
+import { ObjectId, type Db, type Filter, type WithId } from 'mongodb';
+import type { AuthAction, AuthAuditLog } from './audit-logger';
+
+export type SecurityAlertType = 'failure_burst' | 'new_device' | 'refresh_loop';
+
+export type SecurityAlertSeverity = 'low' | 'medium' | 'high';
+
+export type SecurityAlertStatus = 'open' | 'resolved';
+
+export type AccessBlockKind = 'ip' | 'email';
+
+/**
+ * Security alert document structure
+ */
+export interface SecurityAlert {
+  /** Deduplication key: events with the same key update the open alert */
+  key: string;
+
+  type: SecurityAlertType;
+
+  severity: SecurityAlertSeverity;
+
+  /** What the alert is about */
+  subject: { kind: AccessBlockKind | 'user'; value: string };
+
+  /** Human-readable summary */
+  message: string;
+
+  /** Most matching events seen within one detection window */
+  count: number;
+
+  /** User ID, email, IP address and user agent of the triggering event */
+  userId?: string;
+  email?: string;
+  ipAddress?: string;
+  userAgent?: string;
+
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+
+  status: SecurityAlertStatus;
+  resolvedAt?: Date;
+  resolvedBy?: { id: string; name: string };
+}
+
+/**
+ * Temporary sign-in block for an IP address or email
+ */
+export interface AccessBlock {
+  kind: AccessBlockKind;
+
+  /** IP address, or lowercased email address */
+  value: string;
+
+  reason: string;
+
+  createdAt: Date;
+  createdBy: { id: string; name: string };
+
+  /** When the block stops applying (the TTL index deletes it shortly after) */
+  expiresAt: Date;
+
+  /** Alert the block was created from */
+  alertId?: ObjectId;
+}
+
+/**
+ * Detection thresholds
+ */
+export const SECURITY_THRESHOLDS = {
+  /** Failed or denied sign-ins from one IP or for one email */
+  failureBurst: { count: 5, windowMinutes: 15 },
+  /** Failed token refreshes for one user */
+  refreshLoop: { count: 3, windowMinutes: 30 },
+  /** How far back a user's sign-ins count as known devices */
+  knownDeviceDays: 90,
+};
+
+const FAILURE_ACTIONS: AuthAction[] = ['access_denied', 'sign_in_failed'];
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Severity of a failure burst: high once it reaches twice the threshold
+ *
+ * @param count - Failures within the window
+ */
+export function getFailureBurstSeverity(count: number): SecurityAlertSeverity {
+  return count >= SECURITY_THRESHOLDS.failureBurst.count * 2 ? 'high' : 'medium';
+}
+
+/**
+ * Describes what is new about a sign-in device
+ *
+ * @returns Summary, or null when neither the IP address nor user agent is new
+ */
+export function describeNewDevice(newIp: boolean, newUserAgent: boolean): string | null {
+  if (newIp && newUserAgent) return 'a new IP address and browser';
+  if (newIp) return 'a new IP address';
+  if (newUserAgent) return 'a new browser';
+  return null;
+}
+
+/**
+ * Opens an alert, or updates the open alert with the same key
+ */
+async function raiseAlert(
+  db: Db,
+  alert: Omit<SecurityAlert, 'firstSeenAt' | 'lastSeenAt' | 'status'>,
+  now: Date
+): Promise<void> {
+  const { key, severity, count, ...details } = alert;
+  const defined = Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value !== undefined)
+  ) as typeof details;
+  // Only escalate: a later, smaller count must not lower the severity
+  const escalate = severity === 'high';
+
+  await db.collection<SecurityAlert>('security_alerts').updateOne(
+    { key, status: 'open' },
+    {
+      $setOnInsert: { ...defined, ...(escalate ? {} : { severity }), firstSeenAt: now },
+      $set: { lastSeenAt: now, ...(escalate ? { severity } : {}) },
+      $max: { count },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Checks a failed or denied sign-in for a burst from its IP address and email
+ */
+async function detectFailureBurst(db: Db, log: AuthAuditLog): Promise<SecurityAlertType[]> {
+  const { count: threshold, windowMinutes } = SECURITY_THRESHOLDS.failureBurst;
+  const since = new Date(log.timestamp.getTime() - windowMinutes * MINUTE_MS);
+  const logs = db.collection<AuthAuditLog>('auth_audit_logs');
+
+  const subjects: { kind: AccessBlockKind; value: string; filter: Filter<AuthAuditLog> }[] = [];
+  if (log.ipAddress && log.ipAddress !== 'unknown') {
+    subjects.push({ kind: 'ip', value: log.ipAddress, filter: { ipAddress: log.ipAddress } });
+  }
+  if (log.email) {
+    // Audit logs store emails lowercased, so every spelling of an address counts
+    const email = log.email.trim().toLowerCase();
+    subjects.push({ kind: 'email', value: email, filter: { email } });
+  }
+
+  const raised: SecurityAlertType[] = [];
+  for (const subject of subjects) {
+    const count = await logs.countDocuments({
+      ...subject.filter,
+      action: { $in: FAILURE_ACTIONS },
+      timestamp: { $gte: since },
+    });
+    if (count < threshold) continue;
+
+    await raiseAlert(
+      db,
+      {
+        key: `failure_burst:${subject.kind}:${subject.value}`,
+        type: 'failure_burst',
+        severity: getFailureBurstSeverity(count),
+        subject: { kind: subject.kind, value: subject.value },
+        message:
+          subject.kind === 'ip'
+            ? `Repeated failed or denied sign-ins from ${subject.value}`
+            : `Repeated failed or denied sign-ins for ${subject.value}`,
+        count,
+        email: log.email,
+        ipAddress: log.ipAddress,
+        userAgent: log.userAgent,
+      },
+      log.timestamp
+    );
+    raised.push('failure_burst');
+  }
+
+  return raised;
+}
+
+/**
+ * Checks a successful sign-in against the user's recent sign-ins
+ */
+async function detectNewDevice(db: Db, log: AuthAuditLog): Promise<SecurityAlertType[]> {
+  if (!log.userId) {
+    return [];
+  }
+
+  const since = new Date(
+    log.timestamp.getTime() - SECURITY_THRESHOLDS.knownDeviceDays * 24 * 60 * MINUTE_MS
+  );
+  const logs = db.collection<AuthAuditLog>('auth_audit_logs');
+  const previous: Filter<AuthAuditLog> = {
+    userId: log.userId,
+    action: 'sign_in_success',
+    timestamp: { $gte: since, $lt: log.timestamp },
+  };
+
+  // A user's first sign-in has nothing to compare with
+  if ((await logs.countDocuments(previous, { limit: 1 })) === 0) {
+    return [];
+  }
+
+  // Unknown values cannot be compared, so they never count as new
+  const isKnown = async (field: 'ipAddress' | 'userAgent') =>
+    log[field] === 'unknown' ||
+    (await logs.countDocuments({ ...previous, [field]: log[field] }, { limit: 1 })) > 0;
+  const [knownIp, knownUserAgent] = await Promise.all([isKnown('ipAddress'), isKnown('userAgent')]);
+
+  const change = describeNewDevice(!knownIp, !knownUserAgent);
+  if (!change) {
+    return [];
+  }
+
+  await raiseAlert(
+    db,
+    {
+      key: `new_device:${log.userId}:${log.ipAddress}:${log.userAgent}`,
+      type: 'new_device',
+      severity: 'low',
+      subject: { kind: 'user', value: log.userId },
+      message: `${log.email || log.userId} signed in from ${change}`,
+      count: 1,
+      userId: log.userId,
+      email: log.email,
+      ipAddress: log.ipAddress,
+      userAgent: log.userAgent,
+    },
+    log.timestamp
+  );
+
+  return ['new_device'];
+}
+
+/**
+ * Checks a failed token refresh for a loop of failures for the same user
+ */
+async function detectRefreshLoop(db: Db, log: AuthAuditLog): Promise<SecurityAlertType[]> {
+  const subject = log.userId || log.email;
+  if (!subject) {
+    return [];
+  }
+
+  const { count: threshold, windowMinutes } = SECURITY_THRESHOLDS.refreshLoop;
+  const count = await db.collection<AuthAuditLog>('auth_audit_logs').countDocuments({
+    action: 'token_refresh_failed',
+    ...(log.userId ? { userId: log.userId } : { email: log.email }),
+    timestamp: { $gte: new Date(log.timestamp.getTime() - windowMinutes * MINUTE_MS) },
+  });
+  if (count < threshold) {
+    return [];
+  }
+
+  await raiseAlert(
+    db,
+    {
+      key: `refresh_loop:${subject}`,
+      type: 'refresh_loop',
+      severity: 'medium',
+      subject: log.userId ? { kind: 'user', value: log.userId } : { kind: 'email', value: subject },
+      message: `Token refresh keeps failing for ${log.email || log.userId}`,
+      count,
+      userId: log.userId,
+      email: log.email,
+      ipAddress: log.ipAddress,
+      userAgent: log.userAgent,
+    },
+    log.timestamp
+  );
+
+  return ['refresh_loop'];
+}
+
+/**
+ * Runs the detectors relevant to a newly written audit log.
+ *
+ * @param db - MongoDB database instance
+ * @param log - Audit log that was just written
+ * @returns Types of the alerts raised or updated
+ */
+export async function detectSuspiciousActivity(
+  db: Db,
+  log: AuthAuditLog
+): Promise<SecurityAlertType[]> {
+  if (FAILURE_ACTIONS.includes(log.action)) {
+    return detectFailureBurst(db, log);
+  }
+
+  if (log.action === 'sign_in_success') {
+    return detectNewDevice(db, log);
+  }
+
+  if (log.action === 'token_refresh_failed') {
+    return detectRefreshLoop(db, log);
+  }
+
+  return [];
+}
+
+/**
+ * Lists security alerts, most recently active first
+ *
+ * @param db - MongoDB database instance
+ * @param status - Open or resolved alerts
+ * @param limit - Maximum number of alerts
+ */
+export async function listSecurityAlerts(
+  db: Db,
+  status: SecurityAlertStatus,
+  limit: number = 100
+): Promise<WithId<SecurityAlert>[]> {
+  return db
+    .collection<SecurityAlert>('security_alerts')
+    .find({ status })
+    .sort({ lastSeenAt: -1, _id: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+/**
+ * Counts open alerts per severity
+ */
+export async function countOpenSecurityAlerts(
+  db: Db
+): Promise<Record<SecurityAlertSeverity, number>> {
+  const groups = await db
+    .collection<SecurityAlert>('security_alerts')
+    .aggregate<{ _id: SecurityAlertSeverity; count: number }>([
+      { $match: { status: 'open' } },
+      { $group: { _id: '$severity', count: { $sum: 1 } } },
+    ])
+    .toArray();
+
+  return {
+    low: 0,
+    medium: 0,
+    high: 0,
+    ...Object.fromEntries(groups.map((group) => [group._id, group.count])),
+  };
+}
+
+/**
+ * Marks an open alert resolved
+ *
+ * @returns The alert, or null if no open alert has this ID
+ */
+export async function resolveSecurityAlert(
+  db: Db,
+  alertId: string,
+  resolvedBy: { id: string; name: string }
+): Promise<WithId<SecurityAlert> | null> {
+  return db.collection<SecurityAlert>('security_alerts').findOneAndUpdate(
+    { _id: new ObjectId(alertId), status: 'open' },
+    { $set: { status: 'resolved', resolvedAt: new Date(), resolvedBy } },
+    { returnDocument: 'after' }
+  );
+}
+
+/**
+ * Gets a single alert by ID
+ */
+export async function getSecurityAlert(
+  db: Db,
+  alertId: string
+): Promise<WithId<SecurityAlert> | null> {
+  return db.collection<SecurityAlert>('security_alerts').findOne({ _id: new ObjectId(alertId) });
+}
+
+/**
+ * Finds a block that applies to a sign-in attempt
+ *
+ * @param db - MongoDB database instance
+ * @param attempt - Email and IP address of the attempt
+ * @param now - Current time (blocks can outlive their expiry until the TTL monitor runs)
+ * @returns The block, or null when the attempt is not blocked
+ */
+export async function findActiveAccessBlock(
+  db: Db,
+  attempt: { email?: string | null; ipAddress?: string },
+  now: Date = new Date()
+): Promise<WithId<AccessBlock> | null> {
+  const subjects: Filter<AccessBlock>[] = [];
+  if (attempt.ipAddress && attempt.ipAddress !== 'unknown') {
+    subjects.push({ kind: 'ip', value: attempt.ipAddress });
+  }
+  if (attempt.email) {
+    subjects.push({ kind: 'email', value: attempt.email.trim().toLowerCase() });
+  }
+  if (subjects.length === 0) {
+    return null;
+  }
+
+  return db
+    .collection<AccessBlock>('access_blocks')
+    .findOne({ $or: subjects, expiresAt: { $gt: now } });
+}
+
+/**
+ * Lists blocks that have not expired, soonest to expire first
+ */
+export async function listActiveAccessBlocks(
+  db: Db,
+  now: Date = new Date()
+): Promise<WithId<AccessBlock>[]> {
+  return db
+    .collection<AccessBlock>('access_blocks')
+    .find({ expiresAt: { $gt: now } })
+    .sort({ expiresAt: 1 })
+    .toArray();
+}
+
+/**
+ * Blocks an IP address or email, replacing any existing block for it
+ */
+export async function createAccessBlock(
+  db: Db,
+  block: Omit<AccessBlock, 'createdAt'>
+): Promise<void> {
+  const { kind, value, ...details } = block;
+
+  await db.collection<AccessBlock>('access_blocks').updateOne(
+    { kind, value },
+    { $set: { ...details, createdAt: new Date() } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Removes a block before it expires
+ *
+ * @returns true if the block existed
+ */
+export async function removeAccessBlock(db: Db, blockId: string): Promise<boolean> {
+  const result = await db
+    .collection<AccessBlock>('access_blocks')
+    .deleteOne({ _id: new ObjectId(blockId) });
+
+  return result.deletedCount > 0;
+}
@@ -0,0 +1,98 @@
+/**
+ * Session Helpers for Server Code
+ *
+ * Resolves the NextAuth session into the identity server actions and
+ * pages need for authorship, ownership and permission checks.
+ *
+ * Usage:
+ * ```typescript
+ * import { requireCurrentUser, requirePermission, requireSessionUser } from '@/lib/auth/session'
+ *
+ * const user = await requireSessionUser()
+ * await createPrompt(user.id, user.name, data)
+ *
+ * const editor = await requireCurrentUser()
+ * const allowed = canModifyPrompt(prompt.authorId, editor)
+ *
+ * const admin = await requirePermission('settings:manage')
+ * ```
+ */
+
+import { auth } from '@/auth';
+import { getUserRole } from '@/lib/db/models/user';
+import type { SessionUser } from './ownership';
+import { hasPermission, type Permission } from './permissions';
+
+/**
+ * Gets the signed-in user from the current session.
+ *
+ * @returns Signed-in user, or null when unauthenticated
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const email = session.user.email || '';
+
+  return {
+    id: session.user.id,
+    name: session.user.name || email || 'Unknown User',
+    email,
+    role: session.user.role,
+  };
+}
+
+/**
+ * Gets the signed-in user, throwing when there is no session.
+ *
+ * @throws {Error} If the request is unauthenticated
+ * @returns Signed-in user
+ */
+export async function requireSessionUser(): Promise<SessionUser> {
+  const user = await getSessionUser();
+
+  if (!user) {
+    throw new Error('You must be signed in to do that');
+  }
+
+  return user;
+}
+
+/**
+ * Gets the signed-in user with their role re-read from the database,
+ * throwing when there is no session.
+ *
+ * The role in the session can be a few minutes old: actions that let a role
+ * change other users' content use this so a revoked role stops working
+ * immediately.
+ *
+ * @throws {Error} If the request is unauthenticated
+ * @returns Signed-in user with their current role
+ */
+export async function requireCurrentUser(): Promise<SessionUser> {
+  const user = await requireSessionUser();
+
+  return { ...user, role: await getUserRole(user.id) };
+}
+
+/**
+ * Gets the signed-in user, throwing unless their role grants a permission.
+ *
+ * The role is re-read from the database (see requireCurrentUser).
+ *
+ * @param permission - Permission the action needs
+ * @throws {Error} If the request is unauthenticated or the permission is missing
+ * @returns Signed-in user with their current role
+ */
+export async function requirePermission(permission: Permission): Promise<SessionUser> {
+  const user = await requireCurrentUser();
+
+  if (!hasPermission(user, permission)) {
+    throw new Error('You do not have permission to do that');
+  }
+
+  return user;
+}
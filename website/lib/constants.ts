@@ -17,6 +17,7 @@ export const SORT_OPTIONS = [
   { value: 'newest', label: 'Newest' },
   { value: 'popular', label: 'Most Forked' },
   { value: 'views', label: 'Most Viewed' },
+  { value: 'trending', label: 'Trending' },
 ] as const
 
 export const LLM_PLATFORMS = [
@@ -27,8 +28,13 @@ export const LLM_PLATFORMS = [
 
 export const LIMITS = {
   PROMPTS_PER_PAGE: 20,
+  /** Pages re-rendered when returning to an infinite-scrolled listing */
+  MAX_RESTORED_PAGES: 10,
   MAX_TAGS: 10,
   MAX_TITLE_LENGTH: 100,
   MAX_DESCRIPTION_LENGTH: 300,
   MAX_PROMPT_LENGTH: 10000,
+  /** Searches remembered per user for the search box dropdown */
+  MAX_RECENT_SEARCHES: 10,
+  MAX_SAVED_SEARCHES: 50,
 } as const
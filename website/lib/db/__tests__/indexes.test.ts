@@ -0,0 +1,109 @@
+/**
+ * Declared Index Tests
+ *
+ * Tests for comparing declared index specs with the indexes MongoDB reports
+ */
+
+import { INDEX_SPECS, diffIndexes, hasDrift, type IndexSpec } from '../indexes';
+
+const specs: IndexSpec[] = [
+  { key: { email: 1 }, options: { name: 'email_unique', unique: true, background: true } },
+  { key: { createdAt: -1, _id: -1 }, options: { name: 'createdAt_id' } },
+  {
+    key: { title: 'text', tags: 'text' },
+    options: { name: 'text_search', weights: { title: 10, tags: 5 } },
+  },
+];
+
+// Shape returned by collection.indexes()
+const inSync = [
+  { v: 2, key: { _id: 1 }, name: '_id_' },
+  { v: 2, key: { email: 1 }, name: 'email_unique', unique: true, background: true },
+  { v: 2, key: { createdAt: -1, _id: -1 }, name: 'createdAt_id' },
+  {
+    v: 2,
+    key: { _fts: 'text', _ftsx: 1 },
+    name: 'text_search',
+    weights: { tags: 5, title: 10 },
+    default_language: 'english',
+    language_override: 'language',
+    textIndexVersion: 3,
+  },
+];
+
+describe('diffIndexes', () => {
+  it('should report no drift when indexes match', () => {
+    const drift = diffIndexes(specs, inSync);
+
+    expect(drift).toEqual({ missing: [], unexpected: [], changed: [] });
+    expect(hasDrift(drift)).toBe(false);
+  });
+
+  it('should report missing indexes', () => {
+    const drift = diffIndexes(specs, inSync.slice(0, 2));
+
+    expect(drift.missing).toEqual(['createdAt_id', 'text_search']);
+    expect(hasDrift(drift)).toBe(true);
+  });
+
+  it('should report undeclared indexes except _id_', () => {
+    const drift = diffIndexes(specs, [...inSync, { v: 2, key: { title: 1 }, name: 'title_1' }]);
+
+    expect(drift.unexpected).toEqual(['title_1']);
+  });
+
+  it('should report a changed key, including key order', () => {
+    const drift = diffIndexes(specs, [
+      ...inSync.filter((index) => index.name !== 'createdAt_id'),
+      { v: 2, key: { _id: -1, createdAt: -1 }, name: 'createdAt_id' },
+    ]);
+
+    expect(drift.changed).toEqual([
+      {
+        name: 'createdAt_id',
+        reason: 'key {"_id":-1,"createdAt":-1} should be {"createdAt":-1,"_id":-1}',
+      },
+    ]);
+  });
+
+  it('should report changed options but ignore build-only ones', () => {
+    const drift = diffIndexes(specs, [
+      ...inSync.filter((index) => index.name !== 'email_unique'),
+      { v: 2, key: { email: 1 }, name: 'email_unique' },
+    ]);
+
+    expect(drift.changed).toEqual([{ name: 'email_unique', reason: 'unique is null, should be true' }]);
+  });
+
+  it('should compare text indexes by weights', () => {
+    const drift = diffIndexes(specs, [
+      ...inSync.filter((index) => index.name !== 'text_search'),
+      { v: 2, key: { _fts: 'text', _ftsx: 1 }, name: 'text_search', weights: { title: 1, tags: 1 } },
+    ]);
+
+    expect(drift.changed).toHaveLength(1);
+    expect(drift.changed[0].name).toBe('text_search');
+    expect(drift.changed[0].reason).toMatch(/^weights/);
+  });
+});
+
+describe('INDEX_SPECS', () => {
+  it('should use unique index names within each collection', () => {
+    for (const collectionSpecs of Object.values(INDEX_SPECS)) {
+      const names = collectionSpecs.map((spec) => spec.options.name);
+      expect(new Set(names).size).toBe(names.length);
+    }
+  });
+
+  it('should declare exactly one text index on prompts, title weighted highest', () => {
+    const textIndexes = INDEX_SPECS.prompts.filter((spec) =>
+      Object.values(spec.key).includes('text')
+    );
+
+    expect(textIndexes).toHaveLength(1);
+    const weights = textIndexes[0].options.weights!;
+    expect(weights.title).toBeGreaterThan(weights.tags);
+    expect(weights.tags).toBeGreaterThan(weights.description);
+    expect(weights.description).toBeGreaterThan(weights.promptContent);
+  });
+});
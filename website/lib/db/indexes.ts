@@ -0,0 +1,376 @@
+/**
+ * Declared MongoDB Indexes
+ *
+ * Every index the app relies on, per collection. `ensureIndexes()` creates
+ * them and `getIndexDrift()` compares them against what the database
+ * actually has, so missing, changed or unexpected indexes are reported
+ * instead of silently slowing (or, for `$text`, breaking) queries.
+ *
+ * Usage:
+ * ```typescript
+ * for (const [collection, specs] of Object.entries(INDEX_SPECS)) {
+ *   const drift = diffIndexes(specs, await db.collection(collection).indexes());
+ * }
+ * ```
+ */
+
+import type { CreateIndexesOptions, Document, IndexDirection } from 'mongodb';
+import { EVENT_RETENTION_DAYS } from '@/lib/utils/trending';
+
+export interface IndexSpec {
+  key: Record<string, IndexDirection>;
+  options: CreateIndexesOptions & { name: string };
+}
+
+/**
+ * Differences between declared and actual indexes on one collection
+ */
+export interface IndexDrift {
+  /** Declared but not in the database */
+  missing: string[];
+  /** In the database but not declared (the default `_id_` index is ignored) */
+  unexpected: string[];
+  /** Same name, different definition */
+  changed: { name: string; reason: string }[];
+}
+
+export const INDEX_SPECS: Record<string, IndexSpec[]> = {
+  users: [
+    // Email index (unique) - for user lookup
+    { key: { email: 1 }, options: { unique: true, name: 'email_unique', background: true } },
+
+    // Webex ID index (unique) - for OAuth user matching
+    {
+      key: { webexId: 1 },
+      options: {
+        unique: true,
+        sparse: true, // Allow documents without webexId
+        name: 'webexId_unique',
+        background: true,
+      },
+    },
+
+    // Organization ID index - for access control queries
+    { key: { orgId: 1 }, options: { name: 'orgId_1', background: true } },
+
+    // Provider index - for multi-provider support (future)
+    { key: { provider: 1 }, options: { name: 'provider_1', background: true } },
+
+    // Compound index: provider + orgId - for efficient filtering
+    { key: { provider: 1, orgId: 1 }, options: { name: 'provider_orgId', background: true } },
+
+    // Role + name - for the admin users page role filter
+    { key: { role: 1, name: 1 }, options: { name: 'role_name', background: true } },
+  ],
+
+  // Managed by NextAuth adapter
+  accounts: [
+    // Provider + providerAccountId (unique) - NextAuth requirement
+    {
+      key: { provider: 1, providerAccountId: 1 },
+      options: { unique: true, name: 'provider_providerAccountId_unique', background: true },
+    },
+
+    // userId index - for looking up user's accounts
+    { key: { userId: 1 }, options: { name: 'userId_1', background: true } },
+  ],
+
+  // If using database sessions
+  sessions: [
+    // Session token (unique) - for session lookup
+    {
+      key: { sessionToken: 1 },
+      options: { unique: true, name: 'sessionToken_unique', background: true },
+    },
+
+    // Expires index with TTL - auto-delete expired sessions
+    {
+      key: { expires: 1 },
+      options: {
+        name: 'expires_ttl',
+        expireAfterSeconds: 0, // Delete at expire time
+        background: true,
+      },
+    },
+  ],
+
+  auth_audit_logs: [
+    // Timestamp index with TTL - auto-delete logs after 1 year
+    {
+      key: { timestamp: 1 },
+      options: {
+        name: 'timestamp_ttl',
+        expireAfterSeconds: 365 * 24 * 60 * 60, // 1 year retention
+        background: true,
+      },
+    },
+
+    // User ID index - for querying user's audit history
+    { key: { userId: 1 }, options: { name: 'userId_1', background: true } },
+
+    // Email index - for querying by email (includes failed attempts)
+    { key: { email: 1 }, options: { name: 'email_1', background: true } },
+
+    // Action index - for filtering by action type
+    { key: { action: 1 }, options: { name: 'action_1', background: true } },
+
+    // Compound index: timestamp + action - for efficient filtering
+    { key: { timestamp: -1, action: 1 }, options: { name: 'timestamp_action', background: true } },
+
+    // Compound index: timestamp + _id - for audit log viewer pages and exports
+    { key: { timestamp: -1, _id: -1 }, options: { name: 'timestamp_id', background: true } },
+
+    // IP address index - for tracking suspicious activity
+    { key: { ipAddress: 1 }, options: { name: 'ipAddress_1', background: true } },
+  ],
+
+  prompts: [
+    // Text index - required by $text search, titles rank highest
+    {
+      key: { title: 'text', tags: 'text', description: 'text', promptContent: 'text' },
+      options: {
+        name: 'prompt_text_search',
+        weights: { title: 10, tags: 5, description: 3, promptContent: 1 },
+        default_language: 'english',
+        background: true,
+      },
+    },
+
+    // Browse sorts - listed prompts by newest, most forked, most viewed and trending
+    {
+      key: { isPublic: 1, deletedAt: 1, createdAt: -1, _id: -1 },
+      options: { name: 'listed_createdAt', background: true },
+    },
+    {
+      key: { isPublic: 1, deletedAt: 1, forkCount: -1, _id: -1 },
+      options: { name: 'listed_forkCount', background: true },
+    },
+    {
+      key: { isPublic: 1, deletedAt: 1, viewCount: -1, _id: -1 },
+      options: { name: 'listed_viewCount', background: true },
+    },
+    {
+      key: { isPublic: 1, deletedAt: 1, trendingScore: -1, _id: -1 },
+      options: { name: 'listed_trendingScore', background: true },
+    },
+
+    // Category browse - listed prompts in one category, newest first
+    {
+      key: { isPublic: 1, category: 1, createdAt: -1 },
+      options: { name: 'listed_category_createdAt', background: true },
+    },
+
+    // Tags - tag filters, facets and the tag index
+    { key: { tags: 1 }, options: { name: 'tags_1', background: true } },
+
+    // Author - library My Prompts and Trash tabs
+    {
+      key: { authorId: 1, deletedAt: 1, createdAt: -1 },
+      options: { name: 'authorId_deletedAt_createdAt', background: true },
+    },
+
+    // Starred - library Starred tab
+    { key: { starredBy: 1, createdAt: -1 }, options: { name: 'starredBy_createdAt', background: true } },
+
+    // Parent - fork lineage and detaching forks when a parent is purged
+    { key: { parentPromptId: 1 }, options: { name: 'parentPromptId_1', background: true } },
+
+    // Deleted at - the trash purge job
+    { key: { deletedAt: 1 }, options: { name: 'deletedAt_1', background: true } },
+
+    // Content bands - near-duplicate candidates when saving a prompt
+    { key: { contentBands: 1 }, options: { name: 'contentBands_1', background: true } },
+  ],
+
+  prompt_revisions: [
+    // Prompt ID + version (unique) - one snapshot per version, history listing
+    {
+      key: { promptId: 1, versionNumber: -1 },
+      options: { unique: true, name: 'promptId_versionNumber_unique', background: true },
+    },
+  ],
+
+  security_alerts: [
+    // Key (unique while open) - later events update the open alert
+    {
+      key: { key: 1 },
+      options: {
+        unique: true,
+        partialFilterExpression: { status: 'open' },
+        name: 'key_open_unique',
+        background: true,
+      },
+    },
+
+    // Status + last seen - for the security dashboard
+    { key: { status: 1, lastSeenAt: -1, _id: -1 }, options: { name: 'status_lastSeenAt', background: true } },
+
+    // Last seen with TTL - auto-delete alerts 90 days after their last event
+    {
+      key: { lastSeenAt: 1 },
+      options: {
+        name: 'lastSeenAt_ttl',
+        expireAfterSeconds: 90 * 24 * 60 * 60, // 90 day retention
+        background: true,
+      },
+    },
+  ],
+
+  access_blocks: [
+    // Kind + value (unique) - one block per IP address or email
+    { key: { kind: 1, value: 1 }, options: { unique: true, name: 'kind_value_unique', background: true } },
+
+    // Expires at with TTL - delete blocks when they expire
+    {
+      key: { expiresAt: 1 },
+      options: {
+        name: 'expiresAt_ttl',
+        expireAfterSeconds: 0, // Delete at expire time
+        background: true,
+      },
+    },
+  ],
+
+  prompt_events: [
+    // Created at with TTL - events are only needed for the longest engagement period
+    {
+      key: { createdAt: 1 },
+      options: {
+        name: 'createdAt_ttl',
+        expireAfterSeconds: EVENT_RETENTION_DAYS * 24 * 60 * 60,
+        background: true,
+      },
+    },
+  ],
+
+  recent_searches: [
+    // User ID (unique) - one list of recent searches per user
+    { key: { userId: 1 }, options: { unique: true, name: 'userId_unique', background: true } },
+  ],
+
+  saved_searches: [
+    // User ID + created - the library Saved Searches tab
+    { key: { userId: 1, createdAt: -1 }, options: { name: 'userId_createdAt', background: true } },
+  ],
+
+  collections: [
+    // Owner index - for the library Collections tab
+    { key: { ownerId: 1, updatedAt: -1 }, options: { name: 'ownerId_updatedAt', background: true } },
+
+    // Collaborator index - for collections shared with a user
+    {
+      key: { 'collaborators.userId': 1 },
+      options: { name: 'collaborators_userId', background: true },
+    },
+  ],
+};
+
+// Options that change what an index does (others, like `background`, only affect the build)
+const COMPARED_OPTIONS = [
+  'unique',
+  'sparse',
+  'expireAfterSeconds',
+  'partialFilterExpression',
+  'weights',
+  'default_language',
+] as const;
+
+/**
+ * Serializes a value with sorted object keys so equal definitions compare equal
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function isTextIndex(key: Record<string, unknown>): boolean {
+  return Object.values(key).includes('text');
+}
+
+/**
+ * Compares a declared index with the one the database reports under the same name.
+ *
+ * Text indexes are stored as `{ _fts: 'text', _ftsx: 1 }`, with the fields in
+ * `weights`, so they are compared by weights rather than by key.
+ *
+ * @returns Why they differ, or null if they match
+ */
+function compareIndex(spec: IndexSpec, actual: Document): string | null {
+  if (isTextIndex(spec.key)) {
+    if (!isTextIndex(actual.key || {})) {
+      return 'expected a text index';
+    }
+    const declaredWeights = Object.fromEntries(
+      Object.keys(spec.key).map((field) => [field, spec.options.weights?.[field] ?? 1])
+    );
+    if (stableStringify(declaredWeights) !== stableStringify(actual.weights)) {
+      return `weights ${stableStringify(actual.weights)} should be ${stableStringify(declaredWeights)}`;
+    }
+  } else if (stableStringify(Object.entries(spec.key)) !== stableStringify(Object.entries(actual.key || {}))) {
+    return `key ${JSON.stringify(actual.key)} should be ${JSON.stringify(spec.key)}`;
+  }
+
+  for (const option of COMPARED_OPTIONS) {
+    if (option === 'weights') continue;
+
+    // Text indexes always report a language; only compare it when declared
+    if (option === 'default_language' && spec.options.default_language === undefined) continue;
+
+    const declared = spec.options[option] ?? null;
+    const current = actual[option] ?? null;
+    if (stableStringify(declared) !== stableStringify(current)) {
+      return `${option} is ${stableStringify(current)}, should be ${stableStringify(declared)}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compares the declared indexes of a collection with its actual indexes.
+ *
+ * @param declared - Index specs for the collection
+ * @param actual - Result of `collection.indexes()`
+ * @returns Missing, unexpected and changed indexes (all empty when in sync)
+ */
+export function diffIndexes(declared: IndexSpec[], actual: Document[]): IndexDrift {
+  const actualByName = new Map(actual.map((index) => [index.name as string, index]));
+  const declaredNames = new Set(declared.map((spec) => spec.options.name));
+
+  const missing: string[] = [];
+  const changed: IndexDrift['changed'] = [];
+
+  for (const spec of declared) {
+    const current = actualByName.get(spec.options.name);
+    if (!current) {
+      missing.push(spec.options.name);
+      continue;
+    }
+
+    const reason = compareIndex(spec, current);
+    if (reason) {
+      changed.push({ name: spec.options.name, reason });
+    }
+  }
+
+  const unexpected = actual
+    .map((index) => index.name as string)
+    .filter((name) => name !== '_id_' && !declaredNames.has(name));
+
+  return { missing, unexpected, changed };
+}
+
+/**
+ * Whether a drift report has anything to act on
+ */
+export function hasDrift(drift: IndexDrift): boolean {
+  return drift.missing.length > 0 || drift.unexpected.length > 0 || drift.changed.length > 0;
+}
@@ -0,0 +1,400 @@
+/**
+ * Prompt Model Tests
+ *
+ * Tests for the conditional updates that keep star counts, revision version
+ * numbers and replacement links consistent, against an in-memory stand-in
+ * for the MongoDB collections.
+ *
+ * @jest-environment node
+ */
+
+import { ObjectId } from 'mongodb';
+import type { Prompt, PromptEvent, PromptFormData, PromptRevision } from '@/types/prompt';
+import { getDb } from '@/lib/db/mongodb';
+import { promptSchema } from '@/lib/validations/prompt';
+import { setPromptStatus, toggleStar, updatePrompt } from '../prompt';
+
+jest.mock('@/lib/db/mongodb', () => ({ getDb: jest.fn() }));
+
+type Doc = Partial<Prompt>;
+type Filter = Record<string, unknown>;
+
+interface Update {
+  $set?: Record<string, unknown>;
+  $inc?: Record<string, number>;
+  $addToSet?: Record<string, unknown>;
+  $pull?: Record<string, unknown>;
+}
+
+// Unique indexes the model relies on
+const UNIQUE_KEYS: Record<string, string[]> = {
+  prompt_revisions: ['promptId', 'versionNumber'],
+};
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a instanceof ObjectId || b instanceof ObjectId ? String(a) === String(b) : a === b;
+}
+
+// Prompts, revisions and events share the store, so fields are read by name
+function fields(doc: Doc): Record<string, unknown> {
+  return doc as Record<string, unknown>;
+}
+
+/**
+ * Matches equality (array fields match when they contain the value) and $ne
+ */
+function matches(doc: Doc, filter: Filter): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    const value = fields(doc)[field];
+    const contains = (expected: unknown) =>
+      Array.isArray(value) ? value.some((item) => sameValue(item, expected)) : sameValue(value, expected);
+
+    if (condition && typeof condition === 'object' && '$ne' in condition) {
+      return !contains(condition.$ne);
+    }
+    return contains(condition);
+  });
+}
+
+/**
+ * Applies $set, $inc, $addToSet and $pull
+ */
+function applyUpdate(doc: Doc, update: Update): void {
+  const values = fields(doc);
+
+  Object.assign(values, update.$set);
+  for (const [field, amount] of Object.entries(update.$inc ?? {})) {
+    values[field] = ((values[field] as number | undefined) ?? 0) + amount;
+  }
+  for (const [field, value] of Object.entries(update.$addToSet ?? {})) {
+    const items = values[field] as unknown[];
+    if (!items.some((item) => sameValue(item, value))) {
+      values[field] = [...items, value];
+    }
+  }
+  for (const [field, value] of Object.entries(update.$pull ?? {})) {
+    values[field] = (values[field] as unknown[]).filter((item) => !sameValue(item, value));
+  }
+}
+
+/**
+ * In-memory collections. Every operation yields to the event loop first, so
+ * concurrent calls interleave between operations like real requests do.
+ */
+function mockDb() {
+  const collections = new Map<string, Doc[]>();
+  const docs = <T extends object = Prompt>(name: string): T[] => {
+    if (!collections.has(name)) collections.set(name, []);
+    return collections.get(name)! as T[];
+  };
+  const failedInserts = new Map<string, (doc: Filter) => boolean>();
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+  const collection = (name: string) => ({
+    findOne: async (filter: Filter) => {
+      await tick();
+      const doc = docs<Doc>(name).find((item) => matches(item, filter));
+      return doc ? { ...doc } : null;
+    },
+    findOneAndUpdate: async (filter: Filter, update: Update) => {
+      await tick();
+      const doc = docs<Doc>(name).find((item) => matches(item, filter));
+      if (!doc) return null;
+      applyUpdate(doc, update);
+      return { ...doc };
+    },
+    updateOne: async (filter: Filter, update: Update) => {
+      await tick();
+      const doc = docs<Doc>(name).find((item) => matches(item, filter));
+      if (doc) applyUpdate(doc, update);
+      return { matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 };
+    },
+    insertOne: async (doc: Doc) => {
+      await tick();
+      if (failedInserts.get(name)?.(fields(doc))) {
+        throw new Error('connection reset');
+      }
+      const keys = UNIQUE_KEYS[name] ?? [];
+      const isDuplicate = docs<Doc>(name).some((item) =>
+        keys.every((key) => sameValue(fields(item)[key], fields(doc)[key]))
+      );
+      if (keys.length > 0 && isDuplicate) {
+        throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+      }
+      const inserted = { _id: new ObjectId(), ...doc };
+      docs<Doc>(name).push(inserted);
+      return { insertedId: inserted._id };
+    },
+    deleteOne: async (filter: Filter) => {
+      await tick();
+      const index = docs<Doc>(name).findIndex((item) => matches(item, filter));
+      if (index >= 0) docs<Doc>(name).splice(index, 1);
+      return { deletedCount: index >= 0 ? 1 : 0 };
+    },
+  });
+
+  (getDb as jest.Mock).mockResolvedValue({ collection });
+
+  return {
+    docs,
+    failInserts: (name: string, when: (doc: Filter) => boolean) => failedInserts.set(name, when),
+  };
+}
+
+function prompt(overrides: Partial<Prompt> = {}): Prompt {
+  return {
+    _id: new ObjectId(),
+    title: 'Summarize meeting notes',
+    description: 'Turns raw notes into a short summary',
+    promptContent: 'Summarize these meeting notes: {{notes}}',
+    category: 'Writing',
+    tags: ['summary'],
+    outputFormat: 'markdown',
+    variables: [
+      {
+        name: 'notes',
+        description: 'Raw meeting notes',
+        defaultValue: '',
+        required: true,
+        type: 'multiline',
+        options: [],
+      },
+    ],
+    authorId: new ObjectId(),
+    authorName: 'Ada',
+    isPublic: true,
+    status: 'published',
+    parentPromptId: null,
+    forkCount: 0,
+    viewCount: 0,
+    starCount: 0,
+    starredBy: [],
+    versionNumber: 1,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+describe('toggleStar', () => {
+  const userId = new ObjectId().toString();
+  const otherUserId = new ObjectId().toString();
+
+  it('should star a prompt and count the star once', async () => {
+    const { docs } = mockDb();
+    const doc = prompt();
+    docs('prompts').push(doc);
+
+    expect(await toggleStar(doc._id.toString(), userId)).toEqual({ starred: true, starCount: 1 });
+    expect(doc.starredBy.map(String)).toEqual([userId]);
+    expect(docs<PromptEvent>('prompt_events').map((event) => event.type)).toEqual(['star']);
+  });
+
+  it('should unstar a prompt the user has starred', async () => {
+    const { docs } = mockDb();
+    const doc = prompt({ starCount: 2, starredBy: [new ObjectId(userId), new ObjectId(otherUserId)] });
+    docs('prompts').push(doc);
+
+    expect(await toggleStar(doc._id.toString(), userId)).toEqual({ starred: false, starCount: 1 });
+    expect(doc.starredBy.map(String)).toEqual([otherUserId]);
+    expect(docs<PromptEvent>('prompt_events').map((event) => event.type)).toEqual(['unstar']);
+  });
+
+  it('should not count a repeated star twice', async () => {
+    const { docs } = mockDb();
+    const doc = prompt();
+    docs('prompts').push(doc);
+
+    // A double click sends both requests before either finishes
+    await Promise.all([
+      toggleStar(doc._id.toString(), userId),
+      toggleStar(doc._id.toString(), userId),
+      toggleStar(doc._id.toString(), otherUserId),
+    ]);
+
+    expect(doc.starCount).toBe(doc.starredBy.length);
+    expect(doc.starredBy.map(String)).toEqual([otherUserId]);
+  });
+
+  it('should keep starCount and starredBy in step over a run of toggles', async () => {
+    const { docs } = mockDb();
+    const doc = prompt();
+    docs('prompts').push(doc);
+
+    for (const id of [userId, otherUserId, userId, userId, otherUserId]) {
+      const result = await toggleStar(doc._id.toString(), id);
+
+      expect(result.starCount).toBe(doc.starredBy.length);
+      expect(result.starred).toBe(doc.starredBy.some((starredId) => starredId.toString() === id));
+    }
+    expect(doc.starCount).toBe(1);
+  });
+
+  it('should not star or unstar a prompt in the trash', async () => {
+    const { docs } = mockDb();
+    const deletedAt = new Date('2025-02-01T00:00:00Z');
+    const unstarred = prompt({ deletedAt });
+    const starred = prompt({ deletedAt, starCount: 1, starredBy: [new ObjectId(userId)] });
+    docs('prompts').push(unstarred, starred);
+
+    await expect(toggleStar(unstarred._id.toString(), userId)).rejects.toThrow('Prompt not found');
+    await expect(toggleStar(starred._id.toString(), userId)).rejects.toThrow('Prompt not found');
+
+    expect(unstarred).toMatchObject({ starCount: 0, starredBy: [] });
+    expect(starred.starCount).toBe(1);
+    expect(starred.starredBy.map(String)).toEqual([userId]);
+    expect(docs<PromptEvent>('prompt_events')).toEqual([]);
+  });
+
+  it('should throw for a missing prompt', async () => {
+    mockDb();
+
+    await expect(toggleStar(new ObjectId().toString(), userId)).rejects.toThrow('Prompt not found');
+  });
+});
+
+describe('updatePrompt', () => {
+  const editor = { id: new ObjectId().toString(), name: 'Grace' };
+  const conflict = 'Prompt was changed by someone else. Reload and try again.';
+
+  function edit(title: string): PromptFormData {
+    return promptSchema.parse({
+      title,
+      description: 'Turns raw notes into a short summary',
+      promptContent: `${title} from these notes: {{notes}}`,
+      category: 'Writing',
+      tags: ['summary'],
+      outputFormat: 'markdown',
+      variables: [{ name: 'notes', description: 'Raw meeting notes', type: 'multiline' }],
+      isPublic: true,
+    });
+  }
+
+  it('should number versions sequentially and record a revision for each', async () => {
+    const { docs } = mockDb();
+    const doc = prompt();
+    docs('prompts').push(doc);
+
+    expect(await updatePrompt(doc._id.toString(), edit('Summarize notes'), 1, editor, 'Shorter title')).toBe(2);
+    expect(await updatePrompt(doc._id.toString(), edit('Summarize minutes'), 2, editor)).toBe(3);
+
+    expect(doc.versionNumber).toBe(3);
+    expect(doc.title).toBe('Summarize minutes');
+    expect(
+      docs<PromptRevision>('prompt_revisions').map(({ versionNumber, title, changeNote }) => ({
+        versionNumber,
+        title,
+        changeNote,
+      }))
+    ).toEqual([
+      { versionNumber: 1, title: 'Summarize meeting notes', changeNote: 'Original version' },
+      { versionNumber: 2, title: 'Summarize notes', changeNote: 'Shorter title' },
+      { versionNumber: 3, title: 'Summarize minutes', changeNote: '' },
+    ]);
+  });
+
+  it('should reject an edit of a version that is no longer current', async () => {
+    const { docs } = mockDb();
+    const doc = prompt({ versionNumber: 3 });
+    docs('prompts').push(doc);
+
+    // The editor loaded version 2; someone else has saved version 3 since
+    await expect(updatePrompt(doc._id.toString(), edit('Stale edit'), 2, editor)).rejects.toThrow(conflict);
+
+    expect(doc.versionNumber).toBe(3);
+    expect(doc.title).toBe('Summarize meeting notes');
+    expect(docs<PromptRevision>('prompt_revisions').some(({ versionNumber }) => versionNumber === 4)).toBe(
+      false
+    );
+  });
+
+  it('should let only one of two saves of the same version through', async () => {
+    const { docs } = mockDb();
+    const doc = prompt({ versionNumber: 4 });
+    docs('prompts').push(doc);
+
+    // Two tabs loaded version 4 and save at the same time
+    const results = await Promise.allSettled([
+      updatePrompt(doc._id.toString(), edit('First edit'), 4, editor),
+      updatePrompt(doc._id.toString(), edit('Second edit'), 4, editor),
+    ]);
+
+    expect(results.map(({ status }) => status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+      reason: new Error(conflict),
+    });
+    expect(doc.versionNumber).toBe(5);
+
+    const revisions = docs<PromptRevision>('prompt_revisions').filter(
+      ({ versionNumber }) => versionNumber === 5
+    );
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].title).toBe(doc.title);
+  });
+
+  it('should leave the version unchanged when the revision cannot be recorded', async () => {
+    const { docs, failInserts } = mockDb();
+    const doc = prompt({ versionNumber: 2 });
+    docs('prompts').push(doc);
+    failInserts('prompt_revisions', ({ versionNumber }) => versionNumber === 3);
+
+    await expect(updatePrompt(doc._id.toString(), edit('Lost edit'), 2, editor)).rejects.toThrow(
+      'connection reset'
+    );
+
+    expect(doc.versionNumber).toBe(2);
+    expect(doc.title).toBe('Summarize meeting notes');
+  });
+
+  it('should throw for a missing prompt', async () => {
+    mockDb();
+
+    await expect(updatePrompt(new ObjectId().toString(), edit('Anything'), 1, editor)).rejects.toThrow(
+      'Prompt not found'
+    );
+  });
+});
+
+describe('setPromptStatus', () => {
+  it('should point a deprecated prompt at a published public replacement', async () => {
+    const { docs } = mockDb();
+    const doc = prompt();
+    const replacement = prompt({ title: 'Summarize meeting notes v2' });
+    docs('prompts').push(doc, replacement);
+
+    await setPromptStatus(doc._id.toString(), 'deprecated', replacement._id.toString());
+
+    expect(doc.status).toBe('deprecated');
+    expect(String(doc.replacementPromptId)).toBe(replacement._id.toString());
+  });
+
+  it('should reject replacements that are deleted, private or drafts', async () => {
+    const { docs } = mockDb();
+    const doc = prompt();
+    const replacements = [
+      prompt({ deletedAt: new Date('2025-02-01T00:00:00Z') }),
+      prompt({ isPublic: false }),
+      prompt({ status: 'draft' }),
+    ];
+    docs('prompts').push(doc, ...replacements);
+
+    for (const replacement of replacements) {
+      await expect(
+        setPromptStatus(doc._id.toString(), 'deprecated', replacement._id.toString())
+      ).rejects.toThrow('Replacement must be a published public prompt');
+    }
+    expect(doc.status).toBe('published');
+    expect(doc.replacementPromptId).toBeUndefined();
+  });
+
+  it('should reject a prompt replacing itself', async () => {
+    const { docs } = mockDb();
+    const doc = prompt();
+    docs('prompts').push(doc);
+
+    await expect(setPromptStatus(doc._id.toString(), 'archived', doc._id.toString())).rejects.toThrow(
+      'A prompt cannot replace itself'
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { ObjectId } from 'mongodb'
+import { getDb } from '@/lib/db/mongodb'
+import { accessPolicySchema, type AccessPolicy } from '@/lib/validations/access-policy'
+import type { AccessPolicySettings } from '@/types/access-policy'
+
+/**
+ * Get the saved access policy settings, null until an admin saves a policy
+ */
+export async function getAccessPolicySettings(): Promise<AccessPolicySettings | null> {
+  const db = await getDb()
+  const collection = db.collection<AccessPolicySettings>('settings')
+
+  return await collection.findOne({ _id: 'access_policy' })
+}
+
+/**
+ * Get the saved access policy, read on every sign-in so edits apply without
+ * a restart. Null when none is saved (the environment allowlists apply).
+ *
+ * @throws {Error} If the saved policy is invalid: sign-in fails closed rather
+ *   than falling back to looser rules
+ */
+export async function getAccessPolicy(): Promise<AccessPolicy | null> {
+  const settings = await getAccessPolicySettings()
+  if (!settings) {
+    return null
+  }
+
+  const parsed = accessPolicySchema.safeParse(settings.policy)
+  if (!parsed.success) {
+    throw new Error('The saved access policy is invalid')
+  }
+
+  return parsed.data
+}
+
+/**
+ * Save the access policy
+ */
+export async function saveAccessPolicy(
+  policy: AccessPolicy,
+  editor: { id: string; name: string }
+): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<AccessPolicySettings>('settings')
+
+  await collection.updateOne(
+    { _id: 'access_policy' },
+    {
+      $set: {
+        policy,
+        updatedAt: new Date(),
+        updatedBy: { id: new ObjectId(editor.id), name: editor.name },
+      },
+    },
+    { upsert: true }
+  )
+}
+
+/**
+ * Delete the saved access policy, going back to the environment allowlists
+ */
+export async function deleteAccessPolicy(): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<AccessPolicySettings>('settings')
+
+  await collection.deleteOne({ _id: 'access_policy' })
+}
@@ -0,0 +1,226 @@
+import { ObjectId } from 'mongodb'
+import { getDb } from '@/lib/db/mongodb'
+import { WITHOUT_SEARCH_FIELDS } from '@/lib/db/models/prompt'
+import type { Collection, CollectionCollaborator, CollectionFormData } from '@/types/collection'
+import type { Prompt } from '@/types/prompt'
+import type { User } from '@/types/user'
+
+/**
+ * Get collections a user owns or collaborates on
+ */
+export async function getUserCollections(userId: string): Promise<Collection[]> {
+  const db = await getDb()
+  const collection = db.collection<Collection>('collections')
+
+  const id = new ObjectId(userId)
+  return await collection
+    .find({ $or: [{ ownerId: id }, { 'collaborators.userId': id }] })
+    .sort({ updatedAt: -1 })
+    .toArray()
+}
+
+/**
+ * Get a single collection by ID
+ */
+export async function getCollectionById(id: string): Promise<Collection | null> {
+  const db = await getDb()
+  const collection = db.collection<Collection>('collections')
+
+  return await collection.findOne({ _id: new ObjectId(id) })
+}
+
+/**
+ * Get the prompts in a collection, in collection order.
+ * Prompts that were deleted since being added are skipped.
+ */
+export async function getCollectionPrompts(collectionDoc: Collection): Promise<Prompt[]> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const prompts = await collection
+    .find({ _id: { $in: collectionDoc.promptIds }, deletedAt: null }, { projection: WITHOUT_SEARCH_FIELDS })
+    .toArray()
+  const promptsById = new Map(prompts.map((prompt) => [prompt._id.toString(), prompt]))
+
+  return collectionDoc.promptIds
+    .map((id) => promptsById.get(id.toString()))
+    .filter((prompt): prompt is Prompt => !!prompt)
+}
+
+/**
+ * Create a new collection
+ */
+export async function createCollection(
+  userId: string,
+  userName: string,
+  data: CollectionFormData
+): Promise<string> {
+  const db = await getDb()
+  const collection = db.collection<Collection>('collections')
+
+  const result = await collection.insertOne({
+    ...data,
+    _id: new ObjectId(),
+    ownerId: new ObjectId(userId),
+    ownerName: userName,
+    collaborators: [],
+    promptIds: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  })
+
+  return result.insertedId.toString()
+}
+
+/**
+ * Update a collection's name, description and visibility
+ */
+export async function updateCollection(id: string, data: CollectionFormData): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<Collection>('collections')
+
+  const result = await collection.updateOne(
+    { _id: new ObjectId(id) },
+    { $set: { ...data, updatedAt: new Date() } }
+  )
+
+  if (result.matchedCount === 0) {
+    throw new Error('Collection not found')
+  }
+}
+
+/**
+ * Delete a collection (the prompts in it are not affected)
+ */
+export async function deleteCollection(id: string): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<Collection>('collections')
+
+  const result = await collection.deleteOne({ _id: new ObjectId(id) })
+
+  if (result.deletedCount === 0) {
+    throw new Error('Collection not found')
+  }
+}
+
+/**
+ * Add a prompt to the end of a collection (no-op if already present)
+ */
+export async function addPromptToCollection(id: string, promptId: string): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<Collection>('collections')
+
+  const result = await collection.updateOne(
+    { _id: new ObjectId(id) },
+    { $addToSet: { promptIds: new ObjectId(promptId) }, $set: { updatedAt: new Date() } }
+  )
+
+  if (result.matchedCount === 0) {
+    throw new Error('Collection not found')
+  }
+}
+
+/**
+ * Remove a prompt from a collection
+ */
+export async function removePromptFromCollection(id: string, promptId: string): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<Collection>('collections')
+
+  const result = await collection.updateOne(
+    { _id: new ObjectId(id) },
+    { $pull: { promptIds: new ObjectId(promptId) }, $set: { updatedAt: new Date() } }
+  )
+
+  if (result.matchedCount === 0) {
+    throw new Error('Collection not found')
+  }
+}
+
+/**
+ * Reorder the prompts in a collection.
+ * The new order must contain exactly the prompts already in the collection.
+ */
+export async function reorderCollectionPrompts(id: string, promptIds: string[]): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<Collection>('collections')
+
+  const current = await collection.findOne({ _id: new ObjectId(id) })
+  if (!current) {
+    throw new Error('Collection not found')
+  }
+
+  const currentIds = current.promptIds.map((promptId) => promptId.toString()).sort()
+  const newIds = [...new Set(promptIds)].sort()
+
+  if (newIds.length !== promptIds.length || newIds.join(',') !== currentIds.join(',')) {
+    throw new Error('Collection was changed by someone else. Reload and try again.')
+  }
+
+  // Only apply if nobody added or removed prompts since we checked
+  const result = await collection.updateOne(
+    { _id: current._id, promptIds: current.promptIds },
+    {
+      $set: {
+        promptIds: promptIds.map((promptId) => new ObjectId(promptId)),
+        updatedAt: new Date(),
+      },
+    }
+  )
+
+  if (result.matchedCount === 0) {
+    throw new Error('Collection was changed by someone else. Reload and try again.')
+  }
+}
+
+/**
+ * Add a collaborator by email address
+ */
+export async function addCollaborator(id: string, email: string): Promise<CollectionCollaborator> {
+  const db = await getDb()
+  const collection = db.collection<Collection>('collections')
+
+  const user = await db.collection<User>('users').findOne({ email })
+  if (!user) {
+    throw new Error('No user with that email has signed in yet')
+  }
+
+  const current = await collection.findOne({ _id: new ObjectId(id) })
+  if (!current) {
+    throw new Error('Collection not found')
+  }
+
+  if (current.ownerId.equals(user._id)) {
+    throw new Error('The owner is already a collaborator')
+  }
+
+  const collaborator: CollectionCollaborator = {
+    userId: user._id,
+    name: user.name || user.email,
+    email: user.email,
+  }
+
+  await collection.updateOne(
+    { _id: current._id, 'collaborators.userId': { $ne: user._id } },
+    { $push: { collaborators: collaborator }, $set: { updatedAt: new Date() } }
+  )
+
+  return collaborator
+}
+
+/**
+ * Remove a collaborator
+ */
+export async function removeCollaborator(id: string, userId: string): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<Collection>('collections')
+
+  const result = await collection.updateOne(
+    { _id: new ObjectId(id) },
+    { $pull: { collaborators: { userId: new ObjectId(userId) } }, $set: { updatedAt: new Date() } }
+  )
+
+  if (result.matchedCount === 0) {
+    throw new Error('Collection not found')
+  }
+}
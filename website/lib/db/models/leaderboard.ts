@@ -0,0 +1,49 @@
+import { ObjectId } from 'mongodb'
+import { getDb } from '@/lib/db/mongodb'
+import { scoringConfigSchema, type ScoringConfig } from '@/lib/validations/leaderboard'
+import { DEFAULT_SCORING_CONFIG } from '@/lib/utils/scoring'
+import type { ScoringSettings } from '@/types/leaderboard'
+
+/**
+ * Get the saved leaderboard scoring settings, null until an admin saves some
+ */
+export async function getScoringSettings(): Promise<ScoringSettings | null> {
+  const db = await getDb()
+  const collection = db.collection<ScoringSettings>('settings')
+
+  return await collection.findOne({ _id: 'leaderboard_scoring' })
+}
+
+/**
+ * Get the leaderboard scoring config, falling back to the default formula
+ * when none is saved or the saved one is no longer valid
+ */
+export async function getScoringConfig(): Promise<ScoringConfig> {
+  const settings = await getScoringSettings()
+  const parsed = scoringConfigSchema.safeParse(settings?.config)
+
+  return parsed.success ? parsed.data : DEFAULT_SCORING_CONFIG
+}
+
+/**
+ * Save the leaderboard scoring config
+ */
+export async function saveScoringConfig(
+  config: ScoringConfig,
+  editor: { id: string; name: string }
+): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<ScoringSettings>('settings')
+
+  await collection.updateOne(
+    { _id: 'leaderboard_scoring' },
+    {
+      $set: {
+        config,
+        updatedAt: new Date(),
+        updatedBy: { id: new ObjectId(editor.id), name: editor.name },
+      },
+    },
+    { upsert: true }
+  )
+}
@@ -0,0 +1,102 @@
+import { ObjectId } from 'mongodb'
+import { getDb } from '@/lib/db/mongodb'
+import type { PromptRevision, RevisionSnapshot } from '@/types/prompt'
+
+/**
+ * Identity recorded on a revision
+ */
+export interface RevisionEditor {
+  id: string | null
+  name: string
+}
+
+/**
+ * Pick the snapshot fields out of a prompt or form payload
+ */
+export function toRevisionSnapshot(source: RevisionSnapshot): RevisionSnapshot {
+  return {
+    title: source.title,
+    description: source.description,
+    promptContent: source.promptContent,
+    category: source.category,
+    tags: [...source.tags],
+    outputFormat: source.outputFormat,
+    variables: source.variables ? [...source.variables] : [],
+  }
+}
+
+/**
+ * Record an immutable revision for a prompt
+ */
+export async function createRevision(
+  promptId: string,
+  versionNumber: number,
+  snapshot: RevisionSnapshot,
+  editor: RevisionEditor,
+  changeNote: string,
+  restoredFromVersion: number | null = null
+): Promise<string> {
+  const db = await getDb()
+  const collection = db.collection<PromptRevision>('prompt_revisions')
+
+  const result = await collection.insertOne({
+    _id: new ObjectId(),
+    promptId: new ObjectId(promptId),
+    versionNumber,
+    ...toRevisionSnapshot(snapshot),
+    editorId: editor.id ? new ObjectId(editor.id) : null,
+    editorName: editor.name,
+    changeNote,
+    restoredFromVersion,
+    createdAt: new Date(),
+  })
+
+  return result.insertedId.toString()
+}
+
+/**
+ * Get all revisions of a prompt, newest first
+ */
+export async function getPromptRevisions(promptId: string): Promise<PromptRevision[]> {
+  const db = await getDb()
+  const collection = db.collection<PromptRevision>('prompt_revisions')
+
+  return await collection
+    .find({ promptId: new ObjectId(promptId) })
+    .sort({ versionNumber: -1 })
+    .toArray()
+}
+
+/**
+ * Get a single revision of a prompt by version number
+ */
+export async function getPromptRevision(
+  promptId: string,
+  versionNumber: number
+): Promise<PromptRevision | null> {
+  const db = await getDb()
+  const collection = db.collection<PromptRevision>('prompt_revisions')
+
+  return await collection.findOne({
+    promptId: new ObjectId(promptId),
+    versionNumber,
+  })
+}
+
+/**
+ * Delete a revision that was recorded for a save that then failed
+ */
+export async function deleteRevision(revisionId: string): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<PromptRevision>('prompt_revisions')
+
+  await collection.deleteOne({ _id: new ObjectId(revisionId) })
+}
+
+/**
+ * Whether a write failed because the unique (promptId, versionNumber) index
+ * already holds that version
+ */
+export function isDuplicateRevisionError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000
+}
@@ -1,81 +1,561 @@
-import { ObjectId } from 'mongodb'
+import { ObjectId, type Document } from 'mongodb'
 import { getDb } from '@/lib/db/mongodb'
-import type { Prompt, PromptFilters, PromptFormData } from '@/types/prompt'
+import {
+  createRevision,
+  deleteRevision,
+  getPromptRevision,
+  isDuplicateRevisionError,
+  toRevisionSnapshot,
+  type RevisionEditor,
+} from '@/lib/db/models/prompt-revision'
+import type {
+  EngagementCounts,
+  LineagePrompt,
+  Prompt,
+  PromptFilters,
+  PromptFormData,
+  PromptPage,
+  PromptEventType,
+  PromptStatus,
+  RevisionSnapshot,
+  SimilarPrompt,
+  TagCount,
+  FacetCount,
+  PromptFacets,
+} from '@/types/prompt'
+import type { Collection } from '@/types/collection'
+import {
+  buildCursorFilter,
+  decodeCursor,
+  encodeCursor,
+  type CursorValue,
+} from '@/lib/utils/cursor'
+import { DATE_BUCKETS, getDateBucketStart } from '@/lib/utils/facets'
+import { parseSearchQuery } from '@/lib/search/query-parser'
+import { compileSearchQuery } from '@/lib/search/query-compiler'
+import { getEmbeddingProvider, getEmbeddingText } from '@/lib/search/embeddings'
+import {
+  computeMinHash,
+  DUPLICATE_THRESHOLD,
+  estimateSimilarity,
+  getMinHashBands,
+} from '@/lib/search/minhash'
+import {
+  EVENT_COUNTERS,
+  getPeriodStart,
+  getTrendingWindowStart,
+  TRENDING_HALF_LIFE_HOURS,
+} from '@/lib/utils/trending'
+import {
+  CATEGORY_AVERAGE_SCORE,
+  computeScore,
+  DEFAULT_SCORING_CONFIG,
+  getMinimumConditions,
+  getScoreExpression,
+  type CountExpressions,
+} from '@/lib/utils/scoring'
+import { getScoringConfig } from '@/lib/db/models/leaderboard'
+import type { LeaderboardPeriod, ScoringConfig } from '@/lib/validations/leaderboard'
+
+// Sort keys per sort option, all descending. `_id` breaks ties so pages never overlap.
+const SORT_KEYS: Record<NonNullable<PromptFilters['sort']>, string[]> = {
+  newest: ['createdAt', '_id'],
+  popular: ['forkCount', '_id'],
+  views: ['viewCount', '_id'],
+  trending: ['trendingScore', '_id'],
+}
+
+// Semantic search: share of the blended score from similarity (the rest is text score),
+// the similarity a prompt needs to be listed without matching any keyword, how many
+// text matches are scored and how many of the newest prompts are scored by meaning
+// alone. Similarity is a dot product over the whole embedding, so only these
+// candidates are scored instead of every listed prompt.
+const SEMANTIC_WEIGHT = 0.7
+const MIN_SEMANTIC_SIMILARITY = 0.06
+const SEMANTIC_TEXT_CANDIDATES = 500
+const SEMANTIC_RECENT_CANDIDATES = 1000
+
+// Engagement of a prompt with no recent events
+const NO_ENGAGEMENT: NonNullable<Prompt['engagement']> = {
+  week: { stars: 0, forks: 0, views: 0 },
+  month: { stars: 0, forks: 0, views: 0 },
+  trending: { stars: 0, forks: 0, views: 0 },
+}
+
+// Similarity a prompt needs to be shown as similar to another one, and how many of
+// the newest prompts sharing its category or a tag are compared to it
+const MIN_SIMILAR_PROMPT_SIMILARITY = 0.2
+const SIMILAR_PROMPT_CANDIDATES = 500
+
+// Search fields are only used inside the database, never returned to pages
+export const WITHOUT_SEARCH_FIELDS = { embedding: 0, contentSignature: 0, contentBands: 0 } as const
 
 /**
- * Get public prompts with filtering and sorting
+ * Aggregation expression for the cosine similarity of a prompt's embedding to
+ * a normalized vector (a dot product), 0 for prompts without an embedding
+ * from the given provider
  */
-export async function getPublicPrompts(filters: PromptFilters = {}): Promise<Prompt[]> {
-  const db = await getDb()
-  const collection = db.collection<Prompt>('prompts')
+function similarityExpression(vector: number[], providerId: string): Document {
+  return {
+    $cond: [
+      { $eq: ['$embeddingModel', providerId] },
+      {
+        $reduce: {
+          input: { $zip: { inputs: ['$embedding', vector] } },
+          initialValue: 0,
+          in: {
+            $add: [
+              '$$value',
+              { $multiply: [{ $arrayElemAt: ['$$this', 0] }, { $arrayElemAt: ['$$this', 1] }] },
+            ],
+          },
+        },
+      },
+      0,
+    ],
+  }
+}
 
-  const {
-    search,
-    category,
-    tags,
-    sort = 'newest',
-    limit = 20,
-    skip = 0,
-  } = filters
+type FacetFilter = 'category' | 'tags' | 'outputFormat' | 'authorId' | 'createdAfter'
+
+/**
+ * Build the query for listed prompts (drafts and deleted prompts are never listed).
+ * Pass `omit` to leave one filter out, so a facet can count its alternatives.
+ */
+function buildListingQuery(filters: PromptFilters, omit?: FacetFilter) {
+  const { search, category, tags, tagMode = 'any', outputFormat, authorId, createdAfter } = filters
 
-  // Build query
-  const query: any = { isPublic: true }
+  const query: any = { isPublic: true, status: { $ne: 'draft' }, deletedAt: null }
 
-  if (category) {
+  if (category && omit !== 'category') {
     query.category = category
   }
 
-  if (tags && tags.length > 0) {
-    query.tags = { $in: tags }
+  if (tags && tags.length > 0 && omit !== 'tags') {
+    query.tags = tagMode === 'all' ? { $all: tags } : { $in: tags }
   }
 
-  if (search) {
-    query.$text = { $search: search }
+  if (outputFormat && omit !== 'outputFormat') {
+    query.outputFormat = outputFormat
   }
 
-  // Build sort options
-  let sortOptions: any = { createdAt: -1 }
-  if (sort === 'popular') {
-    sortOptions = { forkCount: -1 }
-  } else if (sort === 'views') {
-    sortOptions = { viewCount: -1 }
+  if (authorId && ObjectId.isValid(authorId) && omit !== 'authorId') {
+    query.authorId = new ObjectId(authorId)
   }
 
-  // Add text score for search relevance
-  const projection = search
-    ? { score: { $meta: 'textScore' } }
-    : {}
+  if (createdAfter && omit !== 'createdAfter') {
+    query.createdAt = { $gte: createdAfter }
+  }
 
+  // Search box syntax: words and phrases go to the text index, `field:value` to conditions
   if (search) {
-    sortOptions = { score: { $meta: 'textScore' }, ...sortOptions }
+    const { text, conditions } = compileSearchQuery(parseSearchQuery(search))
+    if (text) {
+      query.$text = { $search: text }
+    }
+    if (conditions.length > 0) {
+      query.$and = conditions
+    }
+  }
+
+  return query
+}
+
+/**
+ * Get a page of public prompts with filtering and sorting.
+ * Search results are ranked by text score first, then by the selected sort.
+ * With `semantic`, search words are also matched by meaning (see getSemanticPage).
+ * Invalid or stale cursors start from the first page.
+ * Throws QuerySyntaxError if the search uses malformed query syntax.
+ */
+export async function getPublicPrompts(filters: PromptFilters = {}): Promise<PromptPage> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const { sort = 'newest', limit = 20, cursor } = filters
+
+  const query = buildListingQuery(filters)
+
+  if (filters.semantic && filters.search) {
+    const { keywords, exclusion } = compileSearchQuery(parseSearchQuery(filters.search))
+    if (keywords.length > 0) {
+      return await getSemanticPage(query, keywords, exclusion, filters)
+    }
+  }
+
+  const isTextSearch = !!query.$text
+  const sortKeys = isTextSearch
+    ? ['score', ...(SORT_KEYS[sort] || SORT_KEYS.newest)]
+    : SORT_KEYS[sort] || SORT_KEYS.newest
+
+  const cursorValues = cursor ? decodeCursor(cursor) : null
+  const cursorFilter =
+    cursorValues && cursorValues.length === sortKeys.length
+      ? buildCursorFilter(sortKeys, cursorValues)
+      : null
+
+  const pipeline: Document[] = [
+    { $match: query },
+    // Text score for search relevance
+    ...(isTextSearch ? [{ $addFields: { score: { $meta: 'textScore' } } }] : []),
+    ...(cursorFilter ? [{ $match: cursorFilter }] : []),
+    { $sort: Object.fromEntries(sortKeys.map((key) => [key, -1])) },
+    // Fetch one extra to know whether another page exists
+    { $limit: limit + 1 },
+    { $project: WITHOUT_SEARCH_FIELDS },
+  ]
+
+  const [results, total] = await Promise.all([
+    collection.aggregate<Prompt & { score?: number }>(pipeline).toArray(),
+    collection.countDocuments(query),
+  ])
+
+  const hasMore = results.length > limit
+  const prompts = hasMore ? results.slice(0, limit) : results
+  const last = prompts[prompts.length - 1]
+
+  return {
+    prompts,
+    nextCursor:
+      hasMore && last
+        ? encodeCursor(sortKeys.map((key) => last[key as keyof typeof last] as CursorValue))
+        : null,
+    total,
+  }
+}
+
+/**
+ * Semantic search page: prompts matching the filters are scored by the cosine
+ * similarity of their embedding to the search words, blended with their
+ * (max-normalized) text score. Prompts need a keyword match or a minimum
+ * similarity to be listed. Prompts without an embedding from the current
+ * provider only rank by text score until backfilled.
+ *
+ * Only the SEMANTIC_TEXT_CANDIDATES best text matches and the
+ * SEMANTIC_RECENT_CANDIDATES newest prompts are scored, so older prompts are
+ * only found by meaning when they also match a keyword, and the total counts
+ * these candidates only.
+ */
+async function getSemanticPage(
+  query: Document,
+  keywords: string[],
+  exclusion: Record<string, unknown> | null,
+  filters: PromptFilters
+): Promise<PromptPage> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const { sort = 'newest', limit = 20, cursor } = filters
+
+  const provider = getEmbeddingProvider()
+  const [vector] = await provider.embed([keywords.join(' ')])
+
+  // Same filters without $text, but `-word` exclusions still apply
+  const baseQuery: Document = { ...query }
+  delete baseQuery.$text
+  if (exclusion) {
+    baseQuery.$and = [...(baseQuery.$and || []), exclusion]
+  }
+
+  const sortKeys = ['score', ...(SORT_KEYS[sort] || SORT_KEYS.newest)]
+  const cursorValues = cursor ? decodeCursor(cursor) : null
+  const cursorFilter =
+    cursorValues && cursorValues.length === sortKeys.length
+      ? buildCursorFilter(sortKeys, cursorValues)
+      : null
+
+  const pipeline: Document[] = [
+    // Best text matches. A $text query drops everything that does not share a
+    // word, so the newest embedded prompts are added as candidates below.
+    { $match: query },
+    { $addFields: { textScore: { $meta: 'textScore' } } },
+    { $sort: { textScore: -1, _id: -1 } },
+    { $limit: SEMANTIC_TEXT_CANDIDATES },
+    {
+      $unionWith: {
+        coll: 'prompts',
+        pipeline: [
+          { $match: { ...baseQuery, embeddingModel: provider.id } },
+          { $sort: { createdAt: -1, _id: -1 } },
+          { $limit: SEMANTIC_RECENT_CANDIDATES },
+          { $addFields: { textScore: 0 } },
+        ],
+      },
+    },
+    // A prompt can be in both sets; keep its text score
+    { $group: { _id: '$_id', prompt: { $first: '$$ROOT' }, textScore: { $max: '$textScore' } } },
+    { $replaceWith: { $mergeObjects: ['$prompt', { textScore: '$textScore' }] } },
+    { $setWindowFields: { output: { maxTextScore: { $max: '$textScore' } } } },
+    {
+      $addFields: {
+        textScore: { $divide: ['$textScore', { $max: [1, '$maxTextScore'] }] },
+        semanticScore: similarityExpression(vector, provider.id),
+      },
+    },
+    {
+      $match: {
+        $or: [{ textScore: { $gt: 0 } }, { semanticScore: { $gte: MIN_SEMANTIC_SIMILARITY } }],
+      },
+    },
+    {
+      $addFields: {
+        score: {
+          $add: [
+            { $multiply: ['$semanticScore', SEMANTIC_WEIGHT] },
+            { $multiply: ['$textScore', 1 - SEMANTIC_WEIGHT] },
+          ],
+        },
+      },
+    },
+    {
+      $facet: {
+        results: [
+          ...(cursorFilter ? [{ $match: cursorFilter }] : []),
+          { $sort: Object.fromEntries(sortKeys.map((key) => [key, -1])) },
+          { $limit: limit + 1 },
+          {
+            $project: { ...WITHOUT_SEARCH_FIELDS, textScore: 0, maxTextScore: 0, semanticScore: 0 },
+          },
+        ],
+        total: [{ $count: 'count' }],
+      },
+    },
+  ]
+
+  const [result] = await collection
+    .aggregate<{ results: (Prompt & { score: number })[]; total: { count: number }[] }>(pipeline)
+    .toArray()
+
+  const hasMore = result.results.length > limit
+  const prompts = hasMore ? result.results.slice(0, limit) : result.results
+  const last = prompts[prompts.length - 1]
+
+  return {
+    prompts,
+    nextCursor:
+      hasMore && last
+        ? encodeCursor(sortKeys.map((key) => last[key as keyof typeof last] as CursorValue))
+        : null,
+    total: result.total[0]?.count || 0,
   }
+}
+
+/**
+ * Count results per category, tag, output format, author and creation date for
+ * the current browse query. Single-choice facets ignore their own selection so
+ * every alternative shows how many results picking it would give; tags are
+ * combined, so their counts include the tags already selected.
+ */
+export async function getPromptFacets(
+  filters: PromptFilters = {},
+  now = new Date()
+): Promise<PromptFacets> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  // $text has to lead the pipeline; the remaining filters are applied per facet
+  const facetMatch = (omit?: FacetFilter) => ({
+    $match: buildListingQuery({ ...filters, search: undefined }, omit),
+  })
+
+  const countBy = (field: string, omit: FacetFilter | undefined, limit: number) => [
+    facetMatch(omit),
+    { $group: { _id: field, count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: limit },
+    { $project: { _id: 0, value: '$_id', count: 1 } },
+  ]
+
+  const dateBucketCounts = Object.fromEntries(
+    DATE_BUCKETS.map((bucket) => [
+      bucket.value,
+      { $sum: { $cond: [{ $gte: ['$createdAt', getDateBucketStart(bucket.value, now)] }, 1, 0] } },
+    ])
+  )
+
+  const [result] = await collection
+    .aggregate<{
+      categories: FacetCount[]
+      tags: FacetCount[]
+      outputFormats: FacetCount[]
+      authors: { value: ObjectId; label: string; count: number }[]
+      dateBuckets: Record<string, number>[]
+    }>([
+      { $match: buildListingQuery({ search: filters.search }) },
+      {
+        $facet: {
+          categories: countBy('$category', 'category', 50),
+          tags: [
+            facetMatch(),
+            { $unwind: '$tags' },
+            { $group: { _id: '$tags', count: { $sum: 1 } } },
+            { $sort: { count: -1, _id: 1 } },
+            { $limit: 15 },
+            { $project: { _id: 0, value: '$_id', count: 1 } },
+          ],
+          outputFormats: countBy('$outputFormat', 'outputFormat', 10),
+          authors: [
+            facetMatch('authorId'),
+            { $group: { _id: '$authorId', label: { $first: '$authorName' }, count: { $sum: 1 } } },
+            { $sort: { count: -1, label: 1 } },
+            { $limit: 10 },
+            { $project: { _id: 0, value: '$_id', label: 1, count: 1 } },
+          ],
+          dateBuckets: [
+            facetMatch('createdAfter'),
+            { $group: { _id: null, ...dateBucketCounts } },
+          ],
+        },
+      },
+    ])
+    .toArray()
+
+  const bucketCounts = result?.dateBuckets[0] || {}
+
+  return {
+    categories: result?.categories || [],
+    tags: result?.tags || [],
+    outputFormats: result?.outputFormats || [],
+    authors: (result?.authors || []).map((author) => ({
+      ...author,
+      value: author.value.toString(),
+    })),
+    dateBuckets: DATE_BUCKETS.map((bucket) => ({
+      value: bucket.value,
+      label: bucket.label,
+      count: bucketCounts[bucket.value] || 0,
+    })),
+  }
+}
+
+/**
+ * Count how many listed prompts use each tag, most used first.
+ * Pass a prefix to only count tags starting with it (for autocomplete).
+ */
+export async function getTagCounts(prefix?: string, limit = 500): Promise<TagCount[]> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const escaped = prefix?.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
 
   return await collection
-    .find(query, { projection })
-    .sort(sortOptions)
-    .skip(skip)
+    .aggregate<TagCount>([
+      { $match: { isPublic: true, status: { $ne: 'draft' }, deletedAt: null } },
+      { $unwind: '$tags' },
+      ...(escaped ? [{ $match: { tags: { $regex: `^${escaped}` } } }] : []),
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: limit },
+      { $project: { _id: 0, tag: '$_id', count: 1 } },
+    ])
+    .toArray()
+}
+
+/**
+ * Get listed prompts with a title word starting with the text (for search suggestions)
+ */
+export async function getTitleSuggestions(
+  text: string,
+  limit = 5
+): Promise<Pick<Prompt, '_id' | 'title'>[]> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const escaped = text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+  return await collection
+    .find(
+      {
+        isPublic: true,
+        status: { $ne: 'draft' },
+        deletedAt: null,
+        title: { $regex: `\\b${escaped}`, $options: 'i' },
+      },
+      { projection: { title: 1 } }
+    )
+    .sort({ viewCount: -1, _id: -1 })
     .limit(limit)
     .toArray()
 }
 
 /**
- * Get a single prompt by ID
+ * Count listed prompts per author whose name starts with the prefix (for search suggestions)
+ */
+export async function getAuthorCounts(
+  prefix: string,
+  limit = 3
+): Promise<{ authorName: string; count: number }[]> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const escaped = prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+  return await collection
+    .aggregate<{ authorName: string; count: number }>([
+      {
+        $match: {
+          isPublic: true,
+          status: { $ne: 'draft' },
+          deletedAt: null,
+          authorName: { $regex: `^${escaped}`, $options: 'i' },
+        },
+      },
+      { $group: { _id: '$authorName', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: limit },
+      { $project: { _id: 0, authorName: '$_id', count: 1 } },
+    ])
+    .toArray()
+}
+
+/**
+ * Get a single prompt by ID for display, without the search fields (deleted
+ * prompts are not returned). Views are recorded separately with
+ * recordPromptView, once the viewer is known to be allowed to see it.
  */
 export async function getPromptById(id: string): Promise<Prompt | null> {
   const db = await getDb()
   const collection = db.collection<Prompt>('prompts')
 
-  const prompt = await collection.findOne({ _id: new ObjectId(id) })
+  return await collection.findOne(
+    { _id: new ObjectId(id), deletedAt: null },
+    { projection: WITHOUT_SEARCH_FIELDS }
+  )
+}
 
-  if (prompt) {
-    // Increment view count
-    await collection.updateOne(
-      { _id: new ObjectId(id) },
-      { $inc: { viewCount: 1 } }
-    )
-  }
+/**
+ * Record a view of a prompt: increments its view count and adds a view event
+ * for trending
+ */
+export async function recordPromptView(id: string): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
 
-  return prompt
+  await collection.updateOne(
+    { _id: new ObjectId(id) },
+    { $inc: { viewCount: 1 } }
+  )
+  await recordPromptEvent(new ObjectId(id), 'view', null)
+}
+
+/**
+ * Get a single prompt by ID, with all fields (deleted prompts are not returned)
+ */
+export async function findPromptById(id: string): Promise<Prompt | null> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  return await collection.findOne({ _id: new ObjectId(id), deletedAt: null })
+}
+
+/**
+ * Get a prompt from the trash by ID
+ */
+export async function findDeletedPromptById(id: string): Promise<Prompt | null> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  return await collection.findOne({ _id: new ObjectId(id), deletedAt: { $ne: null } })
 }
 
 /**
@@ -86,11 +566,24 @@ export async function getUserPrompts(userId: string): Promise<Prompt[]> {
   const collection = db.collection<Prompt>('prompts')
 
   return await collection
-    .find({ authorId: new ObjectId(userId) })
+    .find({ authorId: new ObjectId(userId), deletedAt: null }, { projection: WITHOUT_SEARCH_FIELDS })
     .sort({ createdAt: -1 })
     .toArray()
 }
 
+/**
+ * Get a user's deleted prompts, most recently deleted first
+ */
+export async function getDeletedPrompts(userId: string): Promise<Prompt[]> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  return await collection
+    .find({ authorId: new ObjectId(userId), deletedAt: { $ne: null } }, { projection: WITHOUT_SEARCH_FIELDS })
+    .sort({ deletedAt: -1 })
+    .toArray()
+}
+
 /**
  * Get prompts starred by a user
  */
@@ -99,35 +592,201 @@ export async function getStarredPrompts(userId: string): Promise<Prompt[]> {
   const collection = db.collection<Prompt>('prompts')
 
   return await collection
-    .find({ starredBy: new ObjectId(userId) })
+    .find({ starredBy: new ObjectId(userId), deletedAt: null }, { projection: WITHOUT_SEARCH_FIELDS })
     .sort({ createdAt: -1 })
     .toArray()
 }
 
 /**
- * Get leaderboard prompts with engagement score
- * Score = (stars * 10) + (forks * 5) + (views * 0.1)
+ * Listed prompts closest in meaning to a prompt, most similar first. Only the
+ * SIMILAR_PROMPT_CANDIDATES newest prompts sharing its category or a tag are compared.
+ */
+export async function getSimilarPrompts(promptId: string, limit = 5): Promise<SimilarPrompt[]> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const prompt = await collection.findOne({ _id: new ObjectId(promptId) })
+  if (!prompt) return []
+
+  // Prompts saved before embeddings existed are embedded on the fly
+  const provider = getEmbeddingProvider()
+  const vector =
+    prompt.embedding && prompt.embeddingModel === provider.id
+      ? prompt.embedding
+      : (await provider.embed([getEmbeddingText(prompt)]))[0]
+
+  return await collection
+    .aggregate<SimilarPrompt>([
+      {
+        $match: {
+          _id: { $ne: prompt._id },
+          isPublic: true,
+          status: { $ne: 'draft' },
+          deletedAt: null,
+          embeddingModel: provider.id,
+          $or: [{ category: prompt.category }, { tags: { $in: prompt.tags } }],
+        },
+      },
+      { $sort: { createdAt: -1, _id: -1 } },
+      { $limit: SIMILAR_PROMPT_CANDIDATES },
+      { $addFields: { similarity: similarityExpression(vector, provider.id) } },
+      { $match: { similarity: { $gte: MIN_SIMILAR_PROMPT_SIMILARITY } } },
+      { $sort: { similarity: -1, _id: -1 } },
+      { $limit: limit },
+      { $project: WITHOUT_SEARCH_FIELDS },
+    ])
+    .toArray()
+}
+
+/**
+ * Find prompts whose content is a near duplicate of the given content, most
+ * similar first. Looks at listed prompts and the user's own. When checking an
+ * existing prompt, pass its ID to skip it, its original and its forks, which
+ * are expected to be similar.
+ */
+export async function findNearDuplicatePrompts(
+  promptContent: string,
+  userId: string,
+  excludeId: string | null = null,
+  limit = 3
+): Promise<SimilarPrompt[]> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const signature = computeMinHash(promptContent)
+  const bands = getMinHashBands(signature)
+  if (bands.length === 0) return []
+
+  const excluded = excludeId ? await collection.findOne({ _id: new ObjectId(excludeId) }) : null
+  const exclusions = excluded
+    ? [
+        { _id: { $ne: excluded._id } },
+        { parentPromptId: { $ne: excluded._id } },
+        ...(excluded.parentPromptId ? [{ _id: { $ne: excluded.parentPromptId } }] : []),
+      ]
+    : []
+
+  const candidates = await collection
+    .find(
+      {
+        contentBands: { $in: bands },
+        deletedAt: null,
+        $or: [
+          { isPublic: true, status: { $ne: 'draft' } },
+          { authorId: new ObjectId(userId), status: { $ne: 'draft' } },
+        ],
+        ...(exclusions.length > 0 ? { $and: exclusions } : {}),
+      },
+      { projection: { embedding: 0, contentBands: 0 } }
+    )
+    .toArray()
+
+  return candidates
+    .map(({ contentSignature, ...prompt }) => ({
+      ...prompt,
+      similarity: estimateSimilarity(signature, contentSignature || []),
+    }))
+    .filter((prompt) => prompt.similarity >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+}
+
+// Fields kept for each prompt found by $graphLookup
+const LINEAGE_FIELDS = {
+  _id: '$$this._id',
+  title: '$$this.title',
+  authorId: '$$this.authorId',
+  authorName: '$$this.authorName',
+  isPublic: '$$this.isPublic',
+  status: '$$this.status',
+  deletedAt: '$$this.deletedAt',
+  parentPromptId: '$$this.parentPromptId',
+  starCount: '$$this.starCount',
+  forkCount: '$$this.forkCount',
+  createdAt: '$$this.createdAt',
+}
+
+/**
+ * Get a prompt with all of its ancestors and descendants
+ */
+export async function getPromptLineage(id: string): Promise<{
+  prompt: LineagePrompt
+  ancestors: LineagePrompt[]
+  descendants: LineagePrompt[]
+} | null> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const [result] = await collection
+    .aggregate<LineagePrompt & { ancestors: LineagePrompt[]; descendants: LineagePrompt[] }>([
+      { $match: { _id: new ObjectId(id), deletedAt: null } },
+      {
+        $graphLookup: {
+          from: 'prompts',
+          startWith: '$parentPromptId',
+          connectFromField: 'parentPromptId',
+          connectToField: '_id',
+          as: 'ancestors',
+        },
+      },
+      {
+        $graphLookup: {
+          from: 'prompts',
+          startWith: '$_id',
+          connectFromField: '_id',
+          connectToField: 'parentPromptId',
+          as: 'descendants',
+        },
+      },
+      {
+        $project: {
+          title: 1,
+          authorId: 1,
+          authorName: 1,
+          isPublic: 1,
+          status: 1,
+          deletedAt: 1,
+          parentPromptId: 1,
+          starCount: 1,
+          forkCount: 1,
+          createdAt: 1,
+          ancestors: { $map: { input: '$ancestors', in: LINEAGE_FIELDS } },
+          descendants: { $map: { input: '$descendants', in: LINEAGE_FIELDS } },
+        },
+      },
+    ])
+    .toArray()
+
+  if (!result) return null
+
+  const { ancestors, descendants, ...prompt } = result
+  return { prompt, ancestors, descendants }
+}
+
+/**
+ * Get leaderboard prompts ranked by the scoring config (see lib/utils/scoring).
+ * All time scores total counts; periods score engagement during the period,
+ * which refreshTrendingScores precomputes.
  */
 export async function getLeaderboard(filters: {
-  timePeriod?: 'all' | 'month' | 'week'
+  timePeriod?: LeaderboardPeriod
   limit?: number
+  scoring?: ScoringConfig
 }): Promise<(Prompt & { score: number })[]> {
   const db = await getDb()
   const collection = db.collection<Prompt>('prompts')
 
-  const { timePeriod = 'all', limit = 50 } = filters
+  const { timePeriod = 'all', limit = 50, scoring = DEFAULT_SCORING_CONFIG } = filters
 
-  // Calculate date filter
-  let dateFilter: any = {}
-  if (timePeriod === 'month') {
-    const monthAgo = new Date()
-    monthAgo.setMonth(monthAgo.getMonth() - 1)
-    dateFilter = { createdAt: { $gte: monthAgo } }
-  } else if (timePeriod === 'week') {
-    const weekAgo = new Date()
-    weekAgo.setDate(weekAgo.getDate() - 7)
-    dateFilter = { createdAt: { $gte: weekAgo } }
-  }
+  const counts: CountExpressions =
+    timePeriod === 'all'
+      ? { stars: '$starCount', forks: '$forkCount', views: '$viewCount' }
+      : {
+          stars: { $ifNull: [`$engagement.${timePeriod}.stars`, 0] },
+          forks: { $ifNull: [`$engagement.${timePeriod}.forks`, 0] },
+          views: { $ifNull: [`$engagement.${timePeriod}.views`, 0] },
+        }
+  const minimums = getMinimumConditions(scoring, counts)
 
   // Aggregate with calculated score
   const results = await collection
@@ -135,32 +794,232 @@ export async function getLeaderboard(filters: {
       {
         $match: {
           isPublic: true,
-          ...dateFilter,
+          status: { $ne: 'draft' },
+          deletedAt: null,
+          ...(minimums.length > 0 && { $expr: { $and: minimums } }),
         },
       },
       {
-        $addFields: {
-          score: {
-            $add: [
-              { $multiply: ['$starCount', 10] },
-              { $multiply: ['$forkCount', 5] },
-              { $multiply: ['$viewCount', 0.1] },
-            ],
-          },
-        },
+        $addFields: { score: getScoreExpression(scoring, counts) },
       },
+      // Prompts without engagement in the period are not ranked
+      ...(timePeriod === 'all' ? [] : [{ $match: { score: { $gt: 0 } } }]),
+      // Relative to the average of ranked prompts in the same category
+      ...(scoring.normalizeByCategory
+        ? [
+            {
+              $setWindowFields: {
+                partitionBy: '$category',
+                output: { categoryAverage: { $avg: '$score' } },
+              },
+            },
+            {
+              $addFields: {
+                score: {
+                  $cond: [
+                    { $gt: ['$categoryAverage', 0] },
+                    {
+                      $multiply: [
+                        { $divide: ['$score', '$categoryAverage'] },
+                        CATEGORY_AVERAGE_SCORE,
+                      ],
+                    },
+                    0,
+                  ],
+                },
+              },
+            },
+          ]
+        : []),
       {
-        $sort: { score: -1 },
+        $sort: { score: -1, _id: -1 },
       },
       {
         $limit: limit,
       },
+      {
+        $project: { ...WITHOUT_SEARCH_FIELDS, categoryAverage: 0 },
+      },
     ])
     .toArray()
 
   return results as (Prompt & { score: number })[]
 }
 
+/**
+ * Record a dated engagement event for trending and period scores
+ */
+async function recordPromptEvent(
+  promptId: ObjectId,
+  type: PromptEventType,
+  userId: string | null
+): Promise<void> {
+  const db = await getDb()
+
+  await db.collection('prompt_events').insertOne({
+    promptId,
+    type,
+    userId: userId ? new ObjectId(userId) : null,
+    createdAt: new Date(),
+  })
+}
+
+/**
+ * Recompute trending and period engagement from recent events. Run on a
+ * schedule (`npm run trending:refresh`); prompts without recent events are
+ * reset to 0.
+ *
+ * @returns Number of prompts with recent engagement and number reset
+ */
+export async function refreshTrendingScores(
+  now: Date = new Date()
+): Promise<{ active: number; reset: number }> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const scoring = await getScoringConfig()
+  const trendingStart = getTrendingWindowStart(now)
+  const weekStart = getPeriodStart('week', now)
+  const monthStart = getPeriodStart('month', now)
+  const halfLifeMs = TRENDING_HALF_LIFE_HOURS * 60 * 60 * 1000
+
+  // Same decay as getDecayFactor, evaluated in the database
+  const decay = {
+    $pow: [0.5, { $divide: [{ $max: [{ $subtract: [now, '$createdAt'] }, 0] }, halfLifeMs] }],
+  }
+
+  // How much an event changes a counter: its delta for the counter it belongs to, else 0
+  const delta = (counter: keyof EngagementCounts) => ({
+    $switch: {
+      branches: Object.entries(EVENT_COUNTERS)
+        .filter(([, event]) => event.counter === counter)
+        .map(([type, event]) => ({ case: { $eq: ['$type', type] }, then: event.delta })),
+      default: 0,
+    },
+  })
+
+  const sums: Document = {}
+  for (const counter of ['stars', 'forks', 'views'] as const) {
+    sums[`trending_${counter}`] = {
+      $sum: {
+        $cond: [{ $gte: ['$createdAt', trendingStart] }, { $multiply: [delta(counter), decay] }, 0],
+      },
+    }
+    sums[`week_${counter}`] = {
+      $sum: { $cond: [{ $gte: ['$createdAt', weekStart] }, delta(counter), 0] },
+    }
+    sums[`month_${counter}`] = { $sum: delta(counter) }
+  }
+
+  const groups = await db
+    .collection('prompt_events')
+    .aggregate<Record<string, number> & { _id: ObjectId }>([
+      { $match: { createdAt: { $gte: monthStart, $lte: now } } },
+      { $group: { _id: '$promptId', ...sums } },
+    ])
+    .toArray()
+
+  // An unstar of a star from before the period would go below zero
+  const toCounts = (group: Record<string, number>, period: string): EngagementCounts => ({
+    stars: Math.max(group[`${period}_stars`], 0),
+    forks: Math.max(group[`${period}_forks`], 0),
+    views: Math.max(group[`${period}_views`], 0),
+  })
+
+  if (groups.length > 0) {
+    await collection.bulkWrite(
+      groups.map((group) => {
+        const engagement = {
+          week: toCounts(group, 'week'),
+          month: toCounts(group, 'month'),
+          trending: toCounts(group, 'trending'),
+        }
+        return {
+          updateOne: {
+            filter: { _id: group._id },
+            update: {
+              $set: {
+                engagement,
+                trendingScore: computeScore(scoring, engagement.trending),
+                trendingUpdatedAt: now,
+              },
+            },
+          },
+        }
+      }),
+      { ordered: false }
+    )
+  }
+
+  // Prompts whose events have all aged out ($ne also matches prompts never scored)
+  const reset = await collection.updateMany(
+    {
+      trendingUpdatedAt: { $ne: now },
+      $or: [{ trendingScore: { $ne: 0 } }, { engagement: { $ne: NO_ENGAGEMENT } }],
+    },
+    { $set: { trendingScore: 0, engagement: NO_ENGAGEMENT, trendingUpdatedAt: now } }
+  )
+
+  return { active: groups.length, reset: reset.modifiedCount }
+}
+
+/**
+ * Semantic search and near-duplicate fields for a prompt's content, stored on
+ * every published write
+ */
+async function getSearchFields(
+  data: Pick<PromptFormData, 'title' | 'description' | 'tags' | 'promptContent'>
+): Promise<Pick<Prompt, 'embedding' | 'embeddingModel' | 'contentSignature' | 'contentBands'>> {
+  const provider = getEmbeddingProvider()
+  const [embedding] = await provider.embed([getEmbeddingText(data)])
+  const contentSignature = computeMinHash(data.promptContent)
+
+  return {
+    embedding,
+    embeddingModel: provider.id,
+    contentSignature,
+    contentBands: getMinHashBands(contentSignature),
+  }
+}
+
+/**
+ * Compute search fields for prompts that are missing them or have an
+ * embedding from another provider (after EMBEDDING_PROVIDER changes).
+ * Drafts get theirs when published.
+ *
+ * @returns Number of prompts updated
+ */
+export async function backfillSearchFields(batchSize = 100): Promise<number> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const provider = getEmbeddingProvider()
+  const filter = {
+    status: { $ne: 'draft' as const },
+    $or: [{ embeddingModel: { $ne: provider.id } }, { contentSignature: { $exists: false } }],
+  }
+  let updated = 0
+
+  // Updated prompts no longer match the filter, so each batch picks up where the last ended
+  while (true) {
+    const batch = await collection
+      .find(filter, { projection: { title: 1, description: 1, tags: 1, promptContent: 1 } })
+      .limit(batchSize)
+      .toArray()
+    if (batch.length === 0) break
+
+    const fields = await Promise.all(batch.map(getSearchFields))
+    await collection.bulkWrite(
+      batch.map((prompt, index) => ({
+        updateOne: { filter: { _id: prompt._id }, update: { $set: fields[index] } },
+      }))
+    )
+    updated += batch.length
+  }
+
+  return updated
+}
+
 /**
  * Create a new prompt
  */
@@ -174,22 +1033,109 @@ export async function createPrompt(
 
   const result = await collection.insertOne({
     ...data,
+    ...(await getSearchFields(data)),
     _id: new ObjectId(),
     authorId: new ObjectId(userId),
     authorName: userName,
+    status: 'published',
+    replacementPromptId: null,
     parentPromptId: null,
     forkCount: 0,
     viewCount: 0,
     starCount: 0,
     starredBy: [],
+    trendingScore: 0,
+    engagement: NO_ENGAGEMENT,
     versionNumber: 1,
     createdAt: new Date(),
     updatedAt: new Date(),
   } as any)
 
+  const promptId = result.insertedId.toString()
+  await createRevision(promptId, 1, data, { id: userId, name: userName }, 'Initial version')
+
+  return promptId
+}
+
+/**
+ * Create or update a draft. Drafts may be incomplete and are saved without revisions.
+ */
+export async function saveDraft(
+  userId: string,
+  userName: string,
+  draftId: string | null,
+  data: PromptFormData
+): Promise<string> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  if (draftId) {
+    const result = await collection.updateOne(
+      { _id: new ObjectId(draftId), status: 'draft' },
+      { $set: { ...data, updatedAt: new Date() } }
+    )
+
+    if (result.matchedCount === 0) {
+      throw new Error('Draft not found')
+    }
+
+    return draftId
+  }
+
+  const result = await collection.insertOne({
+    ...data,
+    _id: new ObjectId(),
+    authorId: new ObjectId(userId),
+    authorName: userName,
+    status: 'draft',
+    replacementPromptId: null,
+    parentPromptId: null,
+    forkCount: 0,
+    viewCount: 0,
+    starCount: 0,
+    starredBy: [],
+    trendingScore: 0,
+    engagement: NO_ENGAGEMENT,
+    versionNumber: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  })
+
   return result.insertedId.toString()
 }
 
+/**
+ * Publish a draft, recording its first revision
+ */
+export async function publishDraft(
+  promptId: string,
+  data: PromptFormData,
+  editor: RevisionEditor
+): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  // Listed as new from the moment it is published
+  const result = await collection.updateOne(
+    { _id: new ObjectId(promptId), status: 'draft' },
+    {
+      $set: {
+        ...data,
+        ...(await getSearchFields(data)),
+        status: 'published',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    }
+  )
+
+  if (result.matchedCount === 0) {
+    throw new Error('Draft not found')
+  }
+
+  await createRevision(promptId, 1, data, editor, 'Initial version')
+}
+
 /**
  * Fork a prompt (create a copy)
  */
@@ -206,18 +1152,28 @@ export async function forkPrompt(
     throw new Error('Prompt not found')
   }
 
+  // Keep the forked version in the parent's history as the base for later syncs
+  await ensureCurrentRevision(original)
+
   // Create forked prompt
   const result = await collection.insertOne({
     ...original,
+    ...(await getSearchFields(original)),
     _id: new ObjectId(),
     authorId: new ObjectId(userId),
     authorName: userName,
     parentPromptId: new ObjectId(promptId),
+    forkedFromVersion: original.versionNumber,
+    parentPurgedAt: null,
     isPublic: false,
+    status: 'published',
+    replacementPromptId: null,
     forkCount: 0,
     viewCount: 0,
     starCount: 0,
     starredBy: [],
+    trendingScore: 0,
+    engagement: NO_ENGAGEMENT,
     versionNumber: 1,
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -228,83 +1184,380 @@ export async function forkPrompt(
     { _id: new ObjectId(promptId) },
     { $inc: { forkCount: 1 } }
   )
+  await recordPromptEvent(original._id, 'fork', userId)
 
-  return result.insertedId.toString()
+  const forkId = result.insertedId.toString()
+  await createRevision(
+    forkId,
+    1,
+    original,
+    { id: userId, name: userName },
+    `Forked from "${original.title}"`
+  )
+
+  return forkId
 }
 
+// Shown when an edit was based on a version that is no longer current
+const VERSION_CONFLICT_MESSAGE = 'Prompt was changed by someone else. Reload and try again.'
+
 /**
- * Update an existing prompt
+ * Prompts created before revision tracking have no snapshot of their current
+ * version. Record one before it is overwritten so history stays complete.
  */
-export async function updatePrompt(
-  promptId: string,
-  data: PromptFormData
-): Promise<void> {
+async function ensureCurrentRevision(prompt: Prompt): Promise<void> {
+  const promptId = prompt._id.toString()
+  const existing = await getPromptRevision(promptId, prompt.versionNumber)
+
+  if (!existing) {
+    try {
+      await createRevision(
+        promptId,
+        prompt.versionNumber,
+        prompt,
+        { id: prompt.authorId.toString(), name: prompt.authorName },
+        'Original version'
+      )
+    } catch (error) {
+      // A concurrent save recorded it first
+      if (!isDuplicateRevisionError(error)) throw error
+    }
+  }
+}
+
+/**
+ * Write a new version of a prompt and record it as a revision.
+ * Only applies if the prompt is still at `expectedVersion`, the version the
+ * editor loaded. The revision is recorded first: the unique (promptId,
+ * versionNumber) index lets one of two concurrent saves claim the next
+ * version, and a prompt is never bumped to a version without a revision.
+ */
+async function commitRevision(
+  current: Prompt,
+  expectedVersion: number,
+  changes: RevisionSnapshot & Partial<PromptFormData> & Pick<Partial<Prompt>, 'forkedFromVersion'>,
+  editor: RevisionEditor,
+  changeNote: string,
+  restoredFromVersion: number | null = null
+): Promise<number> {
   const db = await getDb()
   const collection = db.collection<Prompt>('prompts')
 
+  if (current.versionNumber !== expectedVersion) {
+    throw new Error(VERSION_CONFLICT_MESSAGE)
+  }
+
+  await ensureCurrentRevision(current)
+
+  const versionNumber = expectedVersion + 1
+  const searchFields = await getSearchFields(changes)
+
+  let revisionId: string
+  try {
+    revisionId = await createRevision(
+      current._id.toString(),
+      versionNumber,
+      toRevisionSnapshot(changes),
+      editor,
+      changeNote,
+      restoredFromVersion
+    )
+  } catch (error) {
+    throw isDuplicateRevisionError(error) ? new Error(VERSION_CONFLICT_MESSAGE) : error
+  }
+
   const result = await collection.updateOne(
-    { _id: new ObjectId(promptId) },
+    { _id: current._id, versionNumber: expectedVersion },
     {
       $set: {
-        ...data,
+        ...changes,
+        ...searchFields,
+        versionNumber,
         updatedAt: new Date(),
       },
     }
   )
 
   if (result.matchedCount === 0) {
+    await deleteRevision(revisionId)
+    throw new Error(VERSION_CONFLICT_MESSAGE)
+  }
+
+  return versionNumber
+}
+
+/**
+ * Update an existing prompt, recording the change as a new revision.
+ * Fails if the prompt is no longer at `expectedVersion`, the version the editor loaded.
+ */
+export async function updatePrompt(
+  promptId: string,
+  data: PromptFormData,
+  expectedVersion: number,
+  editor: RevisionEditor,
+  changeNote: string = ''
+): Promise<number> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const current = await collection.findOne({ _id: new ObjectId(promptId) })
+  if (!current) {
     throw new Error('Prompt not found')
   }
+
+  return await commitRevision(current, expectedVersion, data, editor, changeNote)
 }
 
 /**
- * Delete a prompt
+ * Restore an earlier revision by committing its content as a new revision
  */
-export async function deletePrompt(promptId: string): Promise<void> {
+export async function restorePromptRevision(
+  promptId: string,
+  versionNumber: number,
+  editor: RevisionEditor
+): Promise<number> {
   const db = await getDb()
   const collection = db.collection<Prompt>('prompts')
 
-  const result = await collection.deleteOne({ _id: new ObjectId(promptId) })
+  const current = await collection.findOne({ _id: new ObjectId(promptId) })
+  if (!current) {
+    throw new Error('Prompt not found')
+  }
+
+  const revision = await getPromptRevision(promptId, versionNumber)
+  if (!revision) {
+    throw new Error('Revision not found')
+  }
 
-  if (result.deletedCount === 0) {
+  return await commitRevision(
+    current,
+    current.versionNumber,
+    toRevisionSnapshot(revision),
+    editor,
+    `Restored from version ${versionNumber}`,
+    versionNumber
+  )
+}
+
+/**
+ * Get the common ancestor content for merging a fork with its parent.
+ * Falls back to the fork's first revision, which copied the parent.
+ */
+export async function getForkBaseContent(fork: Prompt): Promise<string> {
+  if (fork.parentPromptId) {
+    const parentRevision = await getPromptRevision(
+      fork.parentPromptId.toString(),
+      fork.forkedFromVersion ?? 1
+    )
+    if (parentRevision) return parentRevision.promptContent
+  }
+
+  const firstRevision = await getPromptRevision(fork._id.toString(), 1)
+  return firstRevision?.promptContent ?? fork.promptContent
+}
+
+/**
+ * Save a fork merged with its parent and record the parent version it now includes
+ */
+export async function syncFork(
+  promptId: string,
+  data: PromptFormData,
+  upstreamVersion: number,
+  expectedVersion: number,
+  editor: RevisionEditor
+): Promise<number> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const current = await collection.findOne({ _id: new ObjectId(promptId) })
+  if (!current) {
     throw new Error('Prompt not found')
   }
+
+  const parent = current.parentPromptId
+    ? await collection.findOne({ _id: current.parentPromptId })
+    : null
+  if (!parent) {
+    throw new Error('The original prompt no longer exists')
+  }
+
+  if (upstreamVersion > parent.versionNumber || upstreamVersion <= (current.forkedFromVersion ?? 1)) {
+    throw new Error('Upstream version is out of date. Reload and try again.')
+  }
+
+  return await commitRevision(
+    current,
+    expectedVersion,
+    { ...data, forkedFromVersion: upstreamVersion },
+    editor,
+    `Synced with upstream version ${upstreamVersion}`
+  )
 }
 
 /**
- * Toggle star on a prompt
+ * Move a published prompt through its lifecycle.
+ * Archived and deprecated prompts may point to a replacement: a published
+ * public prompt that is not in the trash, so anyone can open it.
  */
-export async function toggleStar(promptId: string, userId: string): Promise<boolean> {
+export async function setPromptStatus(
+  promptId: string,
+  status: Exclude<PromptStatus, 'draft'>,
+  replacementPromptId: string | null
+): Promise<void> {
   const db = await getDb()
   const collection = db.collection<Prompt>('prompts')
 
-  const prompt = await collection.findOne({ _id: new ObjectId(promptId) })
-  if (!prompt) {
+  const replacementId =
+    status !== 'published' && replacementPromptId ? new ObjectId(replacementPromptId) : null
+
+  if (replacementId) {
+    if (replacementId.equals(promptId)) {
+      throw new Error('A prompt cannot replace itself')
+    }
+
+    // Everyone who can see the prompt must be able to open its replacement
+    const replacement = await collection.findOne({ _id: replacementId, deletedAt: null })
+    if (!replacement || !replacement.isPublic || replacement.status === 'draft') {
+      throw new Error('Replacement must be a published public prompt')
+    }
+  }
+
+  const result = await collection.updateOne(
+    { _id: new ObjectId(promptId), status: { $ne: 'draft' } },
+    { $set: { status, replacementPromptId: replacementId, updatedAt: new Date() } }
+  )
+
+  if (result.matchedCount === 0) {
     throw new Error('Prompt not found')
   }
+}
 
-  const userObjectId = new ObjectId(userId)
-  const isStarred = prompt.starredBy.some((id) => id.equals(userObjectId))
+/**
+ * Move a prompt to the trash. It can be restored until it is purged.
+ */
+export async function deletePrompt(promptId: string, userId: string): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
 
-  if (isStarred) {
-    // Unstar
-    await collection.updateOne(
-      { _id: new ObjectId(promptId) },
-      {
-        $pull: { starredBy: userObjectId },
-        $inc: { starCount: -1 },
-      }
-    )
-    return false
-  } else {
-    // Star
-    await collection.updateOne(
-      { _id: new ObjectId(promptId) },
-      {
-        $push: { starredBy: userObjectId },
-        $inc: { starCount: 1 },
-      }
+  const result = await collection.updateOne(
+    { _id: new ObjectId(promptId), deletedAt: null },
+    { $set: { deletedAt: new Date(), deletedBy: new ObjectId(userId) } }
+  )
+
+  if (result.matchedCount === 0) {
+    throw new Error('Prompt not found')
+  }
+}
+
+/**
+ * Restore a prompt from the trash
+ */
+export async function restoreDeletedPrompt(promptId: string): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const result = await collection.updateOne(
+    { _id: new ObjectId(promptId), deletedAt: { $ne: null } },
+    { $set: { deletedAt: null, deletedBy: null } }
+  )
+
+  if (result.matchedCount === 0) {
+    throw new Error('Prompt not found in trash')
+  }
+}
+
+/**
+ * Permanently remove prompts deleted before `cutoff`, along with their
+ * revisions and collection entries. Forks of purged prompts are detached
+ * and marked with `parentPurgedAt`.
+ *
+ * @returns Number of prompts purged
+ */
+export async function purgeDeletedPrompts(cutoff: Date): Promise<number> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const purgeable = await collection
+    .find(
+      { deletedAt: { $ne: null, $lt: cutoff } },
+      { projection: { _id: 1, parentPromptId: 1 } }
     )
-    return true
+    .toArray()
+
+  if (purgeable.length === 0) return 0
+
+  const ids = purgeable.map((prompt) => prompt._id)
+  const now = new Date()
+
+  // Forks keep working on their own once the original is gone
+  await collection.updateMany(
+    { parentPromptId: { $in: ids } },
+    { $set: { parentPromptId: null, parentPurgedAt: now }, $unset: { forkedFromVersion: '' } }
+  )
+
+  // Purged forks no longer count towards their parent
+  for (const prompt of purgeable) {
+    if (prompt.parentPromptId) {
+      await collection.updateOne(
+        { _id: prompt.parentPromptId, forkCount: { $gt: 0 } },
+        { $inc: { forkCount: -1 } }
+      )
+    }
   }
+
+  await db.collection('prompt_revisions').deleteMany({ promptId: { $in: ids } })
+  const collections = db.collection<Collection>('collections')
+  for (const id of ids) {
+    await collections.updateMany({ promptIds: id }, { $pull: { promptIds: id } })
+  }
+
+  const result = await collection.deleteMany({ _id: { $in: ids } })
+  return result.deletedCount
+}
+
+/**
+ * Toggle star on a prompt
+ *
+ * Each branch is a single conditional update, so concurrent requests can
+ * never add the same user twice or drift `starCount` from `starredBy`.
+ */
+export async function toggleStar(
+  promptId: string,
+  userId: string
+): Promise<{ starred: boolean; starCount: number }> {
+  const db = await getDb()
+  const collection = db.collection<Prompt>('prompts')
+
+  const _id = new ObjectId(promptId)
+  const userObjectId = new ObjectId(userId)
+
+  // Star, only if the user has not starred it yet
+  const starred = await collection.findOneAndUpdate(
+    { _id, deletedAt: null, starredBy: { $ne: userObjectId } },
+    {
+      $addToSet: { starredBy: userObjectId },
+      $inc: { starCount: 1 },
+    },
+    { returnDocument: 'after', projection: { starCount: 1 } }
+  )
+  if (starred) {
+    await recordPromptEvent(_id, 'star', userId)
+    return { starred: true, starCount: starred.starCount }
+  }
+
+  // Unstar, only if the user has starred it
+  const unstarred = await collection.findOneAndUpdate(
+    { _id, deletedAt: null, starredBy: userObjectId },
+    {
+      $pull: { starredBy: userObjectId },
+      $inc: { starCount: -1 },
+    },
+    { returnDocument: 'after', projection: { starCount: 1 } }
+  )
+  if (unstarred) {
+    await recordPromptEvent(_id, 'unstar', userId)
+    return { starred: false, starCount: unstarred.starCount }
+  }
+
+  throw new Error('Prompt not found')
 }
@@ -0,0 +1,99 @@
+import { ObjectId } from 'mongodb'
+import { getDb } from '@/lib/db/mongodb'
+import { LIMITS } from '@/lib/constants'
+import type { PromptListFilters } from '@/lib/validations/prompt'
+import type { RecentSearches, SavedSearch } from '@/types/search'
+
+/**
+ * Get a user's recent searches, most recent first
+ */
+export async function getRecentSearches(userId: string): Promise<string[]> {
+  const db = await getDb()
+  const collection = db.collection<RecentSearches>('recent_searches')
+
+  const recent = await collection.findOne({ userId: new ObjectId(userId) })
+  return recent?.queries || []
+}
+
+/**
+ * Remember a search, moving it to the front if it was already there
+ */
+export async function addRecentSearch(userId: string, query: string): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<RecentSearches>('recent_searches')
+
+  const id = new ObjectId(userId)
+  await collection.updateOne({ userId: id }, { $pull: { queries: query } })
+  await collection.updateOne(
+    { userId: id },
+    {
+      $push: { queries: { $each: [query], $position: 0, $slice: LIMITS.MAX_RECENT_SEARCHES } },
+      $set: { updatedAt: new Date() },
+    },
+    { upsert: true }
+  )
+}
+
+/**
+ * Forget all of a user's recent searches
+ */
+export async function clearRecentSearches(userId: string): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<RecentSearches>('recent_searches')
+
+  await collection.deleteOne({ userId: new ObjectId(userId) })
+}
+
+/**
+ * Get a user's saved searches, newest first
+ */
+export async function getSavedSearches(userId: string): Promise<SavedSearch[]> {
+  const db = await getDb()
+  const collection = db.collection<SavedSearch>('saved_searches')
+
+  return await collection
+    .find({ userId: new ObjectId(userId) })
+    .sort({ createdAt: -1 })
+    .toArray()
+}
+
+/**
+ * Save a browse query under a name
+ */
+export async function createSavedSearch(
+  userId: string,
+  name: string,
+  filters: PromptListFilters
+): Promise<string> {
+  const db = await getDb()
+  const collection = db.collection<SavedSearch>('saved_searches')
+
+  const count = await collection.countDocuments({ userId: new ObjectId(userId) })
+  if (count >= LIMITS.MAX_SAVED_SEARCHES) {
+    throw new Error(`You can save up to ${LIMITS.MAX_SAVED_SEARCHES} searches. Delete one first.`)
+  }
+
+  const result = await collection.insertOne({
+    _id: new ObjectId(),
+    userId: new ObjectId(userId),
+    name,
+    filters,
+    createdAt: new Date(),
+  })
+
+  return result.insertedId.toString()
+}
+
+/**
+ * Delete one of a user's saved searches
+ */
+export async function deleteSavedSearch(id: string, userId: string): Promise<void> {
+  const db = await getDb()
+  const collection = db.collection<SavedSearch>('saved_searches')
+
+  const result = await collection.deleteOne({ _id: new ObjectId(id), userId: new ObjectId(userId) })
+
+  if (result.deletedCount === 0) {
+    throw new Error('Saved search not found')
+  }
+}
@@ -0,0 +1,85 @@
+import { ObjectId } from 'mongodb'
+import { getDb } from '@/lib/db/mongodb'
+import { isRole, type Role } from '@/lib/auth/permissions'
+import type { User } from '@/types/user'
+
+/** Most users listed on the admin users page at once */
+export const USER_LIST_LIMIT = 100
+
+/**
+ * Get a single user by ID
+ */
+export async function getUserById(userId: string): Promise<User | null> {
+  const db = await getDb()
+  const collection = db.collection<User>('users')
+
+  return await collection.findOne({ _id: new ObjectId(userId) })
+}
+
+/**
+ * Get a user's current role, member when unset or the user is gone
+ */
+export async function getUserRole(userId: string): Promise<Role> {
+  const db = await getDb()
+  const collection = db.collection<User>('users')
+
+  const user = await collection.findOne({ _id: new ObjectId(userId) }, { projection: { role: 1 } })
+
+  return isRole(user?.role) ? user.role : 'member'
+}
+
+/**
+ * Set a user's role
+ *
+ * @param editor - Admin making the change, or null when promoted from ADMIN_EMAILS
+ * @returns The previous role, or null if the user does not exist
+ */
+export async function setUserRole(
+  userId: string,
+  role: Role,
+  editor: { id: string; name: string } | null
+): Promise<Role | null> {
+  const db = await getDb()
+  const collection = db.collection<User>('users')
+
+  const previous = await collection.findOneAndUpdate(
+    { _id: new ObjectId(userId) },
+    {
+      $set: {
+        role,
+        roleUpdatedAt: new Date(),
+        roleUpdatedBy: editor ? { id: new ObjectId(editor.id), name: editor.name } : null,
+      },
+    },
+    { projection: { role: 1 } }
+  )
+
+  if (!previous) {
+    return null
+  }
+
+  return isRole(previous.role) ? previous.role : 'member'
+}
+
+/**
+ * List users by name, optionally filtered by a name or email search and role
+ */
+export async function listUsers(filters: { search?: string; role?: Role } = {}): Promise<User[]> {
+  const db = await getDb()
+  const collection = db.collection<User>('users')
+
+  const query: Record<string, unknown> = {}
+  if (filters.search) {
+    const escaped = filters.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    query.$or = [
+      { name: { $regex: escaped, $options: 'i' } },
+      { email: { $regex: escaped, $options: 'i' } },
+    ]
+  }
+  if (filters.role) {
+    // Users without a role are members
+    query.role = filters.role === 'member' ? { $in: [null, 'member'] } : filters.role
+  }
+
+  return await collection.find(query).sort({ name: 1, _id: 1 }).limit(USER_LIST_LIMIT).toArray()
+}
@@ -1,4 +1,5 @@
 import { MongoClient, Db } from 'mongodb'
+import { INDEX_SPECS, diffIndexes, type IndexDrift } from '@/lib/db/indexes'
 
 if (!process.env.MONGODB_URI) {
   throw new Error('Invalid/Missing environment variable: "MONGODB_URI"')
@@ -56,193 +57,62 @@ export async function closeDb() {
 /**
  * Ensures all required MongoDB indexes exist
  *
- * Creates indexes for:
- * - users: email (unique), webexId (unique), orgId, provider
+ * Creates the indexes declared in `INDEX_SPECS` (lib/db/indexes.ts) for:
+ * - users: email (unique), webexId (unique), orgId, provider, role
  * - accounts: provider + providerAccountId (NextAuth)
  * - sessions: sessionToken, expires (TTL)
+ * - auth_audit_logs: timestamp (TTL), userId, email, action, ipAddress, viewer order
+ * - security_alerts: open key (unique), dashboard order, lastSeenAt (TTL)
+ * - access_blocks: kind + value (unique), expiresAt (TTL)
+ * - prompts: weighted text search, browse sorts, tags, author, starred, lineage, trash
+ * - prompt_revisions: promptId + versionNumber (unique)
+ * - collections: ownerId, collaborators.userId
  *
- * Should be called on application startup or via deployment script.
+ * Runs on application startup (instrumentation.ts) and via `npm run db:indexes`.
+ * Existing indexes whose definition changed are not rebuilt; they fail here
+ * and show up in `getIndexDrift()`.
  *
- * @returns Object with index creation results
+ * @returns Created index names per collection
  */
-export async function ensureIndexes(): Promise<{
-  users: string[];
-  accounts: string[];
-  sessions: string[];
-  authAuditLogs: string[];
-}> {
+export async function ensureIndexes(): Promise<Record<string, string[]>> {
   const db = await getDb();
+  const results: Record<string, string[]> = {};
 
-  // Users collection indexes
-  const usersCollection = db.collection('users');
-  const userIndexes = await Promise.all([
-    // Email index (unique) - for user lookup
-    usersCollection.createIndex(
-      { email: 1 },
-      {
-        unique: true,
-        name: 'email_unique',
-        background: true,
-      }
-    ),
-
-    // Webex ID index (unique) - for OAuth user matching
-    usersCollection.createIndex(
-      { webexId: 1 },
-      {
-        unique: true,
-        sparse: true, // Allow documents without webexId
-        name: 'webexId_unique',
-        background: true,
-      }
-    ),
-
-    // Organization ID index - for access control queries
-    usersCollection.createIndex(
-      { orgId: 1 },
-      {
-        name: 'orgId_1',
-        background: true,
-      }
-    ),
-
-    // Provider index - for multi-provider support (future)
-    usersCollection.createIndex(
-      { provider: 1 },
-      {
-        name: 'provider_1',
-        background: true,
-      }
-    ),
-
-    // Compound index: provider + orgId - for efficient filtering
-    usersCollection.createIndex(
-      { provider: 1, orgId: 1 },
-      {
-        name: 'provider_orgId',
-        background: true,
-      }
-    ),
-  ]);
-
-  // Accounts collection indexes (managed by NextAuth adapter)
-  const accountsCollection = db.collection('accounts');
-  const accountIndexes = await Promise.all([
-    // Provider + providerAccountId (unique) - NextAuth requirement
-    accountsCollection.createIndex(
-      { provider: 1, providerAccountId: 1 },
-      {
-        unique: true,
-        name: 'provider_providerAccountId_unique',
-        background: true,
-      }
-    ),
-
-    // userId index - for looking up user's accounts
-    accountsCollection.createIndex(
-      { userId: 1 },
-      {
-        name: 'userId_1',
-        background: true,
-      }
-    ),
-  ]);
-
-  // Sessions collection indexes (if using database sessions)
-  const sessionsCollection = db.collection('sessions');
-  const sessionIndexes = await Promise.all([
-    // Session token (unique) - for session lookup
-    sessionsCollection.createIndex(
-      { sessionToken: 1 },
-      {
-        unique: true,
-        name: 'sessionToken_unique',
-        background: true,
-      }
-    ),
-
-    // Expires index with TTL - auto-delete expired sessions
-    sessionsCollection.createIndex(
-      { expires: 1 },
-      {
-        name: 'expires_ttl',
-        expireAfterSeconds: 0, // Delete at expire time
-        background: true,
-      }
-    ),
-  ]);
-
-  // Auth audit logs collection indexes
-  const authAuditLogsCollection = db.collection('auth_audit_logs');
-  const authAuditLogIndexes = await Promise.all([
-    // Timestamp index with TTL - auto-delete logs after 1 year
-    authAuditLogsCollection.createIndex(
-      { timestamp: 1 },
-      {
-        name: 'timestamp_ttl',
-        expireAfterSeconds: 365 * 24 * 60 * 60, // 1 year retention
-        background: true,
-      }
-    ),
-
-    // User ID index - for querying user's audit history
-    authAuditLogsCollection.createIndex(
-      { userId: 1 },
-      {
-        name: 'userId_1',
-        background: true,
-      }
-    ),
-
-    // Email index - for querying by email (includes failed attempts)
-    authAuditLogsCollection.createIndex(
-      { email: 1 },
-      {
-        name: 'email_1',
-        background: true,
-      }
-    ),
-
-    // Action index - for filtering by action type
-    authAuditLogsCollection.createIndex(
-      { action: 1 },
-      {
-        name: 'action_1',
-        background: true,
-      }
-    ),
+  for (const [collectionName, specs] of Object.entries(INDEX_SPECS)) {
+    results[collectionName] = await db
+      .collection(collectionName)
+      .createIndexes(specs.map((spec) => ({ key: spec.key, ...spec.options })));
+  }
 
-    // Compound index: timestamp + action - for efficient filtering
-    authAuditLogsCollection.createIndex(
-      { timestamp: -1, action: 1 },
-      {
-        name: 'timestamp_action',
-        background: true,
-      }
-    ),
+  console.log('[DB] Indexes ensured successfully');
+  for (const [collectionName, names] of Object.entries(results)) {
+    console.log(`[DB] ${collectionName} indexes: ${names.length}`);
+  }
 
-    // IP address index - for tracking suspicious activity
-    authAuditLogsCollection.createIndex(
-      { ipAddress: 1 },
-      {
-        name: 'ipAddress_1',
-        background: true,
-      }
-    ),
-  ]);
+  return results;
+}
 
-  console.log('[DB] Indexes ensured successfully');
-  console.log(`[DB] Users indexes: ${userIndexes.length}`);
-  console.log(`[DB] Accounts indexes: ${accountIndexes.length}`);
-  console.log(`[DB] Sessions indexes: ${sessionIndexes.length}`);
-  console.log(`[DB] Auth audit logs indexes: ${authAuditLogIndexes.length}`);
+/**
+ * Compares declared indexes with the ones in the database
+ *
+ * @returns Drift per collection (collections without drift included, with empty lists)
+ */
+export async function getIndexDrift(): Promise<Record<string, IndexDrift>> {
+  const db = await getDb();
+  const existing = new Set(
+    (await db.listCollections({}, { nameOnly: true }).toArray()).map((c) => c.name)
+  );
+  const drift: Record<string, IndexDrift> = {};
+
+  for (const [collectionName, specs] of Object.entries(INDEX_SPECS)) {
+    // Collections are created lazily, so a fresh database may not have them yet
+    const actual = existing.has(collectionName)
+      ? await db.collection(collectionName).indexes()
+      : [];
+    drift[collectionName] = diffIndexes(specs, actual);
+  }
 
-  return {
-    users: userIndexes,
-    accounts: accountIndexes,
-    sessions: sessionIndexes,
-    authAuditLogs: authAuditLogIndexes,
-  };
+  return drift;
 }
 
 /**
@@ -0,0 +1,113 @@
+/**
+ * Embeddings Tests
+ *
+ * Tests for the local hashed n-gram embedding provider and provider selection
+ */
+
+import {
+  cosineSimilarity,
+  createHashedNgramProvider,
+  getEmbeddingProvider,
+  getEmbeddingText,
+  registerEmbeddingProvider,
+  tokenize,
+} from '../embeddings';
+
+const provider = createHashedNgramProvider();
+
+async function embed(text: string) {
+  const [vector] = await provider.embed([text]);
+  return vector;
+}
+
+describe('tokenize', () => {
+  it('should lowercase words and drop stopwords and punctuation', () => {
+    expect(tokenize('Summarize THE notes, for me!')).toEqual(['summarize', 'notes']);
+  });
+});
+
+describe('createHashedNgramProvider', () => {
+  it('should return unit vectors of the configured size', async () => {
+    const vector = await embed('Write a cover letter for a job application');
+
+    expect(vector).toHaveLength(provider.dimensions);
+    expect(Math.hypot(...vector)).toBeCloseTo(1, 10);
+  });
+
+  it('should be deterministic', async () => {
+    expect(await embed('Refactor this function')).toEqual(await embed('Refactor this function'));
+  });
+
+  it('should rank related wording above unrelated text', async () => {
+    const prompt = await embed('Summarize meeting notes into a short summary with action items');
+
+    const related = cosineSimilarity(prompt, await embed('summarise the meeting'));
+    const unrelated = cosineSimilarity(prompt, await embed('optimize slow database queries'));
+
+    expect(related).toBeGreaterThan(unrelated);
+  });
+
+  it('should never move a text away from a term by repeating it', async () => {
+    const query = await embed('summarize');
+    let previous = 0;
+
+    for (let repeats = 1; repeats <= 6; repeats++) {
+      const similarity = cosineSimilarity(query, await embed(`${'summarize '.repeat(repeats)}notes`));
+
+      expect(similarity).toBeGreaterThan(0);
+      expect(similarity).toBeGreaterThanOrEqual(previous);
+      previous = similarity;
+    }
+  });
+
+  it('should return a zero vector for text without words', async () => {
+    expect((await embed('?!')).every((value) => value === 0)).toBe(true);
+  });
+
+  it('should include the dimensions in the id', () => {
+    expect(createHashedNgramProvider(64).id).toBe('local-hashed-ngram-v2-64');
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should be 1 for the same direction and -1 for the opposite', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+  });
+
+  it('should be 0 for empty, zero or mismatched vectors', () => {
+    expect(cosineSimilarity([], [])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    expect(cosineSimilarity([1, 2], [1, 2, 3])).toBe(0);
+  });
+});
+
+describe('getEmbeddingProvider', () => {
+  it('should default to the local provider', () => {
+    expect(getEmbeddingProvider(undefined).id).toBe(provider.id);
+    expect(getEmbeddingProvider('local').id).toBe(provider.id);
+  });
+
+  it('should return registered providers', () => {
+    registerEmbeddingProvider('tiny', () => createHashedNgramProvider(8));
+
+    expect(getEmbeddingProvider('tiny').dimensions).toBe(8);
+  });
+
+  it('should throw for an unknown provider', () => {
+    expect(() => getEmbeddingProvider('missing')).toThrow('Unknown embedding provider "missing"');
+  });
+});
+
+describe('getEmbeddingText', () => {
+  it('should weight the title by repeating it', () => {
+    const text = getEmbeddingText({
+      title: 'Email writer',
+      description: 'Drafts emails',
+      tags: ['email', 'writing'],
+      promptContent: 'Write an email',
+    });
+
+    expect(text).toBe('Email writer\nEmail writer\nemail writing\nDrafts emails\nWrite an email');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * MinHash Tests
+ *
+ * Tests for shingling, MinHash signatures and band keys used to detect
+ * near-duplicate prompt content
+ */
+
+import {
+  computeMinHash,
+  DUPLICATE_THRESHOLD,
+  estimateSimilarity,
+  getMinHashBands,
+  getShingles,
+  MINHASH_BANDS,
+  MINHASH_SIZE,
+} from '../minhash';
+
+const REVIEW_PROMPT = `You are a senior software engineer performing a code review.
+Review the following code for bugs, security issues, performance problems and readability.
+For each issue, quote the relevant line, explain why it is a problem and suggest a fix.
+Finish with a short summary of the overall code quality.`;
+
+describe('getShingles', () => {
+  it('should build overlapping word triples ignoring case and punctuation', () => {
+    expect([...getShingles('Review THIS code, please!')]).toEqual([
+      'review this code',
+      'this code please',
+    ]);
+  });
+
+  it('should keep short text as a single shingle', () => {
+    expect([...getShingles('Fix bugs')]).toEqual(['fix bugs']);
+  });
+
+  it('should be empty for text without words', () => {
+    expect(getShingles('  --- ').size).toBe(0);
+  });
+});
+
+describe('computeMinHash', () => {
+  it('should return a deterministic signature of the configured size', () => {
+    const signature = computeMinHash(REVIEW_PROMPT);
+
+    expect(signature).toHaveLength(MINHASH_SIZE);
+    expect(computeMinHash(REVIEW_PROMPT)).toEqual(signature);
+  });
+
+  it('should ignore formatting differences', () => {
+    expect(computeMinHash(REVIEW_PROMPT.toUpperCase().replace(/\n/g, '  '))).toEqual(
+      computeMinHash(REVIEW_PROMPT)
+    );
+  });
+
+  it('should return an empty signature for text without words', () => {
+    expect(computeMinHash('')).toEqual([]);
+  });
+});
+
+describe('estimateSimilarity', () => {
+  it('should flag lightly edited copies as near duplicates', () => {
+    const copy = REVIEW_PROMPT.replace('senior software engineer', 'senior engineer').concat(
+      '\nBe concise.'
+    );
+
+    expect(estimateSimilarity(computeMinHash(REVIEW_PROMPT), computeMinHash(copy))).toBeGreaterThanOrEqual(
+      DUPLICATE_THRESHOLD
+    );
+  });
+
+  it('should not flag prompts that only share a topic', () => {
+    const other = `Act as a code reviewer. Look at my pull request and tell me
+what you would change before merging it, ordered by importance.`;
+
+    expect(estimateSimilarity(computeMinHash(REVIEW_PROMPT), computeMinHash(other))).toBeLessThan(
+      DUPLICATE_THRESHOLD
+    );
+  });
+
+  it('should be 0 for empty or mismatched signatures', () => {
+    expect(estimateSimilarity([], [])).toBe(0);
+    expect(estimateSimilarity([1, 2], [1, 2, 3])).toBe(0);
+  });
+});
+
+describe('getMinHashBands', () => {
+  it('should return one key per band, prefixed with the band number', () => {
+    const bands = getMinHashBands(computeMinHash(REVIEW_PROMPT));
+
+    expect(bands).toHaveLength(MINHASH_BANDS);
+    bands.forEach((band, index) => expect(band.startsWith(`${index}:`)).toBe(true));
+  });
+
+  it('should share bands between near duplicates', () => {
+    const bands = getMinHashBands(computeMinHash(REVIEW_PROMPT));
+    const copyBands = getMinHashBands(computeMinHash(`${REVIEW_PROMPT} Thanks!`));
+
+    expect(copyBands.some((band) => bands.includes(band))).toBe(true);
+  });
+
+  it('should be empty for an empty signature', () => {
+    expect(getMinHashBands([])).toEqual([]);
+  });
+});
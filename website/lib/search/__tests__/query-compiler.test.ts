@@ -0,0 +1,91 @@
+/**
+ * Search Query Compiler Tests
+ *
+ * Tests for compiling parsed search queries into text search and
+ * MongoDB conditions
+ */
+
+import { compileSearchQuery } from '../query-compiler';
+import { parseSearchQuery } from '../query-parser';
+
+function compile(input: string) {
+  return compileSearchQuery(parseSearchQuery(input));
+}
+
+describe('compileSearchQuery', () => {
+  it('should pass words, phrases and exclusions to the text index', () => {
+    expect(compile('email "cold outreach" -spam')).toEqual({
+      text: 'email "cold outreach" -spam',
+      conditions: [],
+      keywords: ['email', 'cold outreach'],
+      exclusion: {
+        $nor: [
+          { title: { $regex: 'spam', $options: 'i' } },
+          { description: { $regex: 'spam', $options: 'i' } },
+          { promptContent: { $regex: 'spam', $options: 'i' } },
+        ],
+      },
+    });
+  });
+
+  it('should strip stray quotes from words', () => {
+    expect(compile('say"hi').text).toBe('sayhi');
+  });
+
+  it('should compile field filters into conditions', () => {
+    expect(compile('tag:sql category:Coding format:json').conditions).toEqual([
+      { tags: 'sql' },
+      { category: 'Coding' },
+      { outputFormat: 'json' },
+    ]);
+  });
+
+  it('should match authors by case-insensitive, escaped name prefix', () => {
+    expect(compile('author:a.b').conditions).toEqual([
+      { authorName: { $regex: '^a\\.b', $options: 'i' } },
+    ]);
+  });
+
+  it('should compile count comparisons', () => {
+    expect(compile('stars:>10 forks:3 views:<=50').conditions).toEqual([
+      { starCount: { $gt: 10 } },
+      { forkCount: 3 },
+      { viewCount: { $lte: 50 } },
+    ]);
+  });
+
+  it('should treat an exact date as the whole day', () => {
+    const day = new Date('2026-01-01T00:00:00.000Z');
+    const nextDay = new Date('2026-01-02T00:00:00.000Z');
+
+    expect(compile('created:2026-01-01').conditions).toEqual([
+      { createdAt: { $gte: day, $lt: nextDay } },
+    ]);
+    expect(compile('created:>2026-01-01').conditions).toEqual([{ createdAt: { $gte: nextDay } }]);
+    expect(compile('created:<2026-01-01').conditions).toEqual([{ createdAt: { $lt: day } }]);
+  });
+
+  it('should wrap negated filters in $nor', () => {
+    expect(compile('-tag:sql').conditions).toEqual([{ $nor: [{ tags: 'sql' }] }]);
+  });
+
+  it('should fall back to regex exclusions without positive terms', () => {
+    const compiled = compile('-spam tag:sales');
+
+    expect(compiled.text).toBeNull();
+    expect(compiled.conditions).toEqual([
+      { tags: 'sales' },
+      {
+        $nor: [
+          { title: { $regex: 'spam', $options: 'i' } },
+          { description: { $regex: 'spam', $options: 'i' } },
+          { promptContent: { $regex: 'spam', $options: 'i' } },
+        ],
+      },
+    ]);
+  });
+
+  it('should return no text for filter-only queries', () => {
+    expect(compile('stars:>1').text).toBeNull();
+  });
+});
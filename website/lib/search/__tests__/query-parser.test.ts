@@ -0,0 +1,107 @@
+/**
+ * Search Query Parser Tests
+ *
+ * Tests for parsing the browse search syntax into nodes and for the
+ * syntax errors reported back to the search bar
+ */
+
+import { parseSearchQuery, QuerySyntaxError } from '../query-parser';
+
+function parseError(input: string): QuerySyntaxError {
+  try {
+    parseSearchQuery(input);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${input}" to fail`);
+}
+
+describe('parseSearchQuery', () => {
+  it('should return no nodes for blank input', () => {
+    expect(parseSearchQuery('   ').nodes).toEqual([]);
+  });
+
+  it('should parse words and exact phrases', () => {
+    expect(parseSearchQuery('email "cold outreach"').nodes).toEqual([
+      { type: 'term', value: 'email', negated: false },
+      { type: 'phrase', value: 'cold outreach', negated: false },
+    ]);
+  });
+
+  it('should parse exclusions', () => {
+    expect(parseSearchQuery('sql -mysql -"stored procedure"').nodes).toEqual([
+      { type: 'term', value: 'sql', negated: false },
+      { type: 'term', value: 'mysql', negated: true },
+      { type: 'phrase', value: 'stored procedure', negated: true },
+    ]);
+  });
+
+  it('should parse author, tag, category and format filters', () => {
+    expect(parseSearchQuery('author:"Ada L" tag:ReactJS category:coding format:JSON').nodes).toEqual([
+      { type: 'author', value: 'Ada L', negated: false },
+      { type: 'tag', value: 'react', negated: false },
+      { type: 'category', value: 'Coding', negated: false },
+      { type: 'format', value: 'json', negated: false },
+    ]);
+  });
+
+  it('should parse count comparisons', () => {
+    expect(parseSearchQuery('stars:>10 forks:<=3 views:100').nodes).toEqual([
+      { type: 'count', field: 'stars', op: '>', value: 10, negated: false },
+      { type: 'count', field: 'forks', op: '<=', value: 3, negated: false },
+      { type: 'count', field: 'views', op: '=', value: 100, negated: false },
+    ]);
+  });
+
+  it('should parse creation dates as UTC days', () => {
+    expect(parseSearchQuery('created:>=2026-01-01').nodes).toEqual([
+      { type: 'created', op: '>=', value: new Date('2026-01-01T00:00:00.000Z'), negated: false },
+    ]);
+  });
+
+  it('should parse negated filters', () => {
+    expect(parseSearchQuery('-tag:sql').nodes).toEqual([
+      { type: 'tag', value: 'sql', negated: true },
+    ]);
+  });
+
+  it('should treat a lone dash and URLs as plain words', () => {
+    expect(parseSearchQuery('a - https://example.com').nodes).toEqual([
+      { type: 'term', value: 'a', negated: false },
+      { type: 'term', value: '-', negated: false },
+      { type: 'term', value: 'https://example.com', negated: false },
+    ]);
+  });
+});
+
+describe('parseSearchQuery errors', () => {
+  it('should report an unterminated phrase at its opening quote', () => {
+    const error = parseError('tag:sql "cold outreach');
+
+    expect(error.message).toBe('Missing closing quote');
+    expect(error.position).toBe(8);
+  });
+
+  it('should reject unknown filters', () => {
+    expect(parseError('colour:red').message).toMatch(/^Unknown filter "colour:"/);
+  });
+
+  it('should reject missing values', () => {
+    expect(parseError('tag:').message).toBe('Missing value for tag:');
+  });
+
+  it('should reject unknown categories and formats', () => {
+    expect(parseError('category:poetry').message).toMatch(/^Unknown category "poetry"/);
+    expect(parseError('format:xml').message).toBe('Unknown format "xml". Use markdown or json');
+  });
+
+  it('should reject non-numeric counts', () => {
+    expect(parseError('stars:>many').message).toBe('Expected a number for stars:, e.g. stars:>10');
+  });
+
+  it('should reject malformed and impossible dates', () => {
+    expect(parseError('created:>yesterday').message).toBe('Invalid date "yesterday", use YYYY-MM-DD');
+    expect(parseError('created:2026-02-30').message).toBe('Invalid date "2026-02-30", use YYYY-MM-DD');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Search Suggestions Tests
+ *
+ * Tests for finding the word being typed in the search box and applying
+ * suggestions to it
+ */
+
+import { applySuggestion, formatFilter, getActiveToken, getFreeText } from '../suggestions';
+
+describe('getActiveToken', () => {
+  it('should return the last plain word', () => {
+    expect(getActiveToken('code rev')).toEqual({ field: null, value: 'rev', start: 5, negated: false });
+  });
+
+  it('should recognise suggestion fields and exclusions', () => {
+    expect(getActiveToken('prompt -tag:sq')).toEqual({
+      field: 'tag',
+      value: 'sq',
+      start: 7,
+      negated: true,
+    });
+  });
+
+  it('should keep an unclosed quoted value together', () => {
+    expect(getActiveToken('review author:"Ada Lov')).toEqual({
+      field: 'author',
+      value: 'Ada Lov',
+      start: 7,
+      negated: false,
+    });
+  });
+
+  it('should treat other fields as plain text', () => {
+    expect(getActiveToken('stars:>1').field).toBeNull();
+  });
+
+  it('should be empty after a trailing space', () => {
+    expect(getActiveToken('code ')).toEqual({ field: null, value: '', start: 5, negated: false });
+  });
+});
+
+describe('formatFilter', () => {
+  it('should quote values with spaces', () => {
+    expect(formatFilter('tag', 'sql')).toBe('tag:sql');
+    expect(formatFilter('author', 'Ada Lovelace')).toBe('author:"Ada Lovelace"');
+  });
+});
+
+describe('applySuggestion', () => {
+  it('should replace the word being typed', () => {
+    const input = 'prompt sq';
+    expect(applySuggestion(input, getActiveToken(input), 'tag:sql')).toBe('prompt tag:sql ');
+  });
+
+  it('should keep a leading exclusion', () => {
+    const input = 'prompt -category:cod';
+    expect(applySuggestion(input, getActiveToken(input), 'category:Coding')).toBe(
+      'prompt -category:Coding '
+    );
+  });
+});
+
+describe('getFreeText', () => {
+  it('should drop filters, exclusions and quotes', () => {
+    expect(getFreeText('code "review" tag:sql -legacy author:"Ada L" stars:>3')).toBe('code review');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Prompt Embeddings
+ *
+ * Vector representations of prompts for semantic search. Providers are
+ * pluggable (EMBEDDING_PROVIDER selects one); the default `local` provider
+ * runs entirely in-process with no model download or API call: it hashes
+ * word unigrams, word bigrams and character trigrams into a fixed-size
+ * vector (the "hashing trick") with sublinear term weights, then
+ * L2-normalizes it so a dot product is the cosine similarity.
+ *
+ * Character trigrams let related word forms ("summarize", "summary",
+ * "summarise") share most of their features, which is where keyword search
+ * falls short.
+ *
+ * Usage:
+ * ```typescript
+ * const provider = getEmbeddingProvider()
+ * const [vector] = await provider.embed([getEmbeddingText(prompt)])
+ * const similarity = cosineSimilarity(vector, other)
+ * ```
+ */
+
+import { fnv1a } from './hash'
+
+export interface EmbeddingProvider {
+  /** Identifies the model and its settings; vectors from different ids are not comparable */
+  readonly id: string
+  readonly dimensions: number
+  embed(texts: string[]): Promise<number[][]>
+}
+
+type EmbeddingProviderFactory = () => EmbeddingProvider
+
+export const DEFAULT_EMBEDDING_DIMENSIONS = 512
+
+// Too common to say anything about what a prompt does
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i', 'in', 'is',
+  'it', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'with',
+  'you', 'your',
+])
+
+/**
+ * Lowercased words with stopwords and punctuation removed
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (word) => !STOPWORDS.has(word)
+  )
+}
+
+// Weight of each feature kind: words count most, bigrams keep a little
+// word order, character trigrams match word variants
+const WORD_WEIGHT = 1
+const BIGRAM_WEIGHT = 0.5
+const TRIGRAM_WEIGHT = 0.25
+
+/**
+ * Features of a text with their weight and how often they occur
+ */
+function extractFeatures(text: string): Map<string, { weight: number; count: number }> {
+  const features = new Map<string, { weight: number; count: number }>()
+  const add = (feature: string, weight: number) => {
+    const existing = features.get(feature)
+    if (existing) {
+      existing.count++
+    } else {
+      features.set(feature, { weight, count: 1 })
+    }
+  }
+
+  const words = tokenize(text)
+  words.forEach((word, index) => {
+    add(`w:${word}`, WORD_WEIGHT)
+    if (index > 0) {
+      add(`b:${words[index - 1]} ${word}`, BIGRAM_WEIGHT)
+    }
+    const padded = `#${word}#`
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT)
+    }
+  })
+
+  return features
+}
+
+/**
+ * Scales a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return length === 0 ? vector : vector.map((value) => value / length)
+}
+
+/**
+ * Cosine similarity of two vectors, 0 if either is empty or they differ in size
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0
+
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+/**
+ * Creates the fully local hashed n-gram provider.
+ *
+ * @param dimensions - Vector size; more dimensions mean fewer hash collisions
+ */
+export function createHashedNgramProvider(
+  dimensions = DEFAULT_EMBEDDING_DIMENSIONS
+): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0)
+
+    for (const [feature, { weight, count }] of extractFeatures(text)) {
+      const h = fnv1a(feature)
+      // A second hash picks the sign so collisions tend to cancel out
+      const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1
+      // Sublinear in the term count (at least 1), so repeats never flip the sign
+      vector[h % dimensions] += sign * weight * (1 + Math.log(count))
+    }
+
+    return normalize(vector)
+  }
+
+  return {
+    id: `local-hashed-ngram-v2-${dimensions}`,
+    dimensions,
+    embed: async (texts) => texts.map(embedOne),
+  }
+}
+
+const providers: Record<string, EmbeddingProviderFactory> = {
+  local: () => createHashedNgramProvider(),
+}
+
+/**
+ * Makes another provider (e.g. a hosted embedding API) selectable through EMBEDDING_PROVIDER
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory) {
+  providers[name] = factory
+}
+
+/**
+ * The configured provider, `local` unless EMBEDDING_PROVIDER names another registered one
+ */
+export function getEmbeddingProvider(
+  name: string | undefined = process.env.EMBEDDING_PROVIDER
+): EmbeddingProvider {
+  const factory = providers[name?.trim() || 'local']
+  if (!factory) {
+    throw new Error(`Unknown embedding provider "${name}"`)
+  }
+  return factory()
+}
+
+/**
+ * Text embedded for a prompt. The title is repeated so it outweighs the body.
+ */
+export function getEmbeddingText(prompt: {
+  title: string
+  description: string
+  tags: string[]
+  promptContent: string
+}): string {
+  return [prompt.title, prompt.title, prompt.tags.join(' '), prompt.description, prompt.promptContent].join(
+    '\n'
+  )
+}
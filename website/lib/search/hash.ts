@@ -0,0 +1,38 @@
+/**
+ * String Hashing
+ *
+ * Fast, stable (non-cryptographic) 32-bit hashes shared by the embedding
+ * and near-duplicate code. Values are stored in the database, so changing
+ * them means recomputing with `npm run search:backfill`.
+ *
+ * Usage:
+ * ```typescript
+ * const bucket = fnv1a('w:summary') % dimensions
+ * const permuted = mix32(base ^ seed)
+ * ```
+ */
+
+/**
+ * 32-bit FNV-1a hash
+ */
+export function fnv1a(value: string, seed = 0x811c9dc5): number {
+  let h = seed
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/**
+ * MurmurHash3 finalizer: scrambles a 32-bit integer so nearby inputs give unrelated outputs
+ */
+export function mix32(value: number): number {
+  let h = value >>> 0
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
@@ -0,0 +1,104 @@
+/**
+ * Near-Duplicate Detection
+ *
+ * MinHash signatures over word shingles of prompt content. The share of
+ * positions where two signatures agree estimates the Jaccard similarity of
+ * their shingle sets, so reworded copies of a prompt score high while
+ * prompts that merely share a topic do not.
+ *
+ * Signatures are also cut into bands (locality-sensitive hashing). Two
+ * prompts that agree on a whole band are candidates, so duplicates are found
+ * with one indexed `$in` query on the stored bands instead of comparing
+ * against every prompt.
+ *
+ * Usage:
+ * ```typescript
+ * const signature = computeMinHash(promptContent)
+ * const candidates = await collection.find({ contentBands: { $in: getMinHashBands(signature) } })
+ * const similarity = estimateSimilarity(signature, candidate.contentSignature)
+ * ```
+ */
+
+import { fnv1a, mix32 } from './hash'
+
+/** Hash functions per signature */
+export const MINHASH_SIZE = 64
+
+/** Bands per signature; 16 bands of 4 rows make prompts about 50% similar likely candidates */
+export const MINHASH_BANDS = 16
+
+/** Words per shingle */
+export const SHINGLE_SIZE = 3
+
+/** Estimated similarity from which content counts as a near duplicate */
+export const DUPLICATE_THRESHOLD = 0.7
+
+// One seed per hash function, fixed so stored signatures stay comparable
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, index) => mix32(index + 1))
+
+/**
+ * Overlapping word n-grams of the lowercased text (punctuation and spacing
+ * are ignored). Text shorter than one shingle is a single shingle.
+ */
+export function getShingles(text: string, size = SHINGLE_SIZE): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+  const shingles = new Set<string>()
+
+  if (words.length > 0 && words.length <= size) {
+    shingles.add(words.join(' '))
+  }
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(words.slice(i, i + size).join(' '))
+  }
+
+  return shingles
+}
+
+/**
+ * MinHash signature of a text, empty when the text has no words
+ */
+export function computeMinHash(text: string): number[] {
+  const shingles = getShingles(text)
+  if (shingles.size === 0) return []
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff)
+  for (const shingle of shingles) {
+    const base = fnv1a(shingle)
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = mix32(base ^ SEEDS[i])
+      if (value < signature[i]) {
+        signature[i] = value
+      }
+    }
+  }
+
+  return signature
+}
+
+/**
+ * Estimated Jaccard similarity of the texts behind two signatures (0 to 1)
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0
+
+  let matches = 0
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) matches++
+  }
+
+  return matches / a.length
+}
+
+/**
+ * Band keys of a signature. Keys include the band number, so equal rows in
+ * different bands do not match.
+ */
+export function getMinHashBands(signature: number[]): string[] {
+  if (signature.length !== MINHASH_SIZE) return []
+
+  const rows = MINHASH_SIZE / MINHASH_BANDS
+  return Array.from({ length: MINHASH_BANDS }, (_, band) => {
+    const values = signature.slice(band * rows, (band + 1) * rows)
+    return `${band}:${fnv1a(values.join(',')).toString(36)}`
+  })
+}
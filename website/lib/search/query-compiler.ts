@@ -0,0 +1,147 @@
+/**
+ * Search Query Compiler
+ *
+ * Turns a parsed search query into MongoDB conditions for the prompt
+ * listing. Words and phrases become a `$text` search (which understands
+ * `"phrases"` and `-exclusions` natively); field filters become regular
+ * conditions combined with `$and`.
+ *
+ * `$text` needs at least one positive term, so a query that only excludes
+ * words falls back to case-insensitive matching on title, description and
+ * content.
+ *
+ * Usage:
+ * ```typescript
+ * const { text, conditions } = compileSearchQuery(parseSearchQuery(search))
+ * if (text) query.$text = { $search: text }
+ * if (conditions.length > 0) query.$and = conditions
+ * ```
+ */
+
+import type { Comparison, CountField, SearchNode, SearchQuery } from './query-parser'
+
+export interface CompiledSearch {
+  /** `$search` string for the text index, null when there are no positive terms */
+  text: string | null
+  conditions: Record<string, unknown>[]
+  /** Positive words and phrases, for ranking that does not use the text index */
+  keywords: string[]
+  /** Condition excluding `-words` without the text index, null if nothing is excluded */
+  exclusion: Record<string, unknown> | null
+}
+
+const COUNT_FIELDS: Record<CountField, string> = {
+  stars: 'starCount',
+  forks: 'forkCount',
+  views: 'viewCount',
+}
+
+const OPERATORS: Record<Exclude<Comparison, '='>, string> = {
+  '>': '$gt',
+  '>=': '$gte',
+  '<': '$lt',
+  '<=': '$lte',
+}
+
+const TEXT_FIELDS = ['title', 'description', 'promptContent']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Date condition. An exact date covers that whole (UTC) day, so `>` starts
+ * the day after and `<=` ends at the end of the day.
+ */
+function compileDate(op: Comparison, day: Date): Record<string, Date> {
+  const nextDay = new Date(day.getTime() + DAY_MS)
+
+  switch (op) {
+    case '=':
+      return { $gte: day, $lt: nextDay }
+    case '>':
+      return { $gte: nextDay }
+    case '>=':
+      return { $gte: day }
+    case '<':
+      return { $lt: day }
+    case '<=':
+      return { $lt: nextDay }
+  }
+}
+
+function compileField(node: Exclude<SearchNode, { type: 'term' | 'phrase' }>): Record<string, unknown> {
+  switch (node.type) {
+    case 'author':
+      return { authorName: { $regex: `^${escapeRegex(node.value)}`, $options: 'i' } }
+    case 'tag':
+      return { tags: node.value }
+    case 'category':
+      return { category: node.value }
+    case 'format':
+      return { outputFormat: node.value }
+    case 'count':
+      return {
+        [COUNT_FIELDS[node.field]]: node.op === '=' ? node.value : { [OPERATORS[node.op]]: node.value },
+      }
+    case 'created':
+      return { createdAt: compileDate(node.op, node.value) }
+  }
+}
+
+/**
+ * Compiles a parsed query.
+ *
+ * @param query - Output of `parseSearchQuery`
+ * @returns Text search string and field conditions
+ */
+export function compileSearchQuery(query: SearchQuery): CompiledSearch {
+  const textParts: string[] = []
+  const excluded: string[] = []
+  const keywords: string[] = []
+  const conditions: Record<string, unknown>[] = []
+
+  for (const node of query.nodes) {
+    if (node.type === 'term' || node.type === 'phrase') {
+      // Quotes inside a word would otherwise open a phrase in $search
+      const value = node.value.replace(/"/g, '').trim()
+      if (!value) continue
+
+      const part = node.type === 'phrase' ? `"${value}"` : value
+      textParts.push(node.negated ? `-${part}` : part)
+
+      if (node.negated) {
+        excluded.push(value)
+      } else {
+        keywords.push(value)
+      }
+      continue
+    }
+
+    const condition = compileField(node)
+    conditions.push(node.negated ? { $nor: [condition] } : condition)
+  }
+
+  const exclusion =
+    excluded.length > 0
+      ? {
+          $nor: excluded.flatMap((value) =>
+            TEXT_FIELDS.map((field) => ({ [field]: { $regex: escapeRegex(value), $options: 'i' } }))
+          ),
+        }
+      : null
+
+  const hasPositiveText = keywords.length > 0
+  if (!hasPositiveText && exclusion) {
+    conditions.push(exclusion)
+  }
+
+  return {
+    text: hasPositiveText ? textParts.join(' ') : null,
+    conditions,
+    keywords,
+    exclusion,
+  }
+}
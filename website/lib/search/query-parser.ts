@@ -0,0 +1,239 @@
+/**
+ * Search Query Parser
+ *
+ * Parses the browse search box into a typed AST. Plain words and
+ * `"exact phrases"` are full-text terms; `field:value` pairs filter on
+ * prompt fields; a leading `-` excludes a term or filter.
+ *
+ * Supported filters:
+ * - `author:alice` / `author:"Alice Smith"` - author name starts with
+ * - `tag:sql` - has the tag (normalized like tags on write)
+ * - `category:coding` - category (case-insensitive)
+ * - `format:json` - output format (`markdown` or `json`)
+ * - `stars:>10`, `forks:<=3`, `views:100` - counts with `>`, `>=`, `<`, `<=` or exact
+ * - `created:>2026-01-01` - creation date (YYYY-MM-DD, exact means that day)
+ *
+ * Usage:
+ * ```typescript
+ * try {
+ *   const query = parseSearchQuery('prompt tag:sql -mysql stars:>10')
+ * } catch (error) {
+ *   if (error instanceof QuerySyntaxError) showError(error.message, error.position)
+ * }
+ * ```
+ */
+
+import { CATEGORIES, type Category } from '@/lib/constants'
+import { normalizeTag } from '@/lib/utils/tags'
+
+export type Comparison = '=' | '>' | '>=' | '<' | '<='
+
+export type CountField = 'stars' | 'forks' | 'views'
+
+export type SearchNode =
+  | { type: 'term'; value: string; negated: boolean }
+  | { type: 'phrase'; value: string; negated: boolean }
+  | { type: 'author'; value: string; negated: boolean }
+  | { type: 'tag'; value: string; negated: boolean }
+  | { type: 'category'; value: Category; negated: boolean }
+  | { type: 'format'; value: 'markdown' | 'json'; negated: boolean }
+  | { type: 'count'; field: CountField; op: Comparison; value: number; negated: boolean }
+  | { type: 'created'; op: Comparison; value: Date; negated: boolean }
+
+export interface SearchQuery {
+  nodes: SearchNode[]
+}
+
+export const SEARCH_FIELDS = ['author', 'tag', 'category', 'format', 'stars', 'forks', 'views', 'created'] as const
+
+/**
+ * Raised for input the parser cannot understand.
+ * `position` is the offset in the input where the problem starts.
+ */
+export class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number
+  ) {
+    super(message)
+    this.name = 'QuerySyntaxError'
+  }
+}
+
+interface Token {
+  negated: boolean
+  field: string | null
+  value: string
+  quoted: boolean
+  position: number
+}
+
+const FIELD_PATTERN = /^([a-z]+):/i
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)?(.*)$/
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+
+/**
+ * Reads a `"..."` value starting at the opening quote
+ */
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1)
+  if (close === -1) {
+    throw new QuerySyntaxError('Missing closing quote', start)
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 }
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++
+      continue
+    }
+
+    const position = index
+    let negated = false
+    if (input[index] === '-' && index + 1 < input.length && !/\s/.test(input[index + 1])) {
+      negated = true
+      index++
+    }
+
+    if (input[index] === '"') {
+      const { value, end } = readQuoted(input, index)
+      tokens.push({ negated, field: null, value, quoted: true, position })
+      index = end
+      continue
+    }
+
+    // Field name, if the word looks like `name:`
+    let field: string | null = null
+    const fieldMatch = FIELD_PATTERN.exec(input.slice(index))
+    if (fieldMatch && !input.startsWith('//', index + fieldMatch[0].length)) {
+      field = fieldMatch[1].toLowerCase()
+      index += fieldMatch[0].length
+    }
+
+    // Values may be quoted after the comparison, e.g. author:"Ada Lovelace"
+    const comparison = /^(>=|<=|>|<|=)/.exec(input.slice(index))?.[0] || ''
+    if (field && input[index + comparison.length] === '"') {
+      const { value, end } = readQuoted(input, index + comparison.length)
+      tokens.push({ negated, field, value: comparison + value, quoted: true, position })
+      index = end
+      continue
+    }
+
+    let end = index
+    while (end < input.length && !/\s/.test(input[end])) end++
+    tokens.push({ negated, field, value: input.slice(index, end), quoted: false, position })
+    index = end
+  }
+
+  return tokens
+}
+
+function parseComparison(value: string): { op: Comparison; rest: string } {
+  const [, op = '=', rest] = COMPARISON_PATTERN.exec(value)!
+  return { op: op as Comparison, rest }
+}
+
+function parseDate(value: string, position: number): Date {
+  const match = DATE_PATTERN.exec(value)
+  const date = match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])) : null
+
+  // Reject impossible dates such as 2026-02-30, which Date would roll over
+  if (!date || date.getUTCDate() !== +match![3] || date.getUTCMonth() !== +match![2] - 1) {
+    throw new QuerySyntaxError(`Invalid date "${value}", use YYYY-MM-DD`, position)
+  }
+
+  return date
+}
+
+function parseFieldToken(token: Token, field: string): SearchNode {
+  const { negated, position } = token
+  const value = token.value.trim()
+
+  if (!value) {
+    throw new QuerySyntaxError(`Missing value for ${field}:`, position)
+  }
+
+  switch (field) {
+    case 'author':
+      return { type: 'author', value, negated }
+
+    case 'tag': {
+      const tag = normalizeTag(value)
+      if (!tag) {
+        throw new QuerySyntaxError(`Missing value for tag:`, position)
+      }
+      return { type: 'tag', value: tag, negated }
+    }
+
+    case 'category': {
+      const category = CATEGORIES.find((c) => c.toLowerCase() === value.toLowerCase())
+      if (!category) {
+        throw new QuerySyntaxError(
+          `Unknown category "${value}". Use one of: ${CATEGORIES.join(', ')}`,
+          position
+        )
+      }
+      return { type: 'category', value: category, negated }
+    }
+
+    case 'format': {
+      const format = value.toLowerCase()
+      if (format !== 'markdown' && format !== 'json') {
+        throw new QuerySyntaxError(`Unknown format "${value}". Use markdown or json`, position)
+      }
+      return { type: 'format', value: format, negated }
+    }
+
+    case 'stars':
+    case 'forks':
+    case 'views': {
+      const { op, rest } = parseComparison(value)
+      if (!/^\d+$/.test(rest)) {
+        throw new QuerySyntaxError(`Expected a number for ${field}:, e.g. ${field}:>10`, position)
+      }
+      return { type: 'count', field, op, value: Number(rest), negated }
+    }
+
+    case 'created': {
+      const { op, rest } = parseComparison(value)
+      return { type: 'created', op, value: parseDate(rest, position), negated }
+    }
+
+    default:
+      throw new QuerySyntaxError(
+        `Unknown filter "${field}:". Use one of: ${SEARCH_FIELDS.map((f) => `${f}:`).join(', ')}`,
+        position
+      )
+  }
+}
+
+/**
+ * Parses a search query into nodes.
+ *
+ * @param input - Text from the search box
+ * @returns Parsed query (empty for blank input)
+ * @throws QuerySyntaxError when the query is malformed
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const nodes = tokenize(input).map((token): SearchNode => {
+    if (token.field) {
+      return parseFieldToken(token, token.field)
+    }
+
+    if (token.quoted) {
+      if (!token.value.trim()) {
+        throw new QuerySyntaxError('Empty phrase', token.position)
+      }
+      return { type: 'phrase', value: token.value.trim(), negated: token.negated }
+    }
+
+    return { type: 'term', value: token.value, negated: token.negated }
+  })
+
+  return { nodes }
+}
@@ -0,0 +1,84 @@
+/**
+ * Search Suggestions
+ *
+ * Works out what is being typed at the end of the search box so
+ * suggestions can complete it: a plain word is completed with any kind of
+ * suggestion, while `tag:`, `author:` and `category:` only suggest values
+ * for that field. Choosing a suggestion replaces the word being typed with
+ * the matching filter, e.g. `prompt sq` becomes `prompt tag:sql `.
+ *
+ * Usage:
+ * ```typescript
+ * const token = getActiveToken(input)
+ * const tags = token.field === null || token.field === 'tag' ? await getTagCounts(token.value) : []
+ * const query = applySuggestion(input, token, formatFilter('tag', 'sql'))
+ * ```
+ */
+
+export type SuggestionField = 'tag' | 'author' | 'category'
+
+const SUGGESTION_FIELDS: SuggestionField[] = ['tag', 'author', 'category']
+
+/**
+ * The word being typed at the end of the search box
+ */
+export interface ActiveToken {
+  /** Field the value belongs to, null for a plain word */
+  field: SuggestionField | null
+  /** Text typed so far, without the field name and quotes */
+  value: string
+  /** Offset where the word (including `-` and the field name) starts */
+  start: number
+  negated: boolean
+}
+
+/**
+ * Finds the word being typed. An unclosed quote makes everything from the
+ * quote onwards part of the word, so `author:"Ada Lov` is one token.
+ */
+export function getActiveToken(input: string): ActiveToken {
+  const quotes = (input.match(/"/g) || []).length
+  const openQuote = quotes % 2 === 1 ? input.lastIndexOf('"') : -1
+  const searchFrom = openQuote === -1 ? input.length : openQuote
+  const start = Math.max(input.lastIndexOf(' ', searchFrom - 1), input.lastIndexOf('\t', searchFrom - 1)) + 1
+
+  let text = input.slice(start)
+  const negated = text.startsWith('-')
+  if (negated) text = text.slice(1)
+
+  const fieldMatch = /^([a-z]+):(.*)$/i.exec(text)
+  const fieldName = fieldMatch?.[1].toLowerCase() as SuggestionField | undefined
+  const field = fieldName && SUGGESTION_FIELDS.includes(fieldName) ? fieldName : null
+  const value = (field ? fieldMatch![2] : text).replace(/"/g, '')
+
+  return { field, value, start, negated }
+}
+
+/**
+ * Search text for a field filter, quoted when the value has spaces
+ */
+export function formatFilter(field: SuggestionField, value: string): string {
+  return /\s/.test(value) ? `${field}:"${value}"` : `${field}:${value}`
+}
+
+/**
+ * Replaces the word being typed with a suggestion, keeping a leading `-`
+ * and leaving a space to continue typing
+ */
+export function applySuggestion(input: string, token: ActiveToken, replacement: string): string {
+  return `${input.slice(0, token.start)}${token.negated ? '-' : ''}${replacement} `
+}
+
+/**
+ * Plain words in the search box (no filters, exclusions or quotes), used to
+ * suggest matching prompt titles
+ */
+export function getFreeText(input: string): string {
+  return input
+    .replace(/-?[a-z]+:("[^"]*"?|\S*)/gi, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !word.startsWith('-'))
+    .join(' ')
+    .replace(/"/g, '')
+    .trim()
+}
@@ -0,0 +1,28 @@
+/**
+ * Audit Log Link Tests
+ *
+ * Tests for building audit viewer, timeline and export URLs
+ */
+
+import { getAuditHref, getAuditTimelineHref } from '../audit';
+
+describe('getAuditHref', () => {
+  it('should leave out empty filters', () => {
+    expect(getAuditHref('/admin/audit', {})).toBe('/admin/audit');
+    expect(getAuditHref('/admin/audit', { action: 'sign_out', email: undefined })).toBe(
+      '/admin/audit?action=sign_out'
+    );
+  });
+
+  it('should carry filters to exports', () => {
+    expect(
+      getAuditHref('/api/admin/audit/export', { from: '2025-01-01', to: '2025-01-31', format: 'jsonl' })
+    ).toBe('/api/admin/audit/export?from=2025-01-01&to=2025-01-31&format=jsonl');
+  });
+});
+
+describe('getAuditTimelineHref', () => {
+  it('should encode the email', () => {
+    expect(getAuditTimelineHref('a+b@example.com')).toBe('/admin/audit/timeline?email=a%2Bb%40example.com');
+  });
+});
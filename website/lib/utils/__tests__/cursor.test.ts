@@ -0,0 +1,80 @@
+/**
+ * Cursor Pagination Tests
+ *
+ * Tests for encoding, decoding and filtering with keyset pagination cursors
+ *
+ * @jest-environment node
+ */
+
+import { ObjectId } from 'mongodb';
+import { buildCursorFilter, decodeCursor, encodeCursor } from '../cursor';
+
+describe('encodeCursor / decodeCursor', () => {
+  it('should round-trip dates, numbers, strings and ObjectIds', () => {
+    const id = new ObjectId();
+    const createdAt = new Date('2025-03-01T12:00:00.000Z');
+
+    const decoded = decodeCursor(encodeCursor([createdAt, 4, 'abc', null, id]));
+
+    expect(decoded).not.toBeNull();
+    expect(decoded![0]).toEqual(createdAt);
+    expect(decoded![1]).toBe(4);
+    expect(decoded![2]).toBe('abc');
+    expect(decoded![3]).toBeNull();
+    expect((decoded![4] as ObjectId).equals(id)).toBe(true);
+  });
+
+  it('should produce URL-safe tokens', () => {
+    const token = encodeCursor([new Date(), 1.5, new ObjectId()]);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('should return null for malformed tokens', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('{"a":1}').toString('base64url'))).toBeNull();
+    expect(decodeCursor(Buffer.from('[]').toString('base64url'))).toBeNull();
+  });
+
+  it('should return null for values of the wrong type', () => {
+    const badDate = Buffer.from(JSON.stringify([['d', 'yesterday']])).toString('base64url');
+    const badId = Buffer.from(JSON.stringify([['o', 'xyz']])).toString('base64url');
+    const unknownType = Buffer.from(JSON.stringify([['q', 1]])).toString('base64url');
+
+    expect(decodeCursor(badDate)).toBeNull();
+    expect(decodeCursor(badId)).toBeNull();
+    expect(decodeCursor(unknownType)).toBeNull();
+  });
+});
+
+describe('buildCursorFilter', () => {
+  it('should continue after the cursor on a single key and _id', () => {
+    const id = new ObjectId();
+
+    expect(buildCursorFilter(['forkCount', '_id'], [3, id])).toEqual({
+      $or: [
+        { forkCount: { $lt: 3 } },
+        { forkCount: 3, _id: { $lt: id } },
+      ],
+    });
+  });
+
+  it('should compare earlier keys for equality on ties', () => {
+    const id = new ObjectId();
+    const createdAt = new Date();
+
+    expect(buildCursorFilter(['score', 'createdAt', '_id'], [1.2, createdAt, id])).toEqual({
+      $or: [
+        { score: { $lt: 1.2 } },
+        { score: 1.2, createdAt: { $lt: createdAt } },
+        { score: 1.2, createdAt, _id: { $lt: id } },
+      ],
+    });
+  });
+
+  it('should reject cursors that do not match the sort keys', () => {
+    expect(() => buildCursorFilter(['createdAt', '_id'], [new Date()])).toThrow(
+      'Cursor does not match the sort order'
+    );
+  });
+});
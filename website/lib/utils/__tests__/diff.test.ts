@@ -0,0 +1,112 @@
+/**
+ * Diff Utility Tests
+ *
+ * Tests for the line- and word-level diff helpers used by the
+ * revision and fork comparison page.
+ */
+
+import {
+  diffTokens,
+  diffWords,
+  diffLines,
+  buildDiffRows,
+  diffTags,
+} from '../diff';
+
+describe('diffTokens', () => {
+  it('should return a single equal op for identical input', () => {
+    expect(diffTokens(['a', 'b'], ['a', 'b'])).toEqual([{ type: 'equal', value: 'ab' }]);
+  });
+
+  it('should detect insertions and deletions', () => {
+    expect(diffTokens(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([
+      { type: 'equal', value: 'a' },
+      { type: 'delete', value: 'b' },
+      { type: 'insert', value: 'x' },
+      { type: 'equal', value: 'c' },
+    ]);
+  });
+
+  it('should handle empty sequences', () => {
+    expect(diffTokens([], ['a'])).toEqual([{ type: 'insert', value: 'a' }]);
+    expect(diffTokens(['a'], [])).toEqual([{ type: 'delete', value: 'a' }]);
+    expect(diffTokens([], [])).toEqual([]);
+  });
+});
+
+describe('diffWords', () => {
+  it('should diff at word granularity and keep whitespace', () => {
+    expect(diffWords('the quick fox', 'the slow fox')).toEqual([
+      { type: 'equal', value: 'the ' },
+      { type: 'delete', value: 'quick' },
+      { type: 'insert', value: 'slow' },
+      { type: 'equal', value: ' fox' },
+    ]);
+  });
+});
+
+describe('diffLines', () => {
+  it('should produce one op per line', () => {
+    expect(diffLines('one\ntwo\nthree', 'one\nthree\nfour')).toEqual([
+      { type: 'equal', value: 'one' },
+      { type: 'delete', value: 'two' },
+      { type: 'equal', value: 'three' },
+      { type: 'insert', value: 'four' },
+    ]);
+  });
+
+  it('should preserve empty lines', () => {
+    expect(diffLines('a\n\nb', 'a\n\nb')).toEqual([
+      { type: 'equal', value: 'a' },
+      { type: 'equal', value: '' },
+      { type: 'equal', value: 'b' },
+    ]);
+  });
+
+  it('should treat CRLF and LF as the same line ending', () => {
+    expect(diffLines('a\r\nb', 'a\nb').every((op) => op.type === 'equal')).toBe(true);
+  });
+});
+
+describe('buildDiffRows', () => {
+  it('should number lines on each side independently', () => {
+    const rows = buildDiffRows('a\nb', 'a\nx\nb');
+
+    expect(rows.map((row) => row.type)).toEqual(['equal', 'insert', 'equal']);
+    expect(rows[2].left?.lineNumber).toBe(2);
+    expect(rows[2].right?.lineNumber).toBe(3);
+  });
+
+  it('should pair replaced lines as modifications with word segments', () => {
+    const rows = buildDiffRows('Write a short poem', 'Write a long poem');
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].type).toBe('modify');
+    expect(rows[0].left?.segments).toEqual([
+      { type: 'equal', value: 'Write a ' },
+      { type: 'delete', value: 'short' },
+      { type: 'equal', value: ' poem' },
+    ]);
+    expect(rows[0].right?.segments).toEqual([
+      { type: 'equal', value: 'Write a ' },
+      { type: 'insert', value: 'long' },
+      { type: 'equal', value: ' poem' },
+    ]);
+  });
+
+  it('should emit leftover lines of uneven change blocks', () => {
+    const rows = buildDiffRows('a\nb\nc', 'x');
+
+    expect(rows.map((row) => row.type)).toEqual(['modify', 'delete', 'delete']);
+  });
+});
+
+describe('diffTags', () => {
+  it('should report added, removed and unchanged tags', () => {
+    expect(diffTags(['sql', 'data'], ['data', 'python'])).toEqual({
+      added: ['python'],
+      removed: ['sql'],
+      unchanged: ['data'],
+    });
+  });
+});
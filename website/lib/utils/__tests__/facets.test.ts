@@ -0,0 +1,139 @@
+/**
+ * Browse Facet Tests
+ *
+ * Tests for date buckets and toggling facets in the browse search params
+ */
+
+import {
+  clearFacetParams,
+  getBrowseHref,
+  getDateBucketStart,
+  isDateBucket,
+  toPromptFilters,
+  toggleFacetParam,
+} from '../facets';
+
+describe('getDateBucketStart', () => {
+  const now = new Date('2025-06-30T00:00:00.000Z');
+
+  it('should go back the number of days in the bucket', () => {
+    expect(getDateBucketStart('week', now)).toEqual(new Date('2025-06-23T00:00:00.000Z'));
+    expect(getDateBucketStart('month', now)).toEqual(new Date('2025-05-31T00:00:00.000Z'));
+  });
+
+  it('should recognise valid buckets only', () => {
+    expect(isDateBucket('year')).toBe(true);
+    expect(isDateBucket('decade')).toBe(false);
+    expect(isDateBucket(undefined)).toBe(false);
+  });
+});
+
+describe('toggleFacetParam', () => {
+  it('should select a single-choice facet and reset paging', () => {
+    const params = new URLSearchParams('q=email&page=3&cursor=abc');
+
+    expect(toggleFacetParam(params, 'format', 'json')).toBe('q=email&format=json');
+  });
+
+  it('should replace the selected value of a single-choice facet', () => {
+    const params = new URLSearchParams('format=markdown');
+
+    expect(toggleFacetParam(params, 'format', 'json')).toBe('format=json');
+  });
+
+  it('should clear a single-choice facet that is already selected', () => {
+    const params = new URLSearchParams('category=Coding&sort=views');
+
+    expect(toggleFacetParam(params, 'category', 'Coding')).toBe('sort=views');
+  });
+
+  it('should add and remove tags within the list', () => {
+    const params = new URLSearchParams('tags=python');
+
+    expect(toggleFacetParam(params, 'tags', 'sql')).toBe('tags=python%2Csql');
+    expect(toggleFacetParam(new URLSearchParams('tags=python,sql'), 'tags', 'python')).toBe('tags=sql');
+  });
+
+  it('should drop the tag mode when the last tag is removed', () => {
+    const params = new URLSearchParams('tags=python&tagMode=all');
+
+    expect(toggleFacetParam(params, 'tags', 'python')).toBe('');
+  });
+
+  it('should not modify the given params', () => {
+    const params = new URLSearchParams('format=json');
+    toggleFacetParam(params, 'format', 'json');
+
+    expect(params.toString()).toBe('format=json');
+  });
+});
+
+describe('clearFacetParams', () => {
+  it('should keep the search and sort but drop facets and paging', () => {
+    const params = new URLSearchParams(
+      'q=email&sort=popular&category=Writing&tags=a,b&tagMode=all&format=json&author=x&created=week&page=2'
+    );
+
+    expect(clearFacetParams(params)).toBe('q=email&sort=popular');
+  });
+});
+
+describe('toPromptFilters', () => {
+  it('should turn the date bucket into a creation cutoff', () => {
+    const now = new Date('2025-06-30T00:00:00.000Z');
+
+    const filters = toPromptFilters(
+      { search: '', mode: 'keyword', tags: ['python'], tagMode: 'all', created: 'week', sort: 'views' },
+      now
+    );
+
+    expect(filters).toEqual({
+      search: undefined,
+      category: undefined,
+      tags: ['python'],
+      tagMode: 'all',
+      outputFormat: undefined,
+      authorId: undefined,
+      createdAfter: new Date('2025-06-23T00:00:00.000Z'),
+      sort: 'views',
+    });
+  });
+
+  it('should enable semantic ranking in semantic mode', () => {
+    const filters = toPromptFilters({
+      search: 'summarize',
+      mode: 'semantic',
+      tags: [],
+      tagMode: 'any',
+      sort: 'newest',
+    });
+
+    expect(filters.search).toBe('summarize');
+    expect(filters.semantic).toBe(true);
+  });
+});
+
+describe('getBrowseHref', () => {
+  it('should encode every filter that differs from the defaults', () => {
+    expect(
+      getBrowseHref({
+        search: 'review tag:sql',
+        mode: 'semantic',
+        category: 'Coding',
+        tags: ['python', 'testing'],
+        tagMode: 'all',
+        outputFormat: 'json',
+        created: 'month',
+        sort: 'popular',
+      })
+    ).toBe(
+      '/?q=review+tag%3Asql&mode=semantic&category=Coding&tags=python%2Ctesting&tagMode=all&format=json&created=month&sort=popular'
+    );
+  });
+
+  it('should leave out default modes', () => {
+    expect(getBrowseHref({ mode: 'keyword', tags: [], tagMode: 'any', sort: 'newest' })).toBe(
+      '/?sort=newest'
+    );
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Lineage Utility Tests
+ *
+ * Tests for building the ancestor chain and fork tree shown on the
+ * lineage page, including redaction of private prompts.
+ *
+ * @jest-environment node
+ */
+
+import { ObjectId } from 'mongodb';
+import { buildLineage, countDescendants } from '../lineage';
+import type { LineagePrompt } from '@/types/prompt';
+
+function makePrompt(
+  title: string,
+  parent: LineagePrompt | null,
+  overrides: Partial<LineagePrompt> = {}
+): LineagePrompt {
+  return {
+    _id: new ObjectId(),
+    title,
+    authorId: new ObjectId(),
+    authorName: `${title} author`,
+    isPublic: true,
+    parentPromptId: parent?._id ?? null,
+    starCount: 1,
+    forkCount: 0,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const canViewPublic = (prompt: LineagePrompt) => prompt.isPublic;
+
+describe('buildLineage', () => {
+  it('should order ancestors from the root down', () => {
+    const root = makePrompt('Root', null);
+    const middle = makePrompt('Middle', root);
+    const current = makePrompt('Current', middle);
+
+    const { ancestors } = buildLineage(current, [middle, root], [], canViewPublic);
+
+    expect(ancestors.map((node) => node.title)).toEqual(['Root', 'Middle']);
+  });
+
+  it('should nest descendants under their parents, oldest first', () => {
+    const current = makePrompt('Current', null);
+    const later = makePrompt('Later', current, { createdAt: new Date('2025-03-01T00:00:00Z') });
+    const earlier = makePrompt('Earlier', current, { createdAt: new Date('2025-02-01T00:00:00Z') });
+    const grandchild = makePrompt('Grandchild', earlier, {
+      createdAt: new Date('2025-04-01T00:00:00Z'),
+    });
+
+    const { tree } = buildLineage(current, [], [grandchild, later, earlier], canViewPublic);
+
+    expect(tree.title).toBe('Current');
+    expect(tree.children.map((node) => node.title)).toEqual(['Earlier', 'Later']);
+    expect(tree.children[0].children.map((node) => node.title)).toEqual(['Grandchild']);
+    expect(countDescendants(tree)).toBe(3);
+  });
+
+  it('should redact prompts the viewer cannot see', () => {
+    const root = makePrompt('Secret root', null, { isPublic: false, starCount: 7 });
+    const current = makePrompt('Current', root);
+    const privateFork = makePrompt('Secret fork', current, { isPublic: false });
+
+    const { ancestors, tree } = buildLineage(current, [root], [privateFork], canViewPublic);
+
+    expect(ancestors[0]).toMatchObject({ redacted: true, title: null, authorName: null, starCount: 0 });
+    expect(tree.children[0]).toMatchObject({ redacted: true, title: null, authorName: null });
+    expect(JSON.stringify({ ancestors, tree })).not.toContain('Secret');
+  });
+
+  it('should always show the current prompt', () => {
+    const current = makePrompt('Mine', null, { isPublic: false });
+
+    const { tree } = buildLineage(current, [], [], canViewPublic);
+
+    expect(tree.redacted).toBe(false);
+    expect(tree.title).toBe('Mine');
+  });
+
+  it('should stop at missing ancestors', () => {
+    const purged = makePrompt('Purged', null);
+    const middle = makePrompt('Middle', purged);
+    const current = makePrompt('Current', middle);
+
+    const { ancestors } = buildLineage(current, [middle], [], canViewPublic);
+
+    expect(ancestors.map((node) => node.title)).toEqual(['Middle']);
+  });
+});
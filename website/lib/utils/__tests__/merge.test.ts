@@ -0,0 +1,99 @@
+/**
+ * Three-Way Merge Tests
+ *
+ * Tests for merging upstream prompt changes into forks.
+ */
+
+import {
+  mergeThreeWay,
+  hasConflictMarkers,
+  CONFLICT_START,
+  CONFLICT_SEPARATOR,
+  CONFLICT_END,
+} from '../merge';
+
+const base = ['You are a helpful assistant.', 'Answer briefly.', 'Use markdown.'].join('\n');
+
+describe('mergeThreeWay', () => {
+  it('should return the text unchanged when nobody edited it', () => {
+    expect(mergeThreeWay(base, base, base)).toEqual({ content: base, conflicts: 0 });
+  });
+
+  it('should take upstream changes when the fork is untouched', () => {
+    const theirs = base.replace('Answer briefly.', 'Answer in one sentence.');
+
+    expect(mergeThreeWay(base, base, theirs)).toEqual({ content: theirs, conflicts: 0 });
+  });
+
+  it('should keep fork changes when upstream is untouched', () => {
+    const ours = base.replace('Use markdown.', 'Use plain text.');
+
+    expect(mergeThreeWay(base, ours, base)).toEqual({ content: ours, conflicts: 0 });
+  });
+
+  it('should combine edits to different lines', () => {
+    const ours = base.replace('Use markdown.', 'Use plain text.');
+    const theirs = base.replace('You are a helpful assistant.', 'You are a senior engineer.');
+
+    expect(mergeThreeWay(base, ours, theirs)).toEqual({
+      content: ['You are a senior engineer.', 'Answer briefly.', 'Use plain text.'].join('\n'),
+      conflicts: 0,
+    });
+  });
+
+  it('should accept identical edits on both sides', () => {
+    const edited = base.replace('Answer briefly.', 'Answer in detail.');
+
+    expect(mergeThreeWay(base, edited, edited)).toEqual({ content: edited, conflicts: 0 });
+  });
+
+  it('should mark conflicting edits to the same line', () => {
+    const ours = base.replace('Answer briefly.', 'Answer in French.');
+    const theirs = base.replace('Answer briefly.', 'Answer in German.');
+
+    const result = mergeThreeWay(base, ours, theirs);
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe(
+      [
+        'You are a helpful assistant.',
+        CONFLICT_START,
+        'Answer in French.',
+        CONFLICT_SEPARATOR,
+        'Answer in German.',
+        CONFLICT_END,
+        'Use markdown.',
+      ].join('\n')
+    );
+  });
+
+  it('should merge lines appended on both ends', () => {
+    const ours = `Context first.\n${base}`;
+    const theirs = `${base}\nCite sources.`;
+
+    expect(mergeThreeWay(base, ours, theirs)).toEqual({
+      content: `Context first.\n${base}\nCite sources.`,
+      conflicts: 0,
+    });
+  });
+
+  it('should handle an empty base', () => {
+    const result = mergeThreeWay('', 'mine', 'theirs');
+
+    expect(result.conflicts).toBe(1);
+    expect(hasConflictMarkers(result.content)).toBe(true);
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  it('should detect leftover markers', () => {
+    const { content } = mergeThreeWay('a', 'b', 'c');
+
+    expect(hasConflictMarkers(content)).toBe(true);
+  });
+
+  it('should ignore resolved text and look-alike lines', () => {
+    expect(hasConflictMarkers('Heading\n=======\nBody')).toBe(false);
+    expect(hasConflictMarkers(base)).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Leaderboard Scoring Tests
+ *
+ * Tests for computing scores, building the score expression and explaining the formula
+ */
+
+import {
+  computeScore,
+  DEFAULT_SCORING_CONFIG,
+  describeScoringFormula,
+  getMinimumConditions,
+  getScoreExpression,
+} from '../scoring';
+import { scoringConfigSchema, type ScoringConfig } from '@/lib/validations/leaderboard';
+
+const counts = { stars: 3, forks: 2, views: 150 };
+
+function withChanges(changes: Partial<ScoringConfig>): ScoringConfig {
+  return { ...DEFAULT_SCORING_CONFIG, ...changes };
+}
+
+describe('computeScore', () => {
+  it('should match the original formula by default', () => {
+    expect(computeScore(DEFAULT_SCORING_CONFIG, counts)).toBeCloseTo(3 * 10 + 2 * 5 + 150 * 0.1);
+  });
+
+  it('should log-scale views', () => {
+    const config = withChanges({ viewScaling: 'log', weights: { stars: 0, forks: 0, views: 1 } });
+
+    expect(computeScore(config, counts)).toBeCloseTo(Math.log(151));
+    expect(computeScore(config, { stars: 0, forks: 0, views: 0 })).toBe(0);
+  });
+});
+
+describe('getScoreExpression', () => {
+  it('should weight each count expression', () => {
+    expect(
+      getScoreExpression(DEFAULT_SCORING_CONFIG, { stars: '$s', forks: '$f', views: '$v' })
+    ).toEqual({
+      $add: [
+        { $multiply: ['$s', 10] },
+        { $multiply: ['$f', 5] },
+        { $multiply: ['$v', 0.1] },
+      ],
+    });
+  });
+
+  it('should take the log of views when log-scaling', () => {
+    const expression = getScoreExpression(withChanges({ viewScaling: 'log' }), {
+      stars: '$s',
+      forks: '$f',
+      views: '$v',
+    }) as { $add: unknown[] };
+
+    expect(expression.$add[2]).toEqual({
+      $multiply: [{ $ln: { $add: [1, { $max: ['$v', 0] }] } }, 0.1],
+    });
+  });
+});
+
+describe('getMinimumConditions', () => {
+  it('should only include minimums above zero', () => {
+    const config = withChanges({ minimums: { stars: 2, forks: 0, views: 50 } });
+
+    expect(getMinimumConditions(config, { stars: '$s', forks: '$f', views: '$v' })).toEqual([
+      { $gte: ['$s', 2] },
+      { $gte: ['$v', 50] },
+    ]);
+  });
+
+  it('should be empty without minimums', () => {
+    expect(getMinimumConditions(DEFAULT_SCORING_CONFIG, { stars: 1, forks: 1, views: 1 })).toEqual([]);
+  });
+});
+
+describe('describeScoringFormula', () => {
+  it('should describe the default formula', () => {
+    expect(describeScoringFormula(DEFAULT_SCORING_CONFIG)).toEqual({
+      formula: 'Score = (Stars × 10) + (Forks × 5) + (Views × 0.1)',
+      notes: [],
+    });
+  });
+
+  it('should leave out zero weights and show log-scaled views', () => {
+    const config = withChanges({ viewScaling: 'log', weights: { stars: 10, forks: 0, views: 2.5 } });
+
+    expect(describeScoringFormula(config).formula).toBe('Score = (Stars × 10) + (ln(1 + Views) × 2.5)');
+  });
+
+  it('should explain minimums and normalization', () => {
+    const config = withChanges({
+      minimums: { stars: 2, forks: 1, views: 0 },
+      normalizeByCategory: true,
+    });
+
+    expect(describeScoringFormula(config).notes).toEqual([
+      'Prompts need at least 2 stars and 1 fork to be ranked.',
+      'Scores are relative to each category: 100 is the average of ranked prompts in the same category.',
+    ]);
+  });
+});
+
+describe('scoringConfigSchema', () => {
+  it('should accept the default config', () => {
+    expect(scoringConfigSchema.safeParse(DEFAULT_SCORING_CONFIG).success).toBe(true);
+  });
+
+  it('should reject negative weights and fractional minimums', () => {
+    expect(
+      scoringConfigSchema.safeParse(withChanges({ weights: { stars: -1, forks: 5, views: 0.1 } })).success
+    ).toBe(false);
+    expect(
+      scoringConfigSchema.safeParse(withChanges({ minimums: { stars: 1.5, forks: 0, views: 0 } })).success
+    ).toBe(false);
+  });
+
+  it('should require at least one weight above zero', () => {
+    const result = scoringConfigSchema.safeParse(withChanges({ weights: { stars: 0, forks: 0, views: 0 } }));
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe('At least one weight must be above zero');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tag Normalization Tests
+ *
+ * Tests for canonical tag spelling, synonyms and the tags search param
+ */
+
+import { normalizeTag, normalizeTags, parseTagsParam } from '../tags';
+
+describe('normalizeTag', () => {
+  it('should lowercase and trim tags', () => {
+    expect(normalizeTag('  Python ')).toBe('python');
+  });
+
+  it('should collapse whitespace and underscores to single hyphens', () => {
+    expect(normalizeTag('Code  Review')).toBe('code-review');
+    expect(normalizeTag('unit_tests')).toBe('unit-tests');
+    expect(normalizeTag('-data--science-')).toBe('data-science');
+  });
+
+  it('should drop a leading hash', () => {
+    expect(normalizeTag('#writing')).toBe('writing');
+  });
+
+  it('should map synonyms to their canonical tag', () => {
+    expect(normalizeTag('ReactJS')).toBe('react');
+    expect(normalizeTag('React JS')).toBe('react');
+    expect(normalizeTag('JS')).toBe('javascript');
+    expect(normalizeTag('Artificial Intelligence')).toBe('ai');
+  });
+
+  it('should return an empty string for blank tags', () => {
+    expect(normalizeTag('  # ')).toBe('');
+  });
+});
+
+describe('normalizeTags', () => {
+  it('should remove duplicates after normalization', () => {
+    expect(normalizeTags(['React', 'reactjs', ' react ', 'TS'])).toEqual(['react', 'typescript']);
+  });
+
+  it('should drop empty tags', () => {
+    expect(normalizeTags(['', '  ', 'seo'])).toEqual(['seo']);
+  });
+});
+
+describe('parseTagsParam', () => {
+  it('should split and normalize a comma-separated list', () => {
+    expect(parseTagsParam('Python, ml,,python')).toEqual(['python', 'machine-learning']);
+  });
+
+  it('should return an empty list when the param is missing', () => {
+    expect(parseTagsParam(undefined)).toEqual([]);
+    expect(parseTagsParam('')).toEqual([]);
+  });
+});
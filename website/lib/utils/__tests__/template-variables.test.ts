@@ -0,0 +1,79 @@
+/**
+ * Template Variable Tests
+ *
+ * Tests for parsing `{{VARIABLE}}` placeholders and rendering prompts
+ * with filled-in values.
+ */
+
+import {
+  extractPlaceholders,
+  syncVariables,
+  getInitialValues,
+  getMissingRequired,
+  renderTemplate,
+  createVariable,
+} from '../template-variables';
+
+describe('extractPlaceholders', () => {
+  it('should return unique names in order of appearance', () => {
+    expect(extractPlaceholders('{{TOPIC}} for {{AUDIENCE}} about {{TOPIC}}')).toEqual([
+      'TOPIC',
+      'AUDIENCE',
+    ]);
+  });
+
+  it('should allow whitespace inside the braces', () => {
+    expect(extractPlaceholders('Hello {{ name }}')).toEqual(['name']);
+  });
+
+  it('should ignore tokens that are not valid identifiers', () => {
+    expect(extractPlaceholders('{{1st}} {{two words}} {{}}')).toEqual([]);
+  });
+});
+
+describe('syncVariables', () => {
+  it('should keep existing declarations and add new placeholders', () => {
+    const existing = { ...createVariable('TOPIC'), description: 'What to research' };
+
+    const synced = syncVariables('{{AUDIENCE}} {{TOPIC}}', [existing]);
+
+    expect(synced.map((variable) => variable.name)).toEqual(['AUDIENCE', 'TOPIC']);
+    expect(synced[1]).toBe(existing);
+  });
+
+  it('should drop declarations whose placeholder was removed', () => {
+    expect(syncVariables('No placeholders', [createVariable('TOPIC')])).toEqual([]);
+  });
+});
+
+describe('getMissingRequired', () => {
+  it('should list required variables with blank values', () => {
+    const variables = [
+      createVariable('TOPIC'),
+      { ...createVariable('TONE'), required: false },
+      createVariable('AUDIENCE'),
+    ];
+
+    expect(getMissingRequired(variables, { TOPIC: '  ', AUDIENCE: 'execs' })).toEqual(['TOPIC']);
+  });
+});
+
+describe('getInitialValues', () => {
+  it('should use each default value', () => {
+    const variables = [{ ...createVariable('TONE'), defaultValue: 'formal' }];
+
+    expect(getInitialValues(variables)).toEqual({ TONE: 'formal' });
+  });
+});
+
+describe('renderTemplate', () => {
+  it('should substitute filled values and leave empty ones in place', () => {
+    expect(renderTemplate('Research {{TOPIC}} for {{ AUDIENCE }}', { TOPIC: 'RAG', AUDIENCE: '' })).toBe(
+      'Research RAG for {{ AUDIENCE }}'
+    );
+  });
+
+  it('should not interpret replacement patterns in values', () => {
+    expect(renderTemplate('{{A}}', { A: '$& cost' })).toBe('$& cost');
+  });
+});
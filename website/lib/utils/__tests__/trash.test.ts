@@ -0,0 +1,44 @@
+/**
+ * Trash Retention Tests
+ *
+ * Tests for reading the retention period and computing purge dates.
+ */
+
+import {
+  getTrashRetentionDays,
+  getPurgeDate,
+  getPurgeCutoff,
+  DEFAULT_TRASH_RETENTION_DAYS,
+} from '../trash';
+
+describe('getTrashRetentionDays', () => {
+  it('should parse a whole number of days', () => {
+    expect(getTrashRetentionDays('7')).toBe(7);
+    expect(getTrashRetentionDays('7.9')).toBe(7);
+  });
+
+  it('should allow zero to purge on the next run', () => {
+    expect(getTrashRetentionDays('0')).toBe(0);
+  });
+
+  it('should fall back to the default for missing or invalid values', () => {
+    expect(getTrashRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(getTrashRetentionDays('')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(getTrashRetentionDays('soon')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(getTrashRetentionDays('-1')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+  });
+});
+
+describe('purge dates', () => {
+  const deletedAt = new Date('2025-01-01T00:00:00Z');
+
+  it('should schedule purging after the retention period', () => {
+    expect(getPurgeDate(deletedAt, 30).toISOString()).toBe('2025-01-31T00:00:00.000Z');
+  });
+
+  it('should compute the cutoff for prompts due for purging', () => {
+    const cutoff = getPurgeCutoff(new Date('2025-01-31T00:00:00Z'), 30);
+
+    expect(cutoff.toISOString()).toBe(deletedAt.toISOString());
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Trending Tests
+ *
+ * Tests for event counters, decay and engagement period boundaries
+ */
+
+import {
+  EVENT_COUNTERS,
+  getDecayFactor,
+  getPeriodStart,
+  getTrendingWindowStart,
+  TRENDING_HALF_LIFE_HOURS,
+  TRENDING_WINDOW_DAYS,
+} from '../trending';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+describe('getDecayFactor', () => {
+  it('should count a new event fully', () => {
+    expect(getDecayFactor(0)).toBe(1);
+  });
+
+  it('should halve every half-life', () => {
+    const halfLife = TRENDING_HALF_LIFE_HOURS * HOUR_MS;
+
+    expect(getDecayFactor(halfLife)).toBeCloseTo(0.5);
+    expect(getDecayFactor(2 * halfLife)).toBeCloseTo(0.25);
+  });
+
+  it('should count a recent event above an older one', () => {
+    expect(getDecayFactor(HOUR_MS)).toBeGreaterThan(getDecayFactor(DAY_MS));
+  });
+
+  it('should be 0 outside the trending window', () => {
+    expect(getDecayFactor(TRENDING_WINDOW_DAYS * DAY_MS + 1)).toBe(0);
+  });
+
+  it('should treat events dated in the future as new', () => {
+    expect(getDecayFactor(-HOUR_MS)).toBe(1);
+  });
+});
+
+describe('EVENT_COUNTERS', () => {
+  it('should let an unstar take back a star', () => {
+    expect(EVENT_COUNTERS.unstar.counter).toBe(EVENT_COUNTERS.star.counter);
+    expect(EVENT_COUNTERS.star.delta + EVENT_COUNTERS.unstar.delta).toBe(0);
+  });
+});
+
+describe('getTrendingWindowStart', () => {
+  it('should start the configured number of days before now', () => {
+    const now = new Date('2025-03-20T12:00:00Z');
+
+    expect(getTrendingWindowStart(now).getTime()).toBe(now.getTime() - TRENDING_WINDOW_DAYS * DAY_MS);
+  });
+});
+
+describe('getPeriodStart', () => {
+  const now = new Date('2025-03-20T12:00:00Z');
+
+  it('should start a week period 7 days ago', () => {
+    expect(getPeriodStart('week', now)).toEqual(new Date('2025-03-13T12:00:00Z'));
+  });
+
+  it('should start a month period 30 days ago', () => {
+    expect(getPeriodStart('month', now)).toEqual(new Date('2025-02-18T12:00:00Z'));
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Audit Log Links
+ *
+ * URLs for the admin audit log viewer, the per-user timeline and exports.
+ * Filters are carried in the query string so a filtered view can be
+ * bookmarked, paged and exported with the same filters.
+ *
+ * Usage:
+ * ```typescript
+ * <Link href={getAuditHref('/admin/audit', { ...filters, cursor: page.nextCursor })}>Older</Link>
+ * <a href={getAuditHref('/api/admin/audit/export', { ...filters, format: 'csv' })}>CSV</a>
+ * ```
+ */
+
+import type { AuditExportFormat, AuditLogQuery } from '@/lib/validations/audit'
+
+/**
+ * URL for an audit page or export with the given filters (empty filters are left out)
+ */
+export function getAuditHref(
+  path: string,
+  params: AuditLogQuery & { format?: AuditExportFormat }
+): string {
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value) search.set(key, value)
+  }
+
+  const query = search.toString()
+  return query ? `${path}?${query}` : path
+}
+
+/**
+ * Timeline URL for one user's audit logs
+ */
+export function getAuditTimelineHref(email: string): string {
+  return getAuditHref('/admin/audit/timeline', { email })
+}
@@ -0,0 +1,101 @@
+/**
+ * Cursor Pagination
+ *
+ * Opaque cursors for keyset pagination. A cursor records the sort key values
+ * of the last item on a page; the next page starts strictly after it. Every
+ * sort ends with `_id` so ties never skip or repeat items.
+ *
+ * Usage:
+ * ```typescript
+ * const keys = ['createdAt', '_id']
+ * const values = decodeCursor(token)
+ * const filter = values ? buildCursorFilter(keys, values) : {}
+ * const next = encodeCursor(keys.map((key) => last[key]))
+ * ```
+ */
+
+import { ObjectId } from 'mongodb'
+
+export type CursorValue = string | number | Date | ObjectId | null
+
+type EncodedValue = ['s', string] | ['n', number] | ['d', string] | ['o', string] | ['z', null]
+
+function encodeValue(value: CursorValue): EncodedValue {
+  if (value === null || value === undefined) return ['z', null]
+  if (value instanceof Date) return ['d', value.toISOString()]
+  if (value instanceof ObjectId) return ['o', value.toHexString()]
+  if (typeof value === 'number') return ['n', value]
+  return ['s', value]
+}
+
+function decodeValue(encoded: unknown): CursorValue | undefined {
+  if (!Array.isArray(encoded) || encoded.length !== 2) return undefined
+
+  const [type, raw] = encoded
+  switch (type) {
+    case 'z':
+      return null
+    case 'n':
+      return typeof raw === 'number' && Number.isFinite(raw) ? raw : undefined
+    case 's':
+      return typeof raw === 'string' ? raw : undefined
+    case 'd': {
+      const date = typeof raw === 'string' ? new Date(raw) : null
+      return date && !Number.isNaN(date.getTime()) ? date : undefined
+    }
+    case 'o':
+      return typeof raw === 'string' && ObjectId.isValid(raw) ? new ObjectId(raw) : undefined
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Encodes sort key values as a URL-safe token
+ */
+export function encodeCursor(values: CursorValue[]): string {
+  return Buffer.from(JSON.stringify(values.map(encodeValue))).toString('base64url')
+}
+
+/**
+ * Decodes a token created by `encodeCursor`.
+ *
+ * @param token - Cursor from a URL or client request
+ * @returns Sort key values, or null if the token is malformed
+ */
+export function decodeCursor(token: string): CursorValue[] | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'))
+    if (!Array.isArray(parsed) || parsed.length === 0) return null
+
+    const values = parsed.map(decodeValue)
+    return values.includes(undefined) ? null : (values as CursorValue[])
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Builds a filter matching documents that come after the cursor when sorted
+ * descending on every key, e.g. for keys [a, _id]:
+ * `{ $or: [{ a: { $lt: x } }, { a: x, _id: { $lt: id } }] }`
+ *
+ * @param keys - Sort keys in order, all descending
+ * @param values - Cursor values, one per key
+ * @returns MongoDB filter for the next page
+ */
+export function buildCursorFilter(
+  keys: string[],
+  values: CursorValue[]
+): Record<string, unknown> {
+  if (keys.length !== values.length) {
+    throw new Error('Cursor does not match the sort order')
+  }
+
+  return {
+    $or: keys.map((key, index) => ({
+      ...Object.fromEntries(keys.slice(0, index).map((prevKey, i) => [prevKey, values[i]])),
+      [key]: { $lt: values[index] },
+    })),
+  }
+}
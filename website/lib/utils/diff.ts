@@ -0,0 +1,249 @@
+/**
+ * Text Diff Utilities
+ *
+ * Line- and word-level diffs used to compare prompt revisions and forks.
+ * Diffs are computed with a longest-common-subsequence table after trimming
+ * the shared prefix and suffix, which keeps typical prompt edits cheap.
+ *
+ * Usage:
+ * ```typescript
+ * const rows = buildDiffRows(before.promptContent, after.promptContent)
+ * const tags = diffTags(before.tags, after.tags)
+ * ```
+ */
+
+export type DiffOpType = 'equal' | 'insert' | 'delete'
+
+/**
+ * A run of tokens that is equal, inserted or deleted
+ */
+export interface DiffOp {
+  type: DiffOpType
+  value: string
+}
+
+/**
+ * One side of a diff row, with its 1-based line number
+ */
+export interface DiffLine {
+  lineNumber: number
+  text: string
+  /** Word-level segments, present when the line was modified */
+  segments?: DiffOp[]
+}
+
+/**
+ * A row of a line diff, aligned for side-by-side display.
+ * Unchanged rows have both sides, insertions only `right`, deletions only `left`.
+ */
+export interface DiffRow {
+  type: 'equal' | 'insert' | 'delete' | 'modify'
+  left?: DiffLine
+  right?: DiffLine
+}
+
+/**
+ * Set difference between two tag lists
+ */
+export interface TagDiff {
+  added: string[]
+  removed: string[]
+  unchanged: string[]
+}
+
+/**
+ * Computes the edit script turning `a` into `b`, merging adjacent ops of the same type.
+ *
+ * @param a - Original token sequence
+ * @param b - Updated token sequence
+ * @returns Diff ops whose values are the concatenated tokens
+ */
+export function diffTokens(a: string[], b: string[]): DiffOp[] {
+  // Trim common prefix and suffix
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+  const n = midA.length
+  const m = midB.length
+
+  // LCS lengths of suffixes: table[i * (m + 1) + j] = LCS(midA[i:], midB[j:])
+  const width = m + 1
+  const table = new Uint32Array((n + 1) * width)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] =
+        midA[i] === midB[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1])
+    }
+  }
+
+  const ops: DiffOp[] = []
+  const push = (type: DiffOpType, value: string) => {
+    const last = ops[ops.length - 1]
+    if (last && last.type === type) {
+      last.value += value
+    } else {
+      ops.push({ type, value })
+    }
+  }
+
+  for (let k = 0; k < start; k++) push('equal', a[k])
+
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      push('equal', midA[i])
+      i++
+      j++
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      push('delete', midA[i])
+      i++
+    } else {
+      push('insert', midB[j])
+      j++
+    }
+  }
+  while (i < n) push('delete', midA[i++])
+  while (j < m) push('insert', midB[j++])
+
+  for (let k = endA; k < a.length; k++) push('equal', a[k])
+
+  return ops
+}
+
+/**
+ * Splits text into word and whitespace tokens so whitespace is preserved
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token.length > 0)
+}
+
+/**
+ * Word-level diff of two strings
+ */
+export function diffWords(a: string, b: string): DiffOp[] {
+  return diffTokens(tokenizeWords(a), tokenizeWords(b))
+}
+
+/**
+ * Splits text into lines, normalizing Windows line endings
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') return []
+  return text.replace(/\r\n/g, '\n').split('\n')
+}
+
+/**
+ * Line-level diff returning one op per line (values are single lines without newlines)
+ */
+export function diffLines(a: string, b: string): DiffOp[] {
+  const linesA = splitLines(a)
+  const linesB = splitLines(b)
+
+  // Diff on newline-terminated tokens, then split merged runs back into lines
+  const ops = diffTokens(
+    linesA.map((line) => `${line}\n`),
+    linesB.map((line) => `${line}\n`)
+  )
+
+  return ops.flatMap((op) =>
+    op.value
+      .slice(0, -1)
+      .split('\n')
+      .map((line) => ({ type: op.type, value: line }))
+  )
+}
+
+/**
+ * Builds aligned diff rows for side-by-side or inline rendering.
+ * Runs of deleted lines followed by inserted lines are paired up as
+ * modifications and annotated with word-level segments.
+ *
+ * @param a - Original text
+ * @param b - Updated text
+ * @returns Rows in display order
+ */
+export function buildDiffRows(a: string, b: string): DiffRow[] {
+  const ops = diffLines(a, b)
+  const rows: DiffRow[] = []
+  let leftNumber = 1
+  let rightNumber = 1
+  let index = 0
+
+  while (index < ops.length) {
+    const op = ops[index]
+
+    if (op.type === 'equal') {
+      rows.push({
+        type: 'equal',
+        left: { lineNumber: leftNumber++, text: op.value },
+        right: { lineNumber: rightNumber++, text: op.value },
+      })
+      index++
+      continue
+    }
+
+    // Collect a change block: deletions, then insertions
+    const deleted: string[] = []
+    const inserted: string[] = []
+    while (index < ops.length && ops[index].type === 'delete') {
+      deleted.push(ops[index++].value)
+    }
+    while (index < ops.length && ops[index].type === 'insert') {
+      inserted.push(ops[index++].value)
+    }
+
+    const paired = Math.min(deleted.length, inserted.length)
+    for (let k = 0; k < paired; k++) {
+      const segments = diffWords(deleted[k], inserted[k])
+      rows.push({
+        type: 'modify',
+        left: {
+          lineNumber: leftNumber++,
+          text: deleted[k],
+          segments: segments.filter((segment) => segment.type !== 'insert'),
+        },
+        right: {
+          lineNumber: rightNumber++,
+          text: inserted[k],
+          segments: segments.filter((segment) => segment.type !== 'delete'),
+        },
+      })
+    }
+    for (let k = paired; k < deleted.length; k++) {
+      rows.push({ type: 'delete', left: { lineNumber: leftNumber++, text: deleted[k] } })
+    }
+    for (let k = paired; k < inserted.length; k++) {
+      rows.push({ type: 'insert', right: { lineNumber: rightNumber++, text: inserted[k] } })
+    }
+  }
+
+  return rows
+}
+
+/**
+ * Compares two tag lists, ignoring order
+ */
+export function diffTags(a: string[], b: string[]): TagDiff {
+  const before = new Set(a)
+  const after = new Set(b)
+
+  return {
+    added: b.filter((tag) => !before.has(tag)),
+    removed: a.filter((tag) => !after.has(tag)),
+    unchanged: b.filter((tag) => before.has(tag)),
+  }
+}
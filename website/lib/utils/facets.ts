@@ -0,0 +1,131 @@
+/**
+ * Browse Facets
+ *
+ * Date buckets and search param handling for the facet sidebar on the
+ * browse page. Facets are plain search params so filtered views can be
+ * bookmarked and shared.
+ *
+ * Usage:
+ * ```typescript
+ * const filters = toPromptFilters(promptListQuerySchema.parse(query))
+ * const since = getDateBucketStart('month', new Date())
+ * const href = toggleFacetParam(searchParams, 'format', 'json')
+ * const link = getBrowseHref(filters)
+ * const cleared = clearFacetParams(searchParams)
+ * ```
+ */
+
+import type { PromptListFilters } from '@/lib/validations/prompt'
+import type { PromptFilters } from '@/types/prompt'
+
+export const DATE_BUCKETS = [
+  { value: 'week', label: 'Past week', days: 7 },
+  { value: 'month', label: 'Past month', days: 30 },
+  { value: 'year', label: 'Past year', days: 365 },
+] as const
+
+export type DateBucket = (typeof DATE_BUCKETS)[number]['value']
+
+/**
+ * Search params owned by facets (cleared together by "Clear all")
+ */
+export const FACET_PARAMS = ['category', 'tags', 'tagMode', 'format', 'author', 'created'] as const
+
+export type FacetParam = (typeof FACET_PARAMS)[number]
+
+export function isDateBucket(value: string | undefined): value is DateBucket {
+  return DATE_BUCKETS.some((bucket) => bucket.value === value)
+}
+
+/**
+ * Earliest creation date included in a date bucket
+ */
+export function getDateBucketStart(bucket: DateBucket, now: Date): Date {
+  const { days } = DATE_BUCKETS.find((b) => b.value === bucket)!
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Maps parsed browse filters onto the model's listing filters
+ */
+export function toPromptFilters(query: PromptListFilters, now = new Date()): PromptFilters {
+  return {
+    search: query.search || undefined,
+    semantic: query.mode === 'semantic' || undefined,
+    category: query.category,
+    tags: query.tags,
+    tagMode: query.tagMode,
+    outputFormat: query.outputFormat,
+    authorId: query.authorId,
+    createdAfter: query.created ? getDateBucketStart(query.created, now) : undefined,
+    sort: query.sort,
+  }
+}
+
+/**
+ * Browse page URL for parsed filters, starting from the first page
+ */
+export function getBrowseHref(filters: PromptListFilters): string {
+  const params = new URLSearchParams()
+  if (filters.search) params.set('q', filters.search)
+  if (filters.mode === 'semantic') params.set('mode', 'semantic')
+  if (filters.category) params.set('category', filters.category)
+  if (filters.tags?.length) params.set('tags', filters.tags.join(','))
+  if (filters.tagMode === 'all') params.set('tagMode', 'all')
+  if (filters.outputFormat) params.set('format', filters.outputFormat)
+  if (filters.authorId) params.set('author', filters.authorId)
+  if (filters.created) params.set('created', filters.created)
+  if (filters.sort) params.set('sort', filters.sort)
+  return `/?${params.toString()}`
+}
+
+/**
+ * Selects a facet value, or clears it if it is already selected.
+ * Tags are multi-select and toggle within the comma-separated list.
+ * Paging is reset because the result set changes.
+ *
+ * @param current - Current search params
+ * @param param - Facet to change
+ * @param value - Value that was clicked
+ * @returns Query string (without `?`) for the new view
+ */
+export function toggleFacetParam(
+  current: URLSearchParams,
+  param: FacetParam,
+  value: string
+): string {
+  const params = new URLSearchParams(current.toString())
+
+  if (param === 'tags') {
+    const tags = params.get('tags')?.split(',').filter(Boolean) || []
+    const next = tags.includes(value) ? tags.filter((tag) => tag !== value) : [...tags, value]
+
+    if (next.length > 0) {
+      params.set('tags', next.join(','))
+    } else {
+      params.delete('tags')
+      params.delete('tagMode')
+    }
+  } else if (params.get(param) === value) {
+    params.delete(param)
+  } else {
+    params.set(param, value)
+  }
+
+  params.delete('page')
+  params.delete('cursor')
+  return params.toString()
+}
+
+/**
+ * Removes every facet, keeping the search text and sort
+ */
+export function clearFacetParams(current: URLSearchParams): string {
+  const params = new URLSearchParams(current.toString())
+
+  for (const param of [...FACET_PARAMS, 'page', 'cursor']) {
+    params.delete(param)
+  }
+
+  return params.toString()
+}
@@ -0,0 +1,87 @@
+/**
+ * Prompt Lineage
+ *
+ * Turns the flat ancestor and descendant lists returned by `$graphLookup`
+ * into an ancestor chain and a fork tree, redacting prompts the viewer
+ * is not allowed to see.
+ *
+ * Usage:
+ * ```typescript
+ * const lineage = buildLineage(current, ancestors, descendants, (p) =>
+ *   canViewPrompt(p, user)
+ * )
+ * ```
+ */
+
+import type { LineagePrompt, PromptLineage, PromptLineageNode } from '@/types/prompt'
+
+/**
+ * Converts a prompt to a lineage node, hiding its details if it is not viewable
+ */
+export function toLineageNode(prompt: LineagePrompt, viewable: boolean): PromptLineageNode {
+  return {
+    id: prompt._id.toString(),
+    parentId: prompt.parentPromptId?.toString() || null,
+    redacted: !viewable,
+    title: viewable ? prompt.title : null,
+    authorName: viewable ? prompt.authorName : null,
+    starCount: viewable ? prompt.starCount : 0,
+    forkCount: prompt.forkCount,
+    createdAt: prompt.createdAt.toISOString(),
+    children: [],
+  }
+}
+
+/**
+ * Builds the lineage of a prompt.
+ *
+ * @param current - The prompt being viewed
+ * @param ancestors - All ancestors, in any order
+ * @param descendants - All descendants, in any order
+ * @param canView - Whether the viewer may see a prompt's details
+ * @returns Ancestors ordered root first, and the descendant tree
+ */
+export function buildLineage(
+  current: LineagePrompt,
+  ancestors: LineagePrompt[],
+  descendants: LineagePrompt[],
+  canView: (prompt: LineagePrompt) => boolean
+): PromptLineage {
+  // Walk up from the current prompt so the chain is ordered and gap-free
+  const ancestorsById = new Map(ancestors.map((prompt) => [prompt._id.toString(), prompt]))
+  const chain: PromptLineageNode[] = []
+  let parentId = current.parentPromptId?.toString()
+
+  while (parentId && ancestorsById.has(parentId)) {
+    const parent = ancestorsById.get(parentId)!
+    chain.unshift(toLineageNode(parent, canView(parent)))
+    ancestorsById.delete(parentId) // guards against cycles
+    parentId = parent.parentPromptId?.toString()
+  }
+
+  // Attach descendants to their parents, oldest forks first
+  const tree = toLineageNode(current, true)
+  const nodesById = new Map<string, PromptLineageNode>([[tree.id, tree]])
+  const sorted = [...descendants].sort(
+    (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+  )
+
+  for (const prompt of sorted) {
+    nodesById.set(prompt._id.toString(), toLineageNode(prompt, canView(prompt)))
+  }
+
+  for (const prompt of sorted) {
+    const node = nodesById.get(prompt._id.toString())!
+    const parent = node.parentId ? nodesById.get(node.parentId) : undefined
+    parent?.children.push(node)
+  }
+
+  return { ancestors: chain, tree }
+}
+
+/**
+ * Counts every node below the root of a lineage tree
+ */
+export function countDescendants(node: PromptLineageNode): number {
+  return node.children.reduce((total, child) => total + 1 + countDescendants(child), 0)
+}
@@ -0,0 +1,118 @@
+/**
+ * Three-Way Merge
+ *
+ * Line-based diff3 merge used to pull upstream changes into forks.
+ * Regions changed on only one side are taken from that side; regions
+ * changed differently on both sides become conflicts wrapped in
+ * git-style markers for the user to resolve by hand.
+ *
+ * Usage:
+ * ```typescript
+ * const { content, conflicts } = mergeThreeWay(base, fork.promptContent, parent.promptContent)
+ * if (hasConflictMarkers(edited)) {
+ *   // block saving until every conflict is resolved
+ * }
+ * ```
+ */
+
+import { diffLines, splitLines } from '@/lib/utils/diff'
+
+export const CONFLICT_START = '<<<<<<< yours'
+export const CONFLICT_SEPARATOR = '======='
+export const CONFLICT_END = '>>>>>>> upstream'
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+  content: string
+  /** Number of conflicting regions left in `content` */
+  conflicts: number
+}
+
+/**
+ * Maps each base line that survives unchanged to its index in the other text
+ */
+function matchLines(base: string, other: string): Map<number, number> {
+  const matches = new Map<number, number>()
+  let baseIndex = 0
+  let otherIndex = 0
+
+  for (const op of diffLines(base, other)) {
+    if (op.type === 'equal') {
+      matches.set(baseIndex++, otherIndex++)
+    } else if (op.type === 'delete') {
+      baseIndex++
+    } else {
+      otherIndex++
+    }
+  }
+
+  return matches
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index])
+}
+
+/**
+ * Merges two edited versions of a common base, line by line.
+ *
+ * @param base - Common ancestor text
+ * @param ours - Locally edited text (the fork)
+ * @param theirs - Upstream text (the parent)
+ * @returns Merged text and the number of conflicts it contains
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeResult {
+  const baseLines = splitLines(base)
+  const ourLines = splitLines(ours)
+  const theirLines = splitLines(theirs)
+  const ourMatches = matchLines(base, ours)
+  const theirMatches = matchLines(base, theirs)
+
+  const merged: string[] = []
+  let conflicts = 0
+  let baseStart = 0
+  let ourStart = 0
+  let theirStart = 0
+
+  // Resolve the unstable region between two lines that all three texts share
+  const mergeRegion = (baseEnd: number, ourEnd: number, theirEnd: number) => {
+    const baseChunk = baseLines.slice(baseStart, baseEnd)
+    const ourChunk = ourLines.slice(ourStart, ourEnd)
+    const theirChunk = theirLines.slice(theirStart, theirEnd)
+
+    if (sameLines(ourChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      merged.push(...theirChunk)
+    } else if (sameLines(theirChunk, baseChunk)) {
+      merged.push(...ourChunk)
+    } else {
+      conflicts++
+      merged.push(CONFLICT_START, ...ourChunk, CONFLICT_SEPARATOR, ...theirChunk, CONFLICT_END)
+    }
+  }
+
+  for (let index = 0; index < baseLines.length; index++) {
+    const ourIndex = ourMatches.get(index)
+    const theirIndex = theirMatches.get(index)
+    if (ourIndex === undefined || theirIndex === undefined) continue
+
+    mergeRegion(index, ourIndex, theirIndex)
+    merged.push(baseLines[index])
+
+    baseStart = index + 1
+    ourStart = ourIndex + 1
+    theirStart = theirIndex + 1
+  }
+
+  mergeRegion(baseLines.length, ourLines.length, theirLines.length)
+
+  return { content: merged.join('\n'), conflicts }
+}
+
+/**
+ * Whether text still contains unresolved conflict markers from `mergeThreeWay`
+ */
+export function hasConflictMarkers(text: string): boolean {
+  return splitLines(text).some((line) => line === CONFLICT_START || line === CONFLICT_END)
+}
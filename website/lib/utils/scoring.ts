@@ -0,0 +1,122 @@
+/**
+ * Leaderboard Scoring
+ *
+ * The leaderboard score is a weighted sum of stars, forks and views. Admins
+ * can change the weights, log-scale views (so thousands of views do not
+ * drown out stars), require minimum counts before a prompt is ranked, and
+ * normalize scores per category (100 = the category average) so small
+ * categories are not crowded out by large ones.
+ *
+ * The same config builds the database expression that ranks prompts and
+ * the explanation shown on the leaderboard, so the two cannot disagree.
+ *
+ * Usage:
+ * ```typescript
+ * const { formula, notes } = describeScoringFormula(config)
+ * const score = computeScore(config, { stars: 3, forks: 1, views: 120 })
+ * const expression = getScoreExpression(config, { stars: '$starCount', forks: '$forkCount', views: '$viewCount' })
+ * ```
+ */
+
+import type { ScoringConfig } from '@/lib/validations/leaderboard'
+import type { EngagementCounts } from '@/types/prompt'
+
+/** The original fixed formula: (stars × 10) + (forks × 5) + (views × 0.1) */
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: { stars: 10, forks: 5, views: 0.1 },
+  viewScaling: 'linear',
+  minimums: { stars: 0, forks: 0, views: 0 },
+  normalizeByCategory: false,
+}
+
+/** Score of a prompt that is exactly average for its category, when normalizing */
+export const CATEGORY_AVERAGE_SCORE = 100
+
+/** Aggregation expressions for each count */
+export type CountExpressions = Record<keyof EngagementCounts, unknown>
+
+const COUNTERS: (keyof EngagementCounts)[] = ['stars', 'forks', 'views']
+
+const LABELS: Record<keyof EngagementCounts, string> = {
+  stars: 'Stars',
+  forks: 'Forks',
+  views: 'Views',
+}
+
+/**
+ * Score for a set of counts, before category normalization
+ */
+export function computeScore(config: ScoringConfig, counts: EngagementCounts): number {
+  const views =
+    config.viewScaling === 'log' ? Math.log(1 + Math.max(counts.views, 0)) : counts.views
+
+  return (
+    counts.stars * config.weights.stars +
+    counts.forks * config.weights.forks +
+    views * config.weights.views
+  )
+}
+
+/**
+ * Aggregation expression computing `computeScore` from count expressions
+ */
+export function getScoreExpression(config: ScoringConfig, counts: CountExpressions): Record<string, unknown> {
+  const views =
+    config.viewScaling === 'log' ? { $ln: { $add: [1, { $max: [counts.views, 0] }] } } : counts.views
+
+  return {
+    $add: [
+      { $multiply: [counts.stars, config.weights.stars] },
+      { $multiply: [counts.forks, config.weights.forks] },
+      { $multiply: [views, config.weights.views] },
+    ],
+  }
+}
+
+/**
+ * Aggregation conditions for the configured minimums, empty when there are none
+ */
+export function getMinimumConditions(config: ScoringConfig, counts: CountExpressions): Record<string, unknown>[] {
+  return COUNTERS.filter((counter) => config.minimums[counter] > 0).map((counter) => ({
+    $gte: [counts[counter], config.minimums[counter]],
+  }))
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(3)))
+}
+
+function joinList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0]
+}
+
+/**
+ * Human-readable explanation of a scoring config
+ *
+ * @returns The formula (zero-weight terms left out) and notes on minimums and normalization
+ */
+export function describeScoringFormula(config: ScoringConfig): { formula: string; notes: string[] } {
+  const terms = COUNTERS.filter((counter) => config.weights[counter] > 0).map((counter) => {
+    const value =
+      counter === 'views' && config.viewScaling === 'log' ? `ln(1 + ${LABELS[counter]})` : LABELS[counter]
+    return `(${value} × ${formatNumber(config.weights[counter])})`
+  })
+
+  const notes: string[] = []
+
+  const minimums = COUNTERS.filter((counter) => config.minimums[counter] > 0).map((counter) => {
+    const count = config.minimums[counter]
+    const noun = LABELS[counter].toLowerCase()
+    return `${count} ${count === 1 ? noun.slice(0, -1) : noun}`
+  })
+  if (minimums.length > 0) {
+    notes.push(`Prompts need at least ${joinList(minimums)} to be ranked.`)
+  }
+  if (config.normalizeByCategory) {
+    notes.push(
+      `Scores are relative to each category: ${CATEGORY_AVERAGE_SCORE} is the average of ranked prompts in the same category.`
+    )
+  }
+
+  return { formula: `Score = ${terms.join(' + ')}`, notes }
+}
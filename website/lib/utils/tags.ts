@@ -0,0 +1,74 @@
+/**
+ * Tag Normalization
+ *
+ * Tags are stored in a canonical form so `React`, ` react ` and `reactjs`
+ * all land on the same tag: lowercase, whitespace collapsed to hyphens,
+ * a leading `#` dropped and common synonyms mapped to one spelling.
+ *
+ * Usage:
+ * ```typescript
+ * const tags = normalizeTags(['React JS', '#LLM', 'react']) // ['react', 'llm']
+ * const filter = parseTagsParam(searchParams.tags) // '?tags=a,b' -> ['a', 'b']
+ * ```
+ */
+
+/**
+ * Alternative spellings mapped to their canonical tag (keys are already normalized)
+ */
+export const TAG_SYNONYMS: Record<string, string> = {
+  'artificial-intelligence': 'ai',
+  'chat-gpt': 'chatgpt',
+  'gpt': 'chatgpt',
+  'golang': 'go',
+  'js': 'javascript',
+  'llms': 'llm',
+  'large-language-model': 'llm',
+  'ml': 'machine-learning',
+  'nodejs': 'node',
+  'node-js': 'node',
+  'py': 'python',
+  'react-js': 'react',
+  'reactjs': 'react',
+  'ts': 'typescript',
+}
+
+/**
+ * Canonical form of a single tag, or an empty string if nothing is left
+ */
+export function normalizeTag(tag: string): string {
+  const normalized = tag
+    .trim()
+    .toLowerCase()
+    .replace(/^#+/, '')
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+
+  return TAG_SYNONYMS[normalized] ?? normalized
+}
+
+/**
+ * Normalizes a list of tags, dropping empty and duplicate entries
+ *
+ * @param tags - Tags as entered
+ * @returns Canonical tags in order of first appearance
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized: string[] = []
+
+  for (const tag of tags) {
+    const canonical = normalizeTag(tag)
+    if (canonical && !normalized.includes(canonical)) {
+      normalized.push(canonical)
+    }
+  }
+
+  return normalized
+}
+
+/**
+ * Reads the comma-separated `tags` search param
+ */
+export function parseTagsParam(value: string | undefined): string[] {
+  return value ? normalizeTags(value.split(',')) : []
+}
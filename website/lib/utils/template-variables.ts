@@ -0,0 +1,105 @@
+/**
+ * Prompt Template Variables
+ *
+ * Parses `{{VARIABLE}}` placeholders out of prompt content and renders
+ * prompts with user-supplied values before they are copied.
+ *
+ * Usage:
+ * ```typescript
+ * const names = extractPlaceholders(prompt.promptContent)
+ * const missing = getMissingRequired(variables, values)
+ * const text = renderTemplate(prompt.promptContent, values)
+ * ```
+ */
+
+import type { PromptVariable } from '@/types/prompt'
+
+/**
+ * Matches `{{NAME}}` with optional inner whitespace. Names follow identifier rules.
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+/**
+ * Valid variable name (same rules as placeholders)
+ */
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Returns the unique placeholder names in order of first appearance.
+ *
+ * @param content - Prompt content
+ * @returns Placeholder names without braces
+ */
+export function extractPlaceholders(content: string): string[] {
+  const names: string[] = []
+
+  for (const match of content.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1])
+    }
+  }
+
+  return names
+}
+
+/**
+ * Creates a default declaration for a placeholder
+ */
+export function createVariable(name: string): PromptVariable {
+  return {
+    name,
+    description: '',
+    defaultValue: '',
+    required: true,
+    type: 'text',
+    options: [],
+  }
+}
+
+/**
+ * Aligns declared variables with the placeholders in the content.
+ * Existing declarations are kept, new placeholders get defaults and
+ * declarations whose placeholder was removed are dropped.
+ *
+ * @param content - Prompt content
+ * @param declared - Currently declared variables
+ * @returns Declarations in placeholder order
+ */
+export function syncVariables(content: string, declared: PromptVariable[] = []): PromptVariable[] {
+  return extractPlaceholders(content).map(
+    (name) => declared.find((variable) => variable.name === name) || createVariable(name)
+  )
+}
+
+/**
+ * Initial fill-in values, taken from each variable's default
+ */
+export function getInitialValues(variables: PromptVariable[]): Record<string, string> {
+  return Object.fromEntries(variables.map((variable) => [variable.name, variable.defaultValue]))
+}
+
+/**
+ * Names of required variables that have no value yet
+ */
+export function getMissingRequired(
+  variables: PromptVariable[],
+  values: Record<string, string>
+): string[] {
+  return variables
+    .filter((variable) => variable.required && !values[variable.name]?.trim())
+    .map((variable) => variable.name)
+}
+
+/**
+ * Replaces placeholders with their values. Placeholders without a value are left as-is.
+ *
+ * @param content - Prompt content
+ * @param values - Values keyed by variable name
+ * @returns Rendered prompt text
+ */
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = values[name]
+    return value ? value : placeholder
+  })
+}
@@ -0,0 +1,47 @@
+/**
+ * Trash Retention
+ *
+ * Deleted prompts stay in the trash for a configurable number of days
+ * (TRASH_RETENTION_DAYS, default 30) before they are purged for good.
+ *
+ * Usage:
+ * ```typescript
+ * const retentionDays = getTrashRetentionDays()
+ * const purgeAt = getPurgeDate(prompt.deletedAt, retentionDays)
+ * await purgeDeletedPrompts(getPurgeCutoff(new Date(), retentionDays))
+ * ```
+ */
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Reads the retention period from TRASH_RETENTION_DAYS.
+ * Missing, non-numeric or negative values fall back to the default.
+ */
+export function getTrashRetentionDays(
+  value: string | undefined = process.env.TRASH_RETENTION_DAYS
+): number {
+  const days = Number(value)
+
+  if (!value?.trim() || !Number.isFinite(days) || days < 0) {
+    return DEFAULT_TRASH_RETENTION_DAYS
+  }
+
+  return Math.floor(days)
+}
+
+/**
+ * When a prompt deleted at `deletedAt` becomes eligible for purging
+ */
+export function getPurgeDate(deletedAt: Date, retentionDays: number): Date {
+  return new Date(deletedAt.getTime() + retentionDays * DAY_MS)
+}
+
+/**
+ * Prompts deleted before the returned date are due for purging
+ */
+export function getPurgeCutoff(now: Date, retentionDays: number): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS)
+}
@@ -0,0 +1,75 @@
+/**
+ * Trending Scores
+ *
+ * Engagement is recorded as dated events (views, stars, unstars, forks) in
+ * `prompt_events`. A scheduled job (`npm run trending:refresh`) turns recent
+ * events into engagement counts stored on each prompt, so browsing and the
+ * leaderboard sort on precomputed fields instead of aggregating events per
+ * request:
+ *
+ * - `engagement.trending` - events from the last TRENDING_WINDOW_DAYS, each
+ *   halved every TRENDING_HALF_LIFE_HOURS, so a burst of activity today
+ *   outranks the same activity last week
+ * - `engagement.week` / `engagement.month` - undecayed counts over the last
+ *   7 and 30 days, so old prompts that are popular now still rank for the
+ *   period
+ * - `trendingScore` - the leaderboard formula applied to the trending
+ *   counts, for the Trending browse sort
+ *
+ * Usage:
+ * ```typescript
+ * const { counter, delta } = EVENT_COUNTERS[event.type]
+ * trending[counter] += delta * getDecayFactor(now.getTime() - event.createdAt.getTime())
+ * const since = getPeriodStart('week', now)
+ * ```
+ */
+
+import type { EngagementCounts, EngagementPeriod, PromptEventType } from '@/types/prompt'
+
+/** Counter each event type changes (an unstar takes a star back) */
+export const EVENT_COUNTERS: Record<PromptEventType, { counter: keyof EngagementCounts; delta: number }> = {
+  star: { counter: 'stars', delta: 1 },
+  unstar: { counter: 'stars', delta: -1 },
+  fork: { counter: 'forks', delta: 1 },
+  view: { counter: 'views', delta: 1 },
+}
+
+export const TRENDING_WINDOW_DAYS = 14
+
+export const TRENDING_HALF_LIFE_HOURS = 72
+
+/** Days covered by each engagement period */
+export const ENGAGEMENT_PERIODS: Record<EngagementPeriod, number> = { week: 7, month: 30 }
+
+/** Events are only needed for the longest period, plus a day of slack for the job schedule */
+export const EVENT_RETENTION_DAYS = ENGAGEMENT_PERIODS.month + 1
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+/**
+ * How much one event still counts towards trending
+ *
+ * @param ageMs - Time since the event (events dated in the future count as new)
+ * @returns 1 for a new event, halving every half-life, 0 once outside the window
+ */
+export function getDecayFactor(ageMs: number): number {
+  const age = Math.max(ageMs, 0)
+  if (age > TRENDING_WINDOW_DAYS * DAY_MS) return 0
+
+  return Math.pow(0.5, age / (TRENDING_HALF_LIFE_HOURS * HOUR_MS))
+}
+
+/**
+ * Earliest event date counted by the trending score
+ */
+export function getTrendingWindowStart(now: Date): Date {
+  return new Date(now.getTime() - TRENDING_WINDOW_DAYS * DAY_MS)
+}
+
+/**
+ * Earliest event date counted for an engagement period
+ */
+export function getPeriodStart(period: EngagementPeriod, now: Date): Date {
+  return new Date(now.getTime() - ENGAGEMENT_PERIODS[period] * DAY_MS)
+}
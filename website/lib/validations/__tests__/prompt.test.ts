@@ -0,0 +1,103 @@
+/**
+ * Prompt Validation Tests
+ *
+ * Tests for the prompt schema, focused on template variable declarations
+ * matching the placeholders in the prompt content, and for the lenient
+ * schema used to autosave drafts. Also covers tag normalization.
+ */
+
+import { promptSchema, promptDraftSchema } from '../prompt';
+import { createVariable } from '@/lib/utils/template-variables';
+
+const basePrompt = {
+  title: 'Research helper',
+  description: 'Researches a topic in depth',
+  promptContent: 'Give me a deep dive on {{TOPIC}} for my team.',
+  category: 'Research',
+  tags: ['research'],
+  outputFormat: 'markdown',
+  isPublic: true,
+};
+
+describe('promptSchema variables', () => {
+  it('should accept declarations that match the placeholders', () => {
+    const result = promptSchema.safeParse({ ...basePrompt, variables: [createVariable('TOPIC')] });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject placeholders without a declaration', () => {
+    const result = promptSchema.safeParse({ ...basePrompt, variables: [] });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toContain('{{TOPIC}}');
+  });
+
+  it('should reject declarations that are not used', () => {
+    const result = promptSchema.safeParse({
+      ...basePrompt,
+      variables: [createVariable('TOPIC'), createVariable('TONE')],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toContain('TONE');
+  });
+
+  it('should require options for enum variables', () => {
+    const result = promptSchema.safeParse({
+      ...basePrompt,
+      variables: [{ ...createVariable('TOPIC'), type: 'enum' }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['variables', 0, 'options']);
+  });
+
+  it('should require enum defaults to be one of the options', () => {
+    const result = promptSchema.safeParse({
+      ...basePrompt,
+      variables: [{ ...createVariable('TOPIC'), type: 'enum', options: ['AI'], defaultValue: 'ML' }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['variables', 0, 'defaultValue']);
+  });
+});
+
+describe('promptSchema tags', () => {
+  it('should normalize tags on write', () => {
+    const result = promptSchema.safeParse({
+      ...basePrompt,
+      tags: ['Deep Research', 'ReactJS', 'react'],
+      variables: [createVariable('TOPIC')],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.tags).toEqual(['deep-research', 'react']);
+  });
+});
+
+describe('promptDraftSchema', () => {
+  it('should accept incomplete drafts', () => {
+    const result = promptDraftSchema.safeParse({
+      title: 'Re',
+      category: 'Research',
+      outputFormat: 'markdown',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ description: '', promptContent: '', tags: [], variables: [] });
+  });
+
+  it('should allow placeholders that are not declared yet', () => {
+    const result = promptDraftSchema.safeParse({ ...basePrompt, variables: [] });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should still enforce upper limits', () => {
+    const result = promptDraftSchema.safeParse({ ...basePrompt, title: 'x'.repeat(101) });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { z } from 'zod'
+
+const effect = z.enum(['allow', 'deny'], {
+  errorMap: () => ({ message: 'Please select allow or deny' }),
+})
+
+// Saved rules can hold null for conditions that are not set
+const condition = (schema: z.ZodType<string>) =>
+  schema
+    .nullish()
+    .transform((value) => value || undefined)
+
+export const accessRuleSchema = z
+  .object({
+    effect,
+    email: condition(
+      z
+        .string()
+        .trim()
+        .toLowerCase()
+        .refine((value) => !value || z.string().email().safeParse(value).success, {
+          message: 'Enter a valid email address',
+        })
+    ),
+    domain: condition(
+      z
+        .string()
+        .trim()
+        .toLowerCase()
+        .regex(/^$|^(\*\.)?([a-z0-9-]+\.)+[a-z]{2,}$/, 'Enter a domain like example.com or *.example.com')
+    ),
+    orgId: condition(z.string().trim().max(200, 'Organization ID must be less than 200 characters')),
+    expiresAt: z.date({ invalid_type_error: 'Enter a valid date' }).nullable().default(null),
+    note: condition(z.string().trim().max(200, 'Note must be less than 200 characters')),
+  })
+  .refine((rule) => rule.email || rule.domain || rule.orgId, {
+    message: 'Set an email, domain or organization ID',
+    path: ['email'],
+  })
+
+export const accessPolicySchema = z.object({
+  rules: z.array(accessRuleSchema).max(200, 'Maximum 200 rules allowed'),
+  defaultEffect: effect,
+})
+
+export type AccessRule = z.output<typeof accessRuleSchema>
+export type AccessPolicy = z.output<typeof accessPolicySchema>
+export type AccessPolicyInput = z.input<typeof accessPolicySchema>
@@ -0,0 +1,52 @@
+import { z } from 'zod'
+import type { AuthAction } from '@/lib/auth/audit-logger'
+
+export const AUTH_ACTIONS = [
+  'sign_in_success',
+  'sign_in_failed',
+  'sign_out',
+  'access_denied',
+  'token_refresh_success',
+  'token_refresh_failed',
+  'session_expired',
+  'user_created',
+  'role_changed',
+] as const satisfies readonly AuthAction[]
+
+const optionalText = z
+  .string()
+  .trim()
+  .max(200)
+  .transform((value) => value || undefined)
+  .optional()
+  .catch(undefined)
+
+// A calendar day (YYYY-MM-DD) in UTC
+const optionalDay = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine((value) => !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime()))
+  .optional()
+  .catch(undefined)
+
+/**
+ * Audit log filters from URL search params. Invalid values are dropped
+ * rather than rejected, like the browse filters.
+ */
+export const auditLogFiltersSchema = z.object({
+  action: z.enum(AUTH_ACTIONS).optional().catch(undefined),
+  email: optionalText.transform((value) => value?.toLowerCase()),
+  orgId: optionalText,
+  ipAddress: optionalText,
+  from: optionalDay,
+  to: optionalDay,
+})
+
+export const auditLogQuerySchema = auditLogFiltersSchema.extend({
+  cursor: z.string().max(200).optional().catch(undefined),
+})
+
+export const auditExportFormatSchema = z.enum(['csv', 'jsonl']).catch('csv')
+
+export type AuditLogQuery = z.output<typeof auditLogQuerySchema>
+export type AuditExportFormat = z.output<typeof auditExportFormatSchema>
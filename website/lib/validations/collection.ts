@@ -0,0 +1,23 @@
+import { z } from 'zod'
+
+export const collectionSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(3, 'Name must be at least 3 characters')
+    .max(80, 'Name must be less than 80 characters'),
+  description: z
+    .string()
+    .trim()
+    .max(500, 'Description must be less than 500 characters')
+    .default(''),
+  visibility: z.enum(['private', 'org', 'public'], {
+    errorMap: () => ({ message: 'Please select a visibility' }),
+  }),
+})
+
+export const collaboratorSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+})
+
+export type CollectionFormData = z.infer<typeof collectionSchema>
@@ -0,0 +1,29 @@
+import { z } from 'zod'
+
+const weight = z
+  .number({ invalid_type_error: 'Enter a number' })
+  .min(0, 'Weights cannot be negative')
+  .max(1000, 'Weights must be at most 1000')
+
+const minimum = z
+  .number({ invalid_type_error: 'Enter a number' })
+  .int('Minimums must be whole numbers')
+  .min(0, 'Minimums cannot be negative')
+
+export const scoringConfigSchema = z.object({
+  weights: z
+    .object({ stars: weight, forks: weight, views: weight })
+    .refine((weights) => Object.values(weights).some((value) => value > 0), {
+      message: 'At least one weight must be above zero',
+    }),
+  viewScaling: z.enum(['linear', 'log'], {
+    errorMap: () => ({ message: 'Please select how views are scaled' }),
+  }),
+  minimums: z.object({ stars: minimum, forks: minimum, views: minimum }),
+  normalizeByCategory: z.boolean(),
+})
+
+export const leaderboardPeriodSchema = z.enum(['all', 'month', 'week', 'trending'])
+
+export type ScoringConfig = z.infer<typeof scoringConfigSchema>
+export type LeaderboardPeriod = z.infer<typeof leaderboardPeriodSchema>
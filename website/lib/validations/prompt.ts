@@ -1,7 +1,40 @@
 import { z } from 'zod'
-import { CATEGORIES } from '@/lib/constants'
+import { CATEGORIES, SORT_OPTIONS } from '@/lib/constants'
+import { extractPlaceholders, VARIABLE_NAME_PATTERN } from '@/lib/utils/template-variables'
+import { normalizeTags } from '@/lib/utils/tags'
 
-export const promptSchema = z.object({
+export const promptVariableSchema = z
+  .object({
+    name: z.string().regex(VARIABLE_NAME_PATTERN, 'Variable names may only use letters, numbers and _'),
+    description: z.string().max(200, 'Description must be less than 200 characters').default(''),
+    defaultValue: z.string().max(1000, 'Default value must be less than 1,000 characters').default(''),
+    required: z.boolean().default(true),
+    type: z.enum(['text', 'multiline', 'enum']).default('text'),
+    options: z.array(z.string().min(1).max(100)).max(20, 'Maximum 20 options allowed').default([]),
+  })
+  .superRefine((variable, ctx) => {
+    if (variable.type === 'enum' && variable.options.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['options'],
+        message: `Add at least one option for {{${variable.name}}}`,
+      })
+    }
+
+    if (
+      variable.type === 'enum' &&
+      variable.defaultValue &&
+      !variable.options.includes(variable.defaultValue)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['defaultValue'],
+        message: `Default for {{${variable.name}}} must be one of its options`,
+      })
+    }
+  })
+
+export const promptFieldsSchema = z.object({
   title: z
     .string()
     .min(3, 'Title must be at least 3 characters')
@@ -20,11 +53,107 @@ export const promptSchema = z.object({
   tags: z
     .array(z.string().min(2).max(30))
     .min(1, 'Add at least one tag')
-    .max(10, 'Maximum 10 tags allowed'),
+    .max(10, 'Maximum 10 tags allowed')
+    .transform(normalizeTags),
   outputFormat: z.enum(['markdown', 'json'], {
     errorMap: () => ({ message: 'Please select an output format' }),
   }),
+  variables: z.array(promptVariableSchema).max(20, 'Maximum 20 variables allowed').default([]),
   isPublic: z.boolean().default(true),
 })
 
+/**
+ * Declared variables must match the `{{VARIABLE}}` placeholders in the content exactly
+ */
+export const promptSchema = promptFieldsSchema.superRefine((data, ctx) => {
+  const placeholders = extractPlaceholders(data.promptContent)
+  const declared = data.variables.map((variable) => variable.name)
+
+  const duplicates = declared.filter((name, index) => declared.indexOf(name) !== index)
+  if (duplicates.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['variables'],
+      message: `Variables declared more than once: ${[...new Set(duplicates)].join(', ')}`,
+    })
+  }
+
+  const undeclared = placeholders.filter((name) => !declared.includes(name))
+  if (undeclared.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['variables'],
+      message: `Placeholders missing a declaration: ${undeclared.map((name) => `{{${name}}}`).join(', ')}`,
+    })
+  }
+
+  const unused = declared.filter((name) => !placeholders.includes(name))
+  if (unused.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['variables'],
+      message: `Variables not used in the prompt: ${unused.join(', ')}`,
+    })
+  }
+})
+
 export type PromptFormData = z.infer<typeof promptSchema>
+
+/**
+ * Drafts are autosaved while incomplete, so only upper limits are enforced
+ */
+export const promptDraftSchema = z.object({
+  title: z.string().max(100, 'Title must be less than 100 characters').default(''),
+  description: z.string().max(500, 'Description must be less than 500 characters').default(''),
+  promptContent: z
+    .string()
+    .max(10000, 'Prompt content must be less than 10,000 characters')
+    .default(''),
+  category: promptFieldsSchema.shape.category,
+  tags: z
+    .array(z.string().max(30))
+    .max(10, 'Maximum 10 tags allowed')
+    .default([])
+    .transform(normalizeTags),
+  outputFormat: promptFieldsSchema.shape.outputFormat,
+  variables: z
+    .array(promptVariableSchema.innerType())
+    .max(20, 'Maximum 20 variables allowed')
+    .default([]),
+  isPublic: z.boolean().default(true),
+})
+
+export const promptStatusSchema = z.object({
+  status: z.enum(['published', 'archived', 'deprecated'], {
+    errorMap: () => ({ message: 'Please select a valid status' }),
+  }),
+  replacementPromptId: z
+    .string()
+    .regex(/^[a-f0-9]{24}$/i, 'Replacement must be a prompt ID')
+    .nullable()
+    .default(null),
+})
+
+export type PromptDraftData = z.infer<typeof promptDraftSchema>
+
+/**
+ * Browse filters from the URL or sent back by the client when loading more prompts.
+ * Unknown values are dropped rather than rejected so stale or hand-edited URLs still browse.
+ */
+export const promptListQuerySchema = z.object({
+  search: z.string().trim().max(200).optional().catch(undefined),
+  mode: z.enum(['keyword', 'semantic']).default('keyword').catch('keyword'),
+  category: z.enum(CATEGORIES).optional().catch(undefined),
+  tags: z.array(z.string().max(30)).max(10).default([]).transform(normalizeTags).catch([]),
+  tagMode: z.enum(['any', 'all']).default('any').catch('any'),
+  outputFormat: z.enum(['markdown', 'json']).optional().catch(undefined),
+  authorId: z.string().regex(/^[a-f0-9]{24}$/i).optional().catch(undefined),
+  created: z.enum(['week', 'month', 'year']).optional().catch(undefined),
+  sort: z
+    .enum(SORT_OPTIONS.map((option) => option.value) as ['newest', 'popular', 'views', 'trending'])
+    .default('newest')
+    .catch('newest'),
+})
+
+export type PromptListQuery = z.input<typeof promptListQuerySchema>
+export type PromptListFilters = z.output<typeof promptListQuerySchema>
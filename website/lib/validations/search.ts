@@ -0,0 +1,15 @@
+import { z } from 'zod'
+import { promptListQuerySchema } from './prompt'
+
+export const savedSearchSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(60, 'Name must be less than 60 characters'),
+  filters: promptListQuerySchema,
+})
+
+export const recentSearchSchema = z.string().trim().min(1).max(200)
+
+export type SavedSearchFormData = z.input<typeof savedSearchSchema>
@@ -0,0 +1,44 @@
+import { z } from 'zod'
+
+/** How long an admin can block an IP address or email for */
+export const BLOCK_DURATIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 24 * 7, label: '7 days' },
+  { hours: 24 * 30, label: '30 days' },
+] as const
+
+export const accessBlockSchema = z
+  .object({
+    kind: z.enum(['ip', 'email'], {
+      errorMap: () => ({ message: 'Please select what to block' }),
+    }),
+    value: z.string().trim().min(1, 'Enter an IP address or email').max(200),
+    durationHours: z
+      .number({ invalid_type_error: 'Please select a duration' })
+      .int()
+      .min(1, 'Please select a duration')
+      .max(24 * 30, 'Blocks can last at most 30 days'),
+    reason: z
+      .string()
+      .trim()
+      .min(3, 'Reason must be at least 3 characters')
+      .max(200, 'Reason must be less than 200 characters'),
+    alertId: z.string().regex(/^[a-f0-9]{24}$/i).optional(),
+  })
+  .superRefine((block, ctx) => {
+    if (block.kind === 'email' && !z.string().email().safeParse(block.value).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Enter a valid email address' })
+    }
+    if (block.kind === 'ip' && !/^[0-9a-f.:]+$/i.test(block.value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Enter a valid IP address' })
+    }
+  })
+  .transform((block) => ({
+    ...block,
+    value: block.kind === 'email' ? block.value.toLowerCase() : block.value,
+  }))
+
+export const securityAlertStatusSchema = z.enum(['open', 'resolved']).catch('open')
+
+export type AccessBlockInput = z.input<typeof accessBlockSchema>
@@ -0,0 +1,27 @@
+import { z } from 'zod'
+import { ROLES } from '@/lib/auth/permissions'
+
+export const userRoleChangeSchema = z.object({
+  userId: z.string().regex(/^[a-f0-9]{24}$/i, 'Invalid user'),
+  role: z.enum(ROLES, {
+    errorMap: () => ({ message: 'Please select a valid role' }),
+  }),
+})
+
+/**
+ * Admin users page filters from URL search params. Invalid values are
+ * dropped rather than rejected, like the browse filters.
+ */
+export const userListFiltersSchema = z.object({
+  search: z
+    .string()
+    .trim()
+    .max(200)
+    .transform((value) => value || undefined)
+    .optional()
+    .catch(undefined),
+  role: z.enum(ROLES).optional().catch(undefined),
+})
+
+export type UserRoleChange = z.infer<typeof userRoleChangeSchema>
+export type UserListFilters = z.output<typeof userListFiltersSchema>
@@ -2,9 +2,12 @@
  * Next.js 16 Proxy for Global Route Protection
  *
  * This proxy:
- * - Protects all routes except public paths (/login, /api/auth/*)
+ * - Protects all routes except public paths (/login, /api/auth/*, /collections/*)
  * - Redirects unauthenticated users to /login with preserved callbackUrl
  * - Handles session expiration (RefreshTokenError) gracefully
+ * - Keeps users out of routes their role has no permission for (see
+ *   ROUTE_PERMISSIONS in lib/auth/permissions.ts): API routes get a 403,
+ *   pages redirect home
  * - Excludes static assets and Next.js internals via matcher config
  *
  * Usage:
@@ -14,6 +17,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from './auth';
+import { getRoutePermission, hasPermission } from './lib/auth/permissions';
 
 /**
  * Public paths that don't require authentication
@@ -36,6 +40,11 @@ function isPublicPath(pathname: string): boolean {
     return true;
   }
 
+  // Collection pages enforce their own visibility (public ones are shareable)
+  if (pathname.startsWith('/collections/')) {
+    return true;
+  }
+
   return false;
 }
 
@@ -74,6 +83,18 @@ export default async function proxy(request: NextRequest) {
     return NextResponse.redirect(loginUrl);
   }
 
+  // Check the user's role grants the route's permission
+  const permission = getRoutePermission(pathname);
+  if (permission && !hasPermission(session.user, permission)) {
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to do that' },
+        { status: 403 }
+      );
+    }
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
   // Allow authenticated users to proceed
   return NextResponse.next();
 }
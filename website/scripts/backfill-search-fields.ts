@@ -0,0 +1,26 @@
+import { getDb, closeDb } from '../lib/db/mongodb'
+import { backfillSearchFields } from '../lib/db/models/prompt'
+import { getEmbeddingProvider } from '../lib/search/embeddings'
+
+// Run after upgrading, or after changing EMBEDDING_PROVIDER
+async function backfill() {
+  const provider = getEmbeddingProvider()
+
+  console.log(`🧮 Computing prompt search fields (embeddings: ${provider.id})...`)
+
+  try {
+    await getDb()
+
+    const updated = await backfillSearchFields()
+
+    console.log('✅ Backfill completed successfully!')
+    console.log(`   Updated ${updated} prompts`)
+  } catch (error) {
+    console.error('❌ Backfill failed:', error)
+    process.exit(1)
+  } finally {
+    await closeDb()
+  }
+}
+
+backfill()
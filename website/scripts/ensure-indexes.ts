@@ -0,0 +1,51 @@
+import { ensureIndexes, getIndexDrift, closeDb } from '../lib/db/mongodb'
+import { hasDrift } from '../lib/db/indexes'
+
+// Usage: npm run db:indexes          create missing indexes, then report drift
+//        npm run db:indexes -- --check  only report drift (exits 1 if any)
+async function main() {
+  const checkOnly = process.argv.includes('--check')
+
+  try {
+    if (!checkOnly) {
+      console.log('🔧 Ensuring indexes...')
+      try {
+        await ensureIndexes()
+      } catch (error) {
+        // Usually an index whose definition changed; the drift report below names it
+        console.error('⚠️  Some indexes could not be created:', error instanceof Error ? error.message : error)
+      }
+    }
+
+    console.log('🔍 Comparing declared and actual indexes...')
+    const drift = await getIndexDrift()
+    let driftFound = false
+
+    for (const [collection, report] of Object.entries(drift)) {
+      if (!hasDrift(report)) {
+        console.log(`   ✅ ${collection}`)
+        continue
+      }
+
+      driftFound = true
+      console.log(`   ❌ ${collection}`)
+      for (const name of report.missing) console.log(`      missing:    ${name}`)
+      for (const { name, reason } of report.changed) console.log(`      changed:    ${name} (${reason})`)
+      for (const name of report.unexpected) console.log(`      unexpected: ${name}`)
+    }
+
+    if (driftFound) {
+      console.log('⚠️  Indexes have drifted. Drop changed or unexpected indexes by hand, then run `npm run db:indexes`.')
+      process.exitCode = 1
+    } else {
+      console.log('✅ Indexes match the declared specs')
+    }
+  } catch (error) {
+    console.error('❌ Index check failed:', error)
+    process.exitCode = 1
+  } finally {
+    await closeDb()
+  }
+}
+
+main()
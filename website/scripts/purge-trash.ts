@@ -0,0 +1,27 @@
+import { getDb, closeDb } from '../lib/db/mongodb'
+import { purgeDeletedPrompts } from '../lib/db/models/prompt'
+import { getPurgeCutoff, getTrashRetentionDays } from '../lib/utils/trash'
+
+// Run on a schedule (e.g. a daily cron) to empty expired trash
+async function purgeTrash() {
+  const retentionDays = getTrashRetentionDays()
+  const cutoff = getPurgeCutoff(new Date(), retentionDays)
+
+  console.log(`🗑️  Purging prompts deleted before ${cutoff.toISOString()} (${retentionDays} day retention)...`)
+
+  try {
+    await getDb()
+
+    const purged = await purgeDeletedPrompts(cutoff)
+
+    console.log('✅ Purge completed successfully!')
+    console.log(`   Permanently deleted ${purged} prompts`)
+  } catch (error) {
+    console.error('❌ Purge failed:', error)
+    process.exit(1)
+  } finally {
+    await closeDb()
+  }
+}
+
+purgeTrash()
@@ -0,0 +1,26 @@
+import { getDb, closeDb } from '../lib/db/mongodb'
+import { refreshTrendingScores } from '../lib/db/models/prompt'
+import { TRENDING_HALF_LIFE_HOURS, TRENDING_WINDOW_DAYS } from '../lib/utils/trending'
+
+// Run on a schedule (e.g. an hourly cron) to keep trending and period rankings current
+async function refreshTrending() {
+  console.log(
+    `📈 Refreshing trending scores (${TRENDING_WINDOW_DAYS} day window, ${TRENDING_HALF_LIFE_HOURS} hour half-life)...`
+  )
+
+  try {
+    await getDb()
+
+    const { active, reset } = await refreshTrendingScores()
+
+    console.log('✅ Refresh completed successfully!')
+    console.log(`   Scored ${active} prompts with recent engagement, reset ${reset} to 0`)
+  } catch (error) {
+    console.error('❌ Refresh failed:', error)
+    process.exit(1)
+  } finally {
+    await closeDb()
+  }
+}
+
+refreshTrending()
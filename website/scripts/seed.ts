@@ -1,6 +1,9 @@
 import { getDb, closeDb } from '../lib/db/mongodb'
 import seedData from '../../seed-data.json'
 import { ObjectId } from 'mongodb'
+import { syncVariables } from '../lib/utils/template-variables'
+import { normalizeTags } from '../lib/utils/tags'
+import { backfillSearchFields } from '../lib/db/models/prompt'
 
 async function seed() {
   console.log('🌱 Starting database seed...')
@@ -17,7 +20,11 @@ async function seed() {
       ...prompt,
       _id: new ObjectId(),
       authorId: new ObjectId(), // Generate new ObjectIds for users
+      status: 'published',
+      replacementPromptId: null,
       parentPromptId: prompt.parentPromptId ? new ObjectId() : null,
+      tags: normalizeTags(prompt.tags),
+      variables: syncVariables(prompt.promptContent),
       starredBy: [],
       createdAt: new Date(prompt.createdAt),
       updatedAt: new Date(prompt.updatedAt),
@@ -27,6 +34,10 @@ async function seed() {
     console.log(`📝 Inserting ${prompts.length} prompts...`)
     await db.collection('prompts').insertMany(prompts)
 
+    // Embeddings and duplicate signatures for semantic search and similar prompts
+    console.log('🧮 Computing search fields...')
+    await backfillSearchFields()
+
     console.log('✅ Seed completed successfully!')
     console.log(`   Inserted ${prompts.length} prompts`)
 
@@ -0,0 +1,14 @@
+import { ObjectId } from 'mongodb'
+import type { AccessPolicy } from '@/lib/validations/access-policy'
+
+/**
+ * The sign-in access policy admins have saved (one document in `settings`).
+ * Until one is saved, the ALLOWED_WEBEX_ORG_IDS / ALLOWED_EMAIL_DOMAINS
+ * allowlists apply.
+ */
+export interface AccessPolicySettings {
+  _id: 'access_policy'
+  policy: AccessPolicy
+  updatedAt: Date
+  updatedBy: { id: ObjectId; name: string }
+}
@@ -0,0 +1,36 @@
+import { ObjectId } from 'mongodb'
+
+/**
+ * Who can see a collection:
+ * - private: the owner and collaborators
+ * - org: anyone signed in to the workspace
+ * - public: anyone with the link, signed in or not
+ */
+export type CollectionVisibility = 'private' | 'org' | 'public'
+
+export interface CollectionCollaborator {
+  userId: ObjectId
+  name: string
+  email: string
+}
+
+export interface Collection {
+  _id: ObjectId
+  name: string
+  description: string
+  visibility: CollectionVisibility
+  ownerId: ObjectId
+  ownerName: string
+  /** Users who may add, remove and reorder prompts */
+  collaborators: CollectionCollaborator[]
+  /** Prompts in display order */
+  promptIds: ObjectId[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CollectionFormData {
+  name: string
+  description: string
+  visibility: CollectionVisibility
+}
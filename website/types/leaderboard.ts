@@ -0,0 +1,26 @@
+import { ObjectId } from 'mongodb'
+import type { ScoringConfig } from '@/lib/validations/leaderboard'
+
+/**
+ * The leaderboard scoring config admins have saved (one document in `settings`)
+ */
+export interface ScoringSettings {
+  _id: 'leaderboard_scoring'
+  config: ScoringConfig
+  updatedAt: Date
+  updatedBy: { id: ObjectId; name: string }
+}
+
+/**
+ * A prompt's place in a previewed ranking, compared with the saved config
+ */
+export interface LeaderboardPreviewEntry {
+  id: string
+  title: string
+  authorName: string
+  category: string
+  score: number
+  rank: number
+  /** Rank under the saved config, null if it was not in the top results */
+  previousRank: number | null
+}
@@ -5,9 +5,9 @@
  * This provides full TypeScript IntelliSense and type safety for auth throughout the app.
  *
  * Custom Fields Added:
- * - Session.user: id, provider, orgId, webexId
+ * - Session.user: id, provider, orgId, webexId, role
  * - Session: accessToken, error
- * - JWT: provider, userId, accessToken, refreshToken, expiresAt, orgId, webexId, error
+ * - JWT: provider, userId, accessToken, refreshToken, expiresAt, orgId, webexId, role, roleCheckedAt, error
  *
  * Usage:
  * ```typescript
@@ -22,6 +22,7 @@
 
 import { DefaultSession, DefaultUser } from 'next-auth'
 import { DefaultJWT } from 'next-auth/jwt'
+import type { Role } from '@/lib/auth/permissions'
 
 declare module 'next-auth' {
   /**
@@ -37,6 +38,8 @@ declare module 'next-auth' {
       orgId: string
       /** Webex user ID (unique identifier from Webex API) */
       webexId: string
+      /** Access role (member, curator or admin) */
+      role: Role
     } & DefaultSession['user']
 
     /** Webex OAuth access token (for API calls) */
@@ -76,6 +79,10 @@ declare module 'next-auth/jwt' {
     orgId: string
     /** Webex user ID (unique identifier from Webex API) */
     webexId: string
+    /** Access role, re-read from the database periodically */
+    role?: Role
+    /** When the role was last read from the database (Unix time in milliseconds) */
+    roleCheckedAt?: number
     /** Error state for JWT (e.g., 'RefreshAccessTokenError') */
     error?: 'RefreshAccessTokenError'
   }
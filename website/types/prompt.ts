@@ -1,6 +1,27 @@
 import { ObjectId } from 'mongodb'
 import type { Category } from '@/lib/constants'
 
+export type PromptVariableType = 'text' | 'multiline' | 'enum'
+
+/**
+ * A `{{NAME}}` placeholder declared on a prompt, filled in before copying
+ */
+export interface PromptVariable {
+  name: string
+  description: string
+  defaultValue: string
+  required: boolean
+  type: PromptVariableType
+  /** Allowed values for `enum` variables */
+  options: string[]
+}
+
+/**
+ * Prompt lifecycle. Drafts are only visible to their author; archived and
+ * deprecated prompts stay readable but point to a recommended replacement.
+ */
+export type PromptStatus = 'draft' | 'published' | 'archived' | 'deprecated'
+
 export interface Prompt {
   _id: ObjectId
   title: string
@@ -9,10 +30,20 @@ export interface Prompt {
   category: Category
   tags: string[]
   outputFormat: 'markdown' | 'json'
+  /** Declared template variables (missing on prompts created before variables existed) */
+  variables?: PromptVariable[]
   authorId: ObjectId
   authorName: string
   isPublic: boolean
+  /** Lifecycle status (missing on prompts created before drafts existed: published) */
+  status?: PromptStatus
+  /** Recommended alternative for archived or deprecated prompts */
+  replacementPromptId?: ObjectId | null
   parentPromptId: ObjectId | null
+  /** Set on forks whose original was permanently deleted (parentPromptId is then null) */
+  parentPurgedAt?: Date | null
+  /** Parent version this fork was taken from or last synced with (missing on older forks: 1) */
+  forkedFromVersion?: number
   forkCount: number
   viewCount: number
   starCount: number
@@ -20,6 +51,49 @@ export interface Prompt {
   versionNumber: number
   createdAt: Date
   updatedAt: Date
+  /** Set while the prompt is in the trash */
+  deletedAt?: Date | null
+  /** User who moved the prompt to the trash */
+  deletedBy?: ObjectId | null
+  /** Vector for semantic search (missing until computed, never sent to clients) */
+  embedding?: number[]
+  /** Provider id the embedding was computed with */
+  embeddingModel?: string
+  /** MinHash signature of the content, for near-duplicate detection */
+  contentSignature?: number[]
+  /** Indexed band keys of `contentSignature` */
+  contentBands?: string[]
+  /** Decayed recent engagement, refreshed on a schedule (see lib/utils/trending) */
+  trendingScore?: number
+  /** Engagement per leaderboard period (trending counts are decayed), refreshed with the trending score */
+  engagement?: Record<EngagementPeriod | 'trending', EngagementCounts>
+  /** When the engagement scores were last refreshed */
+  trendingUpdatedAt?: Date
+}
+
+/**
+ * Stars (net of unstars), forks and views, the inputs of the leaderboard score
+ */
+export interface EngagementCounts {
+  stars: number
+  forks: number
+  views: number
+}
+
+export type EngagementPeriod = 'week' | 'month'
+
+export type PromptEventType = 'view' | 'star' | 'unstar' | 'fork'
+
+/**
+ * A dated engagement event, kept for the longest leaderboard period
+ */
+export interface PromptEvent {
+  _id: ObjectId
+  promptId: ObjectId
+  type: PromptEventType
+  /** Who caused it, null for anonymous views */
+  userId: ObjectId | null
+  createdAt: Date
 }
 
 export interface PromptFormData {
@@ -29,6 +103,7 @@ export interface PromptFormData {
   category: Category
   tags: string[]
   outputFormat: 'markdown' | 'json'
+  variables: PromptVariable[]
   isPublic: boolean
 }
 
@@ -36,7 +111,135 @@ export interface PromptFilters {
   search?: string
   category?: Category
   tags?: string[]
-  sort?: 'newest' | 'popular' | 'views'
+  /** Match prompts with any of the tags (default) or all of them */
+  tagMode?: 'any' | 'all'
+  outputFormat?: 'markdown' | 'json'
+  authorId?: string
+  /** Only prompts created on or after this date */
+  createdAfter?: Date
+  sort?: 'newest' | 'popular' | 'views' | 'trending'
+  /** Rank search results by meaning (embeddings) blended with the text score */
+  semantic?: boolean
   limit?: number
-  skip?: number
+  /** Opaque cursor from a previous page's `nextCursor` */
+  cursor?: string
+}
+
+/**
+ * A tag and the number of listed prompts using it
+ */
+export interface TagCount {
+  tag: string
+  count: number
+}
+
+/**
+ * Number of listed prompts matching one facet value
+ */
+export interface FacetCount {
+  value: string
+  /** Display name when it differs from the value (e.g. author names) */
+  label?: string
+  count: number
+}
+
+/**
+ * Result counts per facet for the current browse query
+ */
+export interface PromptFacets {
+  categories: FacetCount[]
+  tags: FacetCount[]
+  outputFormats: FacetCount[]
+  authors: FacetCount[]
+  /** Keyed by date bucket (`week`, `month`, `year`) */
+  dateBuckets: FacetCount[]
+}
+
+/**
+ * A prompt ranked by how similar it is to another, with the similarity (0 to 1)
+ */
+export type SimilarPrompt = Prompt & { similarity: number }
+
+/**
+ * One page of a cursor-paginated prompt listing
+ */
+export interface PromptPage {
+  prompts: Prompt[]
+  /** Cursor for the following page, null on the last page */
+  nextCursor: string | null
+  /** Number of prompts matching the filters across all pages */
+  total: number
+}
+
+/**
+ * Immutable snapshot of a prompt's editable content, stored in the
+ * `prompt_revisions` collection every time the prompt changes.
+ */
+export interface PromptRevision {
+  _id: ObjectId
+  promptId: ObjectId
+  versionNumber: number
+  title: string
+  description: string
+  promptContent: string
+  category: Category
+  tags: string[]
+  outputFormat: 'markdown' | 'json'
+  variables?: PromptVariable[]
+  editorId: ObjectId | null
+  editorName: string
+  changeNote: string
+  /** Version this revision was restored from, if it was created by a restore */
+  restoredFromVersion: number | null
+  createdAt: Date
+}
+
+/**
+ * Fields captured in every revision snapshot
+ */
+export type RevisionSnapshot = Pick<
+  PromptRevision,
+  'title' | 'description' | 'promptContent' | 'category' | 'tags' | 'outputFormat' | 'variables'
+>
+
+/**
+ * Lineage fields loaded for each prompt in a fork tree
+ */
+export type LineagePrompt = Pick<
+  Prompt,
+  | '_id'
+  | 'title'
+  | 'authorId'
+  | 'authorName'
+  | 'isPublic'
+  | 'status'
+  | 'deletedAt'
+  | 'parentPromptId'
+  | 'starCount'
+  | 'forkCount'
+  | 'createdAt'
+>
+
+/**
+ * A prompt in a fork tree, serialized for rendering.
+ * Redacted nodes belong to private prompts the viewer cannot see.
+ */
+export interface PromptLineageNode {
+  id: string
+  parentId: string | null
+  redacted: boolean
+  title: string | null
+  authorName: string | null
+  starCount: number
+  forkCount: number
+  createdAt: string
+  children: PromptLineageNode[]
+}
+
+/**
+ * Ancestors (root first) and the descendant tree rooted at the current prompt
+ */
+export interface PromptLineage {
+  ancestors: PromptLineageNode[]
+  tree: PromptLineageNode
 }
@@ -0,0 +1,38 @@
+import { ObjectId } from 'mongodb'
+import type { PromptListFilters } from '@/lib/validations/prompt'
+
+/**
+ * A user's last few searches, most recent first (one document per user)
+ */
+export interface RecentSearches {
+  _id: ObjectId
+  userId: ObjectId
+  queries: string[]
+  updatedAt: Date
+}
+
+/**
+ * A named browse query (search text, filters and sort) that can be re-run from the library
+ */
+export interface SavedSearch {
+  _id: ObjectId
+  userId: ObjectId
+  name: string
+  filters: PromptListFilters
+  createdAt: Date
+}
+
+export type SearchSuggestionType = 'title' | 'tag' | 'author' | 'category' | 'recent' | 'saved'
+
+/**
+ * An entry in the search box dropdown. Choosing it either replaces the
+ * search text with `query` or opens `href`.
+ */
+export interface SearchSuggestion {
+  type: SearchSuggestionType
+  label: string
+  query?: string
+  href?: string
+  /** Number of listed prompts, for tags and authors */
+  count?: number
+}
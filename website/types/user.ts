@@ -1,4 +1,5 @@
 import { ObjectId } from 'mongodb'
+import type { Role } from '@/lib/auth/permissions'
 
 /**
  * User Document Schema for MongoDB
@@ -11,6 +12,9 @@ import { ObjectId } from 'mongodb'
  *
  * Custom Webex OAuth Fields (added via adapter):
  * - webexId, orgId, provider
+ *
+ * App Fields:
+ * - role, roleUpdatedAt, roleUpdatedBy
  */
 export interface User {
   /** MongoDB ObjectId (primary key) */
@@ -37,6 +41,15 @@ export interface User {
   /** OAuth provider (always 'webex' for this app) */
   provider: 'webex'
 
+  /** Access role (missing means member) */
+  role?: Role
+
+  /** When the role was last granted or revoked */
+  roleUpdatedAt?: Date
+
+  /** Who last changed the role (null when promoted from ADMIN_EMAILS) */
+  roleUpdatedBy?: { id: ObjectId; name: string } | null
+
   /** User creation timestamp */
   createdAt?: Date
 
@@ -72,4 +85,5 @@ export interface UserSession {
   provider: 'webex'
   orgId: string
   webexId: string
+  role: Role
 }